@@ -8,8 +8,30 @@ import { IRenderer } from './types';
 import {
   VisualizerConfig,
   PresetConfig,
+  PresetInput,
   ColorPoint,
+  ColorPointInput,
+  ColorVisualizerEventMap,
+  ExportOptions,
 } from './types';
+import { TypedEventEmitter } from './utils/eventEmitter';
+import {
+  ImageSource,
+  ImageSamplingOptions,
+  PaletteOptions,
+  PixelBin,
+  binImagePixels,
+  binPixelData,
+  extractPalette,
+  pixelBinsToColorPoints,
+  readImageData,
+} from './utils/imagePalette';
+import { ToleranceOptions, ToleranceResult, evaluateTolerance } from './utils/colorDifference';
+import type { CvdOptions } from './utils/colorVisionDeficiency';
+import type { GamutMappingMethod } from './utils/gamutMapping';
+import { HarmonyOptions, generateHarmony } from './utils/colorHarmony';
+import { resolveColorPoint } from './utils/cssColor';
+import type { ColorWorkerPool } from './workers/ColorWorkerPool';
 
 /** Fallback size when container has no layout (e.g. not yet visible). */
 const DEFAULT_FALLBACK_WIDTH = 800;
@@ -47,6 +69,11 @@ export class ColorVisualizer {
   private config: VisualizerConfig;
   public currentPreset: PresetConfig | null = null;
   private resizeObserver: ResizeObserver | null = null;
+  private pixelBins: PixelBin[] | null = null;
+  private colorVisionDeficiency: CvdOptions | null = null;
+  private gamutMapping: GamutMappingMethod | null = null;
+  private workerPool: ColorWorkerPool | null = null;
+  private events = new TypedEventEmitter<ColorVisualizerEventMap>();
 
   constructor(container: HTMLElement | string, config?: Partial<VisualizerConfig>) {
     // Resolve container
@@ -96,32 +123,164 @@ export class ColorVisualizer {
   }
 
   /**
-   * Render a preset visualization
+   * Render a preset visualization; points may be given as CSS color strings
    */
-  render(preset: PresetConfig): void {
+  render(preset: PresetConfig | PresetInput): void {
     if (!this.renderer) {
       throw new Error('Renderer not initialized');
     }
 
     // Update renderer if mode changed
     if (preset.config?.mode && preset.config.mode !== this.config.mode) {
-      this.config.mode = preset.config.mode;
-      this.initializeRenderer();
+      this.switchMode(preset.config.mode);
     }
 
-    this.currentPreset = preset;
-    this.renderer.render(preset);
+    const { points, ...rest } = preset;
+    const resolved: PresetConfig = { ...rest };
+    if (points) {
+      resolved.points = this.resolvePoints(points, resolved);
+    }
+    this.currentPreset = resolved;
+    this.renderer!.render(resolved);
+    this.events.emit('render', { preset: resolved, mode: this.config.mode });
   }
 
   /**
-   * Update visualization with new color points
+   * Update visualization with new color points; CSS color strings are mapped into the current
+   * preset's color space
    */
-  update(points: ColorPoint[]): void {
+  update(points: ColorPointInput[]): void {
     if (!this.renderer) {
       throw new Error('Renderer not initialized');
     }
 
-    this.renderer.update(points);
+    this.renderer.update(
+      this.currentPreset
+        ? this.resolvePoints(points, this.currentPreset)
+        : points.filter((point): point is ColorPoint => typeof point !== 'string')
+    );
+  }
+
+  /**
+   * Turn CSS color strings (and points with a non-hex color) into points in the preset's color
+   * space; strings that are not colors are dropped
+   */
+  private resolvePoints(points: ColorPointInput[], preset: PresetConfig): ColorPoint[] {
+    return points
+      .map((point) => resolveColorPoint(point, preset, this.gamutMapping ?? 'css4'))
+      .filter((point): point is ColorPoint => point !== null);
+  }
+
+  /**
+   * Plot an image's pixels as a density cloud (2D views and 3D) in the current color space.
+   * Pixels are binned into a histogram (or sampled) first; bigger markers mean more pixels.
+   * Returns the plotted points in the current preset's color space (RGB when no preset is set).
+   */
+  plotImage(source: ImageSource, options: ImageSamplingOptions = {}): ColorPoint[] {
+    this.pixelBins = binImagePixels(source, options);
+    if (this.renderer && 'setPixelCloud' in this.renderer) {
+      (this.renderer as any).setPixelCloud(this.pixelBins);
+    }
+    return pixelBinsToColorPoints(this.pixelBins, this.currentPreset?.colorSpace, this.currentPreset ?? undefined);
+  }
+
+  /**
+   * Remove the image pixel cloud
+   */
+  clearImage(): void {
+    this.pixelBins = null;
+    if (this.renderer && 'setPixelCloud' in this.renderer) {
+      (this.renderer as any).setPixelCloud(null);
+    }
+  }
+
+  /**
+   * Extract an image palette (k-means or median cut) as color points in the current color space
+   */
+  extractPalette(source: ImageSource, options: PaletteOptions = {}): ColorPoint[] {
+    return extractPalette(source, { colorSpace: this.currentPreset?.colorSpace, ...options });
+  }
+
+  /**
+   * plotImage with the pixels binned in the worker pool (see setWorkerPool); the pixels are read
+   * on the main thread, so images must be loaded
+   */
+  async plotImageAsync(source: ImageSource, options: ImageSamplingOptions = {}): Promise<ColorPoint[]> {
+    const pixels = readImageData(source, options.maxDimension ?? 256).data;
+    const bins = this.workerPool
+      ? await this.workerPool.binPixels(pixels, options)
+      : binPixelData(pixels, options);
+    this.pixelBins = bins;
+    if (this.renderer && 'setPixelCloud' in this.renderer) {
+      (this.renderer as any).setPixelCloud(bins);
+    }
+    return pixelBinsToColorPoints(bins, this.currentPreset?.colorSpace, this.currentPreset ?? undefined);
+  }
+
+  /**
+   * extractPalette run in the worker pool (see setWorkerPool)
+   */
+  async extractPaletteAsync(source: ImageSource, options: PaletteOptions = {}): Promise<ColorPoint[]> {
+    const { colorSpace = this.currentPreset?.colorSpace, ...rest } = options;
+    const pixels = readImageData(source, options.maxDimension ?? 256).data;
+    if (!this.workerPool) {
+      return extractPalette(binPixelData(pixels, { ...rest, mode: 'bin' }), { ...rest, colorSpace });
+    }
+    // The worker returns RGB values; spaces registered on this thread are converted here
+    const palette = await this.workerPool.extractPalette(pixels, rest);
+    return palette.map((point) => ({
+      ...point,
+      values: pixelBinsToColorPoints(
+        [{ rgb: point.values as [number, number, number], count: 1, weight: 1 }],
+        colorSpace
+      )[0].values,
+    }));
+  }
+
+  /**
+   * Export the current view: PNG/JPEG as a data URL (2D and 3D), or SVG markup (2D only).
+   * For an SVG without a visible visualizer, use exportPreset.
+   */
+  export(options: ExportOptions = {}): string {
+    if (!this.renderer) {
+      throw new Error('Renderer not initialized');
+    }
+    if (!this.renderer.exportImage) {
+      throw new Error('The current renderer does not support export.');
+    }
+    return this.renderer.exportImage(options);
+  }
+
+  /**
+   * Listen for an event: 'hover'/'click' report the color under the pointer, 'pointhover',
+   * 'pointclick' and 'select' report color points, 'pointchange' dragged markers (2D), and
+   * 'render', 'resize' and 'modechange' the visualizer itself
+   */
+  on<K extends keyof ColorVisualizerEventMap>(
+    type: K,
+    listener: (event: ColorVisualizerEventMap[K]) => void
+  ): void {
+    this.events.on(type, listener);
+  }
+
+  /**
+   * Stop listening (omit the listener to remove all listeners of the type)
+   */
+  off<K extends keyof ColorVisualizerEventMap>(
+    type: K,
+    listener?: (event: ColorVisualizerEventMap[K]) => void
+  ): void {
+    this.events.off(type, listener);
+  }
+
+  /**
+   * Listen for the next occurrence of an event only
+   */
+  once<K extends keyof ColorVisualizerEventMap>(
+    type: K,
+    listener: (event: ColorVisualizerEventMap[K]) => void
+  ): void {
+    this.events.once(type, listener);
   }
 
   /**
@@ -135,17 +294,19 @@ export class ColorVisualizer {
     this.config.width = width;
     this.config.height = height;
     this.renderer.resize(width, height);
+    this.events.emit('resize', { width, height });
   }
 
   /**
    * Update configuration
    */
   setConfig(config: Partial<VisualizerConfig>): void {
-    this.config = { ...this.config, ...config };
+    const previousMode = this.config.mode;
+    this.config = { ...this.config, ...config, mode: previousMode };
 
     // Reinitialize if mode changed
-    if (config.mode && config.mode !== this.config.mode) {
-      this.initializeRenderer();
+    if (config.mode && config.mode !== previousMode) {
+      this.switchMode(config.mode);
       // Re-render current preset if exists
       if (this.currentPreset) {
         this.render(this.currentPreset);
@@ -214,6 +375,169 @@ export class ColorVisualizer {
     }
   }
 
+  /**
+   * Update color plane configuration (2D only, OKLab/OKLCh slices)
+   */
+  updateColorPlane(config: Partial<import('./components/types').ColorPlaneConfig>): void {
+    if (this.renderer && 'updateColorPlane' in this.renderer) {
+      (this.renderer as any).updateColorPlane(config);
+    }
+  }
+
+  /**
+   * Draw chromaticity views as CIE 1931 xy or CIE 1976 u′v′ (2D only; null uses the preset's
+   * custom.chromaticityDiagram)
+   */
+  setChromaticityDiagram(diagram: import('./types').ChromaticityDiagram | null): void {
+    if (this.renderer && 'setChromaticityDiagram' in this.renderer) {
+      (this.renderer as any).setChromaticityDiagram(diagram);
+    }
+  }
+
+  /**
+   * Show everything as seen with a color vision deficiency (2D backgrounds, wheels, planes and
+   * markers; 3D solids, RGB cube and points); null for normal vision. Kept across mode switches.
+   */
+  setColorVisionDeficiency(options: CvdOptions | null): void {
+    this.colorVisionDeficiency = options;
+    if (this.renderer && 'setColorVisionDeficiency' in this.renderer) {
+      (this.renderer as any).setColorVisionDeficiency(options);
+    }
+  }
+
+  /**
+   * Method used to map point values outside sRGB to displayable colors (ColorPoint.mappedColor);
+   * default 'css4'. Kept across mode switches.
+   */
+  setGamutMapping(method: GamutMappingMethod): void {
+    this.gamutMapping = method;
+    if (this.renderer && 'setGamutMapping' in this.renderer) {
+      (this.renderer as any).setGamutMapping(method);
+    }
+  }
+
+  /**
+   * Use a worker pool for the CIE background grid and for plotImageAsync/extractPaletteAsync;
+   * null to work on the main thread. Kept across mode switches; the pool is not destroyed here.
+   */
+  setWorkerPool(pool: ColorWorkerPool | null): void {
+    this.workerPool = pool;
+    if (this.renderer && 'setWorkerPool' in this.renderer) {
+      (this.renderer as any).setWorkerPool(pool);
+    }
+  }
+
+  /**
+   * Update gradient path configuration (2D polylines and strips, 3D tubes)
+   */
+  updateGradientPath(config: Partial<import('./components/types').GradientPathConfig>): void {
+    if (this.renderer && 'updateGradientPath' in this.renderer) {
+      (this.renderer as any).updateGradientPath(config);
+    }
+  }
+
+  /**
+   * Update color harmony overlay configuration (2D only; spokes and polygon on hue wheels)
+   */
+  updateHarmony(config: Partial<import('./components/types').HarmonyConfig>): void {
+    if (this.renderer && 'updateHarmony' in this.renderer) {
+      (this.renderer as any).updateHarmony(config);
+    }
+  }
+
+  /**
+   * Harmony of a current point (options.base, default 0) in the preset's color space, the base first
+   */
+  getHarmony(options: HarmonyOptions & { base?: number } = {}): ColorPoint[] {
+    const base = this.currentPreset?.points?.[options.base ?? 0];
+    if (!this.currentPreset || !base) return [];
+    return generateHarmony(base.values, this.currentPreset, options);
+  }
+
+  /**
+   * Update CVD confusion line configuration (2D only, CIE diagram)
+   */
+  updateConfusionLines(config: Partial<import('./components/types').ConfusionLinesConfig>): void {
+    if (this.renderer && 'updateConfusionLines' in this.renderer) {
+      (this.renderer as any).updateConfusionLines(config);
+    }
+  }
+
+  /**
+   * Update contrast overlay configuration (2D only)
+   */
+  updateContrastOverlay(config: Partial<import('./components/types').ContrastOverlayConfig>): void {
+    if (this.renderer && 'updateContrastOverlay' in this.renderer) {
+      (this.renderer as any).updateContrastOverlay(config);
+    }
+  }
+
+  /**
+   * Update white point marker configuration (2D only, CIE diagram)
+   */
+  updateWhitePointMarkers(config: Partial<import('./components/types').WhitePointMarkerConfig>): void {
+    if (this.renderer && 'updateWhitePointMarkers' in this.renderer) {
+      (this.renderer as any).updateWhitePointMarkers(config);
+    }
+  }
+
+  /**
+   * Update Planckian locus overlay configuration (2D only, CIE diagram: blackbody curve,
+   * isotherms, daylight locus; hovering a point then shows its CCT and Duv)
+   */
+  updatePlanckianLocus(config: Partial<import('./components/types').PlanckianLocusConfig>): void {
+    if (this.renderer && 'updatePlanckianLocus' in this.renderer) {
+      (this.renderer as any).updatePlanckianLocus(config);
+    }
+  }
+
+  /**
+   * Update the dominant wavelength construction on the CIE diagram (2D only)
+   */
+  updateDominantWavelength(config: Partial<import('./components/types').DominantWavelengthConfig>): void {
+    if (this.renderer && 'updateDominantWavelength' in this.renderer) {
+      (this.renderer as any).updateDominantWavelength(config);
+    }
+  }
+
+  /**
+   * Update the ΔE tolerance region (2D: contour in the reference's lightness plane and pass/fail
+   * rings; 3D: ellipsoid and pass/fail point colors)
+   */
+  updateTolerance(config: Partial<import('./components/types').ToleranceConfig>): void {
+    if (this.renderer && 'updateTolerance' in this.renderer) {
+      (this.renderer as any).updateTolerance(config);
+    }
+  }
+
+  /**
+   * Compare the current points with the reference point (ΔE and pass/fail per point)
+   */
+  checkTolerance(options: ToleranceOptions = {}): ToleranceResult[] {
+    const preset = this.currentPreset;
+    return preset ? evaluateTolerance(preset.points || [], preset, options) : [];
+  }
+
+  /**
+   * Update 3D point cloud configuration (3D only: sphere radius, labels)
+   */
+  updatePointCloud(config: Partial<import('./renderers/ColorPointCloud').PointCloudConfig>): void {
+    if (this.renderer && 'updatePointCloud' in this.renderer) {
+      (this.renderer as any).updatePointCloud(config);
+    }
+  }
+
+  /**
+   * Update pixel cloud configuration (2D: dot sizes and opacity; 3D: sphere radius)
+   */
+  updatePixelCloud(
+    config: Partial<import('./components/types').PixelCloudConfig> | Partial<import('./renderers/ColorPointCloud').PointCloudConfig>
+  ): void {
+    if (this.renderer && 'updatePixelCloud' in this.renderer) {
+      (this.renderer as any).updatePixelCloud(config);
+    }
+  }
+
   /**
    * Destroy the visualizer and clean up resources
    */
@@ -225,6 +549,17 @@ export class ColorVisualizer {
     }
     this.container = null;
     this.currentPreset = null;
+    this.events.clear();
+  }
+
+  /**
+   * Replace the renderer for a new mode and report the change
+   */
+  private switchMode(mode: VisualizerConfig['mode']): void {
+    const previousMode = this.config.mode;
+    this.config.mode = mode;
+    this.initializeRenderer();
+    this.events.emit('modechange', { mode, previousMode });
   }
 
   /**
@@ -249,6 +584,37 @@ export class ColorVisualizer {
 
     // Initialize renderer
     this.renderer.init(this.container, this.config);
+    this.renderer.setEventHandler?.((type, event) => this.handleRendererEvent(type, event));
+
+    // Carry the image pixel cloud over to the new renderer
+    if (this.pixelBins && 'setPixelCloud' in this.renderer) {
+      (this.renderer as any).setPixelCloud(this.pixelBins);
+    }
+    if (this.colorVisionDeficiency && 'setColorVisionDeficiency' in this.renderer) {
+      (this.renderer as any).setColorVisionDeficiency(this.colorVisionDeficiency);
+    }
+    if (this.gamutMapping && 'setGamutMapping' in this.renderer) {
+      (this.renderer as any).setGamutMapping(this.gamutMapping);
+    }
+    if (this.workerPool && 'setWorkerPool' in this.renderer) {
+      (this.renderer as any).setWorkerPool(this.workerPool);
+    }
+  }
+
+  /**
+   * Forward a renderer event to listeners, keeping currentPreset in sync with dragged points
+   */
+  private handleRendererEvent<K extends keyof ColorVisualizerEventMap>(
+    type: K,
+    event: ColorVisualizerEventMap[K]
+  ): void {
+    if (type === 'pointchange' && this.currentPreset?.points) {
+      const { point, index } = event as ColorVisualizerEventMap['pointchange'];
+      const points = [...this.currentPreset.points];
+      points[index] = point;
+      this.currentPreset = { ...this.currentPreset, points };
+    }
+    this.events.emit(type, event);
   }
 
   /**
@@ -3,23 +3,39 @@
  */
 
 import { getColorSpace, getValuesForSpace } from './channelConfig';
+import type { LuminanceMode } from './channelConfig';
 import { createChannelSlider, computeDependentGradient } from './createSlider';
-import { valuesToHex } from './valuesToHex';
+import { cssToValues, hexToRgb, valuesInGamut, valuesToHex } from './valuesToHex';
+import { cssColorToRgb } from '../utils/cssColor';
+import { apcaContrast, wcagContrast } from '../utils/colorConversion';
+import { createCvdTransform, transformCssColors } from '../utils/colorVisionDeficiency';
+import type { CvdOptions } from '../utils/colorVisionDeficiency';
+import type { GamutMappingMethod } from '../utils/gamutMapping';
+import type { YcbcrEncoding } from '../types';
 
 export interface ColorChannelVisualizerOptions {
   colorSpace?: string;
-  values?: Record<string, number>;
+  values?: Record<string, number> | string; // Channel values, or any CSS color string mapped into the color space
   onChange?: (values: Record<string, number>) => void;
   onChannelChange?: (channelKey: string, value: number) => void;
   showPreview?: boolean;
   layout?: 'vertical' | 'horizontal';
+  colorVisionDeficiency?: CvdOptions | null; // Show preview and tracks as seen with this deficiency
+  contrastBackground?: string | null; // CSS color; shows a WCAG/APCA readout of the color as text on it
+  gamutMapping?: GamutMappingMethod; // How the preview shows colors outside sRGB (default 'css4')
+  showOutOfGamut?: boolean; // Mark the preview and hatch track stretches outside sRGB (default true)
+  luminanceMode?: LuminanceMode; // 'absolute' reads HDR luminance channels (ICtCp I, Jz) in cd/m² (default 'relative')
+  ycbcr?: YcbcrEncoding; // YCbCr matrix and code range; sets the Y/Cb/Cr slider ranges (default BT.601, limited range)
 }
 
 export interface ColorChannelVisualizerInstance {
   getElement(): HTMLElement;
   getColorSpace(): string;
   getValues(): Record<string, number>;
-  setValues(newValues: Record<string, number>): void;
+  setValues(newValues: Record<string, number> | string): void;
+  setColorVisionDeficiency(options: CvdOptions | null): void;
+  setContrastBackground(background: string | null): void;
+  setLuminanceMode(mode: LuminanceMode): void;
   destroy(): void;
 }
 
@@ -29,13 +45,29 @@ export function ColorChannelVisualizer(
 ): ColorChannelVisualizerInstance {
   const opts = options;
   const colorSpaceKey = opts.colorSpace || 'RGB';
-  const space = getColorSpace(colorSpaceKey);
-  let values = getValuesForSpace(colorSpaceKey, opts.values);
+  const conversion = { ycbcr: opts.ycbcr };
+  const space = getColorSpace(colorSpaceKey, opts.ycbcr);
+  let values = getValuesForSpace(
+    colorSpaceKey,
+    typeof opts.values === 'string' ? cssToValues(colorSpaceKey, opts.values, conversion) ?? undefined : opts.values
+  );
 
   const showPreview = opts.showPreview !== false;
   const layout = opts.layout || 'vertical';
   const onChange = opts.onChange;
   const onChannelChange = opts.onChannelChange;
+  let colorVisionDeficiency = opts.colorVisionDeficiency ?? null;
+  let colorTransform = colorVisionDeficiency ? createCvdTransform(colorVisionDeficiency) : null;
+  let contrastBackground = opts.contrastBackground ?? null;
+  const gamutMapping = opts.gamutMapping ?? 'css4';
+  const showOutOfGamut = opts.showOutOfGamut !== false;
+  const luminanceMode = opts.luminanceMode ?? 'relative';
+
+  // Preview color as drawn (simulated when a deficiency is set)
+  function previewColor(): string {
+    const hex = valuesToHex(colorSpaceKey, values, gamutMapping, conversion);
+    return colorTransform ? transformCssColors(hex, colorTransform) : hex;
+  }
 
   const root = document.createElement('div');
   root.className =
@@ -46,8 +78,55 @@ export function ColorChannelVisualizer(
     previewEl = document.createElement('div');
     previewEl.className = 'negarity-ccv__preview';
     previewEl.setAttribute('aria-label', 'Current color');
-    previewEl.style.backgroundColor = valuesToHex(colorSpaceKey, values);
     root.appendChild(previewEl);
+    updatePreview();
+  }
+
+  // Preview swatch, outlined while the values lie outside sRGB
+  function updatePreview() {
+    if (!previewEl) return;
+    previewEl.style.backgroundColor = previewColor();
+    previewEl.classList.toggle(
+      'negarity-ccv__preview--out-of-gamut',
+      showOutOfGamut && !valuesInGamut(colorSpaceKey, values, conversion)
+    );
+  }
+
+  let contrastEl: HTMLElement | null = null;
+  if (showPreview) {
+    contrastEl = document.createElement('div');
+    contrastEl.className = 'negarity-ccv__contrast';
+    contrastEl.setAttribute('aria-label', 'Contrast against background');
+    root.appendChild(contrastEl);
+    updateContrast();
+  }
+
+  // WCAG ratio (with the level it passes) and APCA Lc of the color as text on the background
+  function updateContrast() {
+    if (!contrastEl) return;
+    const background = contrastBackground ? cssColorToRgb(contrastBackground) : null;
+    const text = hexToRgb(valuesToHex(colorSpaceKey, values, gamutMapping, conversion));
+    if (!background || !text) {
+      contrastEl.hidden = true;
+      return;
+    }
+    const ratio = wcagContrast(text, background);
+    const level = ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : ratio >= 3 ? 'AA large' : 'Fail';
+    const lc = apcaContrast(text, background);
+    contrastEl.hidden = false;
+    contrastEl.style.backgroundColor = colorTransform
+      ? transformCssColors(contrastBackground!, colorTransform)
+      : contrastBackground!;
+    contrastEl.style.color = previewColor();
+    contrastEl.textContent = '';
+    [['Aa', 'sample'], [ratio.toFixed(2) + ':1 ' + level, 'wcag'], ['Lc ' + lc.toFixed(1), 'apca']].forEach(
+      ([label, part]) => {
+        const line = document.createElement('span');
+        line.className = 'negarity-ccv__contrast-' + part;
+        line.textContent = label;
+        contrastEl!.appendChild(line);
+      }
+    );
   }
 
   const slidersWrap = document.createElement('div');
@@ -64,12 +143,16 @@ export function ColorChannelVisualizer(
     rafId = null;
     const changedKey = pendingChangedKey;
     pendingChangedKey = null;
+    const changedIndex = space.channels.findIndex((ch) => ch.key === changedKey);
     notifyChange();
     sliders.forEach((s, i) => {
       const ch = space.channels[i];
       const dependsOnChanged = ch.dependsOn?.includes(changedKey ?? '');
       if (dependsOnChanged) {
         s.updateGradient();
+      } else if (i !== changedIndex) {
+        // Where a track leaves sRGB depends on every other channel
+        s.updateGamut();
       }
     });
   }
@@ -81,12 +164,13 @@ export function ColorChannelVisualizer(
 
   function getDependentGradient(channelKey: string, currentValues: Record<string, number>) {
     const ch = space.channels.find((c) => c.key === channelKey);
-    return computeDependentGradient(colorSpaceKey, channelKey, currentValues, ch) ?? null;
+    return computeDependentGradient(colorSpaceKey, channelKey, currentValues, ch, conversion) ?? null;
   }
 
   function notifyChange() {
     onChange?.({ ...values });
-    if (previewEl) previewEl.style.backgroundColor = valuesToHex(colorSpaceKey, values);
+    updatePreview();
+    updateContrast();
   }
 
   space.channels.forEach((channelDef) => {
@@ -98,6 +182,10 @@ export function ColorChannelVisualizer(
       colorSpace: colorSpaceKey,
       sliderId: idPrefix + key,
       getDependentGradient,
+      colorVisionDeficiency,
+      showOutOfGamut,
+      luminanceMode,
+      ycbcr: opts.ycbcr,
       onChange(newVal: number) {
         values[key] = newVal;
         onChannelChange?.(key, newVal);
@@ -119,7 +207,9 @@ export function ColorChannelVisualizer(
     getValues() {
       return { ...values };
     },
-    setValues(newValues: Record<string, number>) {
+    setValues(input: Record<string, number> | string) {
+      // CSS color strings are converted into the color space first
+      const newValues = typeof input === 'string' ? cssToValues(colorSpaceKey, input, conversion) : input;
       if (!newValues || typeof newValues !== 'object') return;
       space.channels.forEach((ch, i) => {
         if (newValues[ch.key] !== undefined) {
@@ -130,10 +220,25 @@ export function ColorChannelVisualizer(
       });
       // Refresh all slider track gradients (e.g. Lab a*/b*, YCbCr Cb/Cr) so they reflect the new color
       sliders.forEach((s) => s.updateGradient());
-      if (previewEl) previewEl.style.backgroundColor = valuesToHex(colorSpaceKey, values);
+      updatePreview();
+      updateContrast();
       // Do not call notifyChange() here: setValues is used when the parent syncs state back
       // (e.g. after updatePoint). Calling onChange would re-invoke updatePoint and cause a loop.
     },
+    setColorVisionDeficiency(options: CvdOptions | null) {
+      colorVisionDeficiency = options;
+      colorTransform = options ? createCvdTransform(options) : null;
+      sliders.forEach((s) => s.setColorVisionDeficiency(options));
+      updatePreview();
+      updateContrast();
+    },
+    setContrastBackground(background: string | null) {
+      contrastBackground = background;
+      updateContrast();
+    },
+    setLuminanceMode(mode: LuminanceMode) {
+      sliders.forEach((s) => s.setLuminanceMode(mode));
+    },
     destroy() {
       sliders.forEach((s) => s.destroy());
       root.remove();
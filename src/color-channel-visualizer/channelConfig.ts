@@ -2,6 +2,10 @@
  * Declarative color space and channel definitions for the Color Channel Visualizer.
  */
 
+import { getColorSpaceDefinition } from '../registry';
+import { getYcbcrRanges, jzToNits, pqEotf } from '../utils/colorConversion';
+import type { YcbcrEncoding } from '../types';
+
 export const CHANNEL_TYPES = {
   LINEAR: 'linear',
   CIRCULAR: 'circular',
@@ -19,14 +23,37 @@ export interface ChannelDef {
   unit?: string;
   dependsOn?: string[];
   gradient?: { minColor?: string; maxColor?: string; midColor?: string };
+  sampledHueRing?: boolean; // Circular-dependent: draw each hue with the other channels' values instead of the HSL/HSV overlay
+  toNits?: (value: number) => number; // Luminance (cd/m²) of a neutral with this value, shown in absolute-luminance mode
 }
 
+/**
+ * How luminance channels read: their own values, or absolute luminance in cd/m² (channels with toNits)
+ */
+export type LuminanceMode = 'relative' | 'absolute';
+
 export interface ColorSpaceDef {
   name: string;
   channels: ChannelDef[];
   defaultValues: Record<string, number>;
 }
 
+/**
+ * YCbCr slider definitions for an encoding: Y and Cb/Cr span the code range (limited by default)
+ */
+export function ycbcrChannels(encoding: YcbcrEncoding = {}): ColorSpaceDef {
+  const { y, c } = getYcbcrRanges(encoding);
+  return {
+    name: 'YCbCr',
+    channels: [
+      { key: 'y', label: 'Y', type: CHANNEL_TYPES.LINEAR, min: y[0], max: y[1], gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'cb', label: 'Cb', type: CHANNEL_TYPES.DEPENDENT_3, min: c[0], max: c[1], dependsOn: ['y'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'yellow' } },
+      { key: 'cr', label: 'Cr', type: CHANNEL_TYPES.DEPENDENT_3, min: c[0], max: c[1], dependsOn: ['y'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+    ],
+    defaultValues: { y: 128, cb: 128, cr: 128 },
+  };
+}
+
 export const COLOR_SPACES: Record<string, ColorSpaceDef> = {
   RGB: {
     name: 'RGB',
@@ -79,10 +106,73 @@ export const COLOR_SPACES: Record<string, ColorSpaceDef> = {
     channels: [
       { key: 'L', label: 'L*', type: CHANNEL_TYPES.LINEAR, min: 0, max: 100, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
       { key: 'C', label: 'C*', type: CHANNEL_TYPES.DEPENDENT_2, min: 0, max: 132, dependsOn: ['L', 'h'] },
-      { key: 'h', label: 'h°', type: CHANNEL_TYPES.CIRCULAR_DEPENDENT, min: 0, max: 360, unit: '°', dependsOn: ['L', 'C'] },
+      { key: 'h', label: 'h°', type: CHANNEL_TYPES.CIRCULAR_DEPENDENT, min: 0, max: 360, unit: '°', dependsOn: ['L', 'C'], sampledHueRing: true },
     ],
     defaultValues: { L: 50, C: 0, h: 0 },
   },
+  OKLAB: {
+    name: 'OKLab',
+    channels: [
+      { key: 'L', label: 'L', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'a', label: 'a', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.4, max: 0.4, dependsOn: ['L', 'b'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+      { key: 'b', label: 'b', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.4, max: 0.4, dependsOn: ['L', 'a'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'yellow' } },
+    ],
+    defaultValues: { L: 0.7, a: 0, b: 0 },
+  },
+  OKLCH: {
+    name: 'OKLCh',
+    channels: [
+      { key: 'L', label: 'L', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'C', label: 'C', type: CHANNEL_TYPES.DEPENDENT_2, min: 0, max: 0.4, dependsOn: ['L', 'h'] },
+      { key: 'h', label: 'h°', type: CHANNEL_TYPES.CIRCULAR_DEPENDENT, min: 0, max: 360, unit: '°', dependsOn: ['L', 'C'], sampledHueRing: true },
+    ],
+    defaultValues: { L: 0.7, C: 0, h: 0 },
+  },
+  'CAM16-UCS': {
+    name: 'CAM16-UCS',
+    channels: [
+      { key: 'J', label: 'J′', type: CHANNEL_TYPES.LINEAR, min: 0, max: 100, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'a', label: 'a′', type: CHANNEL_TYPES.DEPENDENT_3, min: -50, max: 50, dependsOn: ['J', 'b'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+      { key: 'b', label: 'b′', type: CHANNEL_TYPES.DEPENDENT_3, min: -50, max: 50, dependsOn: ['J', 'a'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'yellow' } },
+    ],
+    defaultValues: { J: 70, a: 0, b: 0 },
+  },
+  'CAM16-JMH': {
+    name: 'CAM16-JMh',
+    channels: [
+      { key: 'J', label: 'J', type: CHANNEL_TYPES.LINEAR, min: 0, max: 100, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'M', label: 'M', type: CHANNEL_TYPES.DEPENDENT_2, min: 0, max: 100, dependsOn: ['J', 'h'] },
+      { key: 'h', label: 'h°', type: CHANNEL_TYPES.CIRCULAR_DEPENDENT, min: 0, max: 360, unit: '°', dependsOn: ['J', 'M'], sampledHueRing: true },
+    ],
+    defaultValues: { J: 70, M: 0, h: 0 },
+  },
+  ICTCP: {
+    name: 'ICtCp',
+    channels: [
+      { key: 'I', label: 'I', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, toNits: pqEotf, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'Ct', label: 'Ct', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['I', 'Cp'], gradient: { minColor: 'yellow', midColor: '#808080', maxColor: 'blue' } },
+      { key: 'Cp', label: 'Cp', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['I', 'Ct'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+    ],
+    defaultValues: { I: 0.5, Ct: 0, Cp: 0 },
+  },
+  JZAZBZ: {
+    name: 'Jzazbz',
+    channels: [
+      { key: 'Jz', label: 'Jz', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, toNits: jzToNits, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'az', label: 'az', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['Jz', 'bz'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+      { key: 'bz', label: 'bz', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['Jz', 'az'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'yellow' } },
+    ],
+    defaultValues: { Jz: 0.15, az: 0, bz: 0 },
+  },
+  JZCZHZ: {
+    name: 'JzCzhz',
+    channels: [
+      { key: 'Jz', label: 'Jz', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, toNits: jzToNits, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'Cz', label: 'Cz', type: CHANNEL_TYPES.DEPENDENT_2, min: 0, max: 0.5, dependsOn: ['Jz', 'hz'] },
+      { key: 'hz', label: 'hz°', type: CHANNEL_TYPES.CIRCULAR_DEPENDENT, min: 0, max: 360, unit: '°', dependsOn: ['Jz', 'Cz'], sampledHueRing: true },
+    ],
+    defaultValues: { Jz: 0.15, Cz: 0, hz: 0 },
+  },
   XYZ: {
     name: 'XYZ',
     channels: [
@@ -92,20 +182,47 @@ export const COLOR_SPACES: Record<string, ColorSpaceDef> = {
     ],
     defaultValues: { x: 41.24, y: 21.26, z: 1.93 },
   },
-  YCBCR: {
-    name: 'YCbCr',
+  YCBCR: ycbcrChannels(),
+  YUV: {
+    name: 'YUV',
     channels: [
-      { key: 'y', label: 'Y', type: CHANNEL_TYPES.LINEAR, min: 16, max: 235, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
-      { key: 'cb', label: 'Cb', type: CHANNEL_TYPES.DEPENDENT_3, min: 16, max: 240, dependsOn: ['y'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'yellow' } },
-      { key: 'cr', label: 'Cr', type: CHANNEL_TYPES.DEPENDENT_3, min: 16, max: 240, dependsOn: ['y'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'red' } },
+      { key: 'y', label: 'Y', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'u', label: 'U', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.436, max: 0.436, dependsOn: ['y', 'v'], gradient: { minColor: 'yellow', midColor: '#808080', maxColor: 'blue' } },
+      { key: 'v', label: 'V', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.615, max: 0.615, dependsOn: ['y', 'u'], gradient: { minColor: 'cyan', midColor: '#808080', maxColor: 'red' } },
     ],
-    defaultValues: { y: 128, cb: 128, cr: 128 },
+    defaultValues: { y: 0.5, u: 0, v: 0 },
+  },
+  YIQ: {
+    name: 'YIQ',
+    channels: [
+      { key: 'y', label: 'Y', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'i', label: 'I', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.596, max: 0.596, dependsOn: ['y', 'q'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'orange' } },
+      { key: 'q', label: 'Q', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.523, max: 0.523, dependsOn: ['y', 'i'], gradient: { minColor: 'green', midColor: '#808080', maxColor: 'purple' } },
+    ],
+    defaultValues: { y: 0.5, i: 0, q: 0 },
+  },
+  YCOCG: {
+    name: 'YCoCg',
+    channels: [
+      { key: 'y', label: 'Y', type: CHANNEL_TYPES.LINEAR, min: 0, max: 1, gradient: { minColor: '#000000', maxColor: '#ffffff' } },
+      { key: 'co', label: 'Co', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['y', 'cg'], gradient: { minColor: 'blue', midColor: '#808080', maxColor: 'orange' } },
+      { key: 'cg', label: 'Cg', type: CHANNEL_TYPES.DEPENDENT_3, min: -0.5, max: 0.5, dependsOn: ['y', 'co'], gradient: { minColor: 'magenta', midColor: '#808080', maxColor: 'green' } },
+    ],
+    defaultValues: { y: 0.5, co: 0, cg: 0 },
   },
 };
 
-export function getColorSpace(key: string): ColorSpaceDef {
+/**
+ * Get slider definitions for a color space. Built-in definitions win; otherwise the
+ * channels of a registered color space are used. Unknown spaces fall back to RGB.
+ * YCbCr channel ranges follow the encoding when one is given.
+ */
+export function getColorSpace(key: string, ycbcr?: YcbcrEncoding): ColorSpaceDef {
   const k = (key || '').toUpperCase().replace(/\s/g, '');
-  return COLOR_SPACES[k] || COLOR_SPACES['RGB'];
+  if (k === 'YCBCR' && ycbcr) {
+    return ycbcrChannels(ycbcr);
+  }
+  return COLOR_SPACES[k] || getColorSpaceDefinition(key)?.channels || COLOR_SPACES['RGB'];
 }
 
 export function getValuesForSpace(colorSpaceKey: string, overrides?: Record<string, number>): Record<string, number> {
@@ -3,15 +3,22 @@
  */
 
 import { CHANNEL_TYPES } from './channelConfig';
-import type { ChannelDef } from './channelConfig';
-import { rgbToHex } from './valuesToHex';
+import type { ChannelDef, LuminanceMode } from './channelConfig';
+import { rgbToHex, valuesInGamut, valuesToHex } from './valuesToHex';
+import { getColorSpaceDefinition } from '../registry';
+import type { ConversionOptions } from '../registry';
+import type { YcbcrEncoding } from '../types';
 import {
   hslToRgb,
   hsvToRgb,
   labToRgb,
   lchToLab,
+  getYcbcrRanges,
   ycbcrToRgb,
+  formatNits,
 } from '../utils/colorConversion';
+import { createCvdTransform, transformCssColors } from '../utils/colorVisionDeficiency';
+import type { CvdOptions } from '../utils/colorVisionDeficiency';
 
 export interface SliderOptions {
   value?: number;
@@ -20,6 +27,10 @@ export interface SliderOptions {
   onChange?: (value: number) => void;
   getDependentGradient?: (channelKey: string, values: Record<string, number>) => { type: string; stops?: Array<{ pos: number; color: string }> } | null;
   sliderId?: string;
+  colorVisionDeficiency?: CvdOptions | null; // Show the track as seen with this deficiency
+  showOutOfGamut?: boolean; // Hatch the parts of a linear track outside sRGB (default true)
+  luminanceMode?: LuminanceMode; // 'absolute' shows a luminance channel's value in cd/m² (default 'relative')
+  ycbcr?: YcbcrEncoding; // Matrix and range of YCbCr values (default BT.601, limited range)
 }
 
 export interface SliderInstance {
@@ -27,16 +38,24 @@ export interface SliderInstance {
   value: number;
   setValue(v: number): void;
   updateGradient(): void;
+  updateGamut(): void;
+  setColorVisionDeficiency(options: CvdOptions | null): void;
+  setLuminanceMode(mode: LuminanceMode): void;
   destroy(): void;
 }
 
+const HUE_RING_CSS = 'conic-gradient(from 0deg, #ff0000, #ffff00, #00ff00, #00ffff, #0000ff, #ff00ff, #ff0000)';
+
 function clamp(v: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, v));
 }
 
 function formatValue(value: number, channel: ChannelDef): string {
   const unit = channel.unit || '';
-  if (channel.max - channel.min > 50 && Number.isInteger(value)) return value + unit;
+  const range = channel.max - channel.min;
+  if (range > 50 && Number.isInteger(value)) return value + unit;
+  // Unit-scale channels (e.g. OKLab 0-1) need more precision than one decimal
+  if (range <= 2) return Math.round(value * 1000) / 1000 + unit;
   return Math.round(value * 10) / 10 + unit;
 }
 
@@ -46,6 +65,9 @@ export function createChannelSlider(
   options: SliderOptions = {}
 ): SliderInstance {
   const { value: initialValue, values = {}, colorSpace: _colorSpace = 'RGB', onChange, getDependentGradient, sliderId } = options;
+  let colorTransform = options.colorVisionDeficiency ? createCvdTransform(options.colorVisionDeficiency) : null;
+  let luminanceMode = options.luminanceMode ?? 'relative';
+  const conversion = { ycbcr: options.ycbcr };
   const idBase = sliderId || 'ccv-' + (channelDef.key || 'ch');
   const min = channelDef.min;
   const max = channelDef.max;
@@ -53,6 +75,11 @@ export function createChannelSlider(
 
   let value = clamp(initialValue ?? min, min, max);
 
+  /** Value as shown: in cd/m² for luminance channels in absolute mode */
+  function displayValue(v: number): string {
+    return luminanceMode === 'absolute' && channelDef.toNits ? formatNits(channelDef.toNits(v)) : formatValue(v, channelDef);
+  }
+
   const wrap = document.createElement('div');
   wrap.className = 'negarity-ccv-slider negarity-ccv-slider--' + (channelDef.type || 'linear');
   wrap.setAttribute('role', 'group');
@@ -78,7 +105,7 @@ export function createChannelSlider(
   const valueEl = document.createElement('span');
   valueEl.className = 'negarity-ccv-slider__value';
   valueEl.id = idBase + '-value';
-  valueEl.textContent = formatValue(value, channelDef);
+  valueEl.textContent = displayValue(value);
 
   const input = document.createElement('input');
   input.type = 'range';
@@ -91,10 +118,16 @@ export function createChannelSlider(
   input.setAttribute('aria-valuemin', String(min));
   input.setAttribute('aria-valuemax', String(max));
   input.setAttribute('aria-valuenow', String(value));
-  input.setAttribute('aria-valuetext', formatValue(value, channelDef));
+  input.setAttribute('aria-valuetext', displayValue(value));
   input.setAttribute('aria-labelledby', label.id + ' ' + valueEl.id);
 
+  // Out-of-gamut stretches of the track, hatched above the gradient
+  const gamutEl = document.createElement('div');
+  gamutEl.className = 'negarity-ccv-slider__gamut';
+  gamutEl.setAttribute('aria-hidden', 'true');
+
   trackWrap.appendChild(track);
+  trackWrap.appendChild(gamutEl);
   trackWrap.appendChild(thumb);
   wrap.appendChild(label);
   wrap.appendChild(trackWrap);
@@ -116,9 +149,19 @@ export function createChannelSlider(
     circularCanvas.height = 120;
   }
 
-  function setGradientCSS(css: string): void {
-    track.style.background = css;
-    track.style.backgroundImage = css;
+  /** Colors as drawn: unchanged, or simulated for a color vision deficiency */
+  function simulate(css: string): string {
+    return colorTransform ? transformCssColors(css, colorTransform) : css;
+  }
+
+  function setGradientCSS(css: string, important: boolean = false): void {
+    const simulated = simulate(css);
+    track.style.background = simulated;
+    track.style.backgroundImage = simulated;
+    if (important) {
+      track.style.setProperty('background', simulated, 'important');
+      track.style.setProperty('background-image', simulated, 'important');
+    }
   }
 
   function drawCircularThumb(): void {
@@ -151,23 +194,20 @@ export function createChannelSlider(
     const cx = w / 2;
     const cy = h / 2;
     const radius = Math.min(cx, cy);
-    const L = values.L ?? values.l ?? 50;
-    const C = values.C ?? values.c ?? 50;
     // Use 72 segments (every 5°) for performance; still smooth visually
     const steps = 72;
     const stepAngle = 360 / steps;
     for (let i = 0; i < steps; i++) {
       const angle = i * stepAngle;
-      const [l, a, b] = lchToLab(L, C, angle);
-      const [r, g, b_rgb] = labToRgb(l, a, b);
-      const hex = rgbToHex(r, g, b_rgb);
+      // Current lightness/chroma with this segment's hue
+      const hex = valuesToHex(_colorSpace, { ...values, [channelDef.key]: angle }, undefined, conversion);
       const rad = (angle / 360) * 2 * Math.PI - Math.PI / 2;
       const nextRad = ((angle + stepAngle) / 360) * 2 * Math.PI - Math.PI / 2;
       ctx.beginPath();
       ctx.moveTo(cx, cy);
       ctx.arc(cx, cy, radius, rad, nextRad);
       ctx.closePath();
-      ctx.fillStyle = hex;
+      ctx.fillStyle = simulate(hex);
       ctx.fill();
     }
   }
@@ -202,7 +242,7 @@ export function createChannelSlider(
     ctx.clearRect(0, 0, w, h);
     ctx.beginPath();
     ctx.arc(cx, cy, radius, 0, 2 * Math.PI);
-    ctx.fillStyle = color;
+    ctx.fillStyle = simulate(color);
     ctx.globalAlpha = opacity;
     ctx.fill();
     ctx.globalAlpha = 1;
@@ -215,7 +255,7 @@ export function createChannelSlider(
 
     // Force gradient for Lab a*/b* and YCbCr Cb/Cr by color space and channel key (no dependency on type)
     if ((space === 'LAB' && (key === 'a' || key === 'b')) || (space === 'YCBCR' && (key === 'cb' || key === 'cr'))) {
-      let dep = computeDependentGradient(_colorSpace, key, values);
+      let dep = computeDependentGradient(_colorSpace, key, values, undefined, conversion);
       if (!dep?.stops?.length) {
         const minC = g.minColor || '#000';
         const maxC = g.maxColor || '#fff';
@@ -227,9 +267,7 @@ export function createChannelSlider(
       if (dep.stops.length) {
         const parts = dep.stops.map((s) => `${s.pos * 100}% ${s.color}`).join(', ');
         const gradientCss = `linear-gradient(to right, ${parts})`;
-        setGradientCSS(gradientCss);
-        track.style.setProperty('background', gradientCss, 'important');
-        track.style.setProperty('background-image', gradientCss, 'important');
+        setGradientCSS(gradientCss, true);
       }
       // Fall through so dependent block can also set gradient (in case forced block didn't apply)
     }
@@ -241,39 +279,38 @@ export function createChannelSlider(
       return;
     }
     if (channelDef.type === CHANNEL_TYPES.CIRCULAR) {
-      setGradientCSS('conic-gradient(from 0deg, #ff0000, #ffff00, #00ff00, #00ffff, #0000ff, #ff00ff, #ff0000)');
+      setGradientCSS(HUE_RING_CSS);
       drawCircularThumb();
       return;
     }
     if (channelDef.type === CHANNEL_TYPES.DEPENDENT_2 || channelDef.type === CHANNEL_TYPES.DEPENDENT_3 || channelDef.type === 'dependent2' || channelDef.type === 'dependent3') {
       let dep = getDependentGradient ? getDependentGradient(channelDef.key, values) : null;
       if (!dep?.stops?.length && (channelDef.key === 'cb' || channelDef.key === 'cr')) {
-        dep = computeDependentGradient(_colorSpace, channelDef.key, values);
+        dep = computeDependentGradient(_colorSpace, channelDef.key, values, undefined, conversion);
       }
       if (!dep?.stops?.length && (channelDef.key === 'a' || channelDef.key === 'b') && (_colorSpace || '').toUpperCase() === 'LAB') {
-        dep = computeDependentGradient(_colorSpace, channelDef.key, values);
+        dep = computeDependentGradient(_colorSpace, channelDef.key, values, undefined, conversion);
       }
       if (dep?.stops?.length) {
         const parts = dep.stops.map((s) => `${s.pos * 100}% ${s.color}`).join(', ');
         const gradientCss = `linear-gradient(to right, ${parts})`;
-        setGradientCSS(gradientCss);
-        track.style.setProperty('background', gradientCss, 'important');
-        track.style.setProperty('background-image', gradientCss, 'important');
+        setGradientCSS(gradientCss, true);
       } else {
         const minC = g.minColor || '#000';
         const maxC = g.maxColor || '#fff';
         const midC = g.midColor;
         const gradientCss = midC !== undefined ? `linear-gradient(to right, ${minC}, ${midC}, ${maxC})` : `linear-gradient(to right, ${minC}, ${maxC})`;
-        setGradientCSS(gradientCss);
-        track.style.setProperty('background', gradientCss, 'important');
-        track.style.setProperty('background-image', gradientCss, 'important');
+        setGradientCSS(gradientCss, true);
       }
       return;
     }
     if (channelDef.type === CHANNEL_TYPES.CIRCULAR_DEPENDENT && circularCanvas) {
-      if ((_colorSpace || '').toUpperCase() === 'LCH') {
+      if (channelDef.sampledHueRing) {
         drawCircularDependentGradient();
       } else {
+        // The hue ring under the overlay comes from the stylesheet; set it inline only to simulate it
+        if (colorTransform) setGradientCSS(HUE_RING_CSS);
+        else track.style.background = '';
         const { color, opacity } = getOverlayForHueWheel(_colorSpace || '', values);
         drawOverlayForCircularDependentGradient(color, opacity);
       }
@@ -281,6 +318,31 @@ export function createChannelSlider(
     }
   }
 
+  /** Hatch the stretches of a linear track whose colors (with the other channels fixed) are outside sRGB */
+  function updateGamutOverlay(): void {
+    gamutEl.textContent = '';
+    if (isCircular || options.showOutOfGamut === false || range <= 0) return;
+    const steps = 64;
+    let start: number | null = null;
+    for (let i = 0; i <= steps + 1; i++) {
+      const outside =
+        i <= steps && !valuesInGamut(_colorSpace, { ...values, [channelDef.key]: min + (i / steps) * range }, conversion);
+      if (outside && start === null) {
+        start = i;
+      } else if (!outside && start !== null) {
+        // Cover half a step on each side so a run ends midway between samples
+        const from = Math.max(0, (start - 0.5) / steps);
+        const to = Math.min(1, (i - 0.5) / steps);
+        const run = document.createElement('div');
+        run.className = 'negarity-ccv-slider__out-of-gamut';
+        run.style.left = from * 100 + '%';
+        run.style.width = (to - from) * 100 + '%';
+        gamutEl.appendChild(run);
+        start = null;
+      }
+    }
+  }
+
   function updateThumbPosition(): void {
     if (isCircular) {
       drawCircularThumb();
@@ -307,8 +369,8 @@ export function createChannelSlider(
     value = clamp(newVal, min, max);
     input.value = String(value);
     input.setAttribute('aria-valuenow', String(value));
-    input.setAttribute('aria-valuetext', formatValue(value, channelDef));
-    valueEl.textContent = formatValue(value, channelDef);
+    input.setAttribute('aria-valuetext', displayValue(value));
+    valueEl.textContent = displayValue(value);
     updateThumbPosition();
   }
 
@@ -414,6 +476,7 @@ export function createChannelSlider(
   }
 
   updateTrackGradient();
+  updateGamutOverlay();
   updateThumbPosition();
 
   // Re-apply gradient on next frame so it wins over any CSS or layout that might have run after
@@ -438,8 +501,20 @@ export function createChannelSlider(
     },
     updateGradient() {
       updateTrackGradient();
+      updateGamutOverlay();
       updateThumbPosition();
     },
+    updateGamut() {
+      updateGamutOverlay();
+    },
+    setColorVisionDeficiency(cvd: CvdOptions | null) {
+      colorTransform = cvd ? createCvdTransform(cvd) : null;
+      updateTrackGradient();
+    },
+    setLuminanceMode(mode: LuminanceMode) {
+      luminanceMode = mode;
+      setValueLocal(value);
+    },
     destroy() {
       if (commitTimeoutId != null) clearTimeout(commitTimeoutId);
       track.removeEventListener('click', onTrackClick);
@@ -454,7 +529,8 @@ export function computeDependentGradient(
   colorSpace: string,
   channelKey: string,
   values: Record<string, number>,
-  _channelDef?: ChannelDef
+  channelDef?: ChannelDef,
+  options: ConversionOptions = {}
 ): { type: string; stops: Array<{ pos: number; color: string }> } | null {
   const space = (colorSpace || '').toUpperCase();
   const v = values || {};
@@ -495,18 +571,29 @@ export function computeDependentGradient(
   }
   if (space === 'YCBCR' && (channelKey === 'cb' || channelKey === 'cr')) {
     const y = v.y ?? 128;
-    const midRgb = ycbcrToRgb(y, 128, 128);
-    const mid = toHex(...midRgb);
-    const minRgb = channelKey === 'cb' ? ycbcrToRgb(y, 16, 128) : ycbcrToRgb(y, 128, 16);
-    const maxRgb = channelKey === 'cb' ? ycbcrToRgb(y, 240, 128) : ycbcrToRgb(y, 128, 240);
+    const [cMin, cMax] = getYcbcrRanges(options.ycbcr).c;
+    const decode = (cb: number, cr: number) => toHex(...ycbcrToRgb(y, cb, cr, options.ycbcr));
     return {
       type: 'linear',
       stops: [
-        { pos: 0, color: toHex(...minRgb) },
-        { pos: 0.5, color: mid },
-        { pos: 1, color: toHex(...maxRgb) },
+        { pos: 0, color: channelKey === 'cb' ? decode(cMin, 128) : decode(128, cMin) },
+        { pos: (128 - cMin) / (cMax - cMin), color: decode(128, 128) },
+        { pos: 1, color: channelKey === 'cb' ? decode(cMax, 128) : decode(128, cMax) },
       ],
     };
   }
+  // Other registered color spaces (OKLab, OKLCh, CAM16, HDR, custom): sample the channel through the registry
+  const definition = getColorSpaceDefinition(colorSpace);
+  const channel = channelDef ?? definition?.channels?.channels.find((ch) => ch.key === channelKey);
+  if (definition && channel) {
+    const steps = 8;
+    const stops: Array<{ pos: number; color: string }> = [];
+    for (let i = 0; i <= steps; i++) {
+      const pos = i / steps;
+      const sample = { ...v, [channelKey]: channel.min + pos * (channel.max - channel.min) };
+      stops.push({ pos, color: valuesToHex(colorSpace, sample, undefined, options) });
+    }
+    return { type: 'linear', stops };
+  }
   return null;
 }
@@ -5,8 +5,8 @@
 import './color-channel-visualizer.css';
 
 export { ColorChannelVisualizer, type ColorChannelVisualizerOptions, type ColorChannelVisualizerInstance } from './ColorChannelVisualizer';
-export { COLOR_SPACES, CHANNEL_TYPES, getColorSpace, getValuesForSpace } from './channelConfig';
-export type { ChannelDef, ColorSpaceDef } from './channelConfig';
-export { valuesToHex, rgbToHex } from './valuesToHex';
+export { COLOR_SPACES, CHANNEL_TYPES, getColorSpace, getValuesForSpace, ycbcrChannels } from './channelConfig';
+export type { ChannelDef, ColorSpaceDef, LuminanceMode } from './channelConfig';
+export { valuesToHex, valuesInGamut, valuesToCss, cssToValues, rgbToHex, hexToRgb } from './valuesToHex';
 export { createChannelSlider, computeDependentGradient } from './createSlider';
 export type { SliderOptions, SliderInstance } from './createSlider';
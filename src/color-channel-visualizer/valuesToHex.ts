@@ -1,17 +1,16 @@
 /**
  * Convert current color space values to hex for preview.
- * Uses the library's colorConversion utils.
+ * Color spaces are resolved through the color space registry.
  */
 
-import {
-  cmykToRgb,
-  hslToRgb,
-  hsvToRgb,
-  labToRgb,
-  lchToLab,
-  xyzToRgb,
-  ycbcrToRgb,
-} from '../utils/colorConversion';
+import { rgbToXyz, xyzToRgb } from '../utils/colorConversion';
+import { getColorSpaceDefinition } from '../registry';
+import { COLOR_SPACES } from './channelConfig';
+import type { ColorSpaceDefinition, ConversionOptions } from '../registry';
+import { isInSrgbGamut, mapColorValues } from '../utils/gamutMapping';
+import type { GamutMappingMethod } from '../utils/gamutMapping';
+import { cssColorToValues, formatCssColor } from '../utils/cssColor';
+import type { CssColorFormat, CssFormatOptions } from '../utils/cssColor';
 
 export function rgbToHex(r: number, g: number, b: number): string {
   const toHex = (n: number) =>
@@ -19,46 +18,129 @@ export function rgbToHex(r: number, g: number, b: number): string {
   return '#' + toHex(r) + toHex(g) + toHex(b);
 }
 
-export function valuesToHex(
+/**
+ * Parse #rgb or #rrggbb to RGB (0-255); null if the string is not a hex color
+ */
+export function hexToRgb(hex: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const full = match[1].length === 3 ? match[1].split('').map((c) => c + c).join('') : match[1];
+  const value = parseInt(full, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Slider channel keys in axis order: the built-in slider definitions first, then the registered space's own
+ */
+function channelKeys(colorSpace: string, definition: ColorSpaceDefinition): string[] | undefined {
+  const builtIn = COLOR_SPACES[(colorSpace || '').toUpperCase().replace(/\s/g, '')];
+  return (builtIn ?? definition.channels)?.channels.map((ch) => ch.key);
+}
+
+/**
+ * Read channel values from a values record in axis order.
+ * Keys are matched by slider channel key, then by axis name (any case), then by index.
+ */
+function readChannelValues(
   colorSpace: string,
+  definition: ColorSpaceDefinition,
   values: Record<string, number>
+): number[] {
+  const keys = channelKeys(colorSpace, definition);
+  return definition.colorSpace.axes.map((axis, i) => {
+    const key = keys?.[i] ?? axis.name;
+    return (
+      values[key] ??
+      values[axis.name] ??
+      values[axis.name.toUpperCase()] ??
+      values[axis.name.toLowerCase()] ??
+      values[i] ??
+      definition.defaultValues?.[i] ??
+      0
+    );
+  });
+}
+
+/**
+ * Hex of the values; colors outside sRGB are clipped unless a gamut mapping method is given.
+ * options are conversion settings such as the YCbCr encoding.
+ */
+export function valuesToHex(
+  colorSpace: string,
+  values: Record<string, number>,
+  gamutMapping?: GamutMappingMethod,
+  options: ConversionOptions = {}
 ): string {
-  const v = values;
-  const space = (colorSpace || '').toUpperCase();
+  const definition = getColorSpaceDefinition(colorSpace);
+  if (!definition) {
+    return '#808080';
+  }
 
-  switch (space) {
-    case 'RGB':
-      return rgbToHex(v.r ?? v[0] ?? 0, v.g ?? v[1] ?? 0, v.b ?? v[2] ?? 0);
-    case 'HSL': {
-      const [r, g, b] = hslToRgb(v.h ?? v[0] ?? 0, v.s ?? v[1] ?? 0, v.l ?? v[2] ?? 0);
-      return rgbToHex(r, g, b);
-    }
-    case 'HSV': {
-      const [r, g, b] = hsvToRgb(v.h ?? v[0] ?? 0, v.s ?? v[1] ?? 0, v.v ?? v[2] ?? 0);
-      return rgbToHex(r, g, b);
-    }
-    case 'CMYK': {
-      const [r, g, b] = cmykToRgb(v.c ?? v[0] ?? 0, v.m ?? v[1] ?? 0, v.y ?? v[2] ?? 0, v.k ?? v[3] ?? 0);
-      return rgbToHex(r, g, b);
-    }
-    case 'XYZ': {
-      const [r, g, b] = xyzToRgb(v.x ?? v[0] ?? 0, v.y ?? v[1] ?? 0, v.z ?? v[2] ?? 0);
-      return rgbToHex(r, g, b);
-    }
-    case 'LAB': {
-      const [r, g, b] = labToRgb(v.L ?? v.l ?? v[0] ?? 0, v.a ?? v[1] ?? 0, v.b ?? v[2] ?? 0);
-      return rgbToHex(r, g, b);
-    }
-    case 'LCH': {
-      const [l, a, b] = lchToLab(v.L ?? v.l ?? v[0] ?? 0, v.C ?? v.c ?? v[1] ?? 0, v.h ?? v[2] ?? 0);
-      const [r, g, b_rgb] = labToRgb(l, a, b);
-      return rgbToHex(r, g, b_rgb);
-    }
-    case 'YCBCR': {
-      const [r, g, b] = ycbcrToRgb(v.y ?? v[0] ?? 16, v.cb ?? v[1] ?? 128, v.cr ?? v[2] ?? 128);
-      return rgbToHex(r, g, b);
-    }
-    default:
-      return '#808080';
+  const channelValues = readChannelValues(colorSpace, definition, values || {});
+  if (gamutMapping) {
+    return mapColorValues(definition, channelValues, options, gamutMapping).hex;
+  }
+  const [r, g, b] = definition.toRgb
+    ? definition.toRgb(channelValues, options)
+    : xyzToRgb(...definition.toXyz(channelValues, options));
+  return rgbToHex(r, g, b);
+}
+
+/**
+ * Whether the values lie inside the sRGB gamut (unknown color spaces count as inside)
+ */
+export function valuesInGamut(
+  colorSpace: string,
+  values: Record<string, number>,
+  options: ConversionOptions = {}
+): boolean {
+  const definition = getColorSpaceDefinition(colorSpace);
+  if (!definition) {
+    return true;
+  }
+  return isInSrgbGamut(definition.toXyz(readChannelValues(colorSpace, definition, values || {}), options));
+}
+
+/**
+ * CSS color string of the values, e.g. valuesToCss('OKLCh', values, 'oklch'); hex, rgb(), hsl() and hwb()
+ * are gamut mapped into sRGB; `options` are the conversion options (e.g. the YCbCr encoding), as for valuesToHex
+ */
+export function valuesToCss(
+  colorSpace: string,
+  values: Record<string, number>,
+  format: CssColorFormat = 'hex',
+  formatOptions: CssFormatOptions = {},
+  options: ConversionOptions = {}
+): string {
+  const definition = getColorSpaceDefinition(colorSpace);
+  if (!definition) {
+    return formatCssColor(rgbToXyz(128, 128, 128), format, formatOptions);
+  }
+  return formatCssColor(
+    definition.toXyz(readChannelValues(colorSpace, definition, values || {}), options),
+    format,
+    formatOptions
+  );
+}
+
+/**
+ * Values record (by channel key) of any CSS color string in a color space; null if the string
+ * is not a color or the color space is unknown
+ */
+export function cssToValues(
+  colorSpace: string,
+  css: string,
+  options: ConversionOptions = {}
+): Record<string, number> | null {
+  const definition = getColorSpaceDefinition(colorSpace);
+  const values = definition ? cssColorToValues(css, colorSpace, options) : null;
+  if (!definition || !values) {
+    return null;
   }
+  const keys = channelKeys(colorSpace, definition);
+  const out: Record<string, number> = {};
+  definition.colorSpace.axes.forEach((axis, i) => {
+    out[keys?.[i] ?? axis.name] = values[i];
+  });
+  return out;
 }
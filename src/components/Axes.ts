@@ -155,12 +155,13 @@ export class Axes {
     if (!this.layer || !this.config.labelStyle) return;
 
     const labelStyle = this.config.labelStyle;
+    const [xText, yText] = this.coordinateSystem?.diagram === 'uv' ? ['u′', 'v′'] : ['x', 'y'];
 
     // X axis label
     const xLabel = new Konva.Text({
       x: offsetX + maxX * scale - 20,
       y: offsetY + 20,
-      text: 'x',
+      text: xText,
       fontSize: labelStyle.fontSize || 14,
       fill: labelStyle.color || '#666',
       fontFamily: labelStyle.fontFamily || 'Arial',
@@ -171,7 +172,7 @@ export class Axes {
     const yLabel = new Konva.Text({
       x: offsetX - 25,
       y: offsetY - maxY * scale + 15,
-      text: 'y',
+      text: yText,
       fontSize: labelStyle.fontSize || 14,
       fill: labelStyle.color || '#666',
       fontFamily: labelStyle.fontFamily || 'Arial',
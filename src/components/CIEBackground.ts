@@ -4,9 +4,13 @@
  */
 
 import Konva from 'konva';
-import { getSpectralLocus, xyToRgb } from '../utils/colorConversion';
+import { getSpectralLocus } from '../utils/colorConversion';
+import { ChromaticityGridOptions, chromaticityGridPixels } from '../utils/batchConversion';
 import { getDefaultHorseshoeImageUrl } from '../utils/assetUrls';
 import { CIEBackgroundConfig, CoordinateSystem } from './types';
+import { createColorTransformFilter } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
+import type { ColorWorkerPool } from '../workers/ColorWorkerPool';
 
 export class CIEBackground {
   private layer: Konva.Layer | null = null;
@@ -14,6 +18,9 @@ export class CIEBackground {
   private coordinateSystem: CoordinateSystem | null = null;
   private size: { width: number; height: number; depth?: number } | null = null;
   private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
+  private workerPool: ColorWorkerPool | null = null;
+  private gridCache: { key: string; pixels: Uint8ClampedArray } | null = null;
 
   /**
    * Initialize the component
@@ -63,57 +70,97 @@ export class CIEBackground {
     }
 
     const { offsetX, offsetY, scale, maxX, maxY } = this.coordinateSystem;
+    const diagram = this.coordinateSystem.diagram ?? 'xy';
 
+    // The bundled horseshoe image is an xy diagram; u′v′ is always drawn
     const imageUrl = this.config.imageUrl || getDefaultHorseshoeImageUrl();
-    if (this.config.useImage && imageUrl) {
+    if (this.config.useImage && imageUrl && diagram === 'xy') {
       this.renderImage(offsetX, offsetY, scale, maxX, maxY, imageUrl);
       return;
     }
-    const brightness = this.config.brightness ?? 1.0;
     const opacity = this.config.opacity ?? 1.0;
     const gridSize = this.config.gridSize ?? 200;
-    const spectralLocus = getSpectralLocus();
-
-    // Create a high-resolution grid for smooth edges
-    const stepX = (maxX * scale) / gridSize;
-    const stepY = (maxY * scale) / gridSize;
-
-    // Draw color grid for visible spectrum - only inside the spectral locus
-    for (let i = 0; i < gridSize; i++) {
-      for (let j = 0; j < gridSize; j++) {
-        const x = i * stepX;
-        const y = j * stepY;
-        // Convert screen coordinates back to xy space
-        const xyX = (x / (maxX * scale)) * maxX;
-        const xyY = (y / (maxY * scale)) * maxY;
-
-        // Check if point is inside the spectral locus boundary
-        if (this.isPointInsideSpectralLocus([xyX, xyY], spectralLocus)) {
-          // Convert xy to RGB for display with configured brightness
-          const [r, g, b] = xyToRgb(xyX, xyY, brightness);
-          const color = `rgb(${r}, ${g}, ${b})`;
-
-          const rect = new Konva.Rect({
-            x: offsetX + x,
-            y: offsetY - y,
-            width: stepX + 0.1, // Minimal overlap for seamless coverage
-            height: stepY + 0.1,
-            fill: color,
-            opacity: opacity,
-            perfectDrawEnabled: false,
-            shadowForStrokeEnabled: false,
-          });
-          this.layer.add(rect);
-        }
-      }
+    const gridOptions: ChromaticityGridOptions = {
+      gridSize,
+      maxX,
+      maxY,
+      diagram,
+      brightness: this.config.brightness ?? 1.0,
+    };
+
+    // One image of gridSize × gridSize cells, only inside the spectral locus; the group keeps its
+    // place in the layer while a worker computes the cells, and SVG exports embed it as an image
+    const grid = new Konva.Group({ exportAsImage: true });
+    this.layer.add(grid);
+    const place = (pixels: Uint8ClampedArray) => {
+      const stepX = (maxX * scale) / gridSize;
+      const stepY = (maxY * scale) / gridSize;
+      grid.add(new Konva.Image({
+        x: offsetX,
+        y: offsetY - (gridSize - 1) * stepY,
+        width: gridSize * stepX,
+        height: gridSize * stepY,
+        image: this.createGridCanvas(pixels, gridSize),
+        opacity,
+        listening: false,
+      }));
+    };
+
+    const key = JSON.stringify(gridOptions);
+    if (this.gridCache?.key === key) {
+      place(this.gridCache.pixels);
+    } else if (this.workerPool) {
+      this.workerPool
+        .chromaticityGrid(gridOptions)
+        .catch(() => chromaticityGridPixels(gridOptions))
+        .then((pixels) => {
+          this.gridCache = { key, pixels };
+          // Skip grids that were replaced by a newer render meanwhile
+          const layer = grid.getLayer();
+          if (!layer) return;
+          place(pixels);
+          layer.batchDraw();
+        });
+    } else {
+      this.gridCache = { key, pixels: chromaticityGridPixels(gridOptions) };
+      place(this.gridCache.pixels);
     }
 
     // Draw boundary line if configured
     if (this.config.boundaryLine !== false && this.config.boundaryLine !== undefined) {
-      this.renderBoundaryLine(spectralLocus);
+      this.renderBoundaryLine(getSpectralLocus(diagram));
     }
   }
 
+  /**
+   * Canvas with the grid pixels, flipped so that row 0 (diagram y = 0) is at the bottom,
+   * with the color transform applied
+   */
+  private createGridCanvas(pixels: Uint8ClampedArray, gridSize: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = gridSize;
+    canvas.height = gridSize;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    const imageData = ctx.createImageData(gridSize, gridSize);
+    const data = imageData.data;
+    const rowLength = gridSize * 4;
+    for (let row = 0; row < gridSize; row++) {
+      data.set(pixels.subarray(row * rowLength, (row + 1) * rowLength), (gridSize - 1 - row) * rowLength);
+    }
+    if (this.colorTransform) {
+      for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const [r, g, b] = this.colorTransform([data[i], data[i + 1], data[i + 2]]);
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+      }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+  }
+
   /**
    * Render the spectral locus boundary line
    */
@@ -160,32 +207,6 @@ export class CIEBackground {
     }
   }
 
-  /**
-   * Check if a point is inside the spectral locus (CIE visible spectrum)
-   * Uses ray casting algorithm
-   */
-  private isPointInsideSpectralLocus(
-    point: [number, number],
-    spectralLocus: Array<[number, number]>
-  ): boolean {
-    const [px, py] = point;
-    let inside = false;
-
-    // Ray casting algorithm
-    for (let i = 0, j = spectralLocus.length - 1; i < spectralLocus.length; j = i++) {
-      const [xi, yi] = spectralLocus[i];
-      const [xj, yj] = spectralLocus[j];
-
-      const intersect =
-        yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi;
-      if (intersect) {
-        inside = !inside;
-      }
-    }
-
-    return inside;
-  }
-
   /**
    * Render using pre-rendered horseshoe image
    */
@@ -205,6 +226,10 @@ export class CIEBackground {
         height: h,
         opacity,
       });
+      if (this.colorTransform) {
+        konvaImage.cache();
+        konvaImage.filters([createColorTransformFilter(this.colorTransform)]);
+      }
       this.layer!.add(konvaImage);
       konvaImage.moveToBottom();
       this.layer!.draw();
@@ -212,6 +237,20 @@ export class CIEBackground {
     img.src = imageUrl;
   }
 
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
+  /**
+   * Compute the grid in a worker pool instead of on the main thread; null to compute it inline
+   */
+  setWorkerPool(pool: ColorWorkerPool | null): void {
+    this.workerPool = pool;
+  }
+
   /**
    * Update configuration
    */
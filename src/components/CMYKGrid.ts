@@ -6,6 +6,7 @@
 import Konva from 'konva';
 import { CMYKGridConfig } from './types';
 import { cmykToRgb } from '../utils/colorConversion';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
 
 export class CMYKGrid {
   private layer: Konva.Layer | null = null;
@@ -15,6 +16,7 @@ export class CMYKGrid {
   private width: number = 0;
   private height: number = 0;
   private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
   private shapes: Konva.Rect[] = [];
 
   /**
@@ -92,7 +94,8 @@ export class CMYKGrid {
     // Create grid showing C vs M colors
     for (let c = 0; c <= 100; c += gridSize) {
       for (let m = 0; m <= 100; m += gridSize) {
-        const [r, g, b] = cmykToRgb(c, m, yellow, key);
+        const rgb = cmykToRgb(c, m, yellow, key);
+        const [r, g, b] = this.colorTransform ? this.colorTransform(rgb) : rgb;
         const color = `rgb(${r}, ${g}, ${b})`;
         
         const rect = new Konva.Rect({
@@ -115,6 +118,13 @@ export class CMYKGrid {
     this.layer.draw();
   }
 
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
   /**
    * Update configuration
    */
@@ -0,0 +1,291 @@
+/**
+ * Color Plane Component
+ * Renders a square 2D slice through a color space (e.g. OKLab a/b at a fixed L)
+ * Samples outside the displayable gamut are left transparent
+ */
+
+import Konva from 'konva';
+import { ColorPlaneConfig, ColorPlaneDomain, CoordinateSystem } from './types';
+import { getDashPattern } from './dashPattern';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
+
+export class ColorPlane {
+  private layer: Konva.Layer | null = null;
+  private config: ColorPlaneConfig = {};
+  private domain: ColorPlaneDomain | null = null;
+  private x: number = 0;
+  private y: number = 0;
+  private size: number = 0;
+  private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
+  private shapes: Konva.Node[] = [];
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    x: number,
+    y: number,
+    size: number,
+    domain: ColorPlaneDomain,
+    config: ColorPlaneConfig = {}
+  ): void {
+    this.layer = layer;
+    this.x = x;
+    this.y = y;
+    this.size = size;
+    this.domain = domain;
+
+    // If already initialized, preserve existing config and only update geometry
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: true,
+        resolution: 100,
+        opacity: 1.0,
+        showFrame: true,
+        frameStyle: {
+          weight: 1,
+          color: '#999',
+          style: 'solid',
+        },
+        outlineStyle: {
+          weight: 1.5,
+          color: '#333',
+          style: 'solid',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.config = {
+        ...this.config,
+        ...config,
+      };
+    }
+  }
+
+  /**
+   * Render the color plane
+   */
+  render(): void {
+    if (!this.layer || !this.domain) {
+      throw new Error('ColorPlane not initialized. Call init() first.');
+    }
+
+    // Clear existing shapes (only if they still exist in the layer)
+    this.shapes.forEach(shape => {
+      if (shape.getLayer()) {
+        shape.destroy();
+      }
+    });
+    this.shapes = [];
+
+    if (this.config.show === false) {
+      return;
+    }
+
+    this.renderSamples();
+    this.renderOutline();
+
+    if (this.config.showFrame !== false) {
+      this.renderFrame();
+    }
+  }
+
+  /**
+   * Draw the sampled colors into an offscreen canvas and add it as a single image
+   */
+  private renderSamples(): void {
+    const domain = this.domain!;
+    const resolution = Math.min(400, Math.max(10, this.config.resolution ?? 100));
+    const canvas = document.createElement('canvas');
+    canvas.width = resolution;
+    canvas.height = resolution;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const image = ctx.createImageData(resolution, resolution);
+    const [xMin, xMax] = domain.xRange;
+    const [yMin, yMax] = domain.yRange;
+    for (let row = 0; row < resolution; row++) {
+      // Canvas rows run top to bottom, the plane's y axis runs bottom to top
+      const v = yMax - ((row + 0.5) / resolution) * (yMax - yMin);
+      for (let col = 0; col < resolution; col++) {
+        const u = xMin + ((col + 0.5) / resolution) * (xMax - xMin);
+        const sample = domain.sample(u, v);
+        if (!sample) continue;
+        const rgb = this.colorTransform ? this.colorTransform(sample) : sample;
+        const i = (row * resolution + col) * 4;
+        image.data[i] = rgb[0];
+        image.data[i + 1] = rgb[1];
+        image.data[i + 2] = rgb[2];
+        image.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    const konvaImage = new Konva.Image({
+      x: this.x,
+      y: this.y,
+      image: canvas,
+      width: this.size,
+      height: this.size,
+      opacity: this.config.opacity ?? 1.0,
+      listening: false,
+    });
+    this.layer!.add(konvaImage);
+    this.shapes.push(konvaImage);
+  }
+
+  /**
+   * Stroke the domain's outline polygon
+   */
+  private renderOutline(): void {
+    const { outline, xRange, yRange } = this.domain!;
+    if (!outline || outline.length < 3) return;
+    const style = this.config.outlineStyle || {};
+    const points = outline.flatMap(([u, v]) => [
+      this.x + ((u - xRange[0]) / (xRange[1] - xRange[0])) * this.size,
+      this.y + this.size - ((v - yRange[0]) / (yRange[1] - yRange[0])) * this.size,
+    ]);
+    const line = new Konva.Line({
+      points,
+      closed: true,
+      stroke: style.color || '#333',
+      strokeWidth: style.weight ?? 1.5,
+      dash: style.dash || getDashPattern(style.style || 'solid'),
+      lineJoin: 'round',
+      listening: false,
+    });
+    this.layer!.add(line);
+    this.shapes.push(line);
+  }
+
+  /**
+   * Draw the frame, range tick values and axis titles
+   */
+  private renderFrame(): void {
+    const domain = this.domain!;
+    const frameStyle = this.config.frameStyle || {};
+
+    const frame = new Konva.Rect({
+      x: this.x,
+      y: this.y,
+      width: this.size,
+      height: this.size,
+      stroke: frameStyle.color || '#999',
+      strokeWidth: frameStyle.weight ?? 1,
+      dash: frameStyle.dash || getDashPattern(frameStyle.style || 'solid'),
+      listening: false,
+    });
+    this.layer!.add(frame);
+    this.shapes.push(frame);
+
+    const addText = (x: number, y: number, text: string, fontStyle: string = 'normal') => {
+      const label = new Konva.Text({
+        x,
+        y,
+        text,
+        fontSize: 12,
+        fontStyle,
+        fill: '#666',
+        fontFamily: 'Arial',
+        listening: false,
+      });
+      this.layer!.add(label);
+      this.shapes.push(label);
+    };
+
+    const bottom = this.y + this.size;
+    const right = this.x + this.size;
+    addText(this.x, bottom + 4, this.formatTick(domain.xRange[0]));
+    addText(right - 24, bottom + 4, this.formatTick(domain.xRange[1]));
+    addText(this.x - 32, bottom - 12, this.formatTick(domain.yRange[0]));
+    addText(this.x - 32, this.y, this.formatTick(domain.yRange[1]));
+    if (domain.xLabel) {
+      addText(this.x + this.size / 2 - 4, bottom + 18, domain.xLabel, 'bold');
+    }
+    if (domain.yLabel) {
+      addText(this.x - 24, this.y + this.size / 2 - 6, domain.yLabel, 'bold');
+    }
+    if (domain.title) {
+      addText(this.x, this.y - 20, domain.title);
+    }
+    if (domain.yAxis2) {
+      this.renderSecondYAxis(domain.yAxis2);
+    }
+  }
+
+  /**
+   * Ticks of the second y axis along the right edge of the frame
+   */
+  private renderSecondYAxis(axis: NonNullable<ColorPlaneDomain['yAxis2']>): void {
+    const [yMin, yMax] = this.domain!.yRange;
+    const right = this.x + this.size;
+    axis.ticks.forEach(({ value, label }) => {
+      if (value < Math.min(yMin, yMax) || value > Math.max(yMin, yMax)) return;
+      const y = this.y + this.size - ((value - yMin) / (yMax - yMin)) * this.size;
+      const tick = new Konva.Line({ points: [right, y, right + 4, y], stroke: '#999', strokeWidth: 1, listening: false });
+      const text = new Konva.Text({ x: right + 6, y: y - 6, text: label, fontSize: 11, fill: '#666', fontFamily: 'Arial', listening: false });
+      this.layer!.add(tick, text);
+      this.shapes.push(tick, text);
+    });
+    if (axis.label) {
+      const title = new Konva.Text({
+        x: right + 6,
+        y: this.y - 20,
+        text: axis.label,
+        fontSize: 12,
+        fontStyle: 'bold',
+        fill: '#666',
+        fontFamily: 'Arial',
+        listening: false,
+      });
+      this.layer!.add(title);
+      this.shapes.push(title);
+    }
+  }
+
+  private formatTick(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<ColorPlaneConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ColorPlaneConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Get the normalized coordinate system of the plane:
+   * (0, 0) is the bottom-left corner (xRange[0], yRange[0]), (1, 1) the top-right corner
+   */
+  getCoordinateSystem(): CoordinateSystem {
+    return {
+      offsetX: this.x,
+      offsetY: this.y + this.size,
+      scale: this.size,
+      maxX: 1,
+      maxY: 1,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Confusion Lines Component
+ * Draws the color vision deficiency confusion lines (colors a dichromat cannot tell apart)
+ * through the copunctal point on the CIE xy or u′v′ diagram
+ */
+
+import Konva from 'konva';
+import { ConfusionLinesConfig, CoordinateSystem } from './types';
+import { getDashPattern } from './dashPattern';
+import { xyToDiagram } from '../utils/colorConversion';
+import { COPUNCTAL_POINTS, CvdType, getConfusionLines } from '../utils/colorVisionDeficiency';
+
+export class ConfusionLines {
+  private layer: Konva.Layer | null = null;
+  private config: ConfusionLinesConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: ConfusionLinesConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        count: 15,
+        showCopunctalPoint: true,
+        lineStyle: { weight: 1, color: '#333', style: 'solid' },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Render the lines; defaultType is used when the config does not name a deficiency
+   */
+  render(defaultType: CvdType = 'protan'): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('ConfusionLines not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true) {
+      return;
+    }
+
+    const type = this.config.type ?? defaultType;
+    const style = this.config.lineStyle || {};
+    getConfusionLines(type, this.config.count ?? 15).forEach(([start, end]) => {
+      this.layer!.add(new Konva.Line({
+        points: [...this.toScreen(start), ...this.toScreen(end)],
+        stroke: style.color || '#333',
+        strokeWidth: style.weight ?? 1,
+        dash: style.dash || getDashPattern(style.style || 'solid', 6, 4),
+        opacity: 0.8,
+        listening: false,
+      }));
+    });
+
+    // The deutan point lies far outside the diagram, so only mark points within the view
+    const [a, b] = xyToDiagram(COPUNCTAL_POINTS[type], this.coordinateSystem.diagram);
+    const { maxX, maxY } = this.coordinateSystem;
+    if (this.config.showCopunctalPoint !== false && a >= 0 && a <= maxX && b >= 0 && b <= maxY) {
+      const [x, y] = this.toScreen(COPUNCTAL_POINTS[type]);
+      this.layer.add(new Konva.Circle({
+        x,
+        y,
+        radius: 3,
+        fill: style.color || '#333',
+        listening: false,
+      }));
+    }
+  }
+
+  private toScreen(xy: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale, diagram } = this.coordinateSystem!;
+    const [a, b] = xyToDiagram(xy, diagram);
+    return [offsetX + a * scale, offsetY - b * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<ConfusionLinesConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ConfusionLinesConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Contrast Overlay Component
+ * Shades the parts of a view that miss a contrast target against a reference color and
+ * draws contour lines at the contrast levels (WCAG AA/AAA ratios or APCA Lc values)
+ */
+
+import Konva from 'konva';
+import { ContrastOverlayConfig } from './types';
+import { getDashPattern } from './dashPattern';
+
+/**
+ * Screen rectangle sampled by the overlay
+ */
+export interface ContrastBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class ContrastOverlay {
+  private layer: Konva.Layer | null = null;
+  private config: ContrastOverlayConfig = {};
+  private initialized: boolean = false;
+
+  /**
+   * Initialize the component
+   */
+  init(layer: Konva.Layer, config: ContrastOverlayConfig = {}): void {
+    this.layer = layer;
+
+    // If already initialized, preserve existing config and only update the layer
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        reference: '#ffffff',
+        referenceRole: 'background',
+        metric: 'wcag',
+        mode: 'both',
+        resolution: 160,
+        shadeColor: 'rgba(0, 0, 0, 0.45)',
+        showLabels: true,
+        lineStyle: { weight: 1.5, color: '#111', style: 'solid' },
+        labelStyle: {
+          fontSize: 10,
+          color: '#111',
+          fontFamily: 'Arial',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Contour levels for the configured metric
+   */
+  getLevels(): number[] {
+    return this.config.levels ?? (this.config.metric === 'apca' ? [45, 60, 75, 90] : [3, 4.5, 7]);
+  }
+
+  /**
+   * Contrast below which regions are shaded
+   */
+  getTarget(): number {
+    return this.config.target ?? (this.config.metric === 'apca' ? 60 : 4.5);
+  }
+
+  /**
+   * Render the overlay; sample() returns the contrast (APCA as |Lc|) at a screen position,
+   * or null where the position is not part of the view
+   */
+  render(bounds: ContrastBounds, sample: (x: number, y: number) => number | null): void {
+    if (!this.layer) {
+      throw new Error('ContrastOverlay not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true || bounds.width <= 0 || bounds.height <= 0) {
+      return;
+    }
+
+    // Sample a grid of nodes covering the bounds
+    const resolution = Math.max(8, this.config.resolution ?? 160);
+    const longer = Math.max(bounds.width, bounds.height);
+    const columns = Math.max(2, Math.round((resolution * bounds.width) / longer));
+    const rows = Math.max(2, Math.round((resolution * bounds.height) / longer));
+    const dx = bounds.width / columns;
+    const dy = bounds.height / rows;
+    const values = new Float64Array((columns + 1) * (rows + 1));
+    for (let j = 0; j <= rows; j++) {
+      for (let i = 0; i <= columns; i++) {
+        const value = sample(bounds.x + i * dx, bounds.y + j * dy);
+        values[j * (columns + 1) + i] = value ?? NaN;
+      }
+    }
+
+    const mode = this.config.mode ?? 'both';
+    if (mode !== 'contour') {
+      this.renderShade(bounds, columns, rows, values);
+    }
+    if (mode !== 'shade') {
+      this.getLevels().forEach((level) => this.renderContour(bounds, columns, rows, values, level));
+    }
+  }
+
+  /**
+   * Shade nodes below the target as one image (one pixel per node, centered on the node)
+   */
+  private renderShade(bounds: ContrastBounds, columns: number, rows: number, values: Float64Array): void {
+    if (typeof document === 'undefined') return;
+    const canvas = document.createElement('canvas');
+    canvas.width = columns + 1;
+    canvas.height = rows + 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const target = this.getTarget();
+    ctx.fillStyle = this.config.shadeColor || 'rgba(0, 0, 0, 0.45)';
+    for (let j = 0; j <= rows; j++) {
+      for (let i = 0; i <= columns; i++) {
+        const value = values[j * (columns + 1) + i];
+        if (!Number.isNaN(value) && value < target) {
+          ctx.fillRect(i, j, 1, 1);
+        }
+      }
+    }
+
+    const dx = bounds.width / columns;
+    const dy = bounds.height / rows;
+    this.layer!.add(new Konva.Image({
+      x: bounds.x - dx / 2,
+      y: bounds.y - dy / 2,
+      width: bounds.width + dx,
+      height: bounds.height + dy,
+      image: canvas,
+      listening: false,
+    }));
+  }
+
+  /**
+   * Draw the contour at one level (marching squares; cells touching positions outside the view are skipped)
+   */
+  private renderContour(
+    bounds: ContrastBounds,
+    columns: number,
+    rows: number,
+    values: Float64Array,
+    level: number
+  ): void {
+    const dx = bounds.width / columns;
+    const dy = bounds.height / rows;
+    const at = (i: number, j: number) => values[j * (columns + 1) + i];
+    const segments: string[] = [];
+    let labelAt: [number, number] | null = null;
+
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < columns; i++) {
+        // Corners clockwise from top left, with the edges between them
+        const corners: Array<[number, number, number]> = [
+          [i, j, at(i, j)],
+          [i + 1, j, at(i + 1, j)],
+          [i + 1, j + 1, at(i + 1, j + 1)],
+          [i, j + 1, at(i, j + 1)],
+        ];
+        if (corners.some(([, , value]) => Number.isNaN(value))) continue;
+
+        const crossings: Array<[number, number]> = [];
+        for (let k = 0; k < 4; k++) {
+          const [i1, j1, v1] = corners[k];
+          const [i2, j2, v2] = corners[(k + 1) % 4];
+          if ((v1 >= level) !== (v2 >= level)) {
+            const t = (level - v1) / (v2 - v1);
+            crossings.push([
+              bounds.x + (i1 + (i2 - i1) * t) * dx,
+              bounds.y + (j1 + (j2 - j1) * t) * dy,
+            ]);
+          }
+        }
+        // Two crossings make one segment; saddle cells have four and are paired in edge order
+        for (let k = 0; k + 1 < crossings.length; k += 2) {
+          const [[x1, y1], [x2, y2]] = [crossings[k], crossings[k + 1]];
+          segments.push(`M${x1.toFixed(1)} ${y1.toFixed(1)}L${x2.toFixed(1)} ${y2.toFixed(1)}`);
+          if (!labelAt) labelAt = [x1, y1];
+        }
+      }
+    }
+    if (segments.length === 0) return;
+
+    const style = this.config.lineStyle || {};
+    this.layer!.add(new Konva.Path({
+      data: segments.join(''),
+      stroke: style.color || '#111',
+      strokeWidth: style.weight ?? 1.5,
+      dash: style.dash || getDashPattern(style.style || 'solid', 6, 4),
+      lineCap: 'round',
+      listening: false,
+    }));
+
+    if (this.config.showLabels !== false && labelAt) {
+      const labelStyle = this.config.labelStyle || {};
+      this.layer!.add(new Konva.Text({
+        x: labelAt[0] + 3,
+        y: labelAt[1] - 12,
+        text: this.config.metric === 'apca' ? `Lc ${level}` : `${level}:1`,
+        fontSize: labelStyle.fontSize || 10,
+        fill: labelStyle.color || '#111',
+        fontFamily: labelStyle.fontFamily || 'Arial',
+        listening: false,
+      }));
+    }
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<ContrastOverlayConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ContrastOverlayConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Dominant Wavelength Overlay Component
+ * Draws the construction of a point's dominant wavelength on the CIE xy or u′v′ diagram: the line
+ * from the white point through the point to the spectral locus (or the purple line), continued
+ * through white to the complementary wavelength
+ */
+
+import Konva from 'konva';
+import { DominantWavelengthConfig, CoordinateSystem, LineStyle } from './types';
+import { getDashPattern } from './dashPattern';
+import type { WhitePoint } from '../types';
+import { getWhitePoint, xyToDiagram } from '../utils/colorConversion';
+import { dominantWavelength } from '../utils/dominantWavelength';
+
+export class DominantWavelengthOverlay {
+  private layer: Konva.Layer | null = null;
+  private config: DominantWavelengthConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: DominantWavelengthConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        point: null,
+        showComplementary: true,
+        showLabel: true,
+        lineStyle: { weight: 1.5, color: '#111', style: 'solid' },
+        complementaryStyle: { weight: 1, color: '#111', style: 'dashed' },
+        labelStyle: {
+          fontSize: 11,
+          color: '#111',
+          fontFamily: 'Arial',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Render the construction for a chromaticity (xy) relative to a white point
+   */
+  render(xy: [number, number] | null, whitePoint: WhitePoint = 'D65'): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('DominantWavelengthOverlay not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true || !xy) {
+      return;
+    }
+
+    const reference = this.config.whitePoint ?? whitePoint;
+    const white = getWhitePoint(reference);
+    const result = dominantWavelength(xy, reference);
+    if (!result) return;
+
+    // Purples are named by their complementary wavelength, so that side is always drawn
+    if (result.complementaryBoundary && (result.purple || this.config.showComplementary !== false)) {
+      this.addLine([white, result.complementaryBoundary], this.config.complementaryStyle);
+      this.addDot(result.complementaryBoundary, this.config.complementaryStyle);
+    }
+    this.addLine([white, result.boundary], this.config.lineStyle);
+    this.addDot(result.boundary, this.config.lineStyle);
+
+    if (this.config.showLabel !== false) {
+      const wavelength = result.purple
+        ? result.complementary !== null ? `λc ${Math.round(result.complementary)} nm` : 'purple'
+        : `λd ${Math.round(result.dominant!)} nm`;
+      this.addLabel(result.boundary, white, `${wavelength}\npe ${Math.round(result.purity * 100)}%`);
+    }
+  }
+
+  /**
+   * Draw a line given in xy
+   */
+  private addLine(points: Array<[number, number]>, style: LineStyle = {}): void {
+    this.layer!.add(new Konva.Line({
+      points: points.flatMap((xy) => this.toScreen(xy)),
+      stroke: style.color || '#111',
+      strokeWidth: style.weight ?? 1,
+      dash: style.dash || getDashPattern(style.style || 'solid', 6, 4),
+      lineCap: 'round',
+      listening: false,
+    }));
+  }
+
+  private addDot(xy: [number, number], style: LineStyle = {}): void {
+    const [x, y] = this.toScreen(xy);
+    this.layer!.add(new Konva.Circle({
+      x,
+      y,
+      radius: 3,
+      fill: style.color || '#111',
+      listening: false,
+    }));
+  }
+
+  /**
+   * Label just outside the boundary point, away from the white point
+   */
+  private addLabel(xy: [number, number], white: [number, number], text: string): void {
+    const labelStyle = this.config.labelStyle || {};
+    const fontSize = labelStyle.fontSize || 11;
+    const [x, y] = this.toScreen(xy);
+    const [wx, wy] = this.toScreen(white);
+    const length = Math.hypot(x - wx, y - wy) || 1;
+    const label = new Konva.Text({
+      text,
+      fontSize,
+      fill: labelStyle.color || '#111',
+      fontFamily: labelStyle.fontFamily || 'Arial',
+      listening: false,
+    });
+    // Offset along the construction line, then anchor the side facing the point
+    const dx = (x - wx) / length;
+    const dy = (y - wy) / length;
+    label.x(x + dx * 8 - (dx < 0 ? label.width() : 0));
+    label.y(y + dy * 8 - (dy < 0 ? label.height() : 0));
+    this.layer!.add(label);
+  }
+
+  private toScreen(xy: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale, diagram } = this.coordinateSystem!;
+    const [a, b] = xyToDiagram(xy, diagram);
+    return [offsetX + a * scale, offsetY - b * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<DominantWavelengthConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+        complementaryStyle: config.complementaryStyle
+          ? { ...this.config.complementaryStyle, ...config.complementaryStyle }
+          : this.config.complementaryStyle,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): DominantWavelengthConfig {
+    return { ...this.config };
+  }
+}
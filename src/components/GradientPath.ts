@@ -0,0 +1,201 @@
+/**
+ * Gradient Path Component
+ * Draws color interpolation paths through the view and a strip of each path's sampled colors,
+ * so interpolation spaces can be compared side by side
+ */
+
+import Konva from 'konva';
+import { GradientPathConfig, GradientPathEntry, CoordinateSystem } from './types';
+import { getDashPattern } from './dashPattern';
+import { transformCssColors } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
+
+/** Path colors used when the config gives none (one per space, in order) */
+const PATH_COLORS = ['#212121', '#d62728', '#1f77b4', '#2ca02c', '#9467bd', '#ff7f0e', '#8c564b'];
+
+/** Display names of the interpolation spaces for strip labels */
+const SPACE_LABELS: Record<string, string> = {
+  srgb: 'sRGB',
+  'srgb-linear': 'linear sRGB',
+  lab: 'Lab',
+  lch: 'LCh',
+  oklab: 'OKLab',
+  oklch: 'OKLCh',
+  hsl: 'HSL',
+};
+
+export class GradientPath {
+  private layer: Konva.Layer | null = null;
+  private config: GradientPathConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: GradientPathConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        spaces: ['oklab'],
+        hue: 'shorter',
+        steps: 48,
+        showStrip: true,
+        stripHeight: 14,
+        lineStyle: { weight: 2, style: 'solid' },
+        labelStyle: {
+          fontSize: 11,
+          color: '#333',
+          fontFamily: 'Arial',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Set the transform applied to the strip colors (e.g. a color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
+  /**
+   * Color of the path for the space at an index
+   */
+  getPathColor(index: number): string {
+    const colors = this.config.colors?.length ? this.config.colors : PATH_COLORS;
+    return colors[index % colors.length];
+  }
+
+  /**
+   * Render the paths and, below the view, their strips; size is the stage size in pixels
+   */
+  render(paths: GradientPathEntry[], size: { width: number; height: number }): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('GradientPath not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true) {
+      return;
+    }
+
+    const lineStyle = this.config.lineStyle || {};
+    paths.forEach((path, index) => {
+      // Samples outside the view break the path into runs
+      const runs: number[][] = [[]];
+      path.coords.forEach((coords) => {
+        if (coords) runs[runs.length - 1].push(...this.toScreen(coords));
+        else if (runs[runs.length - 1].length > 0) runs.push([]);
+      });
+      runs.filter((points) => points.length >= 4).forEach((points) => {
+        this.layer!.add(new Konva.Line({
+          points,
+          stroke: this.getPathColor(index),
+          strokeWidth: lineStyle.weight ?? 2,
+          dash: lineStyle.dash || getDashPattern(lineStyle.style || 'solid', 6, 4),
+          lineCap: 'round',
+          lineJoin: 'round',
+          listening: false,
+        }));
+      });
+    });
+
+    if (this.config.showStrip !== false) {
+      this.renderStrips(paths, size);
+    }
+  }
+
+  /**
+   * One labeled strip per path, stacked upward from the bottom left corner
+   */
+  private renderStrips(paths: GradientPathEntry[], size: { width: number; height: number }): void {
+    const margin = 10;
+    const labelWidth = 78;
+    const stripHeight = this.config.stripHeight ?? 14;
+    const stripWidth = Math.max(40, Math.min(360, size.width - 2 * margin - labelWidth));
+    const labelStyle = this.config.labelStyle || {};
+
+    paths.forEach((path, index) => {
+      if (path.colors.length === 0) return;
+      const y = size.height - margin - (paths.length - index) * (stripHeight + 4);
+
+      // Swatch of the path color, then the space name
+      this.layer!.add(new Konva.Rect({
+        x: margin,
+        y: y + stripHeight / 2 - 1.5,
+        width: 12,
+        height: 3,
+        fill: this.getPathColor(index),
+        listening: false,
+      }));
+      this.layer!.add(new Konva.Text({
+        x: margin + 16,
+        y: y + (stripHeight - (labelStyle.fontSize || 11)) / 2,
+        text: SPACE_LABELS[path.space] || path.space,
+        fontSize: labelStyle.fontSize || 11,
+        fill: labelStyle.color || '#333',
+        fontFamily: labelStyle.fontFamily || 'Arial',
+        listening: false,
+      }));
+
+      const colors = path.colors.map((color) => this.colorTransform ? transformCssColors(color, this.colorTransform) : color);
+      const colorStops = colors.flatMap((color, i) => [colors.length > 1 ? i / (colors.length - 1) : 0, color]);
+      this.layer!.add(new Konva.Rect({
+        x: margin + labelWidth,
+        y,
+        width: stripWidth,
+        height: stripHeight,
+        fillLinearGradientStartPoint: { x: 0, y: 0 },
+        fillLinearGradientEndPoint: { x: stripWidth, y: 0 },
+        fillLinearGradientColorStops: colorStops,
+        stroke: 'rgba(0, 0, 0, 0.3)',
+        strokeWidth: 1,
+        listening: false,
+      }));
+    });
+  }
+
+  private toScreen(coords: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale } = this.coordinateSystem!;
+    return [offsetX + coords[0] * scale, offsetY - coords[1] * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<GradientPathConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): GradientPathConfig {
+    return { ...this.config };
+  }
+}
@@ -7,6 +7,8 @@
 import Konva from 'konva';
 import { HSLHueWheelConfig } from './types';
 import { hslToRgb } from '../utils/colorConversion';
+import { createColorTransformFilter } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
 import { getDefaultCircleImageUrl } from '../utils/assetUrls';
 
 export class HSLHueWheel {
@@ -16,6 +18,7 @@ export class HSLHueWheel {
   private centerY: number = 0;
   private radius: number = 0;
   private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
   private shapes: Konva.Node[] = [];
 
   /**
@@ -108,7 +111,8 @@ export class HSLHueWheel {
 
     for (let i = 0; i < segmentCount; i++) {
       const hue = i * segmentAngle;
-      const [r, g, b] = hslToRgb(hue, saturation, lightness);
+      const rgb = hslToRgb(hue, saturation, lightness);
+      const [r, g, b] = this.colorTransform ? this.colorTransform(rgb) : rgb;
       const color = `rgb(${r}, ${g}, ${b})`;
       
       const wedge = new Konva.Wedge({
@@ -155,7 +159,9 @@ export class HSLHueWheel {
         height: h,
       });
       konvaImage.cache();
-      konvaImage.filters([Konva.Filters.Brighten]);
+      konvaImage.filters(this.colorTransform
+        ? [Konva.Filters.Brighten, createColorTransformFilter(this.colorTransform)]
+        : [Konva.Filters.Brighten]);
       konvaImage.brightness(brightness);
       this.layer!.add(konvaImage);
       konvaImage.moveToBottom();
@@ -195,7 +201,8 @@ export class HSLHueWheel {
         const stops = 36;
         for (let i = 0; i <= stops; i++) {
           const hue = (i / stops) * 360;
-          const [r, g, b] = hslToRgb(hue, saturation, lightness);
+          const rgb = hslToRgb(hue, saturation, lightness);
+          const [r, g, b] = this.colorTransform ? this.colorTransform(rgb) : rgb;
           gradient.addColorStop(i / stops, `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`);
         }
         ctx.save();
@@ -215,6 +222,13 @@ export class HSLHueWheel {
     return true;
   }
 
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
   /**
    * Update configuration
    */
@@ -0,0 +1,183 @@
+/**
+ * Harmony Overlay Component
+ * Draws a color harmony as spokes from the achromatic center, a polygon through its colors
+ * and a dot in each color
+ */
+
+import Konva from 'konva';
+import { HarmonyConfig, HarmonyEntry, CoordinateSystem } from './types';
+import { getDashPattern } from './dashPattern';
+import { transformCssColors } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
+
+export class HarmonyOverlay {
+  private layer: Konva.Layer | null = null;
+  private config: HarmonyConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
+  // Redrawn in place while the base marker is dragged, so it stays below the markers
+  private group: Konva.Group | null = null;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: HarmonyConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        type: 'complementary',
+        base: 0,
+        angle: 30,
+        count: 5,
+        showSpokes: true,
+        showPolygon: true,
+        dotSize: 7,
+        lineStyle: { weight: 1.5, color: '#333', style: 'solid' },
+        spokeStyle: { weight: 1, color: '#333', style: 'dashed' },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Set the transform applied to the dot colors (e.g. a color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
+  /**
+   * Render the harmony; entries start with the base, center is where the spokes meet (null for no spokes)
+   */
+  render(entries: HarmonyEntry[], center: [number, number] | null): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('HarmonyOverlay not initialized. Call init() first.');
+    }
+
+    // The group is destroyed with the layer's children on a full re-render
+    if (!this.group || !this.group.getLayer()) {
+      this.group = new Konva.Group({ listening: false });
+      this.layer.add(this.group);
+    }
+    this.group.destroyChildren();
+
+    if (this.config.show !== true || entries.length === 0) {
+      return;
+    }
+
+    const screen = entries.map(({ coords }) => this.toScreen(coords));
+
+    const spokeStyle = this.config.spokeStyle || {};
+    if (this.config.showSpokes !== false && center) {
+      const [cx, cy] = this.toScreen(center);
+      screen.forEach(([x, y]) => {
+        this.group!.add(new Konva.Line({
+          points: [cx, cy, x, y],
+          stroke: spokeStyle.color || '#333',
+          strokeWidth: spokeStyle.weight ?? 1,
+          dash: spokeStyle.dash || getDashPattern(spokeStyle.style || 'dashed', 6, 4),
+        }));
+      });
+    }
+
+    // Analogous and monochromatic sets are open runs; the other harmonies close into a polygon
+    const lineStyle = this.config.lineStyle || {};
+    if (this.config.showPolygon !== false && screen.length >= 2) {
+      const open = this.config.type === 'analogous' || this.config.type === 'monochromatic';
+      const ordered = open || !center ? this.orderAlongRun(screen) : this.orderAroundCenter(screen, this.toScreen(center));
+      this.group.add(new Konva.Line({
+        points: ordered.flat(),
+        closed: !open && ordered.length >= 3,
+        stroke: lineStyle.color || '#333',
+        strokeWidth: lineStyle.weight ?? 1.5,
+        dash: lineStyle.dash || getDashPattern(lineStyle.style || 'solid', 6, 4),
+        lineJoin: 'round',
+      }));
+    }
+
+    const dotSize = this.config.dotSize ?? 7;
+    entries.forEach(({ color }, i) => {
+      const [x, y] = screen[i];
+      this.group!.add(new Konva.Circle({
+        x,
+        y,
+        radius: dotSize,
+        fill: this.colorTransform ? transformCssColors(color, this.colorTransform) : color,
+        stroke: lineStyle.color || '#333',
+        strokeWidth: 1,
+      }));
+    });
+  }
+
+  /**
+   * Order positions by angle around the center so the polygon does not cross itself
+   */
+  private orderAroundCenter(points: Array<[number, number]>, [cx, cy]: [number, number]): Array<[number, number]> {
+    return [...points].sort((a, b) => Math.atan2(a[1] - cy, a[0] - cx) - Math.atan2(b[1] - cy, b[0] - cx));
+  }
+
+  /**
+   * Order positions along the run from one end: start at the point farthest from the others' centroid
+   * and repeatedly take the nearest remaining one
+   */
+  private orderAlongRun(points: Array<[number, number]>): Array<[number, number]> {
+    const cx = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+    const cy = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+    const remaining = [...points];
+    let current = remaining.reduce((far, p) => (Math.hypot(p[0] - cx, p[1] - cy) > Math.hypot(far[0] - cx, far[1] - cy) ? p : far));
+    const ordered: Array<[number, number]> = [];
+    while (remaining.length > 0) {
+      remaining.splice(remaining.indexOf(current), 1);
+      ordered.push(current);
+      const from = current;
+      current = remaining.reduce<[number, number]>(
+        (near, p) => (Math.hypot(p[0] - from[0], p[1] - from[1]) < Math.hypot(near[0] - from[0], near[1] - from[1]) ? p : near),
+        remaining[0]
+      );
+    }
+    return ordered;
+  }
+
+  private toScreen(coords: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale } = this.coordinateSystem!;
+    return [offsetX + coords[0] * scale, offsetY - coords[1] * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<HarmonyConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+        spokeStyle: config.spokeStyle
+          ? { ...this.config.spokeStyle, ...config.spokeStyle }
+          : this.config.spokeStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): HarmonyConfig {
+    return { ...this.config };
+  }
+}
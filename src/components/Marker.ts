@@ -4,14 +4,17 @@
  */
 
 import Konva from 'konva';
-import { MarkerConfig, CoordinateSystem } from './types';
+import { MarkerConfig, MarkerDragHandler, MarkerInteraction, CoordinateSystem } from './types';
 import { ColorPoint } from '../types';
+import { transformCssColors } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
 
 export class Marker {
   private layer: Konva.Layer | null = null;
   private config: MarkerConfig = {};
   private coordinateSystem: CoordinateSystem | null = null;
   private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
 
   /**
    * Initialize the component
@@ -36,6 +39,12 @@ export class Marker {
           style: 'solid',
         },
         showLabel: false,
+        draggable: true,
+        outOfGamut: {
+          weight: 1.5,
+          color: '#d50000',
+          style: 'dashed',
+        },
         labelStyle: {
           fontSize: 12,
           color: '#000',
@@ -55,6 +64,7 @@ export class Marker {
         ...config,
         // Deep merge for nested objects
         border: config.border !== undefined ? config.border : this.config.border,
+        outOfGamut: config.outOfGamut !== undefined ? config.outOfGamut : this.config.outOfGamut,
         labelStyle: config.labelStyle ? {
           ...existingLabelStyle,
           ...config.labelStyle,
@@ -65,8 +75,12 @@ export class Marker {
 
   /**
    * Render a single marker
+   * With onDrag (and draggable not disabled) the marker can be dragged; the handler receives the
+   * position in coordinate system units and returns where the marker should snap to (null reverts).
+   * onHover and onClick report the pointer entering/leaving and clicking the marker; tooltip
+   * supplies text shown while it is hovered.
    */
-  render(point: ColorPoint, xyCoords: [number, number]): void {
+  render(point: ColorPoint, xyCoords: [number, number], interaction: MarkerInteraction = {}): void {
     if (!this.layer || !this.coordinateSystem) {
       throw new Error('Marker not initialized. Call init() first.');
     }
@@ -81,16 +95,127 @@ export class Marker {
     const screenX = offsetX + x * scale;
     const screenY = offsetY - y * scale;
 
+    // Shape and label share a group so they move together while dragging
+    const { onDrag, onClick, tooltip } = interaction;
+    const draggable = !!onDrag && this.config.draggable !== false;
+    const group = new Konva.Group({ draggable });
+
     // Render the marker shape
-    const shape = this.createShape(screenX, screenY);
+    // Weighted points (e.g. palette colors) shrink with their share
+    const sizeScale = point.weight !== undefined ? 0.4 + 0.6 * Math.sqrt(Math.max(0, point.weight)) : 1;
+    const shape = this.createShape(screenX, screenY, sizeScale);
     if (shape) {
-      this.layer.add(shape);
+      group.add(shape);
+    }
+
+    // Values outside sRGB get a second, dashed ring so clipped colors are not mistaken for exact ones
+    const outOfGamut = this.config.outOfGamut;
+    if (point.inGamut === false && outOfGamut) {
+      group.add(new Konva.Circle({
+        x: screenX,
+        y: screenY,
+        radius: (this.config.size || 6) * sizeScale + 4,
+        stroke: this.transformColor(outOfGamut.color || '#d50000'),
+        strokeWidth: outOfGamut.weight ?? 1.5,
+        dash: outOfGamut.dash || this.getDashPattern(outOfGamut.style || 'dashed'),
+      }));
     }
 
     // Render label if enabled
     if (this.config.showLabel && point.label) {
-      this.renderLabel(screenX, screenY, point.label);
+      const label = this.createLabel(screenX, screenY, point.label);
+      if (label) {
+        group.add(label);
+      }
+    }
+
+    const size = (this.config.size || 6) * sizeScale;
+    let hoverTooltip: Konva.Label | null = null;
+    const onHover = (hovered: boolean) => {
+      interaction.onHover?.(hovered);
+      hoverTooltip?.destroy();
+      hoverTooltip = null;
+      const text = hovered && tooltip ? tooltip() : null;
+      if (text) {
+        hoverTooltip = this.createTooltip(screenX + group.x() + size + 6, screenY + group.y() + size + 6, text);
+        this.layer!.add(hoverTooltip);
+      }
+      this.layer!.batchDraw();
+    };
+    if (draggable || interaction.onHover || onClick || tooltip) {
+      this.addHitArea(group, screenX, screenY, size, draggable ? 'grab' : 'pointer', onHover);
+    }
+    if (onClick) {
+      group.on('click tap', (e) => {
+        // Keep the click from also reaching the stage (which reports the color under the pointer)
+        e.cancelBubble = true;
+        onClick();
+      });
+    }
+    if (draggable) {
+      this.enableDragging(group, screenX, screenY, onDrag!);
     }
+
+    this.layer.add(group);
+  }
+
+  /**
+   * Outline-only shapes are hard to hit, so add an invisible filled hit area and a cursor hint
+   */
+  private addHitArea(
+    group: Konva.Group,
+    screenX: number,
+    screenY: number,
+    size: number,
+    cursor: string,
+    onHover?: (hovered: boolean) => void
+  ): void {
+    group.add(new Konva.Circle({
+      x: screenX,
+      y: screenY,
+      radius: size + 4,
+      fill: 'rgba(0, 0, 0, 0)',
+    }));
+
+    const stage = this.layer!.getStage();
+    group.on('mouseenter', () => {
+      if (stage) stage.container().style.cursor = cursor;
+      onHover?.(true);
+    });
+    group.on('mouseleave', () => {
+      if (stage) stage.container().style.cursor = '';
+      onHover?.(false);
+    });
+  }
+
+  /**
+   * Make a marker group draggable; the screen position is inverted through the coordinate system
+   */
+  private enableDragging(
+    group: Konva.Group,
+    screenX: number,
+    screenY: number,
+    onDrag: MarkerDragHandler
+  ): void {
+    const { offsetX, offsetY, scale } = this.coordinateSystem!;
+
+    let lastValid = { x: 0, y: 0 };
+    const handle = (final: boolean) => {
+      const coords: [number, number] = [
+        (screenX + group.x() - offsetX) / scale,
+        (offsetY - (screenY + group.y())) / scale, // Flip Y
+      ];
+      const snapped = onDrag(coords, final);
+      if (snapped) {
+        lastValid = {
+          x: offsetX + snapped[0] * scale - screenX,
+          y: offsetY - snapped[1] * scale - screenY,
+        };
+      }
+      group.position(lastValid);
+    };
+    group.on('dragmove', () => handle(false));
+    group.on('dragend', () => handle(true));
   }
 
   /**
@@ -107,8 +232,8 @@ export class Marker {
   /**
    * Create the marker shape based on configuration
    */
-  private createShape(x: number, y: number): Konva.Shape | null {
-    const size = this.config.size || 6;
+  private createShape(x: number, y: number, sizeScale: number = 1): Konva.Shape | null {
+    const size = (this.config.size || 6) * sizeScale;
     const border = this.config.border;
 
     let shape: Konva.Shape | null = null;
@@ -120,7 +245,7 @@ export class Marker {
           y: y,
           radius: size,
           fill: undefined, // No fill, only outline
-          stroke: border !== false ? border?.color || '#000' : undefined,
+          stroke: border !== false ? this.transformColor(border?.color || '#000') : undefined,
           strokeWidth: border !== false ? border?.weight || 2 : 0,
           dash: border !== false ? this.getDashPattern(border?.style || 'solid') : undefined,
         });
@@ -133,7 +258,7 @@ export class Marker {
           width: size * 2,
           height: size * 2,
           fill: undefined, // No fill, only outline
-          stroke: border !== false ? border?.color || '#000' : undefined,
+          stroke: border !== false ? this.transformColor(border?.color || '#000') : undefined,
           strokeWidth: border !== false ? border?.weight || 2 : 0,
           dash: border !== false ? this.getDashPattern(border?.style || 'solid') : undefined,
         });
@@ -146,7 +271,7 @@ export class Marker {
           sides: 3,
           radius: size,
           fill: undefined, // No fill, only outline
-          stroke: border !== false ? border?.color || '#000' : undefined,
+          stroke: border !== false ? this.transformColor(border?.color || '#000') : undefined,
           strokeWidth: border !== false ? border?.weight || 2 : 0,
           dash: border !== false ? this.getDashPattern(border?.style || 'solid') : undefined,
         });
@@ -160,7 +285,7 @@ export class Marker {
           radius: size,
           rotation: 45,
           fill: undefined, // No fill, only outline
-          stroke: border !== false ? border?.color || '#000' : undefined,
+          stroke: border !== false ? this.transformColor(border?.color || '#000') : undefined,
           strokeWidth: border !== false ? border?.weight || 2 : 0,
           dash: border !== false ? this.getDashPattern(border?.style || 'solid') : undefined,
         });
@@ -174,10 +299,10 @@ export class Marker {
   }
 
   /**
-   * Render the label for a marker
+   * Create the label for a marker
    */
-  private renderLabel(x: number, y: number, text: string): void {
-    if (!this.layer || !this.config.labelStyle) return;
+  private createLabel(x: number, y: number, text: string): Konva.Text | null {
+    if (!this.config.labelStyle) return null;
 
     const labelStyle = this.config.labelStyle;
 
@@ -186,11 +311,38 @@ export class Marker {
       y: y + (labelStyle.offsetY || -8),
       text: text,
       fontSize: labelStyle.fontSize || 12,
-      fill: labelStyle.color || '#000',
+      fill: this.transformColor(labelStyle.color || '#000'),
       fontFamily: labelStyle.fontFamily || 'Arial',
     });
 
-    this.layer.add(label);
+    return label;
+  }
+
+  /**
+   * Create a hover tooltip (text on a light box)
+   */
+  private createTooltip(x: number, y: number, text: string): Konva.Label {
+    const labelStyle = this.config.labelStyle || {};
+    const tooltip = new Konva.Label({ x, y, listening: false });
+    tooltip.add(new Konva.Tag({
+      fill: 'rgba(255, 255, 255, 0.9)',
+      stroke: '#999',
+      strokeWidth: 1,
+      cornerRadius: 3,
+    }));
+    tooltip.add(new Konva.Text({
+      text,
+      padding: 4,
+      fontSize: labelStyle.fontSize || 12,
+      fill: labelStyle.color || '#000',
+      fontFamily: labelStyle.fontFamily || 'Arial',
+      lineHeight: 1.3,
+    }));
+    return tooltip;
+  }
+
+  private transformColor(color: string): string {
+    return this.colorTransform ? transformCssColors(color, this.colorTransform) : color;
   }
 
   /**
@@ -208,6 +360,13 @@ export class Marker {
     }
   }
 
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
   /**
    * Update configuration
    */
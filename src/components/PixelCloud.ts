@@ -0,0 +1,117 @@
+/**
+ * Pixel Cloud Component
+ * Draws image pixels (or histogram bins) as a translucent density cloud
+ * All dots are painted by a single Konva.Shape, so thousands of samples stay cheap
+ */
+
+import Konva from 'konva';
+import { PixelCloudConfig, PixelCloudEntry, CoordinateSystem } from './types';
+import { transformCssColors } from '../utils/colorVisionDeficiency';
+import type { ColorTransform } from '../utils/colorVisionDeficiency';
+
+export class PixelCloud {
+  private layer: Konva.Layer | null = null;
+  private config: PixelCloudConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+  private colorTransform: ColorTransform | null = null;
+  private shape: Konva.Shape | null = null;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: PixelCloudConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: true,
+        minSize: 1.5,
+        maxSize: 6,
+        opacity: 0.6,
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.config = {
+        ...this.config,
+        ...config,
+      };
+    }
+  }
+
+  /**
+   * Render the cloud
+   */
+  render(entries: PixelCloudEntry[]): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('PixelCloud not initialized. Call init() first.');
+    }
+
+    if (this.shape && this.shape.getLayer()) {
+      this.shape.destroy();
+    }
+    this.shape = null;
+
+    if (this.config.show === false || entries.length === 0) {
+      return;
+    }
+
+    const { offsetX, offsetY, scale } = this.coordinateSystem;
+    const minSize = this.config.minSize ?? 1.5;
+    const maxSize = this.config.maxSize ?? 6;
+    // Draw light bins first so heavy ones end up on top
+    const dots = entries
+      .map(({ coords, color, weight }) => ({
+        x: offsetX + coords[0] * scale,
+        y: offsetY - coords[1] * scale, // Flip Y
+        radius: minSize + (maxSize - minSize) * Math.sqrt(weight ?? 1),
+        color: this.colorTransform ? transformCssColors(color, this.colorTransform) : color,
+      }))
+      .sort((a, b) => a.radius - b.radius);
+
+    this.shape = new Konva.Shape({
+      opacity: this.config.opacity ?? 0.6,
+      listening: false,
+      sceneFunc: (context) => {
+        dots.forEach((dot) => {
+          context.beginPath();
+          context.arc(dot.x, dot.y, dot.radius, 0, Math.PI * 2);
+          context.setAttr('fillStyle', dot.color);
+          context.fill();
+        });
+      },
+    });
+    this.layer.add(this.shape);
+  }
+
+  /**
+   * Set the transform applied to drawn colors (e.g. color vision deficiency simulation); null for none
+   */
+  setColorTransform(transform: ColorTransform | null): void {
+    this.colorTransform = transform;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<PixelCloudConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = { ...this.config, ...config };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): PixelCloudConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Planckian Locus Component
+ * Draws the blackbody curve with temperature ticks, iso-CCT lines and the CIE daylight locus
+ * on the CIE xy or u′v′ diagram
+ */
+
+import Konva from 'konva';
+import { PlanckianLocusConfig, CoordinateSystem, LineStyle } from './types';
+import { getDashPattern } from './dashPattern';
+import { xyToDiagram } from '../utils/colorConversion';
+import { cctToXy, daylightXy } from '../utils/colorTemperature';
+
+export class PlanckianLocus {
+  private layer: Konva.Layer | null = null;
+  private config: PlanckianLocusConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: PlanckianLocusConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        range: [1000, 25000],
+        ticks: [1500, 2000, 2500, 3000, 4000, 5000, 6500, 10000],
+        showIsotherms: true,
+        isothermDuv: 0.03,
+        showDaylightLocus: true,
+        showLabels: true,
+        lineStyle: { weight: 1.5, color: '#222', style: 'solid' },
+        isothermStyle: { weight: 1, color: '#444', style: 'solid' },
+        daylightStyle: { weight: 1, color: '#555', style: 'dashed' },
+        labelStyle: {
+          fontSize: 10,
+          color: '#222',
+          fontFamily: 'Arial',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Render the locus overlay
+   */
+  render(): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('PlanckianLocus not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true) {
+      return;
+    }
+
+    const [minCct, maxCct] = this.config.range || [1000, 25000];
+    // Sample evenly in mireds, where the curve is close to uniform
+    const samples = 120;
+    const locus: Array<[number, number]> = [];
+    for (let i = 0; i <= samples; i++) {
+      const mired = 1e6 / maxCct + ((1e6 / minCct - 1e6 / maxCct) * i) / samples;
+      locus.push(cctToXy(1e6 / mired));
+    }
+    this.addLine(locus, this.config.lineStyle);
+
+    if (this.config.showDaylightLocus !== false) {
+      const daylight: Array<[number, number]> = [];
+      for (let i = 0; i <= samples; i++) {
+        const mired = 1e6 / 25000 + ((1e6 / 4000 - 1e6 / 25000) * i) / samples;
+        daylight.push(daylightXy(1e6 / mired));
+      }
+      this.addLine(daylight, this.config.daylightStyle);
+    }
+
+    const ticks = (this.config.ticks || []).filter((cct) => cct >= minCct && cct <= maxCct);
+    const duv = this.config.isothermDuv ?? 0.03;
+    ticks.forEach((cct) => {
+      if (this.config.showIsotherms !== false) {
+        this.addLine([cctToXy(cct, -duv), cctToXy(cct, duv)], this.config.isothermStyle);
+      }
+      if (this.config.showLabels !== false) {
+        this.addLabel(cctToXy(cct, -duv), cct);
+      }
+    });
+  }
+
+  /**
+   * Draw a polyline given in xy
+   */
+  private addLine(points: Array<[number, number]>, style: LineStyle = {}): void {
+    const screen = points.flatMap((xy) => this.toScreen(xy));
+    this.layer!.add(new Konva.Line({
+      points: screen,
+      stroke: style.color || '#222',
+      strokeWidth: style.weight ?? 1,
+      dash: style.dash || getDashPattern(style.style || 'solid', 6, 4),
+      lineCap: 'round',
+      lineJoin: 'round',
+      listening: false,
+    }));
+  }
+
+  /**
+   * Temperature label below the end of an isotherm
+   */
+  private addLabel(xy: [number, number], cct: number): void {
+    const labelStyle = this.config.labelStyle || {};
+    const [x, y] = this.toScreen(xy);
+    this.layer!.add(new Konva.Text({
+      x: x - 14,
+      y: y + 3,
+      text: cct >= 10000 ? `${cct / 1000}kK` : `${cct}K`,
+      fontSize: labelStyle.fontSize || 10,
+      fill: labelStyle.color || '#222',
+      fontFamily: labelStyle.fontFamily || 'Arial',
+      listening: false,
+    }));
+  }
+
+  private toScreen(xy: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale, diagram } = this.coordinateSystem!;
+    const [a, b] = xyToDiagram(xy, diagram);
+    return [offsetX + a * scale, offsetY - b * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<PlanckianLocusConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): PlanckianLocusConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Tolerance Region Component
+ * Draws the ΔE tolerance region around a reference color and a pass/fail ring around
+ * each point compared with it
+ */
+
+import Konva from 'konva';
+import { ToleranceConfig, ToleranceSampleEntry, CoordinateSystem } from './types';
+import { getDashPattern } from './dashPattern';
+
+export class ToleranceRegion {
+  private layer: Konva.Layer | null = null;
+  private config: ToleranceConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: ToleranceConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: false,
+        reference: 0,
+        threshold: 2,
+        method: '2000',
+        regionColor: '#1565c0',
+        opacity: 0.15,
+        passColor: '#2e7d32',
+        failColor: '#c62828',
+        segments: 72,
+        ringSize: 11,
+        lineStyle: { weight: 1.5, style: 'solid' },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.updateConfig(config);
+    }
+  }
+
+  /**
+   * Render the region boundary (coordinate system units, closed) and the sample rings
+   */
+  render(boundary: Array<[number, number]>, samples: ToleranceSampleEntry[]): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('ToleranceRegion not initialized. Call init() first.');
+    }
+
+    if (this.config.show !== true) {
+      return;
+    }
+
+    const regionColor = this.config.regionColor || '#1565c0';
+    const lineStyle = this.config.lineStyle || {};
+    if (boundary.length >= 3) {
+      const points = boundary.flatMap((coords) => this.toScreen(coords));
+      // Translucent fill and opaque outline are separate shapes so they get different opacities
+      this.layer.add(new Konva.Line({
+        points,
+        closed: true,
+        fill: regionColor,
+        opacity: this.config.opacity ?? 0.15,
+        listening: false,
+      }));
+      this.layer.add(new Konva.Line({
+        points,
+        closed: true,
+        stroke: lineStyle.color || regionColor,
+        strokeWidth: lineStyle.weight ?? 1.5,
+        dash: lineStyle.dash || getDashPattern(lineStyle.style || 'solid', 6, 4),
+        lineJoin: 'round',
+        listening: false,
+      }));
+    }
+
+    const ringSize = this.config.ringSize ?? 11;
+    samples.forEach(({ coords, pass }) => {
+      const [x, y] = this.toScreen(coords);
+      this.layer!.add(new Konva.Circle({
+        x,
+        y,
+        radius: ringSize,
+        stroke: pass ? this.config.passColor || '#2e7d32' : this.config.failColor || '#c62828',
+        strokeWidth: 2.5,
+        listening: false,
+      }));
+    });
+  }
+
+  private toScreen(coords: [number, number]): [number, number] {
+    const { offsetX, offsetY, scale } = this.coordinateSystem!;
+    return [offsetX + coords[0] * scale, offsetY - coords[1] * scale]; // Flip Y
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<ToleranceConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        lineStyle: config.lineStyle
+          ? { ...this.config.lineStyle, ...config.lineStyle }
+          : this.config.lineStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ToleranceConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * White Point Markers Component
+ * Marks reference white points (D65, D50, ...) on the CIE xy or u′v′ diagram
+ * The active white point is drawn emphasized, additional ones for comparison
+ */
+
+import Konva from 'konva';
+import { WhitePointMarkerConfig, WhitePointMarkerEntry, CoordinateSystem } from './types';
+import { xyToDiagram } from '../utils/colorConversion';
+
+export class WhitePointMarkers {
+  private layer: Konva.Layer | null = null;
+  private config: WhitePointMarkerConfig = {};
+  private coordinateSystem: CoordinateSystem | null = null;
+  private initialized: boolean = false;
+  private shapes: Konva.Node[] = [];
+
+  /**
+   * Initialize the component
+   */
+  init(
+    layer: Konva.Layer,
+    coordinateSystem: CoordinateSystem,
+    config: WhitePointMarkerConfig = {}
+  ): void {
+    this.layer = layer;
+    this.coordinateSystem = coordinateSystem;
+
+    // If already initialized, preserve existing config and only update layer/coordinate system
+    // Otherwise, set defaults
+    if (!this.initialized) {
+      this.config = {
+        show: true,
+        size: 6,
+        color: '#000',
+        inactiveColor: '#777',
+        showLabel: true,
+        labelStyle: {
+          fontSize: 11,
+          color: '#333',
+          fontFamily: 'Arial',
+        },
+        ...config,
+      };
+      this.initialized = true;
+    } else if (config && typeof config === 'object' && Object.keys(config).length > 0) {
+      this.config = {
+        ...this.config,
+        ...config,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Render the white point markers
+   */
+  render(whitePoints: WhitePointMarkerEntry[]): void {
+    if (!this.layer || !this.coordinateSystem) {
+      throw new Error('WhitePointMarkers not initialized. Call init() first.');
+    }
+
+    // Clear existing shapes (only if they still exist in the layer)
+    this.shapes.forEach(shape => {
+      if (shape.getLayer()) {
+        shape.destroy();
+      }
+    });
+    this.shapes = [];
+
+    if (this.config.show === false) {
+      return;
+    }
+
+    const { offsetX, offsetY, scale } = this.coordinateSystem;
+    const size = this.config.size ?? 6;
+    const labelStyle = this.config.labelStyle || {};
+
+    whitePoints.forEach(({ label, xy, active }) => {
+      const [a, b] = xyToDiagram(xy, this.coordinateSystem!.diagram);
+      const x = offsetX + a * scale;
+      const y = offsetY - b * scale; // Flip Y
+      const color = active ? this.config.color || '#000' : this.config.inactiveColor || '#777';
+
+      // Circle with crosshair, so the marker stays visible on any background color
+      const circle = new Konva.Circle({
+        x,
+        y,
+        radius: size,
+        stroke: color,
+        strokeWidth: active ? 2 : 1,
+        fill: 'rgba(255, 255, 255, 0.6)',
+        listening: false,
+      });
+      const cross = new Konva.Line({
+        points: [x - size * 1.5, y, x + size * 1.5, y, x, y, x, y - size * 1.5, x, y + size * 1.5],
+        stroke: color,
+        strokeWidth: 1,
+        listening: false,
+      });
+      this.layer!.add(circle);
+      this.layer!.add(cross);
+      this.shapes.push(circle, cross);
+
+      if (this.config.showLabel !== false && label) {
+        const text = new Konva.Text({
+          x: x + size + 4,
+          y: y + 2,
+          text: label,
+          fontSize: labelStyle.fontSize || 11,
+          fontStyle: active ? 'bold' : 'normal',
+          fill: labelStyle.color || '#333',
+          fontFamily: labelStyle.fontFamily || 'Arial',
+          listening: false,
+        });
+        this.layer!.add(text);
+        this.shapes.push(text);
+      }
+    });
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<WhitePointMarkerConfig>): void {
+    if (config && typeof config === 'object') {
+      this.config = {
+        ...this.config,
+        ...config,
+        labelStyle: config.labelStyle
+          ? { ...this.config.labelStyle, ...config.labelStyle }
+          : this.config.labelStyle,
+      };
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): WhitePointMarkerConfig {
+    return { ...this.config };
+  }
+}
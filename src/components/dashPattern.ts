@@ -0,0 +1,19 @@
+/**
+ * Dash arrays for line styles, shared by the overlay components
+ */
+
+/**
+ * Konva dash array for a line style (undefined draws a solid line).
+ * dash and gap set the dashed pattern; dotted lines keep the gap with 2px dots.
+ */
+export function getDashPattern(style: string, dash: number = 10, gap: number = 5): number[] | undefined {
+  switch (style) {
+    case 'dashed':
+      return [dash, gap];
+    case 'dotted':
+      return [2, gap];
+    case 'solid':
+    default:
+      return undefined;
+  }
+}
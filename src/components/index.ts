@@ -8,13 +8,42 @@ export { Marker } from './Marker';
 export { HSLHueWheel } from './HSLHueWheel';
 export { HSVHueWheel } from './HSVHueWheel';
 export { CMYKGrid } from './CMYKGrid';
+export { ColorPlane } from './ColorPlane';
+export { WhitePointMarkers } from './WhitePointMarkers';
+export { PixelCloud } from './PixelCloud';
+export { PlanckianLocus } from './PlanckianLocus';
+export { ToleranceRegion } from './ToleranceRegion';
+export { ConfusionLines } from './ConfusionLines';
+export { ContrastOverlay } from './ContrastOverlay';
+export { HarmonyOverlay } from './HarmonyOverlay';
+export { GradientPath } from './GradientPath';
+export { DominantWavelengthOverlay } from './DominantWavelengthOverlay';
 export type {
   LineStyle,
   CIEBackgroundConfig,
   AxesConfig,
   MarkerConfig,
+  MarkerDragHandler,
+  MarkerInteraction,
   CoordinateSystem,
   HSLHueWheelConfig,
   HSVHueWheelConfig,
   CMYKGridConfig,
+  ColorPlaneConfig,
+  ColorPlaneDomain,
+  WhitePointMarkerConfig,
+  PixelCloudConfig,
+  PixelCloudEntry,
+  WhitePointMarkerEntry,
+  PlanckianLocusConfig,
+  DominantWavelengthConfig,
+  ToleranceConfig,
+  ConfusionLinesConfig,
+  ContrastOverlayConfig,
+  ContrastMetric,
+  HarmonyConfig,
+  HarmonyEntry,
+  GradientPathConfig,
+  GradientPathEntry,
+  ToleranceSampleEntry,
 } from './types';
@@ -2,6 +2,12 @@
  * Type definitions for 2D chromaticity diagram components
  */
 
+import type { ChromaticityDiagram, WhitePoint } from '../types';
+import type { ToleranceOptions } from '../utils/colorDifference';
+import type { CvdType } from '../utils/colorVisionDeficiency';
+import type { HarmonyOptions } from '../utils/colorHarmony';
+import type { HueInterpolation, InterpolationSpace } from '../utils/colorInterpolation';
+
 /**
  * Line style configuration
  */
@@ -49,6 +55,8 @@ export interface MarkerConfig {
   size?: number;
   border?: LineStyle | false; // false to hide border
   showLabel?: boolean;
+  draggable?: boolean; // Allow dragging markers where the view supports it (default true)
+  outOfGamut?: LineStyle | false; // Ring around points whose values lie outside sRGB; false to hide
   labelStyle?: {
     fontSize?: number;
     color?: string;
@@ -58,6 +66,220 @@ export interface MarkerConfig {
   };
 }
 
+/**
+ * Called while a marker is dragged with its position in coordinate system units.
+ * Returns the position the marker should snap to, or null to keep the last valid one.
+ */
+export type MarkerDragHandler = (coords: [number, number], final: boolean) => [number, number] | null;
+
+/**
+ * Optional marker callbacks: dragging, pointer entering/leaving and clicking
+ */
+export interface MarkerInteraction {
+  onDrag?: MarkerDragHandler;
+  onHover?: (hovered: boolean) => void;
+  onClick?: () => void;
+  tooltip?: () => string | null; // Text shown next to the marker while hovered
+}
+
+/**
+ * Pixel cloud configuration (image pixels plotted as a density cloud)
+ */
+export interface PixelCloudConfig {
+  show?: boolean;
+  minSize?: number; // Radius in pixels of the lightest bins
+  maxSize?: number; // Radius in pixels of the heaviest bin
+  opacity?: number; // 0-1
+}
+
+/**
+ * One dot of the pixel cloud, in coordinate system units
+ */
+export interface PixelCloudEntry {
+  coords: [number, number];
+  color: string;
+  weight?: number; // 0-1, interpolates between minSize and maxSize
+}
+
+/**
+ * White point marker configuration
+ */
+export interface WhitePointMarkerConfig {
+  show?: boolean;
+  size?: number; // Circle radius in pixels
+  color?: string; // Active white point
+  inactiveColor?: string; // Additional white points
+  showLabel?: boolean;
+  labelStyle?: {
+    fontSize?: number;
+    color?: string;
+    fontFamily?: string;
+  };
+}
+
+/**
+ * Planckian locus overlay configuration (blackbody curve, iso-CCT lines, daylight locus)
+ */
+export interface PlanckianLocusConfig {
+  show?: boolean; // Default false
+  range?: [number, number]; // Temperatures drawn along the locus in Kelvin (default [1000, 25000])
+  ticks?: number[]; // Temperatures with a tick label and isotherm (Kelvin)
+  showIsotherms?: boolean; // Iso-CCT lines through the ticks (default true)
+  isothermDuv?: number; // Isotherm half-length as a Duv offset (default 0.03)
+  showDaylightLocus?: boolean; // CIE daylight locus, 4000-25000 K (default true)
+  showLabels?: boolean; // Temperature labels at the ticks (default true)
+  lineStyle?: LineStyle;
+  isothermStyle?: LineStyle;
+  daylightStyle?: LineStyle;
+  labelStyle?: {
+    fontSize?: number;
+    color?: string;
+    fontFamily?: string;
+  };
+}
+
+/**
+ * Dominant wavelength construction configuration
+ */
+export interface DominantWavelengthConfig {
+  show?: boolean; // Default false
+  point?: number | null; // Index of the point to construct (default: the selected marker)
+  whitePoint?: WhitePoint; // Default: the preset's white point, else D65
+  showComplementary?: boolean; // Continue the line through white to the complementary wavelength (default true)
+  showLabel?: boolean; // Wavelength and purity next to the boundary point (default true)
+  lineStyle?: LineStyle;
+  complementaryStyle?: LineStyle;
+  labelStyle?: {
+    fontSize?: number;
+    color?: string;
+    fontFamily?: string;
+  };
+}
+
+/**
+ * A white point to mark on the chromaticity diagram
+ */
+/**
+ * Color vision deficiency confusion lines configuration
+ */
+export interface ConfusionLinesConfig {
+  show?: boolean; // Default false
+  type?: CvdType; // Deficiency whose lines are drawn (default: the simulated one, else 'protan')
+  count?: number; // Number of lines (default 15)
+  showCopunctalPoint?: boolean; // Mark where the lines meet when it lies inside the view (default true)
+  lineStyle?: LineStyle;
+}
+
+/**
+ * Contrast overlay configuration
+ * Shades and/or contours the view by its contrast against a reference color
+ */
+export type ContrastMetric = 'wcag' | 'apca';
+
+export interface ContrastOverlayConfig {
+  show?: boolean; // Default false
+  reference?: string; // Hex color the view is compared with (default '#ffffff')
+  referenceRole?: 'background' | 'text'; // APCA polarity: the reference is the background (default) or the text
+  metric?: ContrastMetric; // WCAG 2.x ratio or APCA Lc (default 'wcag')
+  levels?: number[]; // Contour levels (default WCAG [3, 4.5, 7] for AA large/AA/AAA, APCA Lc [45, 60, 75, 90])
+  target?: number; // Regions below this are shaded (default WCAG 4.5, APCA Lc 60)
+  mode?: 'shade' | 'contour' | 'both'; // Default 'both'
+  resolution?: number; // Samples along the longer side of the view (default 160)
+  shadeColor?: string; // Default 'rgba(0, 0, 0, 0.45)'
+  showLabels?: boolean; // Level labels on the contours (default true)
+  lineStyle?: LineStyle;
+  labelStyle?: {
+    fontSize?: number;
+    color?: string;
+    fontFamily?: string;
+  };
+}
+
+/**
+ * ΔE tolerance region configuration
+ * The region is drawn around the reference point; the other points are marked pass/fail.
+ */
+export interface ToleranceConfig extends ToleranceOptions {
+  show?: boolean; // Default false
+  regionColor?: string; // Region outline and fill (default '#1565c0')
+  opacity?: number; // Region fill opacity (default 0.15)
+  passColor?: string; // Points within the threshold (default '#2e7d32')
+  failColor?: string; // Points outside the threshold (default '#c62828')
+  segments?: number; // Boundary resolution (default 72)
+  ringSize?: number; // Radius of the pass/fail ring around points in pixels (default 11)
+  lineStyle?: LineStyle;
+}
+
+/**
+ * Color harmony overlay configuration
+ * The harmony is generated from the base point and drawn as spokes from the achromatic center
+ * and a polygon through its colors
+ */
+export interface HarmonyConfig extends HarmonyOptions {
+  show?: boolean; // Default false
+  base?: number; // Index of the base point (default 0)
+  showSpokes?: boolean; // Lines from the center to each color (default true)
+  showPolygon?: boolean; // Lines connecting the colors (default true)
+  dotSize?: number; // Radius of the color dots in pixels (default 7)
+  lineStyle?: LineStyle; // Polygon (default solid '#333')
+  spokeStyle?: LineStyle; // Spokes (default dashed '#333')
+}
+
+/**
+ * Harmony color placed in the view: position in coordinate system units and its color
+ */
+export interface HarmonyEntry {
+  coords: [number, number];
+  color: string;
+}
+
+/**
+ * Interpolation path configuration
+ * The points listed in stops are interpolated in each space; every space gets a path through the
+ * view (a tube in 3D) and, in 2D, a strip of its sampled colors for side-by-side comparison
+ */
+export interface GradientPathConfig {
+  show?: boolean; // Default false
+  stops?: number[]; // Indices of the points used as stops, in order (default: all points)
+  spaces?: InterpolationSpace[]; // One path per space (default ['oklab'])
+  hue?: HueInterpolation; // Hue arc in polar spaces (default 'shorter')
+  steps?: number; // Samples per path (default 48)
+  colors?: string[]; // Path color per space (default: a built-in palette)
+  showStrip?: boolean; // Gradient strips along the bottom of the 2D view (default true)
+  stripHeight?: number; // Height of each strip in pixels (default 14)
+  lineStyle?: LineStyle; // weight and style of the 2D paths (color comes from colors)
+  tubeRadius?: number; // Radius of the 3D tubes in scene units (default 0.008)
+  labelStyle?: {
+    fontSize?: number;
+    color?: string;
+    fontFamily?: string;
+  };
+}
+
+/**
+ * One interpolated path: positions in coordinate system units (null where a sample is not part
+ * of the view) and the sampled colors
+ */
+export interface GradientPathEntry {
+  space: InterpolationSpace;
+  coords: Array<[number, number] | null>;
+  colors: string[];
+}
+
+/**
+ * Point checked against the tolerance: position in coordinate system units and result
+ */
+export interface ToleranceSampleEntry {
+  coords: [number, number];
+  pass: boolean;
+}
+
+export interface WhitePointMarkerEntry {
+  label: string;
+  xy: [number, number];
+  active?: boolean;
+}
+
 /**
  * Coordinate system configuration
  */
@@ -67,6 +289,7 @@ export interface CoordinateSystem {
   scale: number;
   maxX: number;
   maxY: number;
+  diagram?: ChromaticityDiagram; // Chromaticity views: coordinates are xy (default) or u′v′
 }
 
 /**
@@ -112,3 +335,30 @@ export interface CMYKGridConfig {
   showGrid?: boolean; // Show grid lines
   gridStyle?: LineStyle;
 }
+
+/**
+ * Color plane (2D slice through a color space) configuration
+ */
+export interface ColorPlaneConfig {
+  show?: boolean;
+  resolution?: number; // Cells per side (default 100)
+  opacity?: number; // 0-1
+  showFrame?: boolean; // Frame, tick values and axis titles
+  frameStyle?: LineStyle;
+  outlineStyle?: LineStyle; // Stroke of the domain's outline
+}
+
+/**
+ * Domain of a color plane: value ranges per screen axis and the color of each sample.
+ * sample() returns sRGB (0-255), or null when the sample is outside the displayable gamut.
+ */
+export interface ColorPlaneDomain {
+  xRange: [number, number];
+  yRange: [number, number];
+  xLabel?: string;
+  yLabel?: string;
+  title?: string;
+  yAxis2?: { label?: string; ticks: Array<{ value: number; label: string }> }; // Second y axis on the right (e.g. luminance in cd/m²)
+  outline?: Array<[number, number]>; // Closed region drawn over the samples, in plane values (e.g. the valid-RGB region)
+  sample(x: number, y: number): [number, number, number] | null;
+}
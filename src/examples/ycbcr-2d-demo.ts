@@ -1,6 +1,6 @@
 /**
  * YCbCr 2D Visualization Example
- * Shows CIE chromaticity diagram with YCbCr gamut triangle
+ * Shows the Cb/Cr plane at the point's Y, with the codes that decode to valid RGB outlined
  */
 
 import { ColorVisualizer, YCBCR_COLOR_SPACE, ColorChannelVisualizer } from '../index';
@@ -14,7 +14,7 @@ if (!container) {
 }
 
 const ycbcrPreset: PresetConfig = {
-  name: 'YCbCr Chromaticity',
+  name: 'YCbCr Cb/Cr Plane',
   colorSpace: YCBCR_COLOR_SPACE,
   shape: 'custom',
   size: {
@@ -6,12 +6,281 @@
 export { ColorVisualizer } from './ColorVisualizer';
 export { Renderer3D } from './renderers/Renderer3D';
 export { Renderer2D } from './renderers/Renderer2D';
+export type { PointCloudConfig } from './renderers/ColorPointCloud';
+export { exportPreset } from './renderers/offscreenExport';
+export type { OffscreenExportOptions } from './renderers/offscreenExport';
 export * from './types';
 export * from './presets';
 
 // Re-export for convenience
 export { RGB_CUBE_PRESET, RGB_COLOR_SPACE, HSL_COLOR_SPACE, LAB_COLOR_SPACE } from './presets';
 
+// Color space registry (add custom color spaces without forking the renderers)
+export {
+  registerColorSpace,
+  unregisterColorSpace,
+  getColorSpaceDefinition,
+  getRegisteredColorSpaces,
+  conversionOptions,
+} from './registry';
+export type {
+  ColorSpaceDefinition,
+  ConversionOptions,
+  GamutOutline,
+  PointPlacement,
+  PointUnplacement,
+  PointPlacement3D,
+  Solid3D,
+  Solid3DConfig,
+  SolidSurface,
+  Projection2D,
+  Projection2DContext,
+} from './registry';
+export type { CoordinateSystem } from './components';
+
+// OKLab / OKLCh conversions
+export {
+  xyzToOklab,
+  oklabToXyz,
+  rgbToOklab,
+  oklabToRgb,
+  oklabToOklch,
+  oklchToOklab,
+} from './utils/colorConversion';
+
+// Image pixel clouds and palettes
+export { binImagePixels, binPixelData, extractPalette, pixelBinsToColorPoints } from './utils/imagePalette';
+export type { ImageSource, ImageSamplingOptions, PaletteOptions, PixelBin } from './utils/imagePalette';
+
+// Batch conversions on typed arrays and the worker pool
+export {
+  convertBatch,
+  getBatchChannels,
+  rgbToXyzBatch,
+  xyzToRgbBatch,
+  xyzToLabBatch,
+  labToXyzBatch,
+  labToLchBatch,
+  lchToLabBatch,
+  xyzToLchBatch,
+  lchToXyzBatch,
+  rgbToLabBatch,
+  labToRgbBatch,
+  rgbToLchBatch,
+  lchToRgbBatch,
+  rgbToHslBatch,
+  hslToRgbBatch,
+  rgbToHsvBatch,
+  hsvToRgbBatch,
+  rgbToYcbcrBatch,
+  ycbcrToRgbBatch,
+  rgbToCmykBatch,
+  cmykToRgbBatch,
+  xyzToXyBatch,
+  rgbToXyBatch,
+  chromaticityGridPixels,
+} from './utils/batchConversion';
+export type { BatchConversion, BatchOptions, ColorBuffer, ChromaticityGridOptions } from './utils/batchConversion';
+export { ColorWorkerPool } from './workers/ColorWorkerPool';
+export type { ColorWorkerPoolOptions } from './workers/ColorWorkerPool';
+export { runColorWorkerTask } from './utils/colorWorkerTasks';
+export type { ColorWorkerTask, ColorWorkerResults } from './utils/colorWorkerTasks';
+
+// Chromaticity diagrams (CIE 1931 xy, CIE 1976 u′v′)
+export {
+  xyToUv,
+  uvToXy,
+  xyzToUv,
+  xyToDiagram,
+  diagramToXy,
+  getSpectralLocus,
+  getSpectralLocusWavelengths,
+  isInsideSpectralLocus,
+} from './utils/colorConversion';
+
+// HDR: PQ / HLG transfer functions, ICtCp and Jzazbz
+export {
+  HDR_REFERENCE_WHITE,
+  pqEotf,
+  pqInverseEotf,
+  hlgOetf,
+  hlgInverseOetf,
+  hlgEotf,
+  hlgInverseEotf,
+  xyzToIctcp,
+  ictcpToXyz,
+  xyzToJzazbz,
+  jzazbzToXyz,
+  jzazbzToJzczhz,
+  jzczhzToJzazbz,
+  jzToNits,
+  nitsToJz,
+  formatNits,
+} from './utils/colorConversion';
+
+// YCbCr matrices (BT.601 / BT.709 / BT.2020) and code ranges, and the related YUV, YIQ and YCoCg
+export {
+  rgbToYcbcr,
+  ycbcrToRgb,
+  getYcbcrParameters,
+  getYcbcrRanges,
+  getYcbcrGamutSlice,
+  rgbToYuv,
+  yuvToRgb,
+  rgbToYiq,
+  yiqToRgb,
+  rgbToYcocg,
+  ycocgToRgb,
+  rgbLumaSlice,
+  getLumaWeights,
+} from './utils/colorConversion';
+
+// Spectral data (SPDs and reflectances to XYZ, CIE 1931 2° / 1964 10° observers)
+export {
+  emissionToXyz,
+  reflectanceToXyz,
+  spectralWhiteXyz,
+  spectrumToColorPoint,
+  getColorMatchingFunctions,
+  getIlluminantSpectrum,
+  daylightSpectrum,
+  blackbodySpectrum,
+  getObserverLocus,
+  sampleSpectrum,
+  toSpectrum,
+  wavelengthToRgb,
+} from './utils/spectral';
+export type {
+  Spectrum,
+  SpectrumInput,
+  SpectralOptions,
+  SpectralPointOptions,
+  SpectralIlluminant,
+  StandardObserver,
+} from './utils/spectral';
+
+// Dominant / complementary wavelength and excitation purity
+export { dominantWavelength, excitationPurity } from './utils/dominantWavelength';
+export type { DominantWavelengthResult } from './utils/dominantWavelength';
+export type { DominantWavelengthConfig } from './components';
+
+// Color appearance models (CIECAM02, CAM16) and CAM16-UCS
+export {
+  DEFAULT_ADAPTING_LUMINANCE,
+  xyzToCam16,
+  cam16ToXyz,
+  xyzToCiecam02,
+  ciecam02ToXyz,
+  xyzToCam16Ucs,
+  cam16UcsToXyz,
+  cam16JmhToUcs,
+  cam16UcsToJmh,
+} from './utils/colorAppearance';
+export type { ColorAppearance, ColorAppearanceInput } from './utils/colorAppearance';
+
+// Correlated color temperature and Duv
+export {
+  CCT_RANGE,
+  cctToXy,
+  xyToCct,
+  xyToDuv,
+  xyToCctDuv,
+  daylightXy,
+  planckianUv,
+  xyToUv1960,
+  uv1960ToXy,
+} from './utils/colorTemperature';
+
+// Color difference (ΔE76, ΔE94, ΔE2000, CMC l:c) and tolerance checks
+export {
+  deltaE,
+  deltaE76,
+  deltaE94,
+  deltaE2000,
+  deltaECMC,
+  deltaERgb,
+  valuesToLab,
+  labToValues,
+  evaluateTolerance,
+  toleranceBoundary,
+  toleranceContour,
+} from './utils/colorDifference';
+export type { Lab, DeltaEMethod, DeltaEOptions, ToleranceOptions, ToleranceResult } from './utils/colorDifference';
+export type { ToleranceConfig } from './components';
+
+// Color vision deficiency simulation and confusion lines
+export {
+  simulateCvd,
+  createCvdTransform,
+  getCvdMatrices,
+  transformCssColors,
+  getConfusionLines,
+  COPUNCTAL_POINTS,
+} from './utils/colorVisionDeficiency';
+export type { CvdType, CvdMethod, CvdOptions, ColorTransform } from './utils/colorVisionDeficiency';
+export type { ConfusionLinesConfig } from './components';
+
+// sRGB gamut checks and gamut mapping
+export { isInSrgbGamut, isLabInSrgbGamut, gamutMapXyz, mapColorValues, mapColorPoint } from './utils/gamutMapping';
+export type { GamutMappingMethod } from './utils/gamutMapping';
+
+// Color harmonies
+export { generateHarmony, getHarmonyOffsets, getHarmonyCenter } from './utils/colorHarmony';
+export type { HarmonyType, HarmonyModel, HarmonyOptions } from './utils/colorHarmony';
+export type { HarmonyConfig } from './components';
+
+// Color interpolation (gradients in a chosen space)
+export { interpolateXyz, interpolatePoints, interpolateRgb, mixXyz, gradientCss } from './utils/colorInterpolation';
+export type { InterpolationSpace, HueInterpolation, InterpolationOptions } from './utils/colorInterpolation';
+export type { GradientPathConfig } from './components';
+
+// CSS color strings (CSS Color 4/5 parsing and serialization)
+export {
+  parseCssColor,
+  cssColorToXyz,
+  cssColorToRgb,
+  cssColorToValues,
+  formatCssColor,
+  convertCssColor,
+  resolveColorPoint,
+} from './utils/cssColor';
+export type { CssColorSpace, CssColorFormat, CssFormatOptions, ParsedCssColor } from './utils/cssColor';
+
+// Contrast (WCAG 2.x ratio, APCA Lc)
+export { relativeLuminance, wcagContrast, apcaContrast } from './utils/colorConversion';
+export type { ContrastMetric, ContrastOverlayConfig } from './components';
+
+// White points and chromatic adaptation
+export {
+  getWhitePoint,
+  getWhitePointXyz,
+  getWhitePointNames,
+  chromaticAdaptationMatrix,
+  adaptXyz,
+} from './utils/colorConversion';
+
+// RGB working spaces (wide-gamut primaries, white points and transfer curves)
+export {
+  SRGB_WORKING_SPACE,
+  DISPLAY_P3_WORKING_SPACE,
+  ADOBE_RGB_WORKING_SPACE,
+  REC2020_WORKING_SPACE,
+  PROPHOTO_WORKING_SPACE,
+  RGB_WORKING_SPACES,
+  SRGB_TRANSFER,
+  REC2020_TRANSFER,
+  PROPHOTO_TRANSFER,
+  gammaTransfer,
+  getRgbWorkingSpace,
+  getWorkingSpaceMatrices,
+  getWorkingSpaceGamutVertices,
+  workingSpaceRgbToXyz,
+  xyzToWorkingSpaceRgb,
+  xyzToWorkingSpaceLinearRgb,
+  convertWorkingSpaceRgb,
+} from './utils/rgbWorkingSpaces';
+export type { RgbWorkingSpace, TransferCurve } from './utils/rgbWorkingSpaces';
+
 // Color Channel Visualizer (sliders for each channel)
 export {
   ColorChannelVisualizer,
@@ -19,4 +288,12 @@ export {
   getValuesForSpace as getValuesForSpaceChannel,
   valuesToHex as valuesToHexChannel,
 } from './color-channel-visualizer';
-export type { ColorChannelVisualizerOptions, ColorChannelVisualizerInstance } from './color-channel-visualizer';
+export type {
+  ColorChannelVisualizerOptions,
+  ColorChannelVisualizerInstance,
+  LuminanceMode,
+} from './color-channel-visualizer';
+
+// Spectrum chart (spectra against wavelength, wavelength-colored fill)
+export { SpectrumChart } from './spectrum-chart';
+export type { SpectrumChartOptions, SpectrumChartSeries, SpectrumChartInstance } from './spectrum-chart';
@@ -117,8 +117,122 @@ export const LCH_COLOR_SPACE: ColorSpace = {
   },
 };
 
+/**
+ * OKLab Color Space
+ */
+export const OKLAB_COLOR_SPACE: ColorSpace = {
+  name: 'OKLab',
+  axes: [
+    { name: 'l', label: 'L', min: 0, max: 1 },
+    { name: 'a', label: 'a', min: -0.4, max: 0.4 },
+    { name: 'b', label: 'b', min: -0.4, max: 0.4 },
+  ],
+  bounds: {
+    min: [0, -0.4, -0.4],
+    max: [1, 0.4, 0.4],
+  },
+};
+
+/**
+ * OKLCh Color Space
+ */
+export const OKLCH_COLOR_SPACE: ColorSpace = {
+  name: 'OKLCh',
+  axes: [
+    { name: 'l', label: 'L', min: 0, max: 1 },
+    { name: 'c', label: 'C', min: 0, max: 0.4 },
+    { name: 'h', label: 'h', min: 0, max: 360, unit: '°' },
+  ],
+  bounds: {
+    min: [0, 0, 0],
+    max: [1, 0.4, 360],
+  },
+};
+
+/**
+ * CAM16-UCS Color Space (J′a′b′, uniform space of the CAM16 appearance model)
+ */
+export const CAM16_UCS_COLOR_SPACE: ColorSpace = {
+  name: 'CAM16-UCS',
+  axes: [
+    { name: 'j', label: 'J′', min: 0, max: 100 },
+    { name: 'a', label: 'a′', min: -50, max: 50 },
+    { name: 'b', label: 'b′', min: -50, max: 50 },
+  ],
+  bounds: {
+    min: [0, -50, -50],
+    max: [100, 50, 50],
+  },
+};
+
+/**
+ * CAM16 JMh Color Space (lightness, colorfulness, hue angle)
+ */
+export const CAM16_JMH_COLOR_SPACE: ColorSpace = {
+  name: 'CAM16-JMh',
+  axes: [
+    { name: 'j', label: 'J', min: 0, max: 100 },
+    { name: 'm', label: 'M', min: 0, max: 100 },
+    { name: 'h', label: 'h', min: 0, max: 360, unit: '°' },
+  ],
+  bounds: {
+    min: [0, 0, 0],
+    max: [100, 100, 360],
+  },
+};
+
+/**
+ * ICtCp Color Space (ITU-R BT.2100, PQ; I 1 is 10000 cd/m²)
+ */
+export const ICTCP_COLOR_SPACE: ColorSpace = {
+  name: 'ICtCp',
+  axes: [
+    { name: 'i', label: 'I', min: 0, max: 1 },
+    { name: 'ct', label: 'Ct', min: -0.5, max: 0.5 },
+    { name: 'cp', label: 'Cp', min: -0.5, max: 0.5 },
+  ],
+  bounds: {
+    min: [0, -0.5, -0.5],
+    max: [1, 0.5, 0.5],
+  },
+};
+
+/**
+ * Jzazbz Color Space (Jz ≈ 0.99 at 10000 cd/m²)
+ */
+export const JZAZBZ_COLOR_SPACE: ColorSpace = {
+  name: 'Jzazbz',
+  axes: [
+    { name: 'jz', label: 'Jz', min: 0, max: 1 },
+    { name: 'az', label: 'az', min: -0.5, max: 0.5 },
+    { name: 'bz', label: 'bz', min: -0.5, max: 0.5 },
+  ],
+  bounds: {
+    min: [0, -0.5, -0.5],
+    max: [1, 0.5, 0.5],
+  },
+};
+
+/**
+ * JzCzhz Color Space (polar Jzazbz)
+ */
+export const JZCZHZ_COLOR_SPACE: ColorSpace = {
+  name: 'JzCzhz',
+  axes: [
+    { name: 'jz', label: 'Jz', min: 0, max: 1 },
+    { name: 'cz', label: 'Cz', min: 0, max: 0.5 },
+    { name: 'hz', label: 'hz', min: 0, max: 360, unit: '°' },
+  ],
+  bounds: {
+    min: [0, 0, 0],
+    max: [1, 0.5, 360],
+  },
+};
+
 /**
  * YCbCr Color Space
+ * Bounds are the limited (studio) range; full-range values (0-255) and the BT.709/BT.2020 matrices
+ * are selected with PresetConfig.ycbcr
  */
 export const YCBCR_COLOR_SPACE: ColorSpace = {
   name: 'YCbCr',
@@ -133,6 +247,54 @@ export const YCBCR_COLOR_SPACE: ColorSpace = {
   },
 };
 
+/**
+ * YUV Color Space (analog PAL/NTSC, BT.470)
+ */
+export const YUV_COLOR_SPACE: ColorSpace = {
+  name: 'YUV',
+  axes: [
+    { name: 'y', label: 'Y', min: 0, max: 1 },
+    { name: 'u', label: 'U', min: -0.436, max: 0.436 },
+    { name: 'v', label: 'V', min: -0.615, max: 0.615 },
+  ],
+  bounds: {
+    min: [0, -0.436, -0.615],
+    max: [1, 0.436, 0.615],
+  },
+};
+
+/**
+ * YIQ Color Space (NTSC, FCC 1953)
+ */
+export const YIQ_COLOR_SPACE: ColorSpace = {
+  name: 'YIQ',
+  axes: [
+    { name: 'y', label: 'Y', min: 0, max: 1 },
+    { name: 'i', label: 'I', min: -0.596, max: 0.596 },
+    { name: 'q', label: 'Q', min: -0.523, max: 0.523 },
+  ],
+  bounds: {
+    min: [0, -0.596, -0.523],
+    max: [1, 0.596, 0.523],
+  },
+};
+
+/**
+ * YCoCg Color Space (luma, orange and green chroma)
+ */
+export const YCOCG_COLOR_SPACE: ColorSpace = {
+  name: 'YCoCg',
+  axes: [
+    { name: 'y', label: 'Y', min: 0, max: 1 },
+    { name: 'co', label: 'Co', min: -0.5, max: 0.5 },
+    { name: 'cg', label: 'Cg', min: -0.5, max: 0.5 },
+  ],
+  bounds: {
+    min: [0, -0.5, -0.5],
+    max: [1, 0.5, 0.5],
+  },
+};
+
 /**
  * RGB Cube Preset
  */
@@ -0,0 +1,737 @@
+/**
+ * Color spaces that ship with the library
+ */
+
+import {
+  RGB_COLOR_SPACE,
+  HSL_COLOR_SPACE,
+  HSV_COLOR_SPACE,
+  CMYK_COLOR_SPACE,
+  XYZ_COLOR_SPACE,
+  LAB_COLOR_SPACE,
+  LCH_COLOR_SPACE,
+  YCBCR_COLOR_SPACE,
+  YUV_COLOR_SPACE,
+  YIQ_COLOR_SPACE,
+  YCOCG_COLOR_SPACE,
+  OKLAB_COLOR_SPACE,
+  OKLCH_COLOR_SPACE,
+  CAM16_UCS_COLOR_SPACE,
+  CAM16_JMH_COLOR_SPACE,
+  ICTCP_COLOR_SPACE,
+  JZAZBZ_COLOR_SPACE,
+  JZCZHZ_COLOR_SPACE,
+} from '../presets';
+import {
+  rgbToXyz,
+  xyzToRgb,
+  rgbToHsl,
+  hslToRgb,
+  rgbToHsv,
+  hsvToRgb,
+  rgbToCmyk,
+  cmykToRgb,
+  labToXyz,
+  xyzToLab,
+  labToLch,
+  lchToLab,
+  rgbToYcbcr,
+  ycbcrToRgb,
+  getYcbcrRanges,
+  getYcbcrGamutSlice,
+  rgbToYuv,
+  yuvToRgb,
+  rgbToYiq,
+  yiqToRgb,
+  rgbToYcocg,
+  ycocgToRgb,
+  rgbLumaSlice,
+  getLumaWeights,
+  getRgbGamutVertices,
+  getCmykGamutVertices,
+  getYcbcrGamutVertices,
+  xyzToLinearRgb,
+  xyzToOklab,
+  oklabToXyz,
+  oklabToOklch,
+  oklchToOklab,
+  oklabToRgb,
+  adaptXyz,
+  xyzToIctcp,
+  ictcpToXyz,
+  xyzToJzazbz,
+  jzazbzToXyz,
+  jzazbzToJzczhz,
+  jzczhzToJzazbz,
+  jzToNits,
+  nitsToJz,
+  formatNits,
+  pqEotf,
+} from '../utils/colorConversion';
+import { cam16ToXyz, cam16UcsToXyz, xyzToCam16, xyzToCam16Ucs } from '../utils/colorAppearance';
+import {
+  RgbWorkingSpace,
+  getRgbWorkingSpace,
+  getWorkingSpaceGamutVertices,
+} from '../utils/rgbWorkingSpaces';
+import { PresetConfig, YcbcrEncoding } from '../types';
+import {
+  ColorSpaceDefinition,
+  ConversionOptions,
+  GamutOutline,
+  PointPlacement,
+  PointPlacement3D,
+  PointUnplacement,
+  Projection2D,
+  Solid3D,
+  Solid3DConfig,
+  SolidSurface,
+} from './types';
+
+/** Value ranges of the OKLab/OKLCh slice views (match the preset axes) */
+const OKLAB_AB_RANGE: [number, number] = [-0.4, 0.4];
+const OKLCH_C_RANGE: [number, number] = [0, 0.4];
+const OKLCH_L_RANGE: [number, number] = [0, 1];
+
+/** Value ranges of the CAM16-UCS/JMh slice views (match the preset axes) */
+const CAM16_UCS_AB_RANGE: [number, number] = [-50, 50];
+const CAM16_M_RANGE: [number, number] = [0, 100];
+const CAM16_J_RANGE: [number, number] = [0, 100];
+
+/** Value ranges of the HDR slice views (the sRGB gamut at 203 cd/m² white fits inside) */
+const ICTCP_C_RANGE: [number, number] = [-0.3, 0.3];
+const JZ_AB_RANGE: [number, number] = [-0.2, 0.2];
+const JZ_C_RANGE: [number, number] = [0, 0.25];
+const JZ_J_RANGE: [number, number] = [0, 1];
+const HDR_AXIS_NITS = [1, 10, 100, 203, 1000, 4000, 10000];
+
+/** Cb/Cr range of the YCbCr plane view: every 8-bit code value, so limited range shows its head- and footroom */
+const YCBCR_CODE_RANGE: [number, number] = [0, 255];
+
+/** Chroma ranges of the analog and YCoCg plane views (match the preset axes) */
+const YUV_U_RANGE: [number, number] = [-0.436, 0.436];
+const YUV_V_RANGE: [number, number] = [-0.615, 0.615];
+const YIQ_I_RANGE: [number, number] = [-0.596, 0.596];
+const YIQ_Q_RANGE: [number, number] = [-0.523, 0.523];
+const YCOCG_C_RANGE: [number, number] = [-0.5, 0.5];
+const LUMA_RANGE: [number, number] = [0, 1];
+
+const YCBCR_MATRIX_NAMES = { bt601: 'BT.601', bt709: 'BT.709', bt2020: 'BT.2020' };
+
+/** Tolerance for rounding noise when testing whether linear RGB is inside 0-1 */
+const GAMUT_EPSILON = 1e-4;
+
+/** Stroke colors for gamut triangles overlaid on the RGB chromaticity view */
+const GAMUT_OVERLAY_COLORS = ['#d62728', '#1f77b4', '#2ca02c', '#9467bd', '#ff7f0e'];
+
+/**
+ * Gamut triangles listed in custom.rgbGamuts (working space names or definitions)
+ */
+function rgbGamutOverlays(preset: PresetConfig): GamutOutline[] {
+  const entries = (preset.config?.custom?.rgbGamuts as Array<string | RgbWorkingSpace> | undefined) || [];
+  return entries
+    .map((entry) => (typeof entry === 'string' ? getRgbWorkingSpace(entry) : entry))
+    .filter((space): space is RgbWorkingSpace => !!space)
+    .map((space, index) => ({
+      vertices: getWorkingSpaceGamutVertices(space),
+      name: space.name,
+      color: GAMUT_OVERLAY_COLORS[index % GAMUT_OVERLAY_COLORS.length],
+      dash: [],
+      fill: 'transparent',
+    }));
+}
+
+/**
+ * Place hue/saturation values on a normalized hue wheel (radius = 1, 0° at top, clockwise)
+ */
+const placeOnHueWheel: PointPlacement = (values) => {
+  const [h, s] = values;
+  const angle = ((h - 90) * Math.PI) / 180;
+  const r = s / 100;
+  // Wheel coordinates have y increasing upward, screen angles increase clockwise
+  return [r * Math.cos(angle), -r * Math.sin(angle)];
+};
+
+/**
+ * Inverse of placeOnHueWheel; keeps the third channel (lightness/value) and clamps saturation to the rim
+ */
+const unplaceFromHueWheel: PointUnplacement = ([x, y], values) => {
+  const r = Math.min(1, Math.hypot(x, y));
+  const angle = (Math.atan2(-y, x) * 180) / Math.PI;
+  const h = (((angle + 90) % 360) + 360) % 360;
+  return [h, r * 100, values[2] ?? 50];
+};
+
+/**
+ * Map a normalized 0-1 coordinate back into a range, clamped to the range
+ */
+function denormalizeFromRange(t: number, [min, max]: [number, number]): number {
+  return min + Math.min(1, Math.max(0, t)) * (max - min);
+}
+
+/**
+ * Map a value to 0-1 within a range (normalized color plane coordinates)
+ */
+function normalizeToRange(value: number, [min, max]: [number, number]): number {
+  return (value - min) / (max - min);
+}
+
+/**
+ * sRGB color for an XYZ sample, or null when it is outside the sRGB gamut
+ */
+function displayableRgb(xyz: [number, number, number]): [number, number, number] | null {
+  const linear = xyzToLinearRgb(...xyz);
+  if (linear.some((c) => c < -GAMUT_EPSILON || c > 1 + GAMUT_EPSILON)) {
+    return null;
+  }
+  return xyzToRgb(...xyz);
+}
+
+/**
+ * sRGB color for an HDR XYZ sample; colors brighter than diffuse white (Y > 100) are drawn at its luminance
+ */
+function displayableHdrRgb(xyz: [number, number, number]): [number, number, number] | null {
+  const scale = xyz[1] > 100 ? 100 / xyz[1] : 1;
+  return displayableRgb([xyz[0] * scale, xyz[1] * scale, xyz[2] * scale]);
+}
+
+/**
+ * Conversion options taken from a preset (white point and adaptation for Lab/LCh/XYZ,
+ * viewing conditions for CAM16, the encoding for YCbCr)
+ */
+export function conversionOptions(preset: PresetConfig): ConversionOptions {
+  return {
+    whitePoint: preset.whitePoint,
+    adaptation: preset.adaptation,
+    viewingConditions: preset.viewingConditions,
+    ycbcr: preset.ycbcr,
+  };
+}
+
+/**
+ * CAM16 works on XYZ relative to the adopted white of the viewing conditions
+ */
+function toViewingWhite(xyz: [number, number, number], options?: ConversionOptions): [number, number, number] {
+  return adaptXyz(...xyz, 'D65', options?.viewingConditions?.whitePoint ?? 'D65', options?.adaptation);
+}
+
+function fromViewingWhite(xyz: [number, number, number], options?: ConversionOptions): [number, number, number] {
+  return adaptXyz(...xyz, options?.viewingConditions?.whitePoint ?? 'D65', 'D65', options?.adaptation);
+}
+
+function solidConfig(preset: PresetConfig): Solid3DConfig {
+  return (preset.config?.custom?.solid3D as Solid3DConfig | undefined) || {};
+}
+
+/**
+ * Position on a vertical cylinder in the unit box: hue is the angle, radius 0-1 reaches the box sides
+ */
+function cylindrical(hue: number, radius: number, height: number): [number, number, number] {
+  const angle = (hue * Math.PI) / 180;
+  return [0.5 + 0.5 * radius * Math.cos(angle), height, 0.5 - 0.5 * radius * Math.sin(angle)];
+}
+
+/**
+ * The six faces of an axis-aligned box, each as a surface patch over two of its components
+ */
+function boxFaces(ranges: Array<[number, number]>): SolidSurface[] {
+  const faces: SolidSurface[] = [];
+  for (let fixed = 0; fixed < 3; fixed++) {
+    const [a, b] = [0, 1, 2].filter((i) => i !== fixed);
+    for (const side of [0, 1]) {
+      faces.push((u, v) => {
+        const values = [0, 0, 0];
+        values[fixed] = ranges[fixed][side];
+        values[a] = ranges[a][0] + u * (ranges[a][1] - ranges[a][0]);
+        values[b] = ranges[b][0] + v * (ranges[b][1] - ranges[b][0]);
+        return values;
+      });
+    }
+  }
+  return faces;
+}
+
+const RGB_CUBE_FACES = boxFaces([[0, 255], [0, 255], [0, 255]]);
+
+/**
+ * sRGB gamut solid: the RGB cube surface converted into the color space
+ */
+function rgbGamutSolid(fromRgb: (rgb: [number, number, number], preset: PresetConfig) => number[]): Solid3D {
+  return (preset) =>
+    RGB_CUBE_FACES.map((face) => (u, v) => {
+      const [r, g, b] = face(u, v)!;
+      return fromRgb([r, g, b], preset);
+    });
+}
+
+/**
+ * Linear placement with custom axis order: [x, y (up), z] channel indices
+ */
+function placeByAxes(order: [number, number, number], ranges: Array<[number, number]>): PointPlacement3D {
+  return (values) => {
+    if (values.length < 3) return null;
+    const [x, y, z] = order.map((i) => normalizeToRange(values[i], ranges[i]));
+    return [x, y, z];
+  };
+}
+
+/**
+ * Value of the channel a slice view holds fixed: explicit preset config first,
+ * then the first point's value, then the fallback
+ */
+function sliceValue(
+  preset: PresetConfig,
+  configKey: string,
+  field: string,
+  channelIndex: number,
+  fallback: number
+): number {
+  const sliceConfig = (preset.config?.custom?.[configKey] as Record<string, number> | undefined) || {};
+  if (sliceConfig[field] !== undefined) {
+    return sliceConfig[field];
+  }
+  const firstPoint = preset.points?.[0];
+  if (firstPoint && firstPoint.values.length > channelIndex) {
+    return firstPoint.values[channelIndex];
+  }
+  return fallback;
+}
+
+/**
+ * Title of the YCbCr plane view, e.g. "Y = 126 (BT.709, full range)"
+ */
+function ycbcrTitle(luma: number, encoding: YcbcrEncoding = {}): string {
+  const matrix = YCBCR_MATRIX_NAMES[encoding.matrix ?? 'bt601'];
+  return `Y = ${Math.round(luma)} (${matrix}, ${encoding.range === 'full' ? 'full' : 'limited'} range)`;
+}
+
+/**
+ * Chroma plane of a 0-1 luma space (YUV, YIQ, YCoCg) at a chosen luma (custom[configKey].luma).
+ * Every chroma pair is drawn as decoded (clipped to R′G′B′); the cube's cross-section is outlined.
+ */
+function lumaChromaPlane(
+  configKey: string,
+  labels: [string, string],
+  ranges: [[number, number], [number, number]],
+  weights: [number, number, number],
+  fromRgb: (r: number, g: number, b: number) => [number, number, number],
+  toRgb: (y: number, c1: number, c2: number) => [number, number, number]
+): Projection2D {
+  return (context) => {
+    const luma = sliceValue(context.preset, configKey, 'luma', 0, 0.5);
+    return context.drawColorPlane({
+      xRange: ranges[0],
+      yRange: ranges[1],
+      xLabel: labels[0],
+      yLabel: labels[1],
+      title: `Y = ${Math.round(luma * 1000) / 1000}`,
+      outline: rgbLumaSlice(weights, luma, (r, g, b) => {
+        const [, c1, c2] = fromRgb(r, g, b);
+        return [c1, c2];
+      }),
+      sample: (c1, c2) => toRgb(luma, c1, c2),
+    });
+  };
+}
+
+export const BUILT_IN_COLOR_SPACES: ColorSpaceDefinition[] = [
+  {
+    colorSpace: RGB_COLOR_SPACE,
+    toXyz: ([r, g, b]) => rgbToXyz(r, g, b),
+    fromXyz: ([x, y, z]) => xyzToRgb(x, y, z),
+    toRgb: ([r, g, b]) => [r, g, b],
+    // Renderer3D shades the RGB cube itself
+    project2D: (context) => {
+      // Only the cube shape has a 2D view
+      if (context.preset.shape !== 'cube') {
+        context.drawGeneric();
+        return null;
+      }
+      // Check if we should render CIE xy chromaticity diagram
+      if (context.preset.config?.custom?.showChromaticity === false) {
+        context.drawRgbCubeFace();
+        return null;
+      }
+      // Wide-gamut working spaces (custom.rgbGamuts) are overlaid for comparison
+      return context.drawChromaticityDiagram([
+        {
+          vertices: getRgbGamutVertices(),
+          labels: ['R', 'G', 'B'],
+          name: 'sRGB',
+        },
+        ...rgbGamutOverlays(context.preset),
+      ]);
+    },
+  },
+  {
+    colorSpace: HSL_COLOR_SPACE,
+    toXyz: ([h, s, l]) => rgbToXyz(...hslToRgb(h, s, l)),
+    fromXyz: ([x, y, z]) => rgbToHsl(...xyzToRgb(x, y, z)),
+    toRgb: ([h, s, l]) => hslToRgb(h, s, l),
+    defaultValues: [0, 100, 50], // Matches the hue wheel (L 50)
+    project2D: (context) => context.drawHueWheel('HSL'),
+    placePoint: placeOnHueWheel,
+    unplacePoint: unplaceFromHueWheel,
+    // Double cone: the radius is the chroma, which vanishes at black and white
+    placePoint3D: ([h, s, l]) => cylindrical(h, (s / 100) * (1 - Math.abs((2 * l) / 100 - 1)), l / 100),
+    solid3D: () => [(u, v) => [u * 360, 100, v * 100]],
+  },
+  {
+    colorSpace: HSV_COLOR_SPACE,
+    toXyz: ([h, s, v]) => rgbToXyz(...hsvToRgb(h, s, v)),
+    fromXyz: ([x, y, z]) => rgbToHsv(...xyzToRgb(x, y, z)),
+    toRgb: ([h, s, v]) => hsvToRgb(h, s, v),
+    defaultValues: [0, 100, 100], // Matches the hue wheel (V 100)
+    project2D: (context) => context.drawHueWheel('HSV'),
+    placePoint: placeOnHueWheel,
+    unplacePoint: unplaceFromHueWheel,
+    // Cone (radius shrinks with value) or cylinder, via custom.solid3D.hsvForm
+    placePoint3D: ([h, s, v], preset) => {
+      const radius = solidConfig(preset).hsvForm === 'cylinder' ? s / 100 : (s / 100) * (v / 100);
+      return cylindrical(h, radius, v / 100);
+    },
+    solid3D: (preset) => {
+      const surfaces: SolidSurface[] = [
+        (u, v) => [u * 360, 100, v * 100], // Side
+        (u, v) => [u * 360, v * 100, 100], // Top
+      ];
+      if (solidConfig(preset).hsvForm === 'cylinder') {
+        surfaces.push((u, v) => [u * 360, v * 100, 0]); // Bottom
+      }
+      return surfaces;
+    },
+  },
+  {
+    colorSpace: CMYK_COLOR_SPACE,
+    toXyz: ([c, m, y, k]) => rgbToXyz(...cmykToRgb(c, m, y, k)),
+    fromXyz: ([x, y, z]) => rgbToCmyk(...xyzToRgb(x, y, z)),
+    toRgb: ([c, m, y, k]) => cmykToRgb(c, m, y, k),
+    // CMY cube at a fixed K (custom.solid3D.k); points use the default C/M/Y placement
+    solid3D: (preset) => {
+      const k = sliceValue(preset, 'solid3D', 'k', 3, 0);
+      return boxFaces([[0, 100], [0, 100], [0, 100]]).map((face) => (u, v) => [...face(u, v)!, k]);
+    },
+    // Order: C -> CM -> M -> MY -> Y (forms a pentagon without intersections)
+    project2D: (context) =>
+      context.drawChromaticityDiagram({
+        vertices: getCmykGamutVertices(),
+        labels: ['C', 'CM', 'M', 'MY', 'Y'],
+      }),
+  },
+  {
+    colorSpace: XYZ_COLOR_SPACE,
+    // Values are relative to the preset's white point; adapt them to/from D65
+    toXyz: ([x, y, z], options) => adaptXyz(x, y, z, options?.whitePoint ?? 'D65', 'D65', options?.adaptation),
+    fromXyz: ([x, y, z], options) => adaptXyz(x, y, z, 'D65', options?.whitePoint ?? 'D65', options?.adaptation),
+    solid3D: rgbGamutSolid((rgb, preset) =>
+      adaptXyz(...rgbToXyz(...rgb), 'D65', preset.whitePoint ?? 'D65', preset.adaptation)
+    ),
+    // XYZ represents the entire visible color spectrum, so no gamut limitation is shown
+    project2D: (context) => context.drawChromaticityDiagram(),
+  },
+  {
+    colorSpace: LAB_COLOR_SPACE,
+    toXyz: ([l, a, b], options) => labToXyz(l, a, b, options?.whitePoint, options?.adaptation),
+    fromXyz: ([x, y, z], options) => xyzToLab(x, y, z, options?.whitePoint, options?.adaptation),
+    toRgb: ([l, a, b], options) => xyzToRgb(...labToXyz(l, a, b, options?.whitePoint, options?.adaptation)),
+    // L* up, a*/b* across
+    placePoint3D: placeByAxes([1, 0, 2], [[0, 100], [-128, 127], [-128, 127]]),
+    solid3D: rgbGamutSolid((rgb, preset) => {
+      const options = conversionOptions(preset);
+      return xyzToLab(...rgbToXyz(...rgb), options.whitePoint, options.adaptation);
+    }),
+    project2D: (context) => context.drawChromaticityDiagram(),
+  },
+  {
+    colorSpace: LCH_COLOR_SPACE,
+    toXyz: ([l, c, h], options) => labToXyz(...lchToLab(l, c, h), options?.whitePoint, options?.adaptation),
+    fromXyz: ([x, y, z], options) => labToLch(...xyzToLab(x, y, z, options?.whitePoint, options?.adaptation)),
+    toRgb: ([l, c, h], options) =>
+      xyzToRgb(...labToXyz(...lchToLab(l, c, h), options?.whitePoint, options?.adaptation)),
+    placePoint3D: ([l, c, h]) => cylindrical(h, c / 150, l / 100),
+    solid3D: rgbGamutSolid((rgb, preset) => {
+      const options = conversionOptions(preset);
+      return labToLch(...xyzToLab(...rgbToXyz(...rgb), options.whitePoint, options.adaptation));
+    }),
+    project2D: (context) => context.drawChromaticityDiagram(),
+  },
+  {
+    colorSpace: YCBCR_COLOR_SPACE,
+    toXyz: ([y, cb, cr], options) => rgbToXyz(...ycbcrToRgb(y, cb, cr, options?.ycbcr)),
+    fromXyz: ([x, y, z], options) => rgbToYcbcr(...xyzToRgb(x, y, z), options?.ycbcr),
+    toRgb: ([y, cb, cr], options) => ycbcrToRgb(y, cb, cr, options?.ycbcr),
+    defaultValues: [16, 128, 128],
+    // Cb/Cr plane at a chosen Y (custom.ycbcrSlice.luma) over all 8-bit codes, drawn as decoded, with
+    // the codes that decode to valid R′G′B′ outlined. custom.showChromaticity shows the gamut triangle.
+    project2D: (context) => {
+      if (context.preset.config?.custom?.showChromaticity === true) {
+        // Same primaries as sRGB, so the gamut triangle matches the RGB one
+        return context.drawChromaticityDiagram({
+          vertices: getYcbcrGamutVertices(),
+          labels: ['R', 'G', 'B'],
+          labelColors: ['#ff0000', '#00ff00', '#0000ff'],
+        });
+      }
+      const encoding = context.preset.ycbcr;
+      const [yMin, yMax] = getYcbcrRanges(encoding).y;
+      const luma = sliceValue(context.preset, 'ycbcrSlice', 'luma', 0, Math.round((yMin + yMax) / 2));
+      return context.drawColorPlane({
+        xRange: YCBCR_CODE_RANGE,
+        yRange: YCBCR_CODE_RANGE,
+        xLabel: 'Cb',
+        yLabel: 'Cr',
+        title: ycbcrTitle(luma, encoding),
+        outline: getYcbcrGamutSlice(luma, encoding),
+        sample: (cb, cr) => ycbcrToRgb(luma, cb, cr, encoding),
+      });
+    },
+    placePoint: ([, cb, cr]) => [normalizeToRange(cb, YCBCR_CODE_RANGE), normalizeToRange(cr, YCBCR_CODE_RANGE)],
+    unplacePoint: ([x, y], [luma]) => [
+      luma,
+      Math.round(denormalizeFromRange(x, YCBCR_CODE_RANGE)),
+      Math.round(denormalizeFromRange(y, YCBCR_CODE_RANGE)),
+    ],
+    // Y up, Cb/Cr across; the sRGB cube becomes a tilted box inside the YCbCr range
+    placePoint3D: (values, preset) => {
+      const ranges = getYcbcrRanges(preset.ycbcr);
+      return placeByAxes([1, 0, 2], [ranges.y, ranges.c, ranges.c])(values, preset);
+    },
+    solid3D: rgbGamutSolid((rgb, preset) => rgbToYcbcr(...rgb, preset.ycbcr)),
+  },
+  {
+    colorSpace: YUV_COLOR_SPACE,
+    toXyz: ([y, u, v]) => rgbToXyz(...yuvToRgb(y, u, v)),
+    fromXyz: ([x, y, z]) => rgbToYuv(...xyzToRgb(x, y, z)),
+    toRgb: ([y, u, v]) => yuvToRgb(y, u, v),
+    defaultValues: [0.5, 0, 0],
+    // U/V plane at a chosen luma (custom.yuvSlice.luma)
+    project2D: lumaChromaPlane(
+      'yuvSlice',
+      ['U', 'V'],
+      [YUV_U_RANGE, YUV_V_RANGE],
+      getLumaWeights('yuv'),
+      rgbToYuv,
+      yuvToRgb
+    ),
+    placePoint: ([, u, v]) => [normalizeToRange(u, YUV_U_RANGE), normalizeToRange(v, YUV_V_RANGE)],
+    unplacePoint: ([x, y], [luma]) => [luma, denormalizeFromRange(x, YUV_U_RANGE), denormalizeFromRange(y, YUV_V_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [LUMA_RANGE, YUV_U_RANGE, YUV_V_RANGE]),
+    solid3D: rgbGamutSolid((rgb) => rgbToYuv(...rgb)),
+  },
+  {
+    colorSpace: YIQ_COLOR_SPACE,
+    toXyz: ([y, i, q]) => rgbToXyz(...yiqToRgb(y, i, q)),
+    fromXyz: ([x, y, z]) => rgbToYiq(...xyzToRgb(x, y, z)),
+    toRgb: ([y, i, q]) => yiqToRgb(y, i, q),
+    defaultValues: [0.5, 0, 0],
+    // I/Q plane at a chosen luma (custom.yiqSlice.luma)
+    project2D: lumaChromaPlane(
+      'yiqSlice',
+      ['I', 'Q'],
+      [YIQ_I_RANGE, YIQ_Q_RANGE],
+      getLumaWeights('yiq'),
+      rgbToYiq,
+      yiqToRgb
+    ),
+    placePoint: ([, i, q]) => [normalizeToRange(i, YIQ_I_RANGE), normalizeToRange(q, YIQ_Q_RANGE)],
+    unplacePoint: ([x, y], [luma]) => [luma, denormalizeFromRange(x, YIQ_I_RANGE), denormalizeFromRange(y, YIQ_Q_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [LUMA_RANGE, YIQ_I_RANGE, YIQ_Q_RANGE]),
+    solid3D: rgbGamutSolid((rgb) => rgbToYiq(...rgb)),
+  },
+  {
+    colorSpace: YCOCG_COLOR_SPACE,
+    toXyz: ([y, co, cg]) => rgbToXyz(...ycocgToRgb(y, co, cg)),
+    fromXyz: ([x, y, z]) => rgbToYcocg(...xyzToRgb(x, y, z)),
+    toRgb: ([y, co, cg]) => ycocgToRgb(y, co, cg),
+    defaultValues: [0.5, 0, 0],
+    // Co/Cg plane at a chosen luma (custom.ycocgSlice.luma)
+    project2D: lumaChromaPlane(
+      'ycocgSlice',
+      ['Co', 'Cg'],
+      [YCOCG_C_RANGE, YCOCG_C_RANGE],
+      getLumaWeights('ycocg'),
+      rgbToYcocg,
+      ycocgToRgb
+    ),
+    placePoint: ([, co, cg]) => [normalizeToRange(co, YCOCG_C_RANGE), normalizeToRange(cg, YCOCG_C_RANGE)],
+    unplacePoint: ([x, y], [luma]) => [luma, denormalizeFromRange(x, YCOCG_C_RANGE), denormalizeFromRange(y, YCOCG_C_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [LUMA_RANGE, YCOCG_C_RANGE, YCOCG_C_RANGE]),
+    solid3D: rgbGamutSolid((rgb) => rgbToYcocg(...rgb)),
+  },
+  {
+    colorSpace: OKLAB_COLOR_SPACE,
+    toXyz: ([l, a, b]) => oklabToXyz(l, a, b),
+    fromXyz: ([x, y, z]) => xyzToOklab(x, y, z),
+    toRgb: ([l, a, b]) => oklabToRgb(l, a, b),
+    // a/b plane slice at a chosen lightness (custom.oklabSlice.lightness)
+    project2D: (context) => {
+      const lightness = sliceValue(context.preset, 'oklabSlice', 'lightness', 0, 0.7);
+      return context.drawColorPlane({
+        xRange: OKLAB_AB_RANGE,
+        yRange: OKLAB_AB_RANGE,
+        xLabel: 'a',
+        yLabel: 'b',
+        title: `L = ${Math.round(lightness * 1000) / 1000}`,
+        sample: (a, b) => displayableRgb(oklabToXyz(lightness, a, b)),
+      });
+    },
+    placePoint: ([, a, b]) => [normalizeToRange(a, OKLAB_AB_RANGE), normalizeToRange(b, OKLAB_AB_RANGE)],
+    unplacePoint: ([x, y], [l]) => [l, denormalizeFromRange(x, OKLAB_AB_RANGE), denormalizeFromRange(y, OKLAB_AB_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [OKLCH_L_RANGE, OKLAB_AB_RANGE, OKLAB_AB_RANGE]),
+    solid3D: rgbGamutSolid((rgb) => xyzToOklab(...rgbToXyz(...rgb))),
+  },
+  {
+    colorSpace: OKLCH_COLOR_SPACE,
+    toXyz: ([l, c, h]) => oklabToXyz(...oklchToOklab(l, c, h)),
+    fromXyz: ([x, y, z]) => oklabToOklch(...xyzToOklab(x, y, z)),
+    toRgb: ([l, c, h]) => oklabToRgb(...oklchToOklab(l, c, h)),
+    // Chroma × lightness slice at a chosen hue (custom.oklchSlice.hue)
+    project2D: (context) => {
+      const hue = sliceValue(context.preset, 'oklchSlice', 'hue', 2, 0);
+      return context.drawColorPlane({
+        xRange: OKLCH_C_RANGE,
+        yRange: OKLCH_L_RANGE,
+        xLabel: 'C',
+        yLabel: 'L',
+        title: `h = ${Math.round(hue * 10) / 10}°`,
+        sample: (c, l) => displayableRgb(oklabToXyz(...oklchToOklab(l, c, hue))),
+      });
+    },
+    placePoint: ([l, c]) => [normalizeToRange(c, OKLCH_C_RANGE), normalizeToRange(l, OKLCH_L_RANGE)],
+    unplacePoint: ([x, y], [, , h]) => [denormalizeFromRange(y, OKLCH_L_RANGE), denormalizeFromRange(x, OKLCH_C_RANGE), h],
+    placePoint3D: ([l, c, h]) => cylindrical(h, normalizeToRange(c, OKLCH_C_RANGE), normalizeToRange(l, OKLCH_L_RANGE)),
+    solid3D: rgbGamutSolid((rgb) => oklabToOklch(...xyzToOklab(...rgbToXyz(...rgb)))),
+  },
+  {
+    colorSpace: CAM16_UCS_COLOR_SPACE,
+    toXyz: ([j, a, b], options) => fromViewingWhite(cam16UcsToXyz(j, a, b, options?.viewingConditions), options),
+    fromXyz: (xyz, options) => xyzToCam16Ucs(...toViewingWhite(xyz, options), options?.viewingConditions),
+    defaultValues: [50, 0, 0],
+    // a′/b′ plane slice at a chosen lightness (custom.cam16Slice.lightness)
+    project2D: (context) => {
+      const lightness = sliceValue(context.preset, 'cam16Slice', 'lightness', 0, 70);
+      const options = conversionOptions(context.preset);
+      return context.drawColorPlane({
+        xRange: CAM16_UCS_AB_RANGE,
+        yRange: CAM16_UCS_AB_RANGE,
+        xLabel: 'a′',
+        yLabel: 'b′',
+        title: `J′ = ${Math.round(lightness * 10) / 10}`,
+        sample: (a, b) =>
+          displayableRgb(fromViewingWhite(cam16UcsToXyz(lightness, a, b, options.viewingConditions), options)),
+      });
+    },
+    placePoint: ([, a, b]) => [normalizeToRange(a, CAM16_UCS_AB_RANGE), normalizeToRange(b, CAM16_UCS_AB_RANGE)],
+    unplacePoint: ([x, y], [j]) => [
+      j,
+      denormalizeFromRange(x, CAM16_UCS_AB_RANGE),
+      denormalizeFromRange(y, CAM16_UCS_AB_RANGE),
+    ],
+    placePoint3D: placeByAxes([1, 0, 2], [CAM16_J_RANGE, CAM16_UCS_AB_RANGE, CAM16_UCS_AB_RANGE]),
+    solid3D: rgbGamutSolid((rgb, preset) => {
+      const options = conversionOptions(preset);
+      return xyzToCam16Ucs(...toViewingWhite(rgbToXyz(...rgb), options), options.viewingConditions);
+    }),
+  },
+  {
+    colorSpace: CAM16_JMH_COLOR_SPACE,
+    toXyz: ([J, M, h], options) => fromViewingWhite(cam16ToXyz({ J, M, h }, options?.viewingConditions), options),
+    fromXyz: (xyz, options) => {
+      const { J, M, h } = xyzToCam16(...toViewingWhite(xyz, options), options?.viewingConditions);
+      return [J, M, h];
+    },
+    defaultValues: [50, 0, 0],
+    // Colorfulness × lightness slice at a chosen hue (custom.cam16Slice.hue)
+    project2D: (context) => {
+      const hue = sliceValue(context.preset, 'cam16Slice', 'hue', 2, 0);
+      const options = conversionOptions(context.preset);
+      return context.drawColorPlane({
+        xRange: CAM16_M_RANGE,
+        yRange: CAM16_J_RANGE,
+        xLabel: 'M',
+        yLabel: 'J',
+        title: `h = ${Math.round(hue * 10) / 10}°`,
+        sample: (M, J) =>
+          displayableRgb(fromViewingWhite(cam16ToXyz({ J, M, h: hue }, options.viewingConditions), options)),
+      });
+    },
+    placePoint: ([J, M]) => [normalizeToRange(M, CAM16_M_RANGE), normalizeToRange(J, CAM16_J_RANGE)],
+    unplacePoint: ([x, y], [, , h]) => [denormalizeFromRange(y, CAM16_J_RANGE), denormalizeFromRange(x, CAM16_M_RANGE), h],
+    placePoint3D: ([J, M, h]) => cylindrical(h, normalizeToRange(M, CAM16_M_RANGE), normalizeToRange(J, CAM16_J_RANGE)),
+    solid3D: rgbGamutSolid((rgb, preset) => {
+      const options = conversionOptions(preset);
+      const { J, M, h } = xyzToCam16(...toViewingWhite(rgbToXyz(...rgb), options), options.viewingConditions);
+      return [J, M, h];
+    }),
+  },
+  {
+    colorSpace: ICTCP_COLOR_SPACE,
+    toXyz: ([i, ct, cp]) => ictcpToXyz(i, ct, cp),
+    fromXyz: ([x, y, z]) => xyzToIctcp(x, y, z),
+    defaultValues: [0.5, 0, 0],
+    // Ct/Cp plane slice at a chosen intensity (custom.ictcpSlice.intensity)
+    project2D: (context) => {
+      const intensity = sliceValue(context.preset, 'ictcpSlice', 'intensity', 0, 0.5);
+      return context.drawColorPlane({
+        xRange: ICTCP_C_RANGE,
+        yRange: ICTCP_C_RANGE,
+        xLabel: 'Ct',
+        yLabel: 'Cp',
+        title: `I = ${Math.round(intensity * 1000) / 1000} (${formatNits(pqEotf(intensity))})`,
+        sample: (ct, cp) => displayableHdrRgb(ictcpToXyz(intensity, ct, cp)),
+      });
+    },
+    placePoint: ([, ct, cp]) => [normalizeToRange(ct, ICTCP_C_RANGE), normalizeToRange(cp, ICTCP_C_RANGE)],
+    unplacePoint: ([x, y], [i]) => [i, denormalizeFromRange(x, ICTCP_C_RANGE), denormalizeFromRange(y, ICTCP_C_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [[0, 1], [-0.5, 0.5], [-0.5, 0.5]]),
+    solid3D: rgbGamutSolid((rgb) => xyzToIctcp(...rgbToXyz(...rgb))),
+  },
+  {
+    colorSpace: JZAZBZ_COLOR_SPACE,
+    toXyz: ([jz, az, bz]) => jzazbzToXyz(jz, az, bz),
+    fromXyz: ([x, y, z]) => xyzToJzazbz(x, y, z),
+    defaultValues: [0.15, 0, 0],
+    // az/bz plane slice at a chosen lightness (custom.jzazbzSlice.lightness)
+    project2D: (context) => {
+      const lightness = sliceValue(context.preset, 'jzazbzSlice', 'lightness', 0, 0.15);
+      return context.drawColorPlane({
+        xRange: JZ_AB_RANGE,
+        yRange: JZ_AB_RANGE,
+        xLabel: 'az',
+        yLabel: 'bz',
+        title: `Jz = ${Math.round(lightness * 1000) / 1000} (${formatNits(jzToNits(lightness))})`,
+        sample: (az, bz) => displayableHdrRgb(jzazbzToXyz(lightness, az, bz)),
+      });
+    },
+    placePoint: ([, az, bz]) => [normalizeToRange(az, JZ_AB_RANGE), normalizeToRange(bz, JZ_AB_RANGE)],
+    unplacePoint: ([x, y], [jz]) => [jz, denormalizeFromRange(x, JZ_AB_RANGE), denormalizeFromRange(y, JZ_AB_RANGE)],
+    placePoint3D: placeByAxes([1, 0, 2], [[0, 1], [-0.5, 0.5], [-0.5, 0.5]]),
+    solid3D: rgbGamutSolid((rgb) => xyzToJzazbz(...rgbToXyz(...rgb))),
+  },
+  {
+    colorSpace: JZCZHZ_COLOR_SPACE,
+    toXyz: ([jz, cz, hz]) => jzazbzToXyz(...jzczhzToJzazbz(jz, cz, hz)),
+    fromXyz: ([x, y, z]) => jzazbzToJzczhz(...xyzToJzazbz(x, y, z)),
+    defaultValues: [0.15, 0, 0],
+    // Chroma × lightness slice at a chosen hue (custom.jzczhzSlice.hue), with the lightness axis also in cd/m²
+    project2D: (context) => {
+      const hue = sliceValue(context.preset, 'jzczhzSlice', 'hue', 2, 0);
+      return context.drawColorPlane({
+        xRange: JZ_C_RANGE,
+        yRange: JZ_J_RANGE,
+        xLabel: 'Cz',
+        yLabel: 'Jz',
+        title: `hz = ${Math.round(hue * 10) / 10}°`,
+        yAxis2: {
+          label: 'cd/m²',
+          ticks: HDR_AXIS_NITS.map((nits) => ({ value: nitsToJz(nits), label: String(nits) })),
+        },
+        sample: (cz, jz) => displayableHdrRgb(jzazbzToXyz(...jzczhzToJzazbz(jz, cz, hue))),
+      });
+    },
+    placePoint: ([jz, cz]) => [normalizeToRange(cz, JZ_C_RANGE), normalizeToRange(jz, JZ_J_RANGE)],
+    unplacePoint: ([x, y], [, , hz]) => [denormalizeFromRange(y, JZ_J_RANGE), denormalizeFromRange(x, JZ_C_RANGE), hz],
+    placePoint3D: ([jz, cz, hz]) => cylindrical(hz, cz / 0.5, jz),
+    solid3D: rgbGamutSolid((rgb) => jzazbzToJzczhz(...xyzToJzazbz(...rgbToXyz(...rgb)))),
+  },
+];
@@ -0,0 +1,180 @@
+/**
+ * Color space registry
+ * Renderer2D, valuesToHex and ColorChannelVisualizer resolve color spaces by name through this registry,
+ * so new spaces can be added without touching the renderers.
+ */
+
+import { diagramToXy, xyToDiagram, xyzToLab, xyzToRgb, xyzToXy } from '../utils/colorConversion';
+import { xyToCctDuv } from '../utils/colorTemperature';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import { BUILT_IN_COLOR_SPACES, conversionOptions } from './builtInColorSpaces';
+import { CoordinateSystem } from '../components/types';
+import { ChromaticityDiagram, PresetConfig } from '../types';
+import { ColorSpaceDefinition, ConversionOptions } from './types';
+
+/**
+ * Normalize a color space name for lookup ('LCh', 'lch' and 'L Ch' resolve to the same entry)
+ */
+function normalizeName(name: string): string {
+  return (name || '').toUpperCase().replace(/\s/g, '');
+}
+
+const registry = new Map<string, ColorSpaceDefinition>(
+  BUILT_IN_COLOR_SPACES.map((definition) => [normalizeName(definition.colorSpace.name), definition])
+);
+
+/**
+ * Register a color space. Registering a name that already exists replaces the previous definition.
+ */
+export function registerColorSpace(definition: ColorSpaceDefinition): void {
+  if (!definition?.colorSpace?.name) {
+    throw new Error('Color space definition must have a colorSpace with a name');
+  }
+  registry.set(normalizeName(definition.colorSpace.name), definition);
+}
+
+/**
+ * Remove a registered color space. Returns true if it was registered.
+ */
+export function unregisterColorSpace(name: string): boolean {
+  return registry.delete(normalizeName(name));
+}
+
+/**
+ * Get a registered color space by name (case-insensitive)
+ */
+export function getColorSpaceDefinition(name: string): ColorSpaceDefinition | null {
+  return registry.get(normalizeName(name)) || null;
+}
+
+/**
+ * Get all registered color spaces, built-ins first
+ */
+export function getRegisteredColorSpaces(): ColorSpaceDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Place color space values in a projection's coordinate system.
+ * Uses the definition's placePoint when given, otherwise the chromaticity of toXyz()
+ * in the coordinate system's diagram (CIE xy by default, or u′v′).
+ */
+export function placeColorPoint(
+  definition: ColorSpaceDefinition,
+  values: number[],
+  coordinateSystem: CoordinateSystem,
+  options?: ConversionOptions
+): [number, number] | null {
+  if (values.length < definition.colorSpace.axes.length) {
+    return null;
+  }
+  if (definition.placePoint) {
+    return definition.placePoint(values, coordinateSystem);
+  }
+  const [x, y, z] = definition.toXyz(values, options);
+  return xyToDiagram(xyzToXy(x, y, z), coordinateSystem.diagram);
+}
+
+/**
+ * Map marker coordinates back to color space values (the inverse of placeColorPoint).
+ * Spaces with a custom placePoint but no unplacePoint cannot be edited by dragging (returns null).
+ * diagram is the chromaticity diagram the coordinates are in (the coordinate system's diagram).
+ */
+export function unplaceColorPoint(
+  definition: ColorSpaceDefinition,
+  coords: [number, number],
+  values: number[],
+  preset: PresetConfig,
+  diagram: ChromaticityDiagram = 'xy'
+): number[] | null {
+  if (definition.unplacePoint) {
+    return definition.unplacePoint(coords, values, preset);
+  }
+  if (definition.placePoint) {
+    return null;
+  }
+
+  // Chromaticity: keep the point's luminance (Y) and move its chromaticity
+  const [x, y] = diagramToXy(coords, diagram);
+  if (y <= 0 || x < 0 || x + y > 1) {
+    return null;
+  }
+  const options = conversionOptions(preset);
+  const currentY = definition.toXyz(values, options)[1];
+  const luminance = currentY > 0 ? currentY : 50; // Black has no chromaticity to move
+  const xyz: [number, number, number] = [
+    (x * luminance) / y,
+    luminance,
+    ((1 - x - y) * luminance) / y,
+  ];
+  return definition.fromXyz(xyz, options);
+}
+
+/**
+ * xy chromaticity, Lab (D65), hex, CCT and Duv of color space values, as reported by pointer events
+ */
+export function describeColorValues(
+  definition: ColorSpaceDefinition,
+  values: number[],
+  preset: PresetConfig
+): {
+  xy: [number, number] | null;
+  lab: [number, number, number];
+  hex: string;
+  cct: number | null;
+  duv: number | null;
+} {
+  const options = conversionOptions(preset);
+  const xyz = definition.toXyz(values, options);
+  const rgb = definition.toRgb ? definition.toRgb(values, options) : xyzToRgb(...xyz);
+  const sum = xyz[0] + xyz[1] + xyz[2];
+  const xy = sum > 0 ? xyzToXy(...xyz) : null;
+  const temperature = xy ? xyToCctDuv(...xy) : null;
+  return {
+    xy,
+    lab: xyzToLab(...xyz),
+    hex: rgbToHex(...rgb),
+    cct: temperature?.cct ?? null,
+    duv: temperature?.duv ?? null,
+  };
+}
+
+/**
+ * Values used for channels a 2D view does not show when reading the color under the pointer:
+ * the first point's values, the definition's defaults, or a mid grey
+ */
+export function getTemplateValues(definition: ColorSpaceDefinition, preset: PresetConfig): number[] {
+  const first = preset.points?.[0]?.values;
+  if (first && first.length >= definition.colorSpace.axes.length) {
+    return first;
+  }
+  if (definition.defaultValues) {
+    return definition.defaultValues;
+  }
+  // Mid grey (Y = 50, D65 chromaticity)
+  return definition.fromXyz([47.52, 50, 54.44], conversionOptions(preset));
+}
+
+/**
+ * Place color space values in normalized 3D coordinates (0-1 per axis).
+ * Uses the registered placePoint3D when given, otherwise maps the first three axes linearly.
+ */
+export function placeColorPoint3D(
+  preset: PresetConfig,
+  values: number[]
+): [number, number, number] | null {
+  const { colorSpace } = preset;
+  const definition = getColorSpaceDefinition(colorSpace.name);
+  if (definition?.placePoint3D) {
+    return definition.placePoint3D(values, preset);
+  }
+  if (values.length < Math.min(3, colorSpace.axes.length)) {
+    return null;
+  }
+  const coords = [0, 1, 2].map((i) => {
+    const axis = colorSpace.axes[i];
+    if (!axis || axis.max === axis.min) return 0.5;
+    return (values[i] - axis.min) / (axis.max - axis.min);
+  });
+  return [coords[0], coords[1], coords[2]];
+}
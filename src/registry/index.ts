@@ -0,0 +1,29 @@
+/**
+ * Color space registry exports
+ */
+
+export {
+  registerColorSpace,
+  unregisterColorSpace,
+  getColorSpaceDefinition,
+  getRegisteredColorSpaces,
+  placeColorPoint,
+  placeColorPoint3D,
+  unplaceColorPoint,
+  describeColorValues,
+  getTemplateValues,
+} from './colorSpaceRegistry';
+export { BUILT_IN_COLOR_SPACES, conversionOptions } from './builtInColorSpaces';
+export type {
+  ColorSpaceDefinition,
+  ConversionOptions,
+  GamutOutline,
+  PointPlacement,
+  PointUnplacement,
+  PointPlacement3D,
+  Solid3D,
+  Solid3DConfig,
+  SolidSurface,
+  Projection2D,
+  Projection2DContext,
+} from './types';
@@ -0,0 +1,151 @@
+/**
+ * Type definitions for the color space registry
+ */
+
+import type Konva from 'konva';
+import type {
+  ChromaticAdaptation,
+  ColorSpace,
+  PresetConfig,
+  ViewingConditions,
+  VisualizerConfig,
+  WhitePoint,
+  YcbcrEncoding,
+} from '../types';
+import type { ColorPlaneDomain, CoordinateSystem } from '../components/types';
+import type { ColorSpaceDef } from '../color-channel-visualizer/channelConfig';
+
+/**
+ * Gamut outline drawn on top of a chromaticity diagram
+ */
+export interface GamutOutline {
+  vertices: Array<[number, number]>; // Closed polygon in diagram coordinates
+  labels?: string[]; // One label per vertex
+  labelColors?: string[]; // One color per label (default '#333')
+  name?: string; // Legend entry; a legend is drawn when more than one named outline is shown
+  color?: string; // Stroke color (default '#333')
+  dash?: number[]; // Stroke dash pattern (default [5, 5])
+  fill?: string; // Fill color (default 'rgba(200, 200, 200, 0.1)')
+}
+
+/**
+ * Everything a 2D projection needs to draw its background.
+ * The draw helpers reuse Renderer2D's shared components (CIE background, axes, hue wheels),
+ * so their user-updated configuration applies to custom color spaces as well.
+ */
+export interface Projection2DContext {
+  layer: Konva.Layer;
+  centerX: number;
+  centerY: number;
+  size: { width: number; height: number };
+  preset: PresetConfig;
+  config: VisualizerConfig | null;
+  /** Draw the CIE xy diagram with axes and optional gamut outlines; returns the xy coordinate system */
+  drawChromaticityDiagram(gamut?: GamutOutline | GamutOutline[]): CoordinateSystem;
+  /** Draw the HSL or HSV hue wheel; returns normalized wheel coordinates (radius = 1, hue 0° at top) */
+  drawHueWheel(model: 'HSL' | 'HSV'): CoordinateSystem;
+  /** Draw the flat RGB cube face (no point placement) */
+  drawRgbCubeFace(): void;
+  /** Draw the generic view used for spaces without a 2D projection (no point placement) */
+  drawGeneric(): void;
+  /** Draw a square slice through a color space; returns normalized plane coordinates (0-1 on both axes) */
+  drawColorPlane(domain: ColorPlaneDomain): CoordinateSystem;
+}
+
+/**
+ * Draws the 2D view of a color space.
+ * Returns the coordinate system markers are placed in, or null when points should not be plotted.
+ */
+export type Projection2D = (context: Projection2DContext) => CoordinateSystem | null;
+
+/**
+ * Maps color space values to marker coordinates in the projection's coordinate system.
+ * Returns null when the values cannot be placed.
+ */
+export type PointPlacement = (
+  values: number[],
+  coordinateSystem: CoordinateSystem
+) => [number, number] | null;
+
+/**
+ * Inverse of PointPlacement: maps marker coordinates back to color space values (used when
+ * dragging markers). values holds the point's current values, which supply the channels the
+ * view does not show (e.g. lightness on a hue wheel). Returns null when nothing maps there.
+ */
+export type PointUnplacement = (
+  coords: [number, number],
+  values: number[],
+  preset: PresetConfig
+) => number[] | null;
+
+/**
+ * Maps color space values to normalized 3D coordinates (0-1 on each axis, x/y/z in the
+ * renderer's shape box; y is up). Returns null when the values cannot be placed.
+ */
+export type PointPlacement3D = (
+  values: number[],
+  preset: PresetConfig
+) => [number, number, number] | null;
+
+/**
+ * One surface patch of a 3D solid: maps (u, v) in 0-1 to color space values (in axis order).
+ * Returning null leaves a hole in the patch.
+ */
+export type SolidSurface = (u: number, v: number) => number[] | null;
+
+/**
+ * Builds the surface patches of a color space's 3D solid. Vertices are positioned
+ * with placePoint3D and colored with toRgb/toXyz, so points and solid share one layout.
+ */
+export type Solid3D = (preset: PresetConfig) => SolidSurface[];
+
+/**
+ * 3D solid configuration (preset.config.custom.solid3D)
+ */
+export interface Solid3DConfig {
+  show?: boolean;
+  resolution?: number; // Grid steps per surface patch (default 48)
+  opacity?: number; // 0-1 (default 0.6, so points inside stay visible)
+  wireframe?: boolean;
+  hsvForm?: 'cone' | 'cylinder'; // HSV solid shape (default 'cone')
+  k?: number; // CMYK: black level of the CMY cube (default: first point's K, else 0)
+}
+
+/**
+ * Per-preset conversion settings (see PresetConfig.whitePoint / adaptation / viewingConditions / ycbcr).
+ * Spaces defined relative to a reference white (Lab, LCh, XYZ) honour them; others ignore them.
+ * Viewing conditions apply to the CAM16 spaces only, the YCbCr encoding to YCbCr only.
+ */
+export interface ConversionOptions {
+  whitePoint?: WhitePoint;
+  adaptation?: ChromaticAdaptation;
+  viewingConditions?: ViewingConditions;
+  ycbcr?: YcbcrEncoding;
+}
+
+/**
+ * A color space as registered with the library
+ */
+export interface ColorSpaceDefinition {
+  colorSpace: ColorSpace;
+  /** Convert channel values (in axis order) to XYZ (0-100 scale, D65) */
+  toXyz(values: number[], options?: ConversionOptions): [number, number, number];
+  /** Convert XYZ (0-100 scale, D65) to channel values (in axis order) */
+  fromXyz(xyz: [number, number, number], options?: ConversionOptions): number[];
+  /** Optional direct conversion to sRGB (0-255); used instead of toXyz when exact sRGB round-trips matter */
+  toRgb?(values: number[], options?: ConversionOptions): [number, number, number];
+  /** Value used for a channel missing from a values record (default 0) */
+  defaultValues?: number[];
+  /** 2D view; omitted spaces fall back to the generic 2D view */
+  project2D?: Projection2D;
+  /** Marker placement; defaults to the CIE xy chromaticity of toXyz() */
+  placePoint?: PointPlacement;
+  /** Inverse of placePoint for draggable markers; defaults to inverting CIE xy at the point's luminance */
+  unplacePoint?: PointUnplacement;
+  /** 3D marker placement; defaults to the first three axes mapped linearly onto x/y/z */
+  placePoint3D?: PointPlacement3D;
+  /** 3D solid drawn by Renderer3D; spaces without one keep the preset's plain shape */
+  solid3D?: Solid3D;
+  /** Slider definition used by ColorChannelVisualizer when no built-in one exists */
+  channels?: ColorSpaceDef;
+}
@@ -0,0 +1,298 @@
+/**
+ * Color point cloud for the 3D renderer
+ * Draws ColorPoints as one instanced sphere mesh (plus optional label sprites) and diffs
+ * updates against the previous points, so streaming thousands of samples only rewrites
+ * the instances that actually changed.
+ */
+
+import * as THREE from 'three';
+import { ColorPoint } from '../types';
+
+/**
+ * Point cloud configuration (preset.config.custom.points3D)
+ */
+export interface PointCloudConfig {
+  show?: boolean;
+  radius?: number; // Sphere radius in scene units (the RGB cube is 1 unit wide)
+  segments?: number; // Sphere width/height segments
+  showLabels?: boolean; // Draw ColorPoint.label next to its sphere
+  labelStyle?: {
+    fontSize?: number; // Canvas font size in pixels (texture resolution)
+    color?: string;
+    fontFamily?: string;
+    height?: number; // Label height in scene units
+  };
+}
+
+/**
+ * Maps a point to its position in scene units, or null to hide it
+ */
+export type PointPositioner = (point: ColorPoint) => [number, number, number] | null;
+
+interface PointSnapshot {
+  values: number[];
+  color: string;
+  label?: string;
+  weight?: number;
+  placed: boolean;
+}
+
+const MIN_CAPACITY = 64;
+
+export class ColorPointCloud {
+  /** Add this to the scene; holds the instanced mesh and label sprites */
+  readonly group = new THREE.Group();
+  private config: PointCloudConfig;
+  private mesh: THREE.InstancedMesh | null = null;
+  private capacity: number = 0;
+  private previous: PointSnapshot[] = [];
+  private labels: Map<number, THREE.Sprite> = new Map();
+  private dummy = new THREE.Object3D();
+  private color = new THREE.Color();
+
+  constructor(config: PointCloudConfig = {}) {
+    this.config = {
+      show: true,
+      radius: 0.02,
+      segments: 12,
+      showLabels: true,
+      ...config,
+      labelStyle: {
+        fontSize: 32,
+        color: '#222',
+        fontFamily: 'Arial',
+        height: 0.05,
+        ...config.labelStyle,
+      },
+    };
+  }
+
+  /**
+   * Show the given points, rewriting only instances whose values, color or label changed
+   */
+  update(points: ColorPoint[], position: PointPositioner): void {
+    this.group.visible = this.config.show !== false;
+    this.ensureCapacity(points.length);
+    const mesh = this.mesh!;
+    let matricesChanged = false;
+    let colorsChanged = false;
+    const placed: boolean[] = [];
+
+    points.forEach((point, index) => {
+      const before = this.previous[index];
+      const moved = !before || !sameValues(before.values, point.values) || before.weight !== point.weight;
+      const recolored = !before || before.color !== point.color;
+      placed[index] = before ? before.placed : true;
+
+      if (moved) {
+        const coords = position(point);
+        placed[index] = coords !== null;
+        this.dummy.position.set(...(coords || [0, 0, 0]));
+        // Points that cannot be placed are collapsed instead of removed, keeping indices stable;
+        // weighted points (histogram bins, palette colors) shrink with their share
+        const weightScale = point.weight !== undefined ? 0.4 + 0.6 * Math.sqrt(Math.max(0, point.weight)) : 1;
+        this.dummy.scale.setScalar(coords ? weightScale : 0);
+        this.dummy.updateMatrix();
+        mesh.setMatrixAt(index, this.dummy.matrix);
+        matricesChanged = true;
+      }
+      if (recolored) {
+        mesh.setColorAt(index, this.color.set(point.color));
+        colorsChanged = true;
+      }
+      if (moved || !before || before.label !== point.label) {
+        this.updateLabel(index, point, placed[index]);
+      }
+    });
+
+    // Drop labels of points that no longer exist
+    this.labels.forEach((_sprite, index) => {
+      if (index >= points.length) {
+        this.removeLabel(index);
+      }
+    });
+
+    mesh.count = points.length;
+    if (matricesChanged) {
+      mesh.instanceMatrix.needsUpdate = true;
+    }
+    if (colorsChanged && mesh.instanceColor) {
+      mesh.instanceColor.needsUpdate = true;
+    }
+
+    this.previous = points.map((point, index) => ({
+      values: [...point.values],
+      color: point.color,
+      label: point.label,
+      weight: point.weight,
+      placed: placed[index],
+    }));
+  }
+
+  /**
+   * Index of the nearest point hit by a ray, or null (collapsed points cannot be hit)
+   */
+  pick(raycaster: THREE.Raycaster): number | null {
+    if (!this.mesh || !this.group.visible || this.mesh.count === 0) return null;
+    const hit = raycaster.intersectObject(this.mesh, false)[0];
+    return hit?.instanceId ?? null;
+  }
+
+  /**
+   * Force every instance to be rewritten on the next update (e.g. after the shape size changed)
+   */
+  invalidate(): void {
+    this.previous = [];
+  }
+
+  /**
+   * Update configuration; geometry changes rebuild the mesh on the next update
+   */
+  updateConfig(config: Partial<PointCloudConfig>): void {
+    if (!config || typeof config !== 'object') return;
+    const rebuild =
+      (config.radius !== undefined && config.radius !== this.config.radius) ||
+      (config.segments !== undefined && config.segments !== this.config.segments);
+    const relabel = config.showLabels !== undefined || config.labelStyle !== undefined;
+
+    this.config = {
+      ...this.config,
+      ...config,
+      labelStyle: { ...this.config.labelStyle, ...config.labelStyle },
+    };
+
+    if (rebuild) {
+      this.disposeMesh();
+    }
+    if (rebuild || relabel) {
+      this.clearLabels();
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): PointCloudConfig {
+    return { ...this.config, labelStyle: { ...this.config.labelStyle } };
+  }
+
+  /**
+   * Release GPU resources
+   */
+  dispose(): void {
+    this.disposeMesh();
+    this.clearLabels();
+    this.previous = [];
+  }
+
+  /**
+   * Make sure the instanced mesh can hold count points; grows in powers of two
+   */
+  private ensureCapacity(count: number): void {
+    if (this.mesh && count <= this.capacity) return;
+
+    let capacity = Math.max(MIN_CAPACITY, this.capacity);
+    while (capacity < count) {
+      capacity *= 2;
+    }
+    this.disposeMesh();
+
+    const segments = this.config.segments ?? 12;
+    const geometry = new THREE.SphereGeometry(this.config.radius ?? 0.02, segments, Math.max(4, segments / 2));
+    const material = new THREE.MeshStandardMaterial({ metalness: 0.1, roughness: 0.6 });
+    this.mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    // The bounding sphere is not kept in sync with streamed instances
+    this.mesh.frustumCulled = false;
+    this.mesh.count = 0;
+    this.capacity = capacity;
+    this.group.add(this.mesh);
+
+    // A new mesh starts empty, so every point has to be written again
+    this.previous = [];
+  }
+
+  private disposeMesh(): void {
+    if (!this.mesh) return;
+    this.group.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+    this.mesh.dispose();
+    this.mesh = null;
+    this.capacity = 0;
+  }
+
+  /**
+   * Create, move or remove the label sprite of a point
+   */
+  private updateLabel(index: number, point: ColorPoint, placed: boolean): void {
+    const existing = this.labels.get(index);
+    if (!this.config.showLabels || !point.label || !placed) {
+      if (existing) this.removeLabel(index);
+      return;
+    }
+
+    let sprite = existing;
+    if (!sprite || sprite.userData.text !== point.label) {
+      if (existing) this.removeLabel(index);
+      sprite = this.createLabelSprite(point.label);
+      this.labels.set(index, sprite);
+      this.group.add(sprite);
+    }
+
+    // Place the label just above the sphere
+    const matrix = new THREE.Matrix4();
+    this.mesh!.getMatrixAt(index, matrix);
+    const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+    const offset = (this.config.radius ?? 0.02) * 1.5 + (this.config.labelStyle?.height ?? 0.05) / 2;
+    sprite.position.set(position.x, position.y + offset, position.z);
+  }
+
+  private createLabelSprite(text: string): THREE.Sprite {
+    const style = this.config.labelStyle || {};
+    const fontSize = style.fontSize ?? 32;
+    const font = `${fontSize}px ${style.fontFamily || 'Arial'}`;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = font;
+    canvas.width = Math.ceil(ctx.measureText(text).width) + 8;
+    canvas.height = Math.ceil(fontSize * 1.3);
+    // Resizing the canvas resets the context state
+    ctx.font = font;
+    ctx.fillStyle = style.color || '#222';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 4, canvas.height / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    const material = new THREE.SpriteMaterial({ map: texture, depthWrite: false });
+    const sprite = new THREE.Sprite(material);
+    const height = style.height ?? 0.05;
+    sprite.scale.set((height * canvas.width) / canvas.height, height, 1);
+    sprite.userData.text = text;
+    return sprite;
+  }
+
+  private removeLabel(index: number): void {
+    const sprite = this.labels.get(index);
+    if (!sprite) return;
+    this.group.remove(sprite);
+    sprite.material.map?.dispose();
+    sprite.material.dispose();
+    this.labels.delete(index);
+  }
+
+  private clearLabels(): void {
+    Array.from(this.labels.keys()).forEach((index) => this.removeLabel(index));
+  }
+}
+
+function sameValues(a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
@@ -4,19 +4,30 @@
 
 import Konva from 'konva';
 import { IRenderer } from '../types';
-import { VisualizerConfig, PresetConfig, ColorPoint } from '../types';
+import { VisualizerConfig, PresetConfig, ColorPoint, WhitePoint, RendererEventHandler, PointerColorEvent, ExportOptions, ChromaticityDiagram } from '../types';
+import { CIEBackground, Axes, Marker, HSLHueWheel, HSVHueWheel, CMYKGrid, ColorPlane, WhitePointMarkers, PixelCloud, PlanckianLocus, ToleranceRegion, ConfusionLines, ContrastOverlay, HarmonyOverlay, GradientPath, DominantWavelengthOverlay, CoordinateSystem, ColorPlaneDomain } from '../components';
+import { apcaContrast, diagramToXy, getWhitePoint, isInsideSpectralLocus, wcagContrast, xyToDiagram, xyzToRgb, xyzToXy } from '../utils/colorConversion';
+import { dominantWavelength } from '../utils/dominantWavelength';
+import { hexToRgb, rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import { PixelBin, pixelBinsToColorPoints } from '../utils/imagePalette';
+import { stageToSvg } from '../utils/svgExport';
+import { createCvdTransform, transformCssColors } from '../utils/colorVisionDeficiency';
+import type { ColorTransform, CvdOptions } from '../utils/colorVisionDeficiency';
+import { evaluateTolerance, labToValues, toleranceContour, valuesToLab } from '../utils/colorDifference';
+import { mapColorPoint } from '../utils/gamutMapping';
+import { generateHarmony, getHarmonyCenter } from '../utils/colorHarmony';
+import { interpolatePoints } from '../utils/colorInterpolation';
+import type { GamutMappingMethod } from '../utils/gamutMapping';
 import {
-  rgbToXy,
-  xyzToXy,
-  getRgbGamutVertices,
-  getCmykGamutVertices,
-  getYcbcrGamutVertices,
-  ycbcrToRgb,
-  cmykToRgb,
-  labToXyz,
-  lchToLab,
-} from '../utils/colorConversion';
-import { CIEBackground, Axes, Marker, HSLHueWheel, HSVHueWheel, CMYKGrid, CoordinateSystem } from '../components';
+  conversionOptions,
+  describeColorValues,
+  getColorSpaceDefinition,
+  getTemplateValues,
+  placeColorPoint,
+  unplaceColorPoint,
+} from '../registry';
+import type { ColorSpaceDefinition, GamutOutline, Projection2DContext } from '../registry';
+import type { ColorWorkerPool } from '../workers/ColorWorkerPool';
 
 export class Renderer2D implements IRenderer {
   private stage: Konva.Stage | null = null;
@@ -28,7 +39,26 @@ export class Renderer2D implements IRenderer {
   private hslHueWheel: HSLHueWheel | null = null;
   private hsvHueWheel: HSVHueWheel | null = null;
   private cmykGrid: CMYKGrid | null = null;
+  private colorPlane: ColorPlane | null = null;
+  private whitePointMarkers: WhitePointMarkers | null = null;
+  private planckianLocus: PlanckianLocus | null = null;
+  private toleranceRegion: ToleranceRegion | null = null;
+  private confusionLines: ConfusionLines | null = null;
+  private contrastOverlay: ContrastOverlay | null = null;
+  private harmonyOverlay: HarmonyOverlay | null = null;
+  private gradientPath: GradientPath | null = null;
+  private dominantWavelength: DominantWavelengthOverlay | null = null;
+  private selectedIndex: number | null = null;
+  private pixelCloud: PixelCloud | null = null;
+  private pixelBins: PixelBin[] | null = null;
+  private emitEvent: RendererEventHandler | null = null;
   private currentPreset: PresetConfig | null = null;
+  private coordinateSystem: CoordinateSystem | null = null;
+  private diagram: ChromaticityDiagram | null = null;
+  private colorVisionDeficiency: CvdOptions | null = null;
+  private colorTransform: ColorTransform | null = null;
+  private gamutMapping: GamutMappingMethod = 'css4';
+  private workerPool: ColorWorkerPool | null = null;
 
   init(container: HTMLElement, config: VisualizerConfig): void {
     this.config = config;
@@ -52,6 +82,15 @@ export class Renderer2D implements IRenderer {
     this.layer = new Konva.Layer();
     this.stage.add(this.layer);
 
+    // Report the color under the pointer
+    this.stage.on('mousemove touchmove', () => this.emitPointerColor('hover'));
+    this.stage.on('mouseleave', () => this.emitEvent?.('hover', this.readPointerColor(null)));
+    this.stage.on('click tap', () => {
+      this.emitPointerColor('click');
+      this.emitEvent?.('select', { point: null, index: null });
+      this.setSelectedIndex(null);
+    });
+
     // Set background using a background rect
     if (config.backgroundColor) {
       const bgRect = new Konva.Rect({
@@ -71,7 +110,8 @@ export class Renderer2D implements IRenderer {
       throw new Error('Renderer not initialized. Call init() first.');
     }
 
-    // Store current preset for re-rendering
+    // Store current preset for re-rendering, with each point's gamut-mapped color
+    preset = this.mapPointsToGamut(preset);
     this.currentPreset = preset;
 
     // Clear layer
@@ -85,53 +125,44 @@ export class Renderer2D implements IRenderer {
     const centerX = stageW / 2;
     const centerY = stageH / 2;
 
-    // Render based on color space and shape
-    if (preset.colorSpace.name === 'RGB' && preset.shape === 'cube') {
-      // Check if we should render CIE xy chromaticity diagram
-      if (preset.config?.custom?.showChromaticity !== false) {
-        this.renderRgbChromaticity(centerX, centerY, size, preset);
-      } else {
-        this.renderRGBCube2D(centerX, centerY, size);
-      }
-    } else if (preset.colorSpace.name === 'HSL') {
-      this.renderHSL2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'HSV') {
-      this.renderHSV2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'CMYK') {
-      this.renderCMYK2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'XYZ') {
-      this.renderXYZ2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'LAB') {
-      this.renderLab2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'LCh') {
-      this.renderLCh2D(centerX, centerY, size, preset);
-    } else if (preset.colorSpace.name === 'YCbCr') {
-      this.renderYCbCr2D(centerX, centerY, size, preset);
+    // Resolve the color space through the registry so custom spaces render like built-in ones
+    const definition = getColorSpaceDefinition(preset.colorSpace.name);
+    this.coordinateSystem = null;
+    if (definition?.project2D) {
+      this.coordinateSystem = definition.project2D(this.createProjectionContext(centerX, centerY, size, preset));
     } else {
       // Generic 2D visualization
       this.renderGeneric2D(centerX, centerY, size);
     }
 
+    // Image pixel cloud sits between the background and the color points
+    if (definition && this.coordinateSystem && this.pixelBins) {
+      this.renderPixelCloud(definition, preset, this.coordinateSystem);
+    }
+
+    // Contrast shading and contours over the view's colors
+    if (definition && this.coordinateSystem) {
+      this.renderContrastOverlay(definition, preset, this.coordinateSystem);
+    }
+
+    // ΔE tolerance region around the reference point, below the markers
+    if (definition && this.coordinateSystem) {
+      this.renderTolerance(definition, preset, this.coordinateSystem);
+    }
+
+    // Harmony of the base point, below the markers so the base stays draggable
+    if (definition && this.coordinateSystem) {
+      this.renderHarmony(definition, preset, this.coordinateSystem);
+    }
+
+    // Interpolation paths between the stops, with their gradient strips
+    if (definition && this.coordinateSystem) {
+      this.renderGradientPath(definition, preset, this.coordinateSystem, size);
+    }
+
     // Render color points if provided
-    if (preset.points && preset.points.length > 0) {
-      // For HSL, HSV, CMYK, and XYZ, use special rendering that positions markers correctly
-      if (preset.colorSpace.name === 'HSL' && this.hslHueWheel) {
-        this.renderHSLColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'HSV' && this.hsvHueWheel) {
-        this.renderHSVColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'CMYK') {
-        this.renderCMYKColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'XYZ') {
-        this.renderXYZColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'LAB') {
-        this.renderLabColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'LCh') {
-        this.renderLChColorPoints(preset.points);
-      } else if (preset.colorSpace.name === 'YCbCr') {
-        this.renderYCbCrColorPoints(preset.points);
-      } else {
-        // this.renderColorPoints(preset.points, centerX, centerY, size);
-      }
+    if (definition && this.coordinateSystem && preset.points && preset.points.length > 0) {
+      this.renderColorPointsInSpace(definition, preset.points, this.coordinateSystem);
     }
 
     this.layer.draw();
@@ -167,6 +198,41 @@ export class Renderer2D implements IRenderer {
     }
   }
 
+  /**
+   * Export the stage as a PNG/JPEG data URL or as SVG markup (vector shapes, raster fallback for images)
+   */
+  exportImage(options: ExportOptions = {}): string {
+    if (!this.stage) {
+      throw new Error('Renderer not initialized. Call init() first.');
+    }
+    const format = options.format ?? 'png';
+    const background = options.background === undefined ? this.config?.backgroundColor ?? null : options.background;
+    const pixelRatio = options.pixelRatio ?? (typeof window !== 'undefined' ? window.devicePixelRatio : 1) ?? 1;
+
+    if (format === 'svg') {
+      return stageToSvg(this.stage, { background, pixelRatio });
+    }
+
+    // Konva exports transparent pixels, so paint the background on a temporary bottom layer
+    const fill = background ?? (format === 'jpeg' ? '#ffffff' : null);
+    let backdrop: Konva.Layer | null = null;
+    if (fill) {
+      backdrop = new Konva.Layer({ listening: false });
+      backdrop.add(new Konva.Rect({ width: this.stage.width(), height: this.stage.height(), fill }));
+      this.stage.add(backdrop);
+      backdrop.moveToBottom();
+    }
+    try {
+      return this.stage.toDataURL({
+        mimeType: format === 'jpeg' ? 'image/jpeg' : 'image/png',
+        quality: options.quality ?? 0.92,
+        pixelRatio,
+      });
+    } finally {
+      backdrop?.destroy();
+    }
+  }
+
   destroy(): void {
     if (this.stage) {
       this.stage.destroy();
@@ -202,7 +268,7 @@ export class Renderer2D implements IRenderer {
         '#00ff00',
         1,
         '#ffffff',
-      ],
+      ].map((stop) => (typeof stop === 'string' ? this.transformColor(stop) : stop)),
       stroke: '#333',
       strokeWidth: 2,
     });
@@ -216,7 +282,7 @@ export class Renderer2D implements IRenderer {
         y: centerY - 10,
         text: 'Red',
         fontSize: 14,
-        fill: '#ff0000',
+        fill: this.transformColor('#ff0000'),
       });
       this.layer.add(redLabel);
 
@@ -225,7 +291,7 @@ export class Renderer2D implements IRenderer {
         y: centerY + cubeSize + 20,
         text: 'Green',
         fontSize: 14,
-        fill: '#00ff00',
+        fill: this.transformColor('#00ff00'),
       });
       this.layer.add(greenLabel);
     }
@@ -253,307 +319,266 @@ export class Renderer2D implements IRenderer {
     this.layer.add(circle);
   }
 
-  private renderHSL2D(
+  /**
+   * Build the context handed to a color space's 2D projection
+   */
+  private createProjectionContext(
     centerX: number,
     centerY: number,
-    size: { width: number; height: number; depth?: number },
+    size: { width: number; height: number },
     preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
+  ): Projection2DContext {
+    return {
+      layer: this.layer!,
+      centerX,
+      centerY,
+      size,
+      preset,
+      config: this.config,
+      drawChromaticityDiagram: (gamut?: GamutOutline | GamutOutline[]) =>
+        this.renderChromaticityDiagram(centerX, centerY, size, preset, gamut),
+      drawHueWheel: (model: 'HSL' | 'HSV') => {
+        const geometry = model === 'HSL'
+          ? this.renderHSL2D(centerX, centerY, size, preset)
+          : this.renderHSV2D(centerX, centerY, size, preset);
+        // Use the actual radius as the scale, with center at (0, 0) in normalized coords
+        return {
+          offsetX: geometry.centerX,
+          offsetY: geometry.centerY,
+          scale: geometry.radius,
+          maxX: 1, // Normalized: -1 to 1 for X (full circle width)
+          maxY: 1, // Normalized: -1 to 1 for Y (full circle height)
+        };
+      },
+      drawRgbCubeFace: () => this.renderRGBCube2D(centerX, centerY, size),
+      drawGeneric: () => this.renderGeneric2D(centerX, centerY, size),
+      drawColorPlane: (domain: ColorPlaneDomain) =>
+        this.renderColorPlane(centerX, centerY, size, preset, domain),
+    };
+  }
 
-    // Create HSL hue wheel component
-    const radius = Math.min(size.width, size.height) / 2.5;
-    
-    // Get config from preset
-    const wheelConfig = (preset.config?.custom?.hslHueWheel as any) || {};
-    
-    // Initialize or reuse existing hue wheel component
-    if (!this.hslHueWheel) {
-      this.hslHueWheel = new HSLHueWheel();
+  /**
+   * Show image pixels (histogram bins) as a density cloud; pass null to remove it
+   */
+  setPixelCloud(bins: PixelBin[] | null): void {
+    this.pixelBins = bins;
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
-    
-    // Get default lightness from first point if available, otherwise use config or default
-    let defaultLightness = wheelConfig.lightness ?? 50;
-    if (preset.points && preset.points.length > 0 && preset.points[0].values.length >= 3) {
-      defaultLightness = preset.points[0].values[2]; // L value from HSL
+  }
+
+  /**
+   * Update pixel cloud configuration and re-render
+   */
+  updatePixelCloud(config: Partial<import('../components/types').PixelCloudConfig>): void {
+    if (!this.pixelCloud) {
+      this.pixelCloud = new PixelCloud();
     }
-    
-    // Get existing config from component if it's already initialized, otherwise use preset config
-    let mergedConfig: any = {};
-    try {
-      const existingConfig = this.hslHueWheel.getConfig();
-      // Preserve existing config values, only override with preset config if explicitly provided
-      mergedConfig = {
-        saturation: wheelConfig.saturation !== undefined ? wheelConfig.saturation : (existingConfig.saturation ?? 100),
-        lightness: defaultLightness,
-        innerRadius: wheelConfig.innerRadius !== undefined ? wheelConfig.innerRadius : (existingConfig.innerRadius ?? 0), // 0 = complete circle, no hole
-        showDividers: wheelConfig.showDividers !== undefined ? wheelConfig.showDividers : (existingConfig.showDividers ?? false), // No dividing lines
-        segmentCount: wheelConfig.segmentCount !== undefined ? wheelConfig.segmentCount : (existingConfig.segmentCount ?? 360),
-        algorithm: wheelConfig.algorithm !== undefined ? wheelConfig.algorithm : (existingConfig.algorithm ?? 'wedges'),
-        imageUrl: wheelConfig.imageUrl !== undefined ? wheelConfig.imageUrl : existingConfig.imageUrl,
-        show: wheelConfig.show !== undefined ? wheelConfig.show : (existingConfig.show !== undefined ? existingConfig.show : true),
-        dividerStyle: wheelConfig.dividerStyle || existingConfig.dividerStyle,
-      };
-    } catch (e) {
-      // Component not initialized yet, use preset config with defaults
-      mergedConfig = {
-        saturation: wheelConfig.saturation ?? 100,
-        lightness: defaultLightness,
-        innerRadius: wheelConfig.innerRadius ?? 0,
-        showDividers: wheelConfig.showDividers ?? false,
-        segmentCount: wheelConfig.segmentCount ?? 360,
-        algorithm: wheelConfig.algorithm ?? 'wedges',
-        imageUrl: wheelConfig.imageUrl,
-        show: wheelConfig.show !== undefined ? wheelConfig.show : true,
-        dividerStyle: wheelConfig.dividerStyle,
-      };
+    this.pixelCloud.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
-    
-    this.hslHueWheel.init(
-      this.layer,
-      centerX,
-      centerY,
-      radius,
-      mergedConfig
-    );
-    
-    this.hslHueWheel.render();
   }
 
   /**
-   * Render HSL color points on the hue wheel
+   * Convert the pixel bins into the preset's color space and draw them as a cloud
+   */
+  private renderPixelCloud(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem
+  ): void {
+    if (!this.layer || !this.pixelBins) return;
+
+    const options = conversionOptions(preset);
+    const entries = pixelBinsToColorPoints(this.pixelBins, preset.colorSpace, preset)
+      .map((point) => ({
+        coords: placeColorPoint(definition, point.values, coordinateSystem, options),
+        color: point.color,
+        weight: point.weight,
+      }))
+      .filter((entry): entry is { coords: [number, number]; color: string; weight: number | undefined } =>
+        entry.coords !== null
+      );
+
+    // Reuse existing instance so config updated via updatePixelCloud is preserved
+    const cloudConfig = (preset.config?.custom?.pixelCloud as any) || {};
+    if (!this.pixelCloud) {
+      this.pixelCloud = new PixelCloud();
+    }
+    this.pixelCloud.init(this.layer, coordinateSystem, cloudConfig);
+    this.pixelCloud.setColorTransform(this.colorTransform);
+    this.pixelCloud.render(entries);
+  }
+
+  /**
+   * Render color points at the positions given by the color space's placement function
    */
-  private renderHSLColorPoints(points: ColorPoint[]): void {
-    if (!this.layer || !this.hslHueWheel) return;
+  private renderColorPointsInSpace(
+    definition: ColorSpaceDefinition,
+    points: ColorPoint[],
+    coordinateSystem: CoordinateSystem
+  ): void {
+    if (!this.layer) return;
 
     // Initialize marker if needed
     if (!this.marker) {
       this.marker = new Marker();
     }
-
-    const geometry = this.hslHueWheel.getGeometry();
-    
-    // Create a coordinate system for the marker
-    // Use the actual radius as the scale, with center at (0, 0) in normalized coords
-    // The coordinate system will translate normalized coords to screen coords
-    const coordinateSystem: CoordinateSystem = {
-      offsetX: geometry.centerX,
-      offsetY: geometry.centerY,
-      scale: geometry.radius,
-      maxX: 1, // Normalized: -1 to 1 for X (full circle width)
-      maxY: 1, // Normalized: -1 to 1 for Y (full circle height)
-    };
-    
     this.marker.init(this.layer, coordinateSystem, {});
-
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [h, s] = point.values; // HSL values: Hue (0-360), Saturation (0-100), Lightness (0-100)
-        
-        // Convert HSL to screen coordinates using the hue wheel's coordinate system
-        const [screenX, screenY] = this.hslHueWheel!.hslToScreenCoords(h, s);
-        
-        // Convert screen coords to normalized coords for marker
-        // Normalized coords are relative to center, with radius = 1
-        const normalizedX = (screenX - geometry.centerX) / geometry.radius;
-        const normalizedY = (geometry.centerY - screenY) / geometry.radius; // Invert Y for screen coords
-        
-        // Render the marker
-        this.marker!.render(point, [normalizedX, normalizedY]);
+    this.marker.setColorTransform(this.colorTransform);
+
+    // Lab/LCh/XYZ values are interpreted relative to the preset's white point
+    const options = this.currentPreset ? conversionOptions(this.currentPreset) : {};
+    const interactive = this.config?.interactive !== false;
+    // With the Planckian locus (or the dominant wavelength construction) shown, hovering a point on
+    // a chromaticity view reports its CCT and Duv (or dominant wavelength and purity)
+    const showTemperature = !!coordinateSystem.diagram && this.planckianLocus?.getConfig().show === true;
+    const showWavelength = !!coordinateSystem.diagram && this.dominantWavelength?.getConfig().show === true;
+    points.forEach((point, index) => {
+      const coords = placeColorPoint(definition, point.values, coordinateSystem, options);
+      if (coords) {
+        // Read the point from the current preset so events carry dragged values
+        const current = () => this.currentPreset?.points?.[index] ?? point;
+        this.marker!.render(point, coords, {
+          onDrag: interactive
+            ? (dragged, final) => this.handleMarkerDrag(definition, point, index, dragged, final, coordinateSystem)
+            : undefined,
+          onHover: (hovered) =>
+            this.emitEvent?.('pointhover', hovered ? { point: current(), index } : { point: null, index: null }),
+          onClick: () => {
+            this.emitEvent?.('pointclick', { point: current(), index });
+            this.emitEvent?.('select', { point: current(), index });
+            this.setSelectedIndex(index);
+          },
+          tooltip: showTemperature || showWavelength
+            ? () => this.pointTooltip(definition, current(), showTemperature, showWavelength)
+            : undefined,
+        });
       }
     });
   }
 
-  private renderColorPoints(
-    points: ColorPoint[],
-    _centerX: number,
-    _centerY: number,
-    size: { width: number; height: number; depth?: number }
+  /**
+   * Draw the ΔE tolerance contour (constant-lightness slice through the reference) and
+   * mark the other points pass/fail
+   */
+  private renderTolerance(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem
   ): void {
     if (!this.layer) return;
 
-    const cols = Math.ceil(Math.sqrt(points.length));
-    const spacing = Math.min(size.width, size.height) / (cols + 1);
-    const radius = spacing * 0.3;
-
-    points.forEach((point, index) => {
-      const col = index % cols;
-      const row = Math.floor(index / cols);
-      
-      const x = (col + 1) * spacing;
-      const y = (row + 1) * spacing;
-
-      const circle = new Konva.Circle({
-        x: x,
-        y: y,
-        radius: radius,
-        fill: point.color,
-        stroke: '#333',
-        strokeWidth: 2,
-        shadowBlur: 5,
-        shadowOpacity: 0.3,
-        shadowOffset: { x: 2, y: 2 },
-      });
-
-      // Mark as color point for easy removal
-      circle.setAttr('isColorPoint', true);
+    // Reuse existing instance so config updated via updateTolerance is preserved
+    const toleranceConfig = (preset.config?.custom?.tolerance as any) || {};
+    if (!this.toleranceRegion) {
+      this.toleranceRegion = new ToleranceRegion();
+    }
+    this.toleranceRegion.init(this.layer, coordinateSystem, toleranceConfig);
+
+    const config = this.toleranceRegion.getConfig();
+    const points = preset.points || [];
+    const reference = points[config.reference ?? 0];
+    const referenceLab = reference ? valuesToLab(reference.values, preset) : null;
+    if (config.show !== true || !referenceLab) return;
+
+    const options = conversionOptions(preset);
+    const place = (values: number[] | null) =>
+      values ? placeColorPoint(definition, values, coordinateSystem, options) : null;
+
+    const boundary = toleranceContour(referenceLab, config, config.segments ?? 72)
+      .map((lab) => place(labToValues(lab, preset)))
+      .filter((coords): coords is [number, number] => coords !== null);
+    const samples = evaluateTolerance(points, preset, config)
+      .map(({ index, pass }) => ({ coords: place(points[index].values), pass }))
+      .filter((entry): entry is { coords: [number, number]; pass: boolean } => entry.coords !== null);
+    this.toleranceRegion.render(boundary, samples);
+  }
 
-      if (this.layer) {
-        this.layer.add(circle);
+  /**
+   * Draw the harmony generated from the base point; returns its colors (empty when hidden)
+   */
+  private renderHarmony(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem
+  ): ColorPoint[] {
+    if (!this.layer) return [];
+
+    // Reuse existing instance so config updated via updateHarmony is preserved
+    const harmonyConfig = (preset.config?.custom?.harmony as any) || {};
+    if (!this.harmonyOverlay) {
+      this.harmonyOverlay = new HarmonyOverlay();
+    }
+    this.harmonyOverlay.init(this.layer, coordinateSystem, harmonyConfig);
+    this.harmonyOverlay.setColorTransform(this.colorTransform);
+
+    const config = this.harmonyOverlay.getConfig();
+    const base = preset.points?.[config.base ?? 0];
+    if (config.show !== true || !base) {
+      this.harmonyOverlay.render([], null);
+      return [];
+    }
 
-        // Add label if provided
-        if (point.label && this.config?.showLabels !== false) {
-          const label = new Konva.Text({
-            x: x,
-            y: y + radius + 15,
-            text: point.label,
-            fontSize: 12,
-            fill: '#333',
-            align: 'center',
-            width: spacing,
-          });
-          label.setAttr('isColorPoint', true);
-          this.layer.add(label);
-        }
-      }
-    });
+    const options = conversionOptions(preset);
+    const palette = generateHarmony(base.values, preset, config);
+    const entries = palette
+      .map((point) => ({ coords: placeColorPoint(definition, point.values, coordinateSystem, options), color: point.color }))
+      .filter((entry): entry is { coords: [number, number]; color: string } => entry.coords !== null);
+    const centerValues = getHarmonyCenter(base.values, preset, config);
+    const center = centerValues ? placeColorPoint(definition, centerValues, coordinateSystem, options) : null;
+    this.harmonyOverlay.render(entries, center);
+    return palette;
   }
 
   /**
-   * Render RGB gamut in CIE xy chromaticity diagram
+   * Draw the interpolation path between the stop points in each configured space
    */
-  private renderRgbChromaticity(
-    centerX: number,
-    centerY: number,
-    size: { width: number; height: number; depth?: number },
-    preset: PresetConfig
+  private renderGradientPath(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem,
+    size: { width: number; height: number }
   ): void {
     if (!this.layer) return;
 
-    // Calculate scale and offset for xy space (0-1) to screen coordinates
-    // xy space typically ranges from about 0 to 0.8 for x and 0 to 0.9 for y
-    // We need to map xy coordinates (0-0.8 for x, 0-0.9 for y) to screen space
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
-    const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
-    const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
-
-    // Create coordinate system
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-
-    // Get RGB gamut triangle vertices
-    const vertices = getRgbGamutVertices();
-
-    const cieConfig = (preset.config?.custom?.cieBackground as any) || {};
-    if (!this.cieBackground) {
-      this.cieBackground = new CIEBackground();
-      this.cieBackground.init(this.layer, coordinateSystem, size, cieConfig);
-    } else {
-      this.cieBackground.init(this.layer, coordinateSystem, size, cieConfig);
+    // Reuse existing instance so config updated via updateGradientPath is preserved
+    const gradientConfig = (preset.config?.custom?.gradientPath as any) || {};
+    if (!this.gradientPath) {
+      this.gradientPath = new GradientPath();
     }
-    this.cieBackground.render();
-
-    // Convert xy coordinates to screen coordinates using the same scale
-    const screenVertices = vertices.map(([x, y]) => [
-      offsetX + x * scale,
-      offsetY - y * scale, // Flip Y
-    ]);
-
-    // Draw the RGB gamut triangle with thin dotted line
-    const triangle = new Konva.Line({
-      points: [
-        screenVertices[0][0],
-        screenVertices[0][1],
-        screenVertices[1][0],
-        screenVertices[1][1],
-        screenVertices[2][0],
-        screenVertices[2][1],
-        screenVertices[0][0],
-        screenVertices[0][1], // Close the triangle
-      ],
-      stroke: '#333',
-      strokeWidth: 1,
-      dash: [5, 5],
-      fill: 'rgba(200, 200, 200, 0.1)',
-      closed: true,
-    });
-    this.layer.add(triangle);
-
-    // Draw vertex labels only (no black circles)
-    const vertexLabels = ['R', 'G', 'B'];
-    screenVertices.forEach(([x, y], index) => {
-      if (this.config?.showLabels !== false) {
-        const label = new Konva.Text({
-          x: x + 8,
-          y: y - 8,
-          text: vertexLabels[index],
-          fontSize: 14,
-          fill: '#333',
-          fontStyle: 'bold',
-        });
-        this.layer!.add(label);
-      }
+    this.gradientPath.init(this.layer, coordinateSystem, gradientConfig);
+    this.gradientPath.setColorTransform(this.colorTransform);
+
+    const config = this.gradientPath.getConfig();
+    const points = preset.points || [];
+    const stops = (config.stops ?? points.map((_, i) => i))
+      .map((index) => points[index]?.values)
+      .filter((values): values is number[] => values !== undefined);
+    if (config.show !== true || stops.length < 2) return;
+
+    const options = conversionOptions(preset);
+    const paths = (config.spaces ?? ['oklab']).map((space) => {
+      const samples = interpolatePoints(stops, preset, { space, hue: config.hue, steps: config.steps });
+      return {
+        space,
+        coords: samples.map((sample) => placeColorPoint(definition, sample.values, coordinateSystem, options)),
+        colors: samples.map((sample) => sample.color),
+      };
     });
-
-    // White point (D65) removed per user request
-
-    // Initialize and render axes component
-    // Reuse existing instance if config was updated, otherwise create new
-    if (!this.axes) {
-      this.axes = new Axes();
-    }
-    // Get existing config (which may have been updated) and pass it to init
-    // The component's init() will merge it with defaults
-    const existingAxesConfig = this.axes.getConfig();
-    // Merge with initial defaults if config is empty
-    const axesConfigToUse = Object.keys(existingAxesConfig).length > 0 
-      ? existingAxesConfig 
-      : {
-          show: this.config?.showAxes !== false,
-          showLines: true,
-          showLabels: this.config?.showLabels !== false,
-        };
-    this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
-    this.axes.render();
-
-    // Initialize and render marker component
-    // Reuse existing instance if config was updated, otherwise create new
-    if (!this.marker) {
-      this.marker = new Marker();
-    }
-    // Get existing config (which may have been updated) and pass it to init
-    // The component's init() will merge it with defaults
-    const existingMarkerConfig = this.marker.getConfig();
-    this.marker.init(this.layer, coordinateSystem, existingMarkerConfig);
-
-    // Plot the points if provided
-    if (preset.points && preset.points.length > 0) {
-      preset.points.forEach((point) => {
-        if (point.values.length >= 3) {
-          const [r, g, b] = point.values;
-          const [x, y] = rgbToXy(r, g, b);
-          this.marker!.render(point, [x, y]);
-        }
-      });
-    }
+    this.gradientPath.render(paths, size);
   }
 
   /**
-   * Update CIE background configuration and re-render
+   * Update gradient path configuration and re-render
    */
-  updateCIEBackground(config: Partial<import('../components/types').CIEBackgroundConfig>): void {
-    if (!this.cieBackground) {
-      this.cieBackground = new CIEBackground();
+  updateGradientPath(config: Partial<import('../components/types').GradientPathConfig>): void {
+    if (!this.gradientPath) {
+      this.gradientPath = new GradientPath();
     }
-    // Update the config
-    this.cieBackground.updateConfig(config);
+    this.gradientPath.updateConfig(config);
     // Re-render the current preset
     if (this.currentPreset) {
       this.render(this.currentPreset);
@@ -561,13 +586,13 @@ export class Renderer2D implements IRenderer {
   }
 
   /**
-   * Update axes configuration and re-render
+   * Update harmony overlay configuration and re-render
    */
-  updateAxes(config: Partial<import('../components/types').AxesConfig>): void {
-    if (!this.axes) {
-      this.axes = new Axes();
+  updateHarmony(config: Partial<import('../components/types').HarmonyConfig>): void {
+    if (!this.harmonyOverlay) {
+      this.harmonyOverlay = new HarmonyOverlay();
     }
-    this.axes.updateConfig(config);
+    this.harmonyOverlay.updateConfig(config);
     // Re-render the current preset
     if (this.currentPreset) {
       this.render(this.currentPreset);
@@ -575,209 +600,283 @@ export class Renderer2D implements IRenderer {
   }
 
   /**
-   * Update marker configuration and re-render
+   * Tooltip text with a point's correlated color temperature and Duv and/or its dominant
+   * (or complementary) wavelength and excitation purity
    */
-  updateMarker(config: Partial<import('../components/types').MarkerConfig>): void {
-    if (!this.marker) {
-      this.marker = new Marker();
+  private pointTooltip(
+    definition: ColorSpaceDefinition,
+    point: ColorPoint,
+    temperature: boolean,
+    wavelength: boolean
+  ): string | null {
+    if (!this.currentPreset) return null;
+    const { xy, cct, duv } = describeColorValues(definition, point.values, this.currentPreset);
+    const lines = [point.label || point.color];
+    if (temperature && cct !== null && duv !== null) {
+      const sign = duv >= 0 ? '+' : '−';
+      lines.push(`CCT ${Math.round(cct)} K`, `Duv ${sign}${Math.abs(duv).toFixed(4)}`);
     }
-    this.marker.updateConfig(config);
-    // Re-render the current preset
-    if (this.currentPreset) {
+    const construction = wavelength && xy
+      ? dominantWavelength(xy, this.dominantWavelength?.getConfig().whitePoint ?? this.currentPreset.whitePoint)
+      : null;
+    if (construction) {
+      if (construction.dominant !== null) lines.push(`λd ${construction.dominant.toFixed(1)} nm`);
+      else if (construction.complementary !== null) lines.push(`λc ${construction.complementary.toFixed(1)} nm`);
+      lines.push(`Purity ${(construction.purity * 100).toFixed(1)}%`);
+    }
+    return lines.length > 1 ? lines.join('\n') : null;
+  }
+
+  /**
+   * Remember the selected marker; the dominant wavelength construction follows it
+   */
+  private setSelectedIndex(index: number | null): void {
+    if (this.selectedIndex === index) return;
+    this.selectedIndex = index;
+    const config = this.dominantWavelength?.getConfig();
+    if (config?.show === true && (config.point ?? null) === null && this.currentPreset) {
       this.render(this.currentPreset);
     }
   }
 
   /**
-   * Update HSL hue wheel configuration and re-render
-   * Uses full re-render to avoid duplicate shapes and ensure correct draw order (wheel below markers)
+   * Turn a dragged marker position back into color values, store them in the current preset
+   * and report a pointchange; returns where the marker should snap to
    */
-  updateHSLHueWheel(config: Partial<import('../components/types').HSLHueWheelConfig>): void {
-    if (!this.currentPreset) return;
-    // Merge new config into preset so full render uses it
-    const custom = (this.currentPreset.config?.custom as Record<string, unknown>) || {};
-    custom.hslHueWheel = { ...(custom.hslHueWheel as object || {}), ...config };
-    this.currentPreset.config = { ...this.currentPreset.config, custom };
-    this.render(this.currentPreset);
+  private handleMarkerDrag(
+    definition: ColorSpaceDefinition,
+    original: ColorPoint,
+    index: number,
+    coords: [number, number],
+    final: boolean,
+    coordinateSystem: CoordinateSystem
+  ): [number, number] | null {
+    const preset = this.currentPreset;
+    if (!preset?.points) return null;
+
+    const current = preset.points[index] ?? original;
+    const values = unplaceColorPoint(definition, coords, current.values, preset, coordinateSystem.diagram);
+    if (!values) return null;
+
+    const options = conversionOptions(preset);
+    const rgb = definition.toRgb
+      ? definition.toRgb(values, options)
+      : xyzToRgb(...definition.toXyz(values, options));
+    const point = mapColorPoint({ ...current, values, color: rgbToHex(...rgb) }, preset, this.gamutMapping);
+
+    // Keep the edit so later re-renders (resize, config updates) show the new position
+    const points = [...preset.points];
+    points[index] = point;
+    this.currentPreset = { ...preset, points };
+
+    this.emitEvent?.('pointchange', { point, previous: original, index, final });
+    // The harmony follows its base marker
+    const harmony = this.harmonyOverlay?.getConfig();
+    if (harmony?.show === true && (harmony.base ?? 0) === index) {
+      const palette = this.renderHarmony(definition, this.currentPreset, coordinateSystem);
+      this.layer?.batchDraw();
+      this.emitEvent?.('harmonychange', { points: palette, base: index, final });
+    }
+    // Pass/fail marks depend on every point's distance to the reference and gradient paths run
+    // through the stops, so redraw once dropped
+    if (
+      final &&
+      (this.toleranceRegion?.getConfig().show === true ||
+        this.gradientPath?.getConfig().show === true ||
+        this.dominantWavelength?.getConfig().show === true)
+    ) {
+      this.render(this.currentPreset);
+    }
+    return placeColorPoint(definition, values, coordinateSystem, options);
   }
 
   /**
-   * Update HSV hue wheel configuration and re-render
-   * Uses full re-render to avoid duplicate shapes and ensure correct draw order (wheel below markers)
+   * Report the color under the pointer as a hover or click event
    */
-  updateHSVHueWheel(config: Partial<import('../components/types').HSVHueWheelConfig>): void {
-    if (!this.currentPreset) return;
-    // Merge new config into preset so full render uses it
-    const custom = (this.currentPreset.config?.custom as Record<string, unknown>) || {};
-    custom.hsvHueWheel = { ...(custom.hsvHueWheel as object || {}), ...config };
-    this.currentPreset.config = { ...this.currentPreset.config, custom };
-    this.render(this.currentPreset);
+  private emitPointerColor(type: 'hover' | 'click'): void {
+    if (!this.emitEvent || !this.stage) return;
+    const position = this.stage.getPointerPosition();
+    this.emitEvent(type, this.readPointerColor(position ? [position.x, position.y] : null));
   }
 
   /**
-   * Update CMYK grid configuration and re-render
+   * Invert a screen position through the current view into color values.
+   * Only positions that are actually on the view count: the values have to place back onto
+   * the pointer (hue wheels clamp to their rim) and xy has to be inside the spectral locus.
+   * Channels the view does not show come from the first point (see getTemplateValues).
    */
-  updateCMYKGrid(config: Partial<import('../components/types').CMYKGridConfig>): void {
-    if (!this.cmykGrid || !this.layer) {
-      // If grid doesn't exist or layer is not available, re-render the full preset
-      if (this.currentPreset) {
-        this.render(this.currentPreset);
-      }
-      return;
-    }
-    
-    // Update the config - this will merge with existing config
-    this.cmykGrid.updateConfig(config);
-    
-    // Re-render just the grid if it's already initialized
-    try {
-      const geometry = this.cmykGrid.getGeometry();
-      if (geometry.width > 0 && geometry.height > 0) {
-        // Re-render the grid with updated config
-        // The render() method will use the updated config from updateConfig()
-        this.cmykGrid.render();
-        
-        // Also re-render the color points if they exist
-        if (this.currentPreset && this.currentPreset.points && this.currentPreset.points.length > 0) {
-          this.renderCMYKColorPoints(this.currentPreset.points);
-        }
-        return;
-      }
-    } catch (e) {
-      // If there's an error, fall through to full re-render
+  private readPointerColor(position: [number, number] | null): PointerColorEvent {
+    const empty: PointerColorEvent = {
+      mode: '2d',
+      position: position ?? [0, 0],
+      values: null,
+      xy: null,
+      lab: null,
+      hex: null,
+      cct: null,
+      duv: null,
+    };
+    const preset = this.currentPreset;
+    const coordinateSystem = this.coordinateSystem;
+    const definition = preset ? getColorSpaceDefinition(preset.colorSpace.name) : undefined;
+    if (!position || !preset || !coordinateSystem || !definition) return empty;
+
+    const values = this.readValuesAt(position, definition, preset, coordinateSystem, getTemplateValues(definition, preset));
+    if (!values) return empty;
+    return { ...empty, values, ...describeColorValues(definition, values, preset) };
+  }
+
+  /**
+   * Color values shown at a stage position, or null when the position is not part of the view
+   * Values not determined by the position (e.g. lightness on a hue wheel) come from the template.
+   */
+  private readValuesAt(
+    position: [number, number],
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem,
+    templateValues: number[]
+  ): number[] | null {
+    const { offsetX, offsetY, scale } = coordinateSystem;
+    const coords: [number, number] = [(position[0] - offsetX) / scale, (offsetY - position[1]) / scale];
+    if (!definition.placePoint && !definition.unplacePoint && !isInsideSpectralLocus(...diagramToXy(coords, coordinateSystem.diagram))) {
+      return null;
     }
-    
-    // Fallback: re-render the full preset
-    if (this.currentPreset) {
-      this.render(this.currentPreset);
+    const values = unplaceColorPoint(definition, coords, templateValues, preset, coordinateSystem.diagram);
+    if (!values) return null;
+
+    // Only accept positions the values map back to (inside the wheel, plane, ...)
+    const options = conversionOptions(preset);
+    const placed = placeColorPoint(definition, values, coordinateSystem, options);
+    if (!placed || Math.hypot(placed[0] - coords[0], placed[1] - coords[1]) * scale > 1) {
+      return null;
     }
+    return values;
   }
 
-  // Stub methods for other color spaces - basic implementations
-  private renderHSV2D(
-    centerX: number,
-    centerY: number,
-    size: { width: number; height: number; depth?: number },
-    preset: PresetConfig
+  /**
+   * Shade and contour the view by contrast against the overlay's reference color
+   */
+  private renderContrastOverlay(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    coordinateSystem: CoordinateSystem
   ): void {
-    if (!this.layer) return;
+    if (!this.layer || !this.stage) return;
 
-    // Create HSV hue wheel component
-    const radius = Math.min(size.width, size.height) / 2.5;
-    
-    // Get config from preset
-    const wheelConfig = (preset.config?.custom?.hsvHueWheel as any) || {};
-    
-    // Initialize or reuse existing hue wheel component
-    if (!this.hsvHueWheel) {
-      this.hsvHueWheel = new HSVHueWheel();
-    }
-    
-    // Get default value from first point if available, otherwise use config or default
-    let defaultValue = wheelConfig.value ?? 100;
-    if (preset.points && preset.points.length > 0 && preset.points[0].values.length >= 3) {
-      defaultValue = preset.points[0].values[2]; // V value from HSV
+    // Reuse existing instance so config updated via updateContrastOverlay is preserved
+    const overlayConfig = (preset.config?.custom?.contrastOverlay as any) || {};
+    if (!this.contrastOverlay) {
+      this.contrastOverlay = new ContrastOverlay();
     }
-    
-    // Get existing config from component if it's already initialized, otherwise use preset config
-    let mergedConfig: any = {};
-    try {
-      const existingConfig = this.hsvHueWheel.getConfig();
-      // Preserve existing config values, only override with preset config if explicitly provided
-      mergedConfig = {
-        saturation: wheelConfig.saturation !== undefined ? wheelConfig.saturation : (existingConfig.saturation ?? 100),
-        value: defaultValue,
-        innerRadius: wheelConfig.innerRadius !== undefined ? wheelConfig.innerRadius : (existingConfig.innerRadius ?? 0), // 0 = complete circle, no hole
-        showDividers: wheelConfig.showDividers !== undefined ? wheelConfig.showDividers : (existingConfig.showDividers ?? false), // No dividing lines
-        segmentCount: wheelConfig.segmentCount !== undefined ? wheelConfig.segmentCount : (existingConfig.segmentCount ?? 360),
-        algorithm: wheelConfig.algorithm !== undefined ? wheelConfig.algorithm : (existingConfig.algorithm ?? 'wedges'),
-        imageUrl: wheelConfig.imageUrl !== undefined ? wheelConfig.imageUrl : existingConfig.imageUrl,
-        show: wheelConfig.show !== undefined ? wheelConfig.show : (existingConfig.show !== undefined ? existingConfig.show : true),
-        dividerStyle: wheelConfig.dividerStyle || existingConfig.dividerStyle,
-      };
-    } catch (e) {
-      // Component not initialized yet, use preset config with defaults
-      mergedConfig = {
-        saturation: wheelConfig.saturation ?? 100,
-        value: defaultValue,
-        innerRadius: wheelConfig.innerRadius ?? 0,
-        showDividers: wheelConfig.showDividers ?? false,
-        segmentCount: wheelConfig.segmentCount ?? 360,
-        algorithm: wheelConfig.algorithm ?? 'wedges',
-        imageUrl: wheelConfig.imageUrl,
-        show: wheelConfig.show !== undefined ? wheelConfig.show : true,
-        dividerStyle: wheelConfig.dividerStyle,
-      };
+    this.contrastOverlay.init(this.layer, overlayConfig);
+
+    const config = this.contrastOverlay.getConfig();
+    const reference = hexToRgb(config.reference || '#ffffff') ?? [255, 255, 255];
+    const options = conversionOptions(preset);
+    const template = getTemplateValues(definition, preset);
+    const sample = (x: number, y: number): number | null => {
+      const values = this.readValuesAt([x, y], definition, preset, coordinateSystem, template);
+      if (!values) return null;
+      const rgb = definition.toRgb
+        ? definition.toRgb(values, options)
+        : xyzToRgb(...definition.toXyz(values, options));
+      if (config.metric !== 'apca') {
+        return wcagContrast(rgb, reference);
+      }
+      return Math.abs(config.referenceRole === 'text' ? apcaContrast(reference, rgb) : apcaContrast(rgb, reference));
+    };
+    this.contrastOverlay.render({ x: 0, y: 0, width: this.stage.width(), height: this.stage.height() }, sample);
+  }
+
+  /**
+   * Set the callback used to report events (pointer, point and pointchange events) to ColorVisualizer
+   */
+  setEventHandler(handler: RendererEventHandler | null): void {
+    this.emitEvent = handler;
+  }
+
+  /**
+   * Show chromaticity views as CIE 1931 xy or CIE 1976 u′v′ (overrides custom.chromaticityDiagram); null
+   * goes back to the preset's setting
+   */
+  setChromaticityDiagram(diagram: ChromaticityDiagram | null): void {
+    this.diagram = diagram;
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
-    
-    // Only pass the merged config, don't merge again in init() if already initialized
-    this.hsvHueWheel.init(
-      this.layer,
-      centerX,
-      centerY,
-      radius,
-      mergedConfig
-    );
-    
-    this.hsvHueWheel.render();
   }
 
   /**
-   * Render HSV color points on the hue wheel
+   * Simulate a color vision deficiency in everything drawn (backgrounds, wheels, planes, points); null for normal vision
    */
-  private renderHSVColorPoints(points: ColorPoint[]): void {
-    if (!this.layer || !this.hsvHueWheel) return;
+  setColorVisionDeficiency(options: CvdOptions | null): void {
+    this.colorVisionDeficiency = options;
+    this.colorTransform = options ? createCvdTransform(options) : null;
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
 
-    // Initialize marker if needed
-    if (!this.marker) {
-      this.marker = new Marker();
+  /**
+   * Method used to map the points' values into sRGB (ColorPoint.mappedColor); re-renders
+   */
+  setGamutMapping(method: GamutMappingMethod): void {
+    this.gamutMapping = method;
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
+  }
 
-    const geometry = this.hsvHueWheel.getGeometry();
-    
-    // Create a coordinate system for the marker
-    // Use the actual radius as the scale, with center at (0, 0) in normalized coords
-    // The coordinate system will translate normalized coords to screen coords
-    const coordinateSystem: CoordinateSystem = {
-      offsetX: geometry.centerX,
-      offsetY: geometry.centerY,
-      scale: geometry.radius,
-      maxX: 1, // Normalized: -1 to 1 for X (full circle width)
-      maxY: 1, // Normalized: -1 to 1 for Y (full circle height)
-    };
-    
-    this.marker.init(this.layer, coordinateSystem, {});
+  /**
+   * Worker pool used for the CIE background grid; null to compute it on the main thread
+   */
+  setWorkerPool(pool: ColorWorkerPool | null): void {
+    this.workerPool = pool;
+    this.cieBackground?.setWorkerPool(pool);
+  }
 
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [h, s] = point.values; // HSV values: Hue (0-360), Saturation (0-100), Value (0-100)
-        
-        // Convert HSV to screen coordinates using the hue wheel's coordinate system
-        const [screenX, screenY] = this.hsvHueWheel!.hsvToScreenCoords(h, s);
-        
-        // Convert screen coords to normalized coords for marker
-        // Normalized coords are relative to center, with radius = 1
-        const normalizedX = (screenX - geometry.centerX) / geometry.radius;
-        const normalizedY = (geometry.centerY - screenY) / geometry.radius; // Invert Y for screen coords
-        
-        // Render the marker
-        this.marker!.render(point, [normalizedX, normalizedY]);
-      }
-    });
+  /**
+   * Fill in mappedColor and inGamut on the preset's points
+   */
+  private mapPointsToGamut(preset: PresetConfig): PresetConfig {
+    if (!preset.points?.length) return preset;
+    return { ...preset, points: preset.points.map((point) => mapColorPoint(point, preset, this.gamutMapping)) };
+  }
+
+  /**
+   * Update confusion line configuration and re-render
+   */
+  updateConfusionLines(config: Partial<import('../components/types').ConfusionLinesConfig>): void {
+    if (!this.confusionLines) {
+      this.confusionLines = new ConfusionLines();
+    }
+    this.confusionLines.updateConfig(config);
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
+
+  private transformColor(color: string): string {
+    return this.colorTransform ? transformCssColors(color, this.colorTransform) : color;
   }
 
-  private renderCMYK2D(
+  /**
+   * Render the CIE xy (or u′v′) chromaticity diagram with axes and optional gamut outlines
+   * Returns the diagram's coordinate system used for marker placement
+   */
+  private renderChromaticityDiagram(
     centerX: number,
     centerY: number,
     size: { width: number; height: number; depth?: number },
-    _preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
-
-    // Use the same CIE chromaticity diagram as RGB
+    preset: PresetConfig,
+    gamut?: GamutOutline | GamutOutline[]
+  ): CoordinateSystem {
     // Calculate scale and offset for xy space (0-1) to screen coordinates
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
+    // xy space typically ranges from about 0 to 0.8 for x and 0 to 0.9 for y; u′v′ to about 0.63 and 0.6
+    const diagram = this.diagram ?? (preset.config?.custom?.chromaticityDiagram as ChromaticityDiagram | undefined) ?? 'xy';
+    const maxX = diagram === 'uv' ? 0.65 : 0.8; // Maximum x value in diagram space
+    const maxY = diagram === 'uv' ? 0.6 : 0.9; // Maximum y value in diagram space
     const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
     const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
     const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
@@ -789,70 +888,47 @@ export class Renderer2D implements IRenderer {
       scale,
       maxX,
       maxY,
+      diagram,
     };
 
+    if (!this.layer) return coordinateSystem;
+
     // Initialize and render CIE background component
-    // Reuse existing instance if config was updated, otherwise create new
+    // Reuse existing instance so config updated via updateCIEBackground is preserved
+    const cieConfig = (preset.config?.custom?.cieBackground as any) || {};
     if (!this.cieBackground) {
       this.cieBackground = new CIEBackground();
-      // First time initialization - use defaults
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
-    } else {
-      // Component already exists - just update layer/coordinate system if needed
-      // and preserve the existing config (which may have been updated)
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
     }
+    this.cieBackground.init(this.layer, coordinateSystem, size, cieConfig);
+    this.cieBackground.setColorTransform(this.colorTransform);
+    this.cieBackground.setWorkerPool(this.workerPool);
     this.cieBackground.render();
 
-    // Get CMYK gamut pentagon vertices
-    const vertices = getCmykGamutVertices();
+    const gamuts = gamut ? (Array.isArray(gamut) ? gamut : [gamut]) : [];
+    gamuts.forEach((outline) => this.renderGamutOutline(outline, coordinateSystem));
+    const namedGamuts = gamuts.filter((outline) => outline.name);
+    if (namedGamuts.length > 1) {
+      this.renderGamutLegend(namedGamuts, coordinateSystem);
+    }
 
-    // Convert xy coordinates to screen coordinates using the same scale
-    const screenVertices = vertices.map(([x, y]) => [
-      offsetX + x * scale,
-      offsetY - y * scale, // Flip Y
-    ]);
-
-    // Draw the CMYK gamut pentagon with thin dotted line
-    const pentagon = new Konva.Line({
-      points: [
-        screenVertices[0][0],
-        screenVertices[0][1],
-        screenVertices[1][0],
-        screenVertices[1][1],
-        screenVertices[2][0],
-        screenVertices[2][1],
-        screenVertices[3][0],
-        screenVertices[3][1],
-        screenVertices[4][0],
-        screenVertices[4][1],
-        screenVertices[0][0],
-        screenVertices[0][1], // Close the pentagon
-      ],
-      stroke: '#333',
-      strokeWidth: 1,
-      dash: [5, 5],
-      fill: 'rgba(200, 200, 200, 0.1)',
-      closed: true,
-    });
-    this.layer.add(pentagon);
+    // Reuse existing instance so config updated via updatePlanckianLocus is preserved
+    const locusConfig = (preset.config?.custom?.planckianLocus as any) || {};
+    if (!this.planckianLocus) {
+      this.planckianLocus = new PlanckianLocus();
+    }
+    this.planckianLocus.init(this.layer, coordinateSystem, locusConfig);
+    this.planckianLocus.render();
 
-    // Draw vertex labels only (no black circles)
-    // Labels match the vertex order: C -> CM -> M -> MY -> Y
-    const vertexLabels = ['C', 'CM', 'M', 'MY', 'Y'];
-    screenVertices.forEach(([x, y], index) => {
-      if (this.config?.showLabels !== false) {
-        const label = new Konva.Text({
-          x: x + 8,
-          y: y - 8,
-          text: vertexLabels[index],
-          fontSize: 14,
-          fill: '#333',
-          fontStyle: 'bold',
-        });
-        this.layer!.add(label);
-      }
-    });
+    // Confusion lines default to the simulated deficiency
+    const confusionConfig = (preset.config?.custom?.confusionLines as any) || {};
+    if (!this.confusionLines) {
+      this.confusionLines = new ConfusionLines();
+    }
+    this.confusionLines.init(this.layer, coordinateSystem, confusionConfig);
+    this.confusionLines.render(this.colorVisionDeficiency?.type);
+
+    this.renderWhitePoints(preset, coordinateSystem);
+    this.renderDominantWavelength(preset, coordinateSystem);
 
     // Initialize and render axes component
     // Reuse existing instance if config was updated, otherwise create new
@@ -872,512 +948,552 @@ export class Renderer2D implements IRenderer {
         };
     this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
     this.axes.render();
+
+    return coordinateSystem;
   }
 
   /**
-   * Render CMYK color points on the CIE chromaticity diagram
+   * Draw a gamut polygon with thin dotted line and vertex labels
    */
-  private renderCMYKColorPoints(points: ColorPoint[]): void {
+  private renderGamutOutline(gamut: GamutOutline, coordinateSystem: CoordinateSystem): void {
     if (!this.layer) return;
 
-    // Initialize marker if needed
-    if (!this.marker) {
-      this.marker = new Marker();
-    }
-
-    // Use the same coordinate system as the CIE background
-    const size = { width: this.stage!.width(), height: this.stage!.height() };
-    const centerX = this.stage!.width() / 2;
-    const centerY = this.stage!.height() / 2;
-    const maxX = 0.8;
-    const maxY = 0.9;
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7;
-    const offsetX = centerX - (maxX * scale) * 0.5;
-    const offsetY = centerY + (maxY * scale) * 0.5;
+    const { offsetX, offsetY, scale } = coordinateSystem;
 
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-    
-    this.marker.init(this.layer, coordinateSystem, {});
+    // Convert xy coordinates to screen coordinates using the same scale
+    const screenVertices = gamut.vertices.map((vertex) => {
+      const [x, y] = xyToDiagram(vertex, coordinateSystem.diagram);
+      return [offsetX + x * scale, offsetY - y * scale]; // Flip Y
+    });
 
-    points.forEach((point) => {
-      if (point.values.length >= 4) {
-        const [c, m, y, k] = point.values; // CMYK values: C (0-100), M (0-100), Y (0-100), K (0-100)
-        
-        // Convert CMYK to RGB
-        const [r, g, b] = cmykToRgb(c, m, y, k);
-        
-        // Convert RGB to xy chromaticity coordinates
-        const [x_chrom, y_chrom] = rgbToXy(r, g, b);
-        
-        // Render the marker at the xy coordinates
-        this.marker!.render(point, [x_chrom, y_chrom]);
-      }
+    const polygon = new Konva.Line({
+      points: screenVertices.flat(),
+      stroke: gamut.color || '#333',
+      strokeWidth: 1,
+      dash: gamut.dash || [5, 5],
+      fill: gamut.fill ?? 'rgba(200, 200, 200, 0.1)',
+      closed: true,
     });
+    this.layer.add(polygon);
+
+    // Draw vertex labels only (no black circles)
+    if (this.config?.showLabels !== false && gamut.labels) {
+      screenVertices.forEach(([x, y], index) => {
+        const text = gamut.labels![index];
+        if (!text) return;
+        const label = new Konva.Text({
+          x: x + 8,
+          y: y - 8,
+          text,
+          fontSize: 14,
+          fill: gamut.labelColors?.[index] || '#333',
+          fontStyle: 'bold',
+        });
+        this.layer!.add(label);
+      });
+    }
   }
 
   /**
-   * Render XYZ color points on the CIE chromaticity diagram
+   * Mark the preset's white point (default D65) plus any listed in custom.whitePoints
    */
-  private renderXYZColorPoints(points: ColorPoint[]): void {
+  private renderWhitePoints(preset: PresetConfig, coordinateSystem: CoordinateSystem): void {
     if (!this.layer) return;
 
-    // Initialize marker if needed
-    if (!this.marker) {
-      this.marker = new Marker();
+    const label = (whitePoint: WhitePoint) =>
+      Array.isArray(whitePoint)
+        ? `${whitePoint[0].toFixed(4)}, ${whitePoint[1].toFixed(4)}`
+        : whitePoint;
+    const active = preset.whitePoint ?? 'D65';
+    const extra = (preset.config?.custom?.whitePoints as WhitePoint[] | undefined) || [];
+    const entries = [active, ...extra.filter((whitePoint) => label(whitePoint) !== label(active))].map(
+      (whitePoint, index) => ({
+        label: label(whitePoint),
+        xy: getWhitePoint(whitePoint),
+        active: index === 0,
+      })
+    );
+
+    // Reuse existing instance so config updated via updateWhitePointMarkers is preserved
+    const markerConfig = (preset.config?.custom?.whitePointMarker as any) || {};
+    if (!this.whitePointMarkers) {
+      this.whitePointMarkers = new WhitePointMarkers();
     }
+    this.whitePointMarkers.init(this.layer, coordinateSystem, markerConfig);
+    this.whitePointMarkers.render(entries);
+  }
 
-    // Use the same coordinate system as the CIE background
-    const size = { width: this.stage!.width(), height: this.stage!.height() };
-    const centerX = this.stage!.width() / 2;
-    const centerY = this.stage!.height() / 2;
-    const maxX = 0.8;
-    const maxY = 0.9;
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7;
-    const offsetX = centerX - (maxX * scale) * 0.5;
-    const offsetY = centerY + (maxY * scale) * 0.5;
+  /**
+   * Draw the dominant wavelength construction for the configured point, else the selected marker
+   */
+  private renderDominantWavelength(preset: PresetConfig, coordinateSystem: CoordinateSystem): void {
+    if (!this.layer) return;
 
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-    
-    this.marker.init(this.layer, coordinateSystem, {});
+    // Reuse existing instance so config updated via updateDominantWavelength is preserved
+    const wavelengthConfig = (preset.config?.custom?.dominantWavelength as any) || {};
+    if (!this.dominantWavelength) {
+      this.dominantWavelength = new DominantWavelengthOverlay();
+    }
+    this.dominantWavelength.init(this.layer, coordinateSystem, wavelengthConfig);
+
+    const index = this.dominantWavelength.getConfig().point ?? this.selectedIndex;
+    const point = index !== null ? preset.points?.[index] : undefined;
+    const definition = getColorSpaceDefinition(preset.colorSpace.name);
+    let xy: [number, number] | null = null;
+    if (point && definition) {
+      const xyz = definition.toXyz(point.values, conversionOptions(preset));
+      xy = xyz[0] + xyz[1] + xyz[2] > 0 ? xyzToXy(...xyz) : null;
+    }
+    this.dominantWavelength.render(xy, preset.whitePoint ?? 'D65');
+  }
 
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [x, y, z] = point.values; // XYZ values (typically 0-100, but can vary)
-        
-        // Convert XYZ directly to xy chromaticity coordinates
-        const [x_chrom, y_chrom] = xyzToXy(x, y, z);
-        
-        // Render the marker at the xy coordinates
-        this.marker!.render(point, [x_chrom, y_chrom]);
-      }
+  /**
+   * Draw a legend (line swatch + name per gamut) in the top-right corner of the diagram
+   */
+  private renderGamutLegend(gamuts: GamutOutline[], coordinateSystem: CoordinateSystem): void {
+    if (!this.layer) return;
+
+    const { offsetX, offsetY, scale, maxX, maxY } = coordinateSystem;
+    const right = offsetX + maxX * scale;
+    const top = offsetY - maxY * scale;
+    const rowHeight = 18;
+    const width = 130;
+
+    gamuts.forEach((gamut, index) => {
+      const y = top + index * rowHeight + rowHeight / 2;
+      const swatch = new Konva.Line({
+        points: [right - width, y, right - width + 24, y],
+        stroke: gamut.color || '#333',
+        strokeWidth: 2,
+        dash: gamut.dash || [5, 5],
+      });
+      const label = new Konva.Text({
+        x: right - width + 30,
+        y: y - 6,
+        text: gamut.name!,
+        fontSize: 12,
+        fill: '#333',
+        fontFamily: 'Arial',
+      });
+      this.layer!.add(swatch);
+      this.layer!.add(label);
     });
   }
 
-  private renderXYZ2D(
+  /**
+   * Render a square color plane slice and return its normalized coordinate system
+   */
+  private renderColorPlane(
     centerX: number,
     centerY: number,
     size: { width: number; height: number; depth?: number },
-    _preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
-
-    // Calculate scale and offset for xy space (0-1) to screen coordinates
-    // xy space typically ranges from about 0 to 0.8 for x and 0 to 0.9 for y
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
-    const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
-    const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
+    preset: PresetConfig,
+    domain: ColorPlaneDomain
+  ): CoordinateSystem {
+    // Leave room around the plane for tick values and axis titles
+    const side = Math.min(size.width, size.height) * 0.7;
+    const planeConfig = (preset.config?.custom?.colorPlane as any) || {};
+
+    // Initialize or reuse existing component so config updated via updateColorPlane is preserved
+    if (!this.colorPlane) {
+      this.colorPlane = new ColorPlane();
+    }
+    this.colorPlane.init(this.layer!, centerX - side / 2, centerY - side / 2, side, domain, planeConfig);
+    this.colorPlane.setColorTransform(this.colorTransform);
+    this.colorPlane.render();
 
-    // Create coordinate system
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
+    return this.colorPlane.getCoordinateSystem();
+  }
 
-    // Initialize and render CIE background component
-    // XYZ represents the entire visible color spectrum, so no gamut limitation is shown
-    if (!this.cieBackground) {
-      this.cieBackground = new CIEBackground();
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
-    } else {
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
+  /**
+   * Render the HSL hue wheel and return its geometry
+   */
+  private renderHSL2D(
+    centerX: number,
+    centerY: number,
+    size: { width: number; height: number; depth?: number },
+    preset: PresetConfig
+  ): { centerX: number; centerY: number; radius: number } {
+    // Create HSL hue wheel component
+    const radius = Math.min(size.width, size.height) / 2.5;
+    
+    // Get config from preset
+    const wheelConfig = (preset.config?.custom?.hslHueWheel as any) || {};
+    
+    // Initialize or reuse existing hue wheel component
+    if (!this.hslHueWheel) {
+      this.hslHueWheel = new HSLHueWheel();
     }
-    this.cieBackground.render();
-
-    // Initialize and render axes component
-    if (!this.axes) {
-      this.axes = new Axes();
+    
+    // Get default lightness from first point if available, otherwise use config or default
+    let defaultLightness = wheelConfig.lightness ?? 50;
+    if (preset.points && preset.points.length > 0 && preset.points[0].values.length >= 3) {
+      defaultLightness = preset.points[0].values[2]; // L value from HSL
     }
-    const existingAxesConfig = this.axes.getConfig();
-    const axesConfigToUse = Object.keys(existingAxesConfig).length > 0 
-      ? existingAxesConfig 
-      : {
-          show: this.config?.showAxes !== false,
-          showLines: true,
-          showLabels: this.config?.showLabels !== false,
-        };
-    this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
-    this.axes.render();
-
-    // Initialize marker component (points will be rendered separately in renderXYZColorPoints)
-    if (!this.marker) {
-      this.marker = new Marker();
+    
+    // Get existing config from component if it's already initialized, otherwise use preset config
+    let mergedConfig: any = {};
+    try {
+      const existingConfig = this.hslHueWheel.getConfig();
+      // Preserve existing config values, only override with preset config if explicitly provided
+      mergedConfig = {
+        saturation: wheelConfig.saturation !== undefined ? wheelConfig.saturation : (existingConfig.saturation ?? 100),
+        lightness: defaultLightness,
+        innerRadius: wheelConfig.innerRadius !== undefined ? wheelConfig.innerRadius : (existingConfig.innerRadius ?? 0), // 0 = complete circle, no hole
+        showDividers: wheelConfig.showDividers !== undefined ? wheelConfig.showDividers : (existingConfig.showDividers ?? false), // No dividing lines
+        segmentCount: wheelConfig.segmentCount !== undefined ? wheelConfig.segmentCount : (existingConfig.segmentCount ?? 360),
+        algorithm: wheelConfig.algorithm !== undefined ? wheelConfig.algorithm : (existingConfig.algorithm ?? 'wedges'),
+        imageUrl: wheelConfig.imageUrl !== undefined ? wheelConfig.imageUrl : existingConfig.imageUrl,
+        show: wheelConfig.show !== undefined ? wheelConfig.show : (existingConfig.show !== undefined ? existingConfig.show : true),
+        dividerStyle: wheelConfig.dividerStyle || existingConfig.dividerStyle,
+      };
+    } catch (e) {
+      // Component not initialized yet, use preset config with defaults
+      mergedConfig = {
+        saturation: wheelConfig.saturation ?? 100,
+        lightness: defaultLightness,
+        innerRadius: wheelConfig.innerRadius ?? 0,
+        showDividers: wheelConfig.showDividers ?? false,
+        segmentCount: wheelConfig.segmentCount ?? 360,
+        algorithm: wheelConfig.algorithm ?? 'wedges',
+        imageUrl: wheelConfig.imageUrl,
+        show: wheelConfig.show !== undefined ? wheelConfig.show : true,
+        dividerStyle: wheelConfig.dividerStyle,
+      };
     }
-    const existingMarkerConfig = this.marker.getConfig();
-    this.marker.init(this.layer, coordinateSystem, existingMarkerConfig);
     
-    // Note: Points are NOT rendered here - they are rendered in renderXYZColorPoints
-    // to avoid double rendering
+    this.hslHueWheel.init(
+      this.layer!,
+      centerX,
+      centerY,
+      radius,
+      mergedConfig
+    );
+    
+    this.hslHueWheel.setColorTransform(this.colorTransform);
+    this.hslHueWheel.render();
+
+    return this.hslHueWheel.getGeometry();
   }
 
-  private renderLab2D(
+  /**
+   * Render the HSV hue wheel and return its geometry
+   */
+  private renderHSV2D(
     centerX: number,
     centerY: number,
     size: { width: number; height: number; depth?: number },
-    _preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
-
-    // Use CIE XYZ chromaticity diagram (same as RGB/XYZ) but without RGB gamut triangle
-    // Lab colors are converted to XYZ, then to xy chromaticity coordinates
+    preset: PresetConfig
+  ): { centerX: number; centerY: number; radius: number } {
+    // Create HSV hue wheel component
+    const radius = Math.min(size.width, size.height) / 2.5;
     
-    // Calculate scale and offset for xy space (0-1) to screen coordinates
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
-    const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
-    const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
-
-    // Create coordinate system
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-
-    // Initialize and render CIE background component
-    // Lab represents colors that can be converted to XYZ, so show full CIE diagram
-    if (!this.cieBackground) {
-      this.cieBackground = new CIEBackground();
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
-    } else {
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
+    // Get config from preset
+    const wheelConfig = (preset.config?.custom?.hsvHueWheel as any) || {};
+    
+    // Initialize or reuse existing hue wheel component
+    if (!this.hsvHueWheel) {
+      this.hsvHueWheel = new HSVHueWheel();
     }
-    this.cieBackground.render();
-
-    // Initialize and render axes component
-    if (!this.axes) {
-      this.axes = new Axes();
+    
+    // Get default value from first point if available, otherwise use config or default
+    let defaultValue = wheelConfig.value ?? 100;
+    if (preset.points && preset.points.length > 0 && preset.points[0].values.length >= 3) {
+      defaultValue = preset.points[0].values[2]; // V value from HSV
     }
-    const existingAxesConfig = this.axes.getConfig();
-    const axesConfigToUse = Object.keys(existingAxesConfig).length > 0 
-      ? existingAxesConfig 
-      : {
-          show: this.config?.showAxes !== false,
-          showLines: true,
-          showLabels: this.config?.showLabels !== false,
-        };
-    this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
-    this.axes.render();
-
-    // Initialize marker component (points will be rendered separately in renderLabColorPoints)
-    if (!this.marker) {
-      this.marker = new Marker();
+    
+    // Get existing config from component if it's already initialized, otherwise use preset config
+    let mergedConfig: any = {};
+    try {
+      const existingConfig = this.hsvHueWheel.getConfig();
+      // Preserve existing config values, only override with preset config if explicitly provided
+      mergedConfig = {
+        saturation: wheelConfig.saturation !== undefined ? wheelConfig.saturation : (existingConfig.saturation ?? 100),
+        value: defaultValue,
+        innerRadius: wheelConfig.innerRadius !== undefined ? wheelConfig.innerRadius : (existingConfig.innerRadius ?? 0), // 0 = complete circle, no hole
+        showDividers: wheelConfig.showDividers !== undefined ? wheelConfig.showDividers : (existingConfig.showDividers ?? false), // No dividing lines
+        segmentCount: wheelConfig.segmentCount !== undefined ? wheelConfig.segmentCount : (existingConfig.segmentCount ?? 360),
+        algorithm: wheelConfig.algorithm !== undefined ? wheelConfig.algorithm : (existingConfig.algorithm ?? 'wedges'),
+        imageUrl: wheelConfig.imageUrl !== undefined ? wheelConfig.imageUrl : existingConfig.imageUrl,
+        show: wheelConfig.show !== undefined ? wheelConfig.show : (existingConfig.show !== undefined ? existingConfig.show : true),
+        dividerStyle: wheelConfig.dividerStyle || existingConfig.dividerStyle,
+      };
+    } catch (e) {
+      // Component not initialized yet, use preset config with defaults
+      mergedConfig = {
+        saturation: wheelConfig.saturation ?? 100,
+        value: defaultValue,
+        innerRadius: wheelConfig.innerRadius ?? 0,
+        showDividers: wheelConfig.showDividers ?? false,
+        segmentCount: wheelConfig.segmentCount ?? 360,
+        algorithm: wheelConfig.algorithm ?? 'wedges',
+        imageUrl: wheelConfig.imageUrl,
+        show: wheelConfig.show !== undefined ? wheelConfig.show : true,
+        dividerStyle: wheelConfig.dividerStyle,
+      };
     }
-    const existingMarkerConfig = this.marker.getConfig();
-    this.marker.init(this.layer, coordinateSystem, existingMarkerConfig);
+    
+    // Only pass the merged config, don't merge again in init() if already initialized
+    this.hsvHueWheel.init(
+      this.layer!,
+      centerX,
+      centerY,
+      radius,
+      mergedConfig
+    );
+    
+    this.hsvHueWheel.setColorTransform(this.colorTransform);
+    this.hsvHueWheel.render();
+
+    return this.hsvHueWheel.getGeometry();
   }
-  
-  /**
-   * Render Lab color points on the CIE chromaticity diagram
-   */
-  private renderLabColorPoints(points: ColorPoint[]): void {
+
+  private renderColorPoints(
+    points: ColorPoint[],
+    _centerX: number,
+    _centerY: number,
+    size: { width: number; height: number; depth?: number }
+  ): void {
     if (!this.layer) return;
 
-    // Initialize marker if needed
-    if (!this.marker) {
-      this.marker = new Marker();
-    }
+    const cols = Math.ceil(Math.sqrt(points.length));
+    const spacing = Math.min(size.width, size.height) / (cols + 1);
+    const radius = spacing * 0.3;
+
+    points.forEach((point, index) => {
+      const col = index % cols;
+      const row = Math.floor(index / cols);
+      
+      const x = (col + 1) * spacing;
+      const y = (row + 1) * spacing;
 
-    // Use the same coordinate system as the CIE background
-    const size = { width: this.stage!.width(), height: this.stage!.height() };
-    const centerX = this.stage!.width() / 2;
-    const centerY = this.stage!.height() / 2;
-    const maxX = 0.8;
-    const maxY = 0.9;
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7;
-    const offsetX = centerX - (maxX * scale) * 0.5;
-    const offsetY = centerY + (maxY * scale) * 0.5;
+      const circle = new Konva.Circle({
+        x: x,
+        y: y,
+        radius: radius,
+        fill: this.transformColor(point.color),
+        stroke: '#333',
+        strokeWidth: 2,
+        shadowBlur: 5,
+        shadowOpacity: 0.3,
+        shadowOffset: { x: 2, y: 2 },
+      });
 
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-    
-    this.marker.init(this.layer, coordinateSystem, {});
+      // Mark as color point for easy removal
+      circle.setAttr('isColorPoint', true);
 
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [l, a, b] = point.values; // Lab values: L* (0-100), a* (-128 to 127), b* (-128 to 127)
-        
-        // Convert Lab to XYZ, then to xy chromaticity coordinates
-        const [x, y, z] = labToXyz(l, a, b);
-        const [x_chrom, y_chrom] = xyzToXy(x, y, z);
-        
-        // Render the marker at the xy coordinates
-        this.marker!.render(point, [x_chrom, y_chrom]);
+      if (this.layer) {
+        this.layer.add(circle);
+
+        // Add label if provided
+        if (point.label && this.config?.showLabels !== false) {
+          const label = new Konva.Text({
+            x: x,
+            y: y + radius + 15,
+            text: point.label,
+            fontSize: 12,
+            fill: '#333',
+            align: 'center',
+            width: spacing,
+          });
+          label.setAttr('isColorPoint', true);
+          this.layer.add(label);
+        }
       }
     });
   }
 
-  private renderLCh2D(
-    centerX: number,
-    centerY: number,
-    size: { width: number; height: number; depth?: number },
-    _preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
-
-    // Use CIE XYZ chromaticity diagram (same as Lab/XYZ) but without RGB gamut triangle
-    // LCh colors are converted to Lab, then to XYZ, then to xy chromaticity coordinates
-    
-    // Calculate scale and offset for xy space (0-1) to screen coordinates
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
-    const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
-    const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
-
-    // Create coordinate system
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-
-    // Initialize and render CIE background component
-    // LCh represents colors that can be converted to Lab/XYZ, so show full CIE diagram
+  /**
+   * Update CIE background configuration and re-render
+   */
+  updateCIEBackground(config: Partial<import('../components/types').CIEBackgroundConfig>): void {
     if (!this.cieBackground) {
       this.cieBackground = new CIEBackground();
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
-    } else {
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
     }
-    this.cieBackground.render();
+    // Update the config
+    this.cieBackground.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
 
-    // Initialize and render axes component
+  /**
+   * Update axes configuration and re-render
+   */
+  updateAxes(config: Partial<import('../components/types').AxesConfig>): void {
     if (!this.axes) {
       this.axes = new Axes();
     }
-    const existingAxesConfig = this.axes.getConfig();
-    const axesConfigToUse = Object.keys(existingAxesConfig).length > 0 
-      ? existingAxesConfig 
-      : {
-          show: this.config?.showAxes !== false,
-          showLines: true,
-          showLabels: this.config?.showLabels !== false,
-        };
-    this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
-    this.axes.render();
-
-    // Initialize marker component (points will be rendered separately in renderLChColorPoints)
-    if (!this.marker) {
-      this.marker = new Marker();
+    this.axes.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
-    const existingMarkerConfig = this.marker.getConfig();
-    this.marker.init(this.layer, coordinateSystem, existingMarkerConfig);
   }
-  
+
   /**
-   * Render LCh color points on the CIE chromaticity diagram
+   * Update marker configuration and re-render
    */
-  private renderLChColorPoints(points: ColorPoint[]): void {
-    if (!this.layer) return;
-
-    // Initialize marker if needed
+  updateMarker(config: Partial<import('../components/types').MarkerConfig>): void {
     if (!this.marker) {
       this.marker = new Marker();
     }
-
-    // Use the same coordinate system as the CIE background
-    const size = { width: this.stage!.width(), height: this.stage!.height() };
-    const centerX = this.stage!.width() / 2;
-    const centerY = this.stage!.height() / 2;
-    const maxX = 0.8;
-    const maxY = 0.9;
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7;
-    const offsetX = centerX - (maxX * scale) * 0.5;
-    const offsetY = centerY + (maxY * scale) * 0.5;
-
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
-    
-    this.marker.init(this.layer, coordinateSystem, {});
-
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [l, c, h] = point.values; // LCh values: L* (0-100), C* (0-100+), h* (0-360)
-        
-        // Convert LCh to Lab, then to XYZ, then to xy chromaticity coordinates
-        const [l_lab, a, b] = lchToLab(l, c, h);
-        const [x, y, z] = labToXyz(l_lab, a, b);
-        const [x_chrom, y_chrom] = xyzToXy(x, y, z);
-        
-        // Render the marker at the xy coordinates
-        this.marker!.render(point, [x_chrom, y_chrom]);
-      }
-    });
+    this.marker.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
   }
 
-  private renderYCbCr2D(
-    centerX: number,
-    centerY: number,
-    size: { width: number; height: number; depth?: number },
-    _preset: PresetConfig
-  ): void {
-    if (!this.layer) return;
-
-    // Use CIE XYZ chromaticity diagram with YCbCr gamut triangle (same as RGB)
-    // Calculate scale and offset for xy space (0-1) to screen coordinates
-    const maxX = 0.8; // Maximum x value in xy space
-    const maxY = 0.9; // Maximum y value in xy space
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7; // Use 70% of available space
-    const offsetX = centerX - (maxX * scale) * 0.5; // Center horizontally
-    const offsetY = centerY + (maxY * scale) * 0.5; // Flip Y axis (xy has y increasing upward)
-
-    // Create coordinate system
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
+  /**
+   * Update HSL hue wheel configuration and re-render
+   * Uses full re-render to avoid duplicate shapes and ensure correct draw order (wheel below markers)
+   */
+  updateHSLHueWheel(config: Partial<import('../components/types').HSLHueWheelConfig>): void {
+    if (!this.currentPreset) return;
+    // Merge new config into preset so full render uses it
+    const custom = (this.currentPreset.config?.custom as Record<string, unknown>) || {};
+    custom.hslHueWheel = { ...(custom.hslHueWheel as object || {}), ...config };
+    this.currentPreset.config = { ...this.currentPreset.config, custom };
+    this.render(this.currentPreset);
+  }
 
-    // Get YCbCr gamut triangle vertices (same as RGB since YCbCr is a linear transformation of RGB)
-    const vertices = getYcbcrGamutVertices();
+  /**
+   * Update HSV hue wheel configuration and re-render
+   * Uses full re-render to avoid duplicate shapes and ensure correct draw order (wheel below markers)
+   */
+  updateHSVHueWheel(config: Partial<import('../components/types').HSVHueWheelConfig>): void {
+    if (!this.currentPreset) return;
+    // Merge new config into preset so full render uses it
+    const custom = (this.currentPreset.config?.custom as Record<string, unknown>) || {};
+    custom.hsvHueWheel = { ...(custom.hsvHueWheel as object || {}), ...config };
+    this.currentPreset.config = { ...this.currentPreset.config, custom };
+    this.render(this.currentPreset);
+  }
 
-    // Initialize and render CIE background component
-    if (!this.cieBackground) {
-      this.cieBackground = new CIEBackground();
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
-    } else {
-      this.cieBackground.init(this.layer, coordinateSystem, size, {});
+  /**
+   * Update color plane configuration and re-render
+   */
+  updateColorPlane(config: Partial<import('../components/types').ColorPlaneConfig>): void {
+    if (!this.colorPlane) {
+      this.colorPlane = new ColorPlane();
     }
-    this.cieBackground.render();
-
-    // Convert xy coordinates to screen coordinates using the same scale
-    const screenVertices = vertices.map(([x, y]) => [
-      offsetX + x * scale,
-      offsetY - y * scale, // Flip Y
-    ]);
-
-    // Draw the YCbCr gamut triangle with thin dotted line
-    const triangle = new Konva.Line({
-      points: [
-        screenVertices[0][0], screenVertices[0][1], // Red
-        screenVertices[1][0], screenVertices[1][1], // Green
-        screenVertices[2][0], screenVertices[2][1], // Blue
-        screenVertices[0][0], screenVertices[0][1], // Back to Red
-      ],
-      stroke: '#000000',
-      strokeWidth: 1,
-      lineDash: [4, 4],
-      closed: true,
-    });
-    this.layer.add(triangle);
-
-    // Draw vertex labels only (same as RGB chromaticity), respecting showLabels
-    if (this.config?.showLabels !== false) {
-      const labels = ['R', 'G', 'B'];
-      const labelColors = ['#ff0000', '#00ff00', '#0000ff'];
-      screenVertices.forEach(([x, y], index) => {
-        const label = new Konva.Text({
-          x: x - 10,
-          y: y - 10,
-          text: labels[index],
-          fontSize: 16,
-          fontFamily: 'Arial',
-          fill: labelColors[index],
-          fontStyle: 'bold',
-        });
-        this.layer!.add(label);
-      });
+    this.colorPlane.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
+  }
 
-    // Initialize and render axes component
-    if (!this.axes) {
-      this.axes = new Axes();
+  /**
+   * Update white point marker configuration and re-render
+   */
+  updateWhitePointMarkers(config: Partial<import('../components/types').WhitePointMarkerConfig>): void {
+    if (!this.whitePointMarkers) {
+      this.whitePointMarkers = new WhitePointMarkers();
     }
-    const existingAxesConfig = this.axes.getConfig();
-    const axesConfigToUse = Object.keys(existingAxesConfig).length > 0 
-      ? existingAxesConfig 
-      : {
-          show: this.config?.showAxes !== false,
-          showLines: true,
-          showLabels: this.config?.showLabels !== false,
-        };
-    this.axes.init(this.layer, coordinateSystem, axesConfigToUse);
-    this.axes.render();
+    this.whitePointMarkers.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
 
-    // Initialize marker component (points will be rendered separately in renderYCbCrColorPoints)
-    if (!this.marker) {
-      this.marker = new Marker();
+  /**
+   * Update Planckian locus overlay configuration and re-render
+   */
+  updatePlanckianLocus(config: Partial<import('../components/types').PlanckianLocusConfig>): void {
+    if (!this.planckianLocus) {
+      this.planckianLocus = new PlanckianLocus();
+    }
+    this.planckianLocus.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
-    const existingMarkerConfig = this.marker.getConfig();
-    this.marker.init(this.layer, coordinateSystem, existingMarkerConfig);
   }
 
   /**
-   * Render YCbCr color points on the CIE chromaticity diagram
+   * Update dominant wavelength construction configuration and re-render
    */
-  private renderYCbCrColorPoints(points: ColorPoint[]): void {
-    if (!this.layer) return;
+  updateDominantWavelength(config: Partial<import('../components/types').DominantWavelengthConfig>): void {
+    if (!this.dominantWavelength) {
+      this.dominantWavelength = new DominantWavelengthOverlay();
+    }
+    this.dominantWavelength.updateConfig(config);
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
 
-    // Initialize marker if needed
-    if (!this.marker) {
-      this.marker = new Marker();
+  /**
+   * Update ΔE tolerance region configuration and re-render
+   */
+  updateTolerance(config: Partial<import('../components/types').ToleranceConfig>): void {
+    if (!this.toleranceRegion) {
+      this.toleranceRegion = new ToleranceRegion();
+    }
+    this.toleranceRegion.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
     }
+  }
 
-    // Use the same coordinate system as the CIE background
-    const size = { width: this.stage!.width(), height: this.stage!.height() };
-    const centerX = this.stage!.width() / 2;
-    const centerY = this.stage!.height() / 2;
-    const maxX = 0.8;
-    const maxY = 0.9;
-    const scale = Math.min(size.width / maxX, size.height / maxY) * 0.7;
-    const offsetX = centerX - (maxX * scale) * 0.5;
-    const offsetY = centerY + (maxY * scale) * 0.5;
+  /**
+   * Update contrast overlay configuration and re-render
+   */
+  updateContrastOverlay(config: Partial<import('../components/types').ContrastOverlayConfig>): void {
+    if (!this.contrastOverlay) {
+      this.contrastOverlay = new ContrastOverlay();
+    }
+    this.contrastOverlay.updateConfig(config);
+    // Re-render the current preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
 
-    const coordinateSystem: CoordinateSystem = {
-      offsetX,
-      offsetY,
-      scale,
-      maxX,
-      maxY,
-    };
+  /**
+   * Update CMYK grid configuration and re-render
+   */
+  updateCMYKGrid(config: Partial<import('../components/types').CMYKGridConfig>): void {
+    if (!this.cmykGrid || !this.layer) {
+      // If grid doesn't exist or layer is not available, re-render the full preset
+      if (this.currentPreset) {
+        this.render(this.currentPreset);
+      }
+      return;
+    }
     
-    this.marker.init(this.layer, coordinateSystem, {});
-
-    points.forEach((point) => {
-      if (point.values.length >= 3) {
-        const [y, cb, cr] = point.values; // YCbCr values: Y (16-235), Cb (16-240), Cr (16-240)
-        
-        // Convert YCbCr to RGB, then to XYZ, then to xy chromaticity coordinates
-        const [r, g, b] = ycbcrToRgb(y, cb, cr);
-        const [x_chrom, y_chrom] = rgbToXy(r, g, b);
+    // Update the config - this will merge with existing config
+    this.cmykGrid.updateConfig(config);
+    
+    // Re-render just the grid if it's already initialized
+    try {
+      const geometry = this.cmykGrid.getGeometry();
+      if (geometry.width > 0 && geometry.height > 0) {
+        // Re-render the grid with updated config
+        // The render() method will use the updated config from updateConfig()
+        this.cmykGrid.setColorTransform(this.colorTransform);
+        this.cmykGrid.render();
         
-        // Render the marker at the xy coordinates
-        this.marker!.render(point, [x_chrom, y_chrom]);
+        // Also re-render the color points if they exist
+        const definition = this.currentPreset && getColorSpaceDefinition(this.currentPreset.colorSpace.name);
+        if (definition && this.coordinateSystem && this.currentPreset?.points && this.currentPreset.points.length > 0) {
+          this.renderColorPointsInSpace(definition, this.currentPreset.points, this.coordinateSystem);
+        }
+        return;
       }
-    });
+    } catch (e) {
+      // If there's an error, fall through to full re-render
+    }
+    
+    // Fallback: re-render the full preset
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
   }
+
 }
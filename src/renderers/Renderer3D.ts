@@ -5,7 +5,28 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { IRenderer } from '../types';
-import { VisualizerConfig, PresetConfig, ColorPoint } from '../types';
+import { VisualizerConfig, PresetConfig, ColorPoint, RendererEventHandler, PointerColorEvent, ExportOptions } from '../types';
+import {
+  conversionOptions,
+  describeColorValues,
+  getColorSpaceDefinition,
+  getTemplateValues,
+  placeColorPoint3D,
+} from '../registry';
+import type { ColorSpaceDefinition, Solid3DConfig } from '../registry';
+import { rgbToXyz, xyzToRgb } from '../utils/colorConversion';
+import { buildSolidGeometry } from './solidGeometry';
+import { PixelBin, pixelBinsToColorPoints } from '../utils/imagePalette';
+import { ColorPointCloud, PointCloudConfig } from './ColorPointCloud';
+import { evaluateTolerance, labToValues, toleranceBoundary, valuesToLab } from '../utils/colorDifference';
+import type { GradientPathConfig, ToleranceConfig } from '../components/types';
+import { createCvdTransform, getCvdMatrices, transformCssColors } from '../utils/colorVisionDeficiency';
+import type { Matrix3 } from '../utils/matrix3';
+import type { ColorTransform, CvdOptions } from '../utils/colorVisionDeficiency';
+import { mapColorPoint } from '../utils/gamutMapping';
+import type { GamutMappingMethod } from '../utils/gamutMapping';
+import { interpolatePoints } from '../utils/colorInterpolation';
+import { hexToRgb } from '../color-channel-visualizer/valuesToHex';
 
 export class Renderer3D implements IRenderer {
   private scene: THREE.Scene | null = null;
@@ -18,6 +39,26 @@ export class Renderer3D implements IRenderer {
   private axesHelper: THREE.AxesHelper | null = null;
   private gridHelper: THREE.GridHelper | null = null;
   private controls: OrbitControls | null = null;
+  private pointCloud: ColorPointCloud | null = null;
+  private pixelCloud: ColorPointCloud | null = null;
+  private pixelBins: PixelBin[] | null = null;
+  private toleranceMesh: THREE.Mesh | null = null;
+  private toleranceConfig: ToleranceConfig = {};
+  private gradientGroup: THREE.Group | null = null;
+  private gradientPathConfig: GradientPathConfig = {};
+  private colorVisionDeficiency: CvdOptions | null = null;
+  private colorTransform: ColorTransform | null = null;
+  private gamutMapping: GamutMappingMethod = 'css4';
+  private currentPreset: PresetConfig | null = null;
+  // Size of the shape box points are placed in (scene units)
+  private pointExtents = new THREE.Vector3(1, 1, 1);
+  private emitEvent: RendererEventHandler | null = null;
+  private raycaster = new THREE.Raycaster();
+  // Latest pointer position, picked once per frame
+  private pendingPointer: [number, number] | null = null;
+  private pointerDown: [number, number] | null = null;
+  private hoveredIndex: number | null = null;
+  private pointerListeners: Array<[string, (event: PointerEvent) => void]> = [];
 
   init(container: HTMLElement, config: VisualizerConfig): void {
     this.container = container;
@@ -41,7 +82,8 @@ export class Renderer3D implements IRenderer {
     this.camera.lookAt(0, 0, 0);
 
     // Renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    // Alpha lets exports have a transparent background; the scene background covers it on screen
+    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     this.renderer.setSize(width, height);
     this.renderer.setPixelRatio(window.devicePixelRatio);
     container.appendChild(this.renderer.domElement);
@@ -62,6 +104,7 @@ export class Renderer3D implements IRenderer {
       this.controls.update();
     }
 
+    this.addPointerListeners(this.renderer.domElement);
     this.startRenderLoop();
   }
 
@@ -100,35 +143,60 @@ export class Renderer3D implements IRenderer {
     let geometry: THREE.BufferGeometry;
     let material: THREE.Material;
 
-    switch (preset.shape) {
-      case 'cube':
-        geometry = new THREE.BoxGeometry(
-          normalizedWidth,
-          normalizedHeight,
-          normalizedDepth
-        );
-        material = this.createCubeMaterial(preset);
-        break;
-      case 'sphere':
-        geometry = new THREE.SphereGeometry(
-          normalizedWidth / 2,
-          32,
-          32
-        );
-        material = this.createSphereMaterial();
-        break;
-      default:
-        geometry = new THREE.BoxGeometry(
-          normalizedWidth,
-          normalizedHeight,
-          normalizedDepth
-        );
-        material = this.createCubeMaterial(preset);
+    // Color spaces with a registered solid (HSL cone, Lab gamut, ...) replace the plain shape
+    const definition = getColorSpaceDefinition(preset.colorSpace.name);
+    const solidConfig = (preset.config?.custom?.solid3D as Solid3DConfig | undefined) || {};
+    const useSolid = !!definition?.solid3D && solidConfig.show !== false;
+
+    if (useSolid) {
+      geometry = this.createSolidGeometry(definition!, preset, solidConfig);
+      material = this.createSolidMaterial(solidConfig);
+    } else {
+      switch (preset.shape) {
+        case 'cube':
+          geometry = new THREE.BoxGeometry(
+            normalizedWidth,
+            normalizedHeight,
+            normalizedDepth
+          );
+          material = this.createCubeMaterial(preset);
+          break;
+        case 'sphere':
+          geometry = new THREE.SphereGeometry(
+            normalizedWidth / 2,
+            32,
+            32
+          );
+          material = this.createSphereMaterial();
+          break;
+        default:
+          geometry = new THREE.BoxGeometry(
+            normalizedWidth,
+            normalizedHeight,
+            normalizedDepth
+          );
+          material = this.createCubeMaterial(preset);
+      }
     }
 
     this.mesh = new THREE.Mesh(geometry, material);
     this.scene.add(this.mesh);
 
+    // Color points are placed inside the shape's bounding box (solids fill the unit box)
+    // and carry their gamut-mapped color for events
+    preset = this.mapPointsToGamut(preset);
+    this.currentPreset = preset;
+    if (useSolid) {
+      this.pointExtents.set(1, 1, 1);
+    } else {
+      this.pointExtents.set(
+        normalizedWidth,
+        preset.shape === 'sphere' ? normalizedWidth : normalizedHeight,
+        preset.shape === 'sphere' ? normalizedWidth : normalizedDepth
+      );
+    }
+    this.renderPoints(preset);
+
     // Add axes helper
     if (config.showAxes !== false) {
       const scale = 1 / 255;
@@ -168,10 +236,520 @@ export class Renderer3D implements IRenderer {
 
   update(points: ColorPoint[]): void {
     // Update visualization with new color points
-    // This can be used for dynamic updates
-    if (this.mesh && points.length > 0) {
-      // Update material or geometry based on points
-      // Implementation depends on specific use case
+    // Only instances whose values, color or label changed are rewritten
+    if (!this.pointCloud || !this.currentPreset) return;
+    this.pointCloud.update(
+      this.simulatePoints(this.markTolerance(this.currentPreset, points)),
+      this.createPointPositioner(this.currentPreset)
+    );
+    if (this.toleranceConfig.show === true) {
+      this.renderTolerance({ ...this.currentPreset, points });
+    }
+    if (this.gradientPathConfig.show === true) {
+      this.renderGradientPath({ ...this.currentPreset, points });
+    }
+  }
+
+  /**
+   * Update point cloud configuration (sphere radius, labels) and redraw the current points
+   */
+  updatePointCloud(config: Partial<PointCloudConfig>): void {
+    if (!this.pointCloud) {
+      this.pointCloud = new ColorPointCloud();
+    }
+    this.pointCloud.updateConfig(config);
+    if (this.currentPreset) {
+      this.renderPoints(this.currentPreset);
+    }
+  }
+
+  /**
+   * Draw the preset's points, creating the point cloud on first use
+   */
+  private renderPoints(preset: PresetConfig): void {
+    if (!this.scene) return;
+
+    // Reuse existing instance so config updated via updatePointCloud is preserved
+    const cloudConfig = (preset.config?.custom?.points3D as PointCloudConfig | undefined) || {};
+    if (!this.pointCloud) {
+      this.pointCloud = new ColorPointCloud(cloudConfig);
+    } else if (Object.keys(cloudConfig).length > 0) {
+      this.pointCloud.updateConfig(cloudConfig);
+    }
+    if (!this.pointCloud.group.parent) {
+      this.scene.add(this.pointCloud.group);
+    }
+
+    // The shape may have changed size, so rewrite every instance
+    const toleranceConfig = (preset.config?.custom?.tolerance as ToleranceConfig | undefined) || {};
+    if (Object.keys(toleranceConfig).length > 0) {
+      this.toleranceConfig = { ...this.toleranceConfig, ...toleranceConfig };
+    }
+
+    this.pointCloud.invalidate();
+    this.pointCloud.update(this.simulatePoints(this.markTolerance(preset, preset.points || [])), this.createPointPositioner(preset));
+
+    const gradientConfig = (preset.config?.custom?.gradientPath as GradientPathConfig | undefined) || {};
+    if (Object.keys(gradientConfig).length > 0) {
+      this.gradientPathConfig = { ...this.gradientPathConfig, ...gradientConfig };
+    }
+
+    this.renderPixelCloud(preset);
+    this.renderTolerance(preset);
+    this.renderGradientPath(preset);
+  }
+
+  /**
+   * Update ΔE tolerance configuration and redraw the ellipsoid and point colors
+   */
+  updateTolerance(config: Partial<ToleranceConfig>): void {
+    this.toleranceConfig = { ...this.toleranceConfig, ...config };
+    if (this.currentPreset) {
+      this.renderPoints(this.currentPreset);
+    }
+  }
+
+  /**
+   * Simulate a color vision deficiency on the solid, the RGB cube and the points; null for normal vision
+   */
+  setColorVisionDeficiency(options: CvdOptions | null): void {
+    this.colorVisionDeficiency = options;
+    this.colorTransform = options ? createCvdTransform(options) : null;
+    if (this.currentPreset) {
+      this.render(this.currentPreset);
+    }
+  }
+
+  /**
+   * Method used to map the points' values into sRGB (ColorPoint.mappedColor)
+   */
+  setGamutMapping(method: GamutMappingMethod): void {
+    this.gamutMapping = method;
+    if (this.currentPreset) {
+      this.currentPreset = this.mapPointsToGamut(this.currentPreset);
+    }
+  }
+
+  /**
+   * Fill in mappedColor and inGamut on the preset's points
+   */
+  private mapPointsToGamut(preset: PresetConfig): PresetConfig {
+    if (!preset.points?.length) return preset;
+    return { ...preset, points: preset.points.map((point) => mapColorPoint(point, preset, this.gamutMapping)) };
+  }
+
+  /**
+   * Point colors as drawn under the current simulation
+   */
+  private simulatePoints(points: ColorPoint[]): ColorPoint[] {
+    const transform = this.colorTransform;
+    if (!transform) return points;
+    return points.map((point) => ({ ...point, color: transformCssColors(point.color, transform) }));
+  }
+
+  /**
+   * With the tolerance shown, points compared with the reference take the pass/fail color
+   * (spheres have no outline to carry the mark as in 2D)
+   */
+  private markTolerance(preset: PresetConfig, points: ColorPoint[]): ColorPoint[] {
+    const config = this.toleranceConfig;
+    if (config.show !== true) return points;
+    const marked = [...points];
+    evaluateTolerance(points, preset, config).forEach(({ index, pass }) => {
+      marked[index] = { ...points[index], color: pass ? config.passColor || '#2e7d32' : config.failColor || '#c62828' };
+    });
+    return marked;
+  }
+
+  /**
+   * Draw the ΔE tolerance ellipsoid around the reference point: the boundary is found along
+   * every Lab direction and placed like a color point
+   */
+  private renderTolerance(preset: PresetConfig): void {
+    if (!this.scene) return;
+
+    if (this.toleranceMesh) {
+      this.scene.remove(this.toleranceMesh);
+      this.toleranceMesh.geometry.dispose();
+      (this.toleranceMesh.material as THREE.Material).dispose();
+      this.toleranceMesh = null;
+    }
+
+    const config = this.toleranceConfig;
+    const reference = preset.points?.[config.reference ?? 0];
+    const referenceLab = reference ? valuesToLab(reference.values, preset) : null;
+    if (config.show !== true || !referenceLab) return;
+
+    const { threshold = 2, method = '2000' } = config;
+    // u runs around the hue circle, v from +L to -L
+    const surface = (u: number, v: number) => {
+      const theta = u * 2 * Math.PI;
+      const phi = v * Math.PI;
+      const direction: [number, number, number] = [
+        Math.cos(phi),
+        Math.sin(phi) * Math.cos(theta),
+        Math.sin(phi) * Math.sin(theta),
+      ];
+      return labToValues(toleranceBoundary(referenceLab, direction, threshold, method, config), preset);
+    };
+    const geometry = buildSolidGeometry([surface], Math.max(8, Math.round((config.segments ?? 72) / 3)), (values) => {
+      const position = placeColorPoint3D(preset, values);
+      return position ? { position, rgb: [0, 0, 0] } : null;
+    });
+    // Same box as the points
+    geometry.scale(this.pointExtents.x, this.pointExtents.y, this.pointExtents.z);
+
+    const opacity = config.opacity ?? 0.15;
+    this.toleranceMesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      color: config.regionColor || '#1565c0',
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity,
+      depthWrite: false,
+    }));
+    if (this.mesh) {
+      this.toleranceMesh.rotation.copy(this.mesh.rotation);
+    }
+    this.scene.add(this.toleranceMesh);
+  }
+
+  /**
+   * Update gradient path configuration and redraw the tubes
+   */
+  updateGradientPath(config: Partial<GradientPathConfig>): void {
+    this.gradientPathConfig = { ...this.gradientPathConfig, ...config };
+    if (this.currentPreset) {
+      this.renderGradientPath(this.currentPreset);
+    }
+  }
+
+  /**
+   * Remove the gradient tubes and free their geometry
+   */
+  private clearGradientPath(): void {
+    if (!this.gradientGroup) return;
+    this.scene?.remove(this.gradientGroup);
+    this.gradientGroup.children.forEach((child) => {
+      const tube = child as THREE.Mesh;
+      tube.geometry.dispose();
+      (tube.material as THREE.Material).dispose();
+    });
+    this.gradientGroup = null;
+  }
+
+  /**
+   * Draw the interpolation path between the stop points in each configured space as a tube
+   * colored with the sampled colors
+   */
+  private renderGradientPath(preset: PresetConfig): void {
+    if (!this.scene) return;
+    this.clearGradientPath();
+
+    const config = this.gradientPathConfig;
+    const points = preset.points || [];
+    const stops = (config.stops ?? points.map((_, i) => i))
+      .map((index) => points[index]?.values)
+      .filter((values): values is number[] => values !== undefined);
+    if (config.show !== true || stops.length < 2) return;
+
+    const positioner = this.createPointPositioner(preset);
+    const radialSegments = 8;
+    this.gradientGroup = new THREE.Group();
+    (config.spaces ?? ['oklab']).forEach((space) => {
+      const samples = interpolatePoints(stops, preset, { space, hue: config.hue, steps: config.steps ?? 48 })
+        .map((sample) => ({ position: positioner(sample), rgb: hexToRgb(sample.color) ?? [0, 0, 0] }))
+        .filter((sample): sample is { position: [number, number, number]; rgb: [number, number, number] } => sample.position !== null);
+      if (samples.length < 2) return;
+
+      const vectors = samples.map(({ position }) => new THREE.Vector3(...position));
+      const curve = new THREE.CatmullRomCurve3(vectors, false, 'centripetal');
+      const tubularSegments = (samples.length - 1) * 4;
+      const geometry = new THREE.TubeGeometry(curve, tubularSegments, config.tubeRadius ?? 0.008, radialSegments, false);
+
+      // Rings are spaced evenly by arc length; color each from the samples at the same fraction
+      // of the polyline's length
+      const lengths = [0];
+      for (let i = 1; i < vectors.length; i++) {
+        lengths.push(lengths[i - 1] + vectors[i].distanceTo(vectors[i - 1]));
+      }
+      const total = lengths[lengths.length - 1] || 1;
+      const colors = new Float32Array(geometry.attributes.position.count * 3);
+      let k = 0;
+      for (let ring = 0; ring <= tubularSegments; ring++) {
+        const distance = (ring / tubularSegments) * total;
+        while (k < lengths.length - 2 && lengths[k + 1] < distance) k++;
+        const span = lengths[k + 1] - lengths[k];
+        const t = span > 0 ? Math.min(1, (distance - lengths[k]) / span) : 0;
+        const mixed = samples[k].rgb.map((c, j) => c + (samples[k + 1].rgb[j] - c) * t) as [number, number, number];
+        const rgb = this.colorTransform ? this.colorTransform(mixed) : mixed;
+        for (let j = 0; j <= radialSegments; j++) {
+          colors.set(rgb.map((c) => c / 255), (ring * (radialSegments + 1) + j) * 3);
+        }
+      }
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      this.gradientGroup!.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true })));
+    });
+
+    if (this.mesh) {
+      this.gradientGroup.rotation.copy(this.mesh.rotation);
+    }
+    this.scene.add(this.gradientGroup);
+  }
+
+  /**
+   * Show image pixels (histogram bins) as a cloud of small spheres; pass null to remove it
+   */
+  setPixelCloud(bins: PixelBin[] | null): void {
+    this.pixelBins = bins;
+    if (this.currentPreset) {
+      this.renderPixelCloud(this.currentPreset);
+    }
+  }
+
+  /**
+   * Update pixel cloud configuration (sphere radius etc.) and redraw it
+   */
+  updatePixelCloud(config: Partial<PointCloudConfig>): void {
+    if (!this.pixelCloud) {
+      this.pixelCloud = new ColorPointCloud({ radius: 0.008, segments: 6, showLabels: false });
+    }
+    this.pixelCloud.updateConfig(config);
+    if (this.currentPreset) {
+      this.renderPixelCloud(this.currentPreset);
+    }
+  }
+
+  /**
+   * Draw the pixel bins in the preset's color space; smaller spheres than regular points
+   */
+  private renderPixelCloud(preset: PresetConfig): void {
+    if (!this.scene) return;
+
+    const cloudConfig = (preset.config?.custom?.pixelCloud3D as PointCloudConfig | undefined) || {};
+    if (!this.pixelCloud) {
+      this.pixelCloud = new ColorPointCloud({ radius: 0.008, segments: 6, showLabels: false, ...cloudConfig });
+    } else if (Object.keys(cloudConfig).length > 0) {
+      this.pixelCloud.updateConfig(cloudConfig);
+    }
+    if (!this.pixelCloud.group.parent) {
+      this.scene.add(this.pixelCloud.group);
+    }
+
+    const points = this.pixelBins ? pixelBinsToColorPoints(this.pixelBins, preset.colorSpace, preset) : [];
+    this.pixelCloud.invalidate();
+    this.pixelCloud.update(this.simulatePoints(points), this.createPointPositioner(preset));
+  }
+
+  /**
+   * Map a point's color space values into the shape box (centered on the origin like the mesh)
+   */
+  private createPointPositioner(preset: PresetConfig): (point: ColorPoint) => [number, number, number] | null {
+    const extents = this.pointExtents.clone();
+    return (point) => {
+      const coords = placeColorPoint3D(preset, point.values);
+      if (!coords) return null;
+      return [
+        (coords[0] - 0.5) * extents.x,
+        (coords[1] - 0.5) * extents.y,
+        (coords[2] - 0.5) * extents.z,
+      ];
+    };
+  }
+
+  /**
+   * Set the callback used to report pointer and point events to ColorVisualizer
+   */
+  setEventHandler(handler: RendererEventHandler | null): void {
+    this.emitEvent = handler;
+  }
+
+  /**
+   * Track the pointer on the canvas; clicks are pointer releases that did not orbit the camera
+   */
+  private addPointerListeners(canvas: HTMLCanvasElement): void {
+    const toCanvas = (event: PointerEvent): [number, number] => {
+      const rect = canvas.getBoundingClientRect();
+      return [event.clientX - rect.left, event.clientY - rect.top];
+    };
+    this.pointerListeners = [
+      ['pointermove', (event) => {
+        this.pendingPointer = toCanvas(event);
+      }],
+      ['pointerleave', () => {
+        this.pendingPointer = null;
+        this.setHoveredIndex(null);
+        this.emitEvent?.('hover', this.emptyPointerColor([0, 0]));
+      }],
+      ['pointerdown', (event) => {
+        this.pointerDown = toCanvas(event);
+      }],
+      ['pointerup', (event) => {
+        const position = toCanvas(event);
+        const down = this.pointerDown;
+        this.pointerDown = null;
+        if (!down || Math.hypot(position[0] - down[0], position[1] - down[1]) > 4) return;
+        this.handleClick(position);
+      }],
+    ];
+    this.pointerListeners.forEach(([type, listener]) =>
+      canvas.addEventListener(type, listener as EventListener)
+    );
+  }
+
+  private removePointerListeners(): void {
+    const canvas = this.renderer?.domElement;
+    this.pointerListeners.forEach(([type, listener]) =>
+      canvas?.removeEventListener(type, listener as EventListener)
+    );
+    this.pointerListeners = [];
+  }
+
+  /**
+   * Report hover events for the latest pointer position (called from the render loop)
+   */
+  private processPointer(): void {
+    const position = this.pendingPointer;
+    this.pendingPointer = null;
+    if (!position || !this.emitEvent) return;
+
+    const { index, event } = this.pick(position);
+    this.setHoveredIndex(index);
+    this.emitEvent('hover', event);
+  }
+
+  private handleClick(position: [number, number]): void {
+    if (!this.emitEvent) return;
+    const { index, event } = this.pick(position);
+    const point = index !== null ? this.currentPreset?.points?.[index] : undefined;
+    if (point && index !== null) {
+      this.emitEvent('pointclick', { point, index });
+      this.emitEvent('select', { point, index });
+    } else {
+      this.emitEvent('click', event);
+      this.emitEvent('select', { point: null, index: null });
+    }
+  }
+
+  private setHoveredIndex(index: number | null): void {
+    if (index === this.hoveredIndex) return;
+    this.hoveredIndex = index;
+    const point = index !== null ? this.currentPreset?.points?.[index] : undefined;
+    this.emitEvent?.('pointhover', point && index !== null ? { point, index } : { point: null, index: null });
+    if (this.renderer) {
+      this.renderer.domElement.style.cursor = point ? 'pointer' : '';
+    }
+  }
+
+  /**
+   * Raycast the color points first, then the shape; returns the hit point index and the color under the pointer
+   */
+  private pick(position: [number, number]): { index: number | null; event: PointerColorEvent } {
+    const empty = this.emptyPointerColor(position);
+    const preset = this.currentPreset;
+    const definition = preset ? getColorSpaceDefinition(preset.colorSpace.name) : undefined;
+    if (!this.camera || !this.renderer || !preset || !definition) return { index: null, event: empty };
+
+    const canvas = this.renderer.domElement;
+    const ndc = new THREE.Vector2(
+      (position[0] / canvas.clientWidth) * 2 - 1,
+      -(position[1] / canvas.clientHeight) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, this.camera);
+
+    const index = this.pointCloud?.pick(this.raycaster) ?? null;
+    const point = index !== null ? preset.points?.[index] : undefined;
+    const values = point ? point.values : this.readShapeValues(definition, preset);
+    if (!values) return { index: null, event: empty };
+    return {
+      index: point ? index : null,
+      event: { ...empty, values, ...describeColorValues(definition, values, preset) },
+    };
+  }
+
+  /**
+   * Color values on the shape under the ray: solids interpolate their vertex colors,
+   * plain shapes invert the linear axis placement
+   */
+  private readShapeValues(definition: ColorSpaceDefinition, preset: PresetConfig): number[] | null {
+    if (!this.mesh) return null;
+    const hit = this.raycaster.intersectObject(this.mesh, false)[0];
+    if (!hit) return null;
+
+    const options = conversionOptions(preset);
+    const colors = this.mesh.geometry.getAttribute('color');
+    if (colors && hit.face) {
+      const positions = this.mesh.geometry.getAttribute('position');
+      const local = this.mesh.worldToLocal(hit.point.clone());
+      const { a, b, c } = hit.face;
+      const corner = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, i: number) =>
+        new THREE.Vector3().fromBufferAttribute(attribute, i);
+      const color = THREE.Triangle.getInterpolation(
+        local,
+        corner(positions, a),
+        corner(positions, b),
+        corner(positions, c),
+        corner(colors, a),
+        corner(colors, b),
+        corner(colors, c),
+        new THREE.Vector3()
+      );
+      if (!color) return null;
+      // Vertex colors are linear
+      const srgb = new THREE.Color().setRGB(color.x, color.y, color.z, THREE.LinearSRGBColorSpace)
+        .getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+      return definition.fromXyz(rgbToXyz(srgb.r * 255, srgb.g * 255, srgb.b * 255), options);
+    }
+
+    if (definition.placePoint3D) return null;
+    const local = this.mesh.worldToLocal(hit.point.clone());
+    const normalized = [
+      local.x / this.pointExtents.x + 0.5,
+      local.y / this.pointExtents.y + 0.5,
+      local.z / this.pointExtents.z + 0.5,
+    ];
+    const values = [...getTemplateValues(definition, preset)];
+    preset.colorSpace.axes.slice(0, 3).forEach((axis, i) => {
+      const t = Math.min(1, Math.max(0, normalized[i]));
+      values[i] = axis.min + t * (axis.max - axis.min);
+    });
+    return values;
+  }
+
+  private emptyPointerColor(position: [number, number]): PointerColorEvent {
+    return { mode: '3d', position, values: null, xy: null, lab: null, hex: null, cct: null, duv: null };
+  }
+
+  /**
+   * Capture the scene as a PNG/JPEG data URL at the given pixel ratio.
+   * The frame is rendered and read back in the same task, so the canvas does not need
+   * preserveDrawingBuffer.
+   */
+  exportImage(options: ExportOptions = {}): string {
+    if (!this.scene || !this.camera || !this.renderer) {
+      throw new Error('Renderer not initialized. Call init() first.');
+    }
+    const format = options.format ?? 'png';
+    if (format === 'svg') {
+      throw new Error('SVG export is only available in 2D mode.');
+    }
+
+    const background = options.background === undefined ? this.config?.backgroundColor ?? '#f0f0f0' : options.background;
+    const fill = background ?? (format === 'jpeg' ? '#ffffff' : null);
+    const previousBackground = this.scene.background;
+    const previousRatio = this.renderer.getPixelRatio();
+
+    this.scene.background = fill ? new THREE.Color(fill) : null;
+    this.renderer.setPixelRatio(options.pixelRatio ?? previousRatio);
+    try {
+      this.renderer.render(this.scene, this.camera);
+      return this.renderer.domElement.toDataURL(
+        format === 'jpeg' ? 'image/jpeg' : 'image/png',
+        options.quality ?? 0.92
+      );
+    } finally {
+      this.scene.background = previousBackground;
+      this.renderer.setPixelRatio(previousRatio);
+      this.renderer.render(this.scene, this.camera);
     }
   }
 
@@ -185,6 +763,28 @@ export class Renderer3D implements IRenderer {
 
   destroy(): void {
     this.stopRenderLoop();
+    this.removePointerListeners();
+    this.emitEvent = null;
+
+    if (this.pointCloud) {
+      this.scene?.remove(this.pointCloud.group);
+      this.pointCloud.dispose();
+      this.pointCloud = null;
+    }
+    if (this.pixelCloud) {
+      this.scene?.remove(this.pixelCloud.group);
+      this.pixelCloud.dispose();
+      this.pixelCloud = null;
+    }
+    if (this.toleranceMesh) {
+      this.scene?.remove(this.toleranceMesh);
+      this.toleranceMesh.geometry.dispose();
+      (this.toleranceMesh.material as THREE.Material).dispose();
+      this.toleranceMesh = null;
+    }
+    this.clearGradientPath();
+    this.pixelBins = null;
+    this.currentPreset = null;
 
     if (this.mesh) {
       this.scene?.remove(this.mesh);
@@ -242,6 +842,10 @@ export class Renderer3D implements IRenderer {
       const fragmentShader = `
         uniform vec3 uSize;
         uniform vec3 uOffset;
+        uniform bool uCvd;
+        uniform mat3 uCvdFirst;
+        uniform mat3 uCvdSecond;
+        uniform vec3 uCvdNormal;
         varying vec3 vPosition;
         
         void main() {
@@ -250,6 +854,12 @@ export class Renderer3D implements IRenderer {
           vec3 normalized = (vPosition / uSize) + 0.5;
           // Clamp to valid RGB range
           normalized = clamp(normalized, 0.0, 1.0);
+          // Color vision deficiency simulation works on linear RGB
+          if (uCvd) {
+            vec3 linear = mix(normalized / 12.92, pow((normalized + 0.055) / 1.055, vec3(2.4)), step(0.04045, normalized));
+            linear = clamp(dot(linear, uCvdNormal) >= 0.0 ? uCvdFirst * linear : uCvdSecond * linear, 0.0, 1.0);
+            normalized = mix(linear * 12.92, 1.055 * pow(linear, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, linear));
+          }
           // The normalized values represent R, G, B directly
           gl_FragColor = vec4(normalized, 1.0);
         }
@@ -269,6 +879,7 @@ export class Renderer3D implements IRenderer {
           uOffset: {
             value: new THREE.Vector3(0, 0, 0),
           },
+          ...this.createCvdUniforms(),
         },
         side: THREE.DoubleSide,
       });
@@ -282,6 +893,52 @@ export class Renderer3D implements IRenderer {
     });
   }
 
+  /**
+   * Tessellate the color space's solid; vertices are placed like color points and colored by their sRGB value
+   */
+  private createSolidGeometry(
+    definition: ColorSpaceDefinition,
+    preset: PresetConfig,
+    solidConfig: Solid3DConfig
+  ): THREE.BufferGeometry {
+    const options = conversionOptions(preset);
+    return buildSolidGeometry(definition.solid3D!(preset), solidConfig.resolution ?? 48, (values) => {
+      const position = placeColorPoint3D(preset, values);
+      if (!position) return null;
+      const rgb = definition.toRgb
+        ? definition.toRgb(values, options)
+        : xyzToRgb(...definition.toXyz(values, options));
+      return { position, rgb: this.colorTransform ? this.colorTransform(rgb) : rgb };
+    });
+  }
+
+  private createSolidMaterial(solidConfig: Solid3DConfig): THREE.Material {
+    // Unlit, so the surface shows the actual colors; translucent so points inside stay visible
+    const opacity = solidConfig.opacity ?? 0.6;
+    return new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      side: THREE.DoubleSide,
+      transparent: opacity < 1,
+      opacity,
+      depthWrite: opacity >= 1,
+      wireframe: solidConfig.wireframe === true,
+    });
+  }
+
+  /**
+   * Shader uniforms for simulating the current color vision deficiency (disabled when there is none)
+   */
+  private createCvdUniforms(): Record<string, THREE.IUniform> {
+    const matrices = this.colorVisionDeficiency ? getCvdMatrices(this.colorVisionDeficiency) : null;
+    const toMatrix = (m: Matrix3) => new THREE.Matrix3().set(...m[0], ...m[1], ...m[2]);
+    return {
+      uCvd: { value: matrices !== null },
+      uCvdFirst: { value: matrices ? toMatrix(matrices.first) : new THREE.Matrix3() },
+      uCvdSecond: { value: matrices ? toMatrix(matrices.second) : new THREE.Matrix3() },
+      uCvdNormal: { value: new THREE.Vector3(...(matrices ? matrices.normal : [0, 0, 0])) },
+    };
+  }
+
   private createSphereMaterial(): THREE.Material {
     // Similar to cube but for sphere
     return new THREE.MeshStandardMaterial({
@@ -300,6 +957,11 @@ export class Renderer3D implements IRenderer {
         const speed = this.config.animation?.speed || 0.01;
         this.mesh.rotation.x += speed;
         this.mesh.rotation.y += speed;
+        // Keep the points inside the rotating shape
+        this.pointCloud?.group.rotation.copy(this.mesh.rotation);
+        this.pixelCloud?.group.rotation.copy(this.mesh.rotation);
+        this.toleranceMesh?.rotation.copy(this.mesh.rotation);
+        this.gradientGroup?.rotation.copy(this.mesh.rotation);
       }
 
       // Update controls
@@ -307,6 +969,8 @@ export class Renderer3D implements IRenderer {
         this.controls.update();
       }
 
+      this.processPointer();
+
       if (this.scene && this.camera && this.renderer) {
         this.renderer.render(this.scene, this.camera);
       }
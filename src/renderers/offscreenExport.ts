@@ -0,0 +1,44 @@
+/**
+ * Offscreen export
+ * Renders a preset's 2D view on a detached Konva stage and exports it, without a
+ * visualizer or any element in the document.
+ */
+
+import { Renderer2D } from './Renderer2D';
+import { ExportOptions, PresetConfig, VisualizerConfig } from '../types';
+
+/**
+ * Options for exportPreset: export options plus the size and config of the offscreen view
+ */
+export interface OffscreenExportOptions extends ExportOptions {
+  width?: number; // Default 800
+  height?: number; // Default 600
+  config?: Partial<VisualizerConfig>;
+}
+
+/**
+ * Export a preset's 2D view (SVG markup by default, or a PNG/JPEG data URL)
+ */
+export function exportPreset(preset: PresetConfig, options: OffscreenExportOptions = {}): string {
+  const { width = 800, height = 600, config, ...exportOptions } = options;
+  // The container is never attached, so nothing is shown or laid out
+  const container = document.createElement('div');
+  const renderer = new Renderer2D();
+  renderer.init(container, {
+    backgroundColor: '#f0f0f0',
+    showAxes: true,
+    showLabels: true,
+    showGrid: true,
+    ...config,
+    mode: '2d',
+    interactive: false,
+    width,
+    height,
+  });
+  try {
+    renderer.render(preset);
+    return renderer.exportImage({ format: 'svg', ...exportOptions });
+  } finally {
+    renderer.destroy();
+  }
+}
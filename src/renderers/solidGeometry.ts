@@ -0,0 +1,71 @@
+/**
+ * Geometry for color space solids
+ * Tessellates a color space's surface patches into one indexed BufferGeometry with
+ * per-vertex colors: positions come from the space's 3D placement, colors from its
+ * conversion to sRGB.
+ */
+
+import * as THREE from 'three';
+import { SolidSurface } from '../registry';
+
+/**
+ * Position (normalized 0-1 box) and sRGB color (0-255) of a vertex, or null to skip it
+ */
+export type SolidVertex = (values: number[]) => {
+  position: [number, number, number];
+  rgb: [number, number, number];
+} | null;
+
+/**
+ * Build the solid; vertices are in the normalized unit box, translated so the box is centered on the origin
+ */
+export function buildSolidGeometry(
+  surfaces: SolidSurface[],
+  resolution: number,
+  vertex: SolidVertex
+): THREE.BufferGeometry {
+  const steps = Math.max(2, Math.round(resolution));
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+  const color = new THREE.Color();
+
+  surfaces.forEach((surface) => {
+    const base = positions.length / 3;
+    const valid: boolean[] = [];
+
+    for (let j = 0; j <= steps; j++) {
+      for (let i = 0; i <= steps; i++) {
+        const values = surface(i / steps, j / steps);
+        const result = values ? vertex(values) : null;
+        valid.push(result !== null);
+        const [x, y, z] = result ? result.position : [0.5, 0.5, 0.5];
+        positions.push(x - 0.5, y - 0.5, z - 0.5);
+        // Vertex colors are linear; convert from sRGB
+        const [r, g, b] = result ? result.rgb : [0, 0, 0];
+        color.setRGB(r / 255, g / 255, b / 255, THREE.SRGBColorSpace);
+        colors.push(color.r, color.g, color.b);
+      }
+    }
+
+    // Two triangles per grid cell, skipping cells that touch a missing vertex
+    const row = steps + 1;
+    for (let j = 0; j < steps; j++) {
+      for (let i = 0; i < steps; i++) {
+        const a = j * row + i;
+        const b = a + 1;
+        const c = a + row;
+        const d = c + 1;
+        if (!valid[a] || !valid[b] || !valid[c] || !valid[d]) continue;
+        indices.push(base + a, base + b, base + d, base + a, base + d, base + c);
+      }
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
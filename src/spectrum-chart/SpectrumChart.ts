@@ -0,0 +1,278 @@
+/**
+ * Spectrum Chart – draws spectral power distributions or reflectance curves against wavelength,
+ * filled with the color of each wavelength.
+ */
+
+import Konva from 'konva';
+import { SpectrumInput, sampleSpectrum, toSpectrum, wavelengthToRgb } from '../utils/spectral';
+import { createCvdTransform } from '../utils/colorVisionDeficiency';
+import type { ColorTransform, CvdOptions } from '../utils/colorVisionDeficiency';
+
+/**
+ * A spectrum with how to draw it
+ */
+export interface SpectrumChartSeries {
+  spectrum: SpectrumInput;
+  label?: string; // Shown in the legend
+  color?: string; // Line color (default '#222')
+  fill?: 'wavelength' | string | null; // Wavelength-colored fill (default), a CSS color, or none
+}
+
+export interface SpectrumChartOptions {
+  spectra?: Array<SpectrumInput | SpectrumChartSeries>;
+  width?: number; // Default: container width, else 480
+  height?: number; // Default: container height, else 240
+  range?: [number, number]; // Wavelength range in nm (default [380, 780])
+  normalize?: boolean; // Scale each spectrum to a peak of 1 (default true)
+  yMax?: number; // Top of the value axis when not normalizing (default: largest value)
+  yLabel?: string; // Default 'Relative power' ('Relative value' with several fills)
+  fillOpacity?: number; // Default 0.85
+  showSpectrumBar?: boolean; // Wavelength color bar under the axis (default true)
+  backgroundColor?: string; // Default '#fff'
+  colorVisionDeficiency?: CvdOptions | null; // Draw the fills as seen with this deficiency
+}
+
+export interface SpectrumChartInstance {
+  getElement(): HTMLElement;
+  getStage(): Konva.Stage;
+  setSpectra(spectra: Array<SpectrumInput | SpectrumChartSeries>): void;
+  setColorVisionDeficiency(options: CvdOptions | null): void;
+  resize(width: number, height: number): void;
+  destroy(): void;
+}
+
+const MARGIN = { top: 12, right: 12, bottom: 40, left: 48 };
+const BAR_HEIGHT = 8;
+
+function isSeries(entry: SpectrumInput | SpectrumChartSeries): entry is SpectrumChartSeries {
+  return !Array.isArray(entry) && 'spectrum' in entry;
+}
+
+export function SpectrumChart(
+  container: HTMLElement,
+  options: SpectrumChartOptions = {}
+): SpectrumChartInstance {
+  const opts = options;
+  const range = opts.range ?? [380, 780];
+  const normalize = opts.normalize !== false;
+  const fillOpacity = opts.fillOpacity ?? 0.85;
+  const showSpectrumBar = opts.showSpectrumBar !== false;
+  let series: SpectrumChartSeries[] = (opts.spectra ?? []).map((entry) => (isSeries(entry) ? entry : { spectrum: entry }));
+  let colorTransform: ColorTransform | null = opts.colorVisionDeficiency
+    ? createCvdTransform(opts.colorVisionDeficiency)
+    : null;
+
+  const root = document.createElement('div');
+  root.className = 'negarity-spectrum-chart';
+  container.appendChild(root);
+
+  const stage = new Konva.Stage({
+    container: root,
+    width: opts.width ?? (container.clientWidth || 480),
+    height: opts.height ?? (container.clientHeight || 240),
+  });
+  const layer = new Konva.Layer();
+  stage.add(layer);
+
+  // Display color of a wavelength (simulated when a deficiency is set)
+  function wavelengthColor(wavelength: number): string {
+    const rgb = wavelengthToRgb(wavelength);
+    const [r, g, b] = colorTransform ? colorTransform(rgb) : rgb;
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+
+  // Gradient stops across the plot width, one every 5 nm
+  function wavelengthStops(): Array<number | string> {
+    const stops: Array<number | string> = [];
+    for (let w = range[0]; w <= range[1]; w += 5) {
+      stops.push((w - range[0]) / (range[1] - range[0]), wavelengthColor(w));
+    }
+    return stops;
+  }
+
+  function render(): void {
+    layer.destroyChildren();
+    const width = stage.width();
+    const height = stage.height();
+    const plot = {
+      x: MARGIN.left,
+      y: MARGIN.top,
+      width: Math.max(10, width - MARGIN.left - MARGIN.right),
+      height: Math.max(10, height - MARGIN.top - MARGIN.bottom),
+    };
+    const toX = (wavelength: number) => plot.x + ((wavelength - range[0]) / (range[1] - range[0])) * plot.width;
+
+    layer.add(new Konva.Rect({ x: 0, y: 0, width, height, fill: opts.backgroundColor ?? '#fff', listening: false }));
+
+    // Values inside the range, with interpolated ends
+    const curves = series.map((entry) => {
+      const spectrum = toSpectrum(entry.spectrum);
+      const inner = spectrum.wavelengths
+        .map((w, i): [number, number] => [w, spectrum.values[i]])
+        .filter(([w]) => w > range[0] && w < range[1]);
+      const first = Math.max(range[0], spectrum.wavelengths[0] ?? range[0]);
+      const last = Math.min(range[1], spectrum.wavelengths[spectrum.wavelengths.length - 1] ?? range[1]);
+      const samples: Array<[number, number]> = spectrum.wavelengths.length === 0 || first > last
+        ? []
+        : [[first, sampleSpectrum(spectrum, first)], ...inner.filter(([w]) => w > first && w < last), [last, sampleSpectrum(spectrum, last)]];
+      const peak = Math.max(0, ...samples.map(([, v]) => v));
+      return { entry, samples: normalize && peak > 0 ? samples.map(([w, v]): [number, number] => [w, v / peak]) : samples };
+    });
+    const dataMax = Math.max(0, ...curves.flatMap((curve) => curve.samples.map(([, v]) => v)));
+    const yMax = normalize ? 1 : opts.yMax ?? (dataMax > 0 ? dataMax : 1);
+    const toY = (value: number) => plot.y + plot.height - (Math.max(0, Math.min(yMax, value)) / yMax) * plot.height;
+
+    renderAxes(plot, toX, yMax, curves.length > 1);
+
+    curves.forEach(({ entry, samples }) => {
+      if (samples.length < 2) return;
+      const points = samples.flatMap(([w, v]) => [toX(w), toY(v)]);
+      const fill = entry.fill === undefined ? 'wavelength' : entry.fill;
+      if (fill) {
+        const area = [toX(samples[0][0]), toY(0), ...points, toX(samples[samples.length - 1][0]), toY(0)];
+        layer.add(new Konva.Line({
+          points: area,
+          closed: true,
+          opacity: fillOpacity,
+          listening: false,
+          ...(fill === 'wavelength'
+            ? {
+                fillLinearGradientStartPoint: { x: plot.x, y: 0 },
+                fillLinearGradientEndPoint: { x: plot.x + plot.width, y: 0 },
+                fillLinearGradientColorStops: wavelengthStops(),
+              }
+            : { fill }),
+        }));
+      }
+      layer.add(new Konva.Line({
+        points,
+        stroke: entry.color || '#222',
+        strokeWidth: 1.5,
+        lineJoin: 'round',
+        listening: false,
+      }));
+    });
+
+    renderLegend(plot);
+    layer.draw();
+  }
+
+  function renderAxes(
+    plot: { x: number; y: number; width: number; height: number },
+    toX: (wavelength: number) => number,
+    yMax: number,
+    several: boolean
+  ): void {
+    const axisColor = '#666';
+    const bottom = plot.y + plot.height;
+    layer.add(new Konva.Line({
+      points: [plot.x, plot.y, plot.x, bottom, plot.x + plot.width, bottom],
+      stroke: axisColor,
+      strokeWidth: 1,
+      listening: false,
+    }));
+
+    if (showSpectrumBar) {
+      layer.add(new Konva.Rect({
+        x: plot.x,
+        y: bottom + 2,
+        width: plot.width,
+        height: BAR_HEIGHT,
+        fillLinearGradientStartPoint: { x: 0, y: 0 },
+        fillLinearGradientEndPoint: { x: plot.width, y: 0 },
+        fillLinearGradientColorStops: wavelengthStops(),
+        listening: false,
+      }));
+    }
+
+    // Wavelength ticks every 50 nm (100 nm when crowded)
+    const span = range[1] - range[0];
+    const step = plot.width / (span / 50) < 40 ? 100 : 50;
+    const labelY = bottom + (showSpectrumBar ? BAR_HEIGHT + 4 : 4);
+    for (let w = Math.ceil(range[0] / step) * step; w <= range[1]; w += step) {
+      const x = toX(w);
+      layer.add(new Konva.Line({ points: [x, bottom, x, bottom + 3], stroke: axisColor, strokeWidth: 1, listening: false }));
+      layer.add(new Konva.Text({ x: x - 20, y: labelY, width: 40, align: 'center', text: String(w), fontSize: 10, fill: axisColor, listening: false }));
+    }
+    layer.add(new Konva.Text({
+      x: plot.x,
+      y: labelY + 13,
+      width: plot.width,
+      align: 'center',
+      text: 'Wavelength (nm)',
+      fontSize: 11,
+      fill: '#333',
+      listening: false,
+    }));
+
+    // Value ticks at quarters of the axis
+    for (let i = 0; i <= 4; i++) {
+      const value = (yMax * i) / 4;
+      const y = bottom - (plot.height * i) / 4;
+      if (i > 0) {
+        layer.add(new Konva.Line({ points: [plot.x, y, plot.x + plot.width, y], stroke: '#eee', strokeWidth: 1, listening: false }));
+      }
+      layer.add(new Konva.Text({
+        x: 0,
+        y: y - 5,
+        width: plot.x - 6,
+        align: 'right',
+        text: Number(value.toPrecision(3)).toString(),
+        fontSize: 10,
+        fill: axisColor,
+        listening: false,
+      }));
+    }
+    layer.add(new Konva.Text({
+      x: 2,
+      y: plot.y + plot.height / 2 + 40,
+      width: 80,
+      text: opts.yLabel ?? (several ? 'Relative value' : 'Relative power'),
+      fontSize: 11,
+      fill: '#333',
+      rotation: -90,
+      listening: false,
+    }));
+  }
+
+  // Labeled series, top right inside the plot
+  function renderLegend(plot: { x: number; y: number; width: number; height: number }): void {
+    const labeled = series.filter((entry) => entry.label);
+    labeled.forEach((entry, i) => {
+      const y = plot.y + 4 + i * 14;
+      const x = plot.x + plot.width - 120;
+      layer.add(new Konva.Line({ points: [x, y + 5, x + 14, y + 5], stroke: entry.color || '#222', strokeWidth: 2, listening: false }));
+      layer.add(new Konva.Text({ x: x + 18, y, width: 100, text: entry.label!, fontSize: 10, fill: '#333', listening: false }));
+    });
+  }
+
+  render();
+
+  return {
+    getElement() {
+      return root;
+    },
+    getStage() {
+      return stage;
+    },
+    setSpectra(spectra: Array<SpectrumInput | SpectrumChartSeries>) {
+      series = spectra.map((entry) => (isSeries(entry) ? entry : { spectrum: entry }));
+      render();
+    },
+    setColorVisionDeficiency(cvd: CvdOptions | null) {
+      colorTransform = cvd ? createCvdTransform(cvd) : null;
+      render();
+    },
+    resize(width: number, height: number) {
+      stage.width(width);
+      stage.height(height);
+      render();
+    },
+    destroy() {
+      stage.destroy();
+      root.remove();
+    },
+  };
+}
+
+export default SpectrumChart;
@@ -0,0 +1,5 @@
+/**
+ * Spectrum Chart – public API
+ */
+
+export { SpectrumChart, type SpectrumChartOptions, type SpectrumChartSeries, type SpectrumChartInstance } from './SpectrumChart';
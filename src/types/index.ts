@@ -35,8 +35,11 @@ export interface ColorAxis {
  */
 export interface ColorPoint {
   values: number[];
-  color: string; // Hex color
+  color: string; // Hex color (ColorVisualizer also accepts any CSS color and converts it to hex)
   label?: string;
+  weight?: number; // Relative weight 0-1 (e.g. histogram share); scales the marker size
+  mappedColor?: string; // Hex of the values mapped into sRGB (filled in by the renderers)
+  inGamut?: boolean; // false when the values lie outside sRGB (filled in by the renderers)
 }
 
 /**
@@ -59,12 +62,73 @@ export interface VisualizerConfig {
   custom?: Record<string, unknown>;
 }
 
+/**
+ * Chromaticity diagram: CIE 1931 xy or CIE 1976 u′v′
+ */
+export type ChromaticityDiagram = 'xy' | 'uv';
+
+/**
+ * Standard illuminant names in the white point catalogue (CIE 1931 2° observer)
+ */
+export type WhitePointName =
+  | 'A' | 'B' | 'C' | 'D50' | 'D55' | 'D65' | 'D75' | 'E'
+  | 'F1' | 'F2' | 'F3' | 'F4' | 'F5' | 'F6' | 'F7' | 'F8' | 'F9' | 'F10' | 'F11' | 'F12';
+
+/**
+ * White point: catalogue name or xy chromaticity
+ */
+export type WhitePoint = WhitePointName | [number, number];
+
+/**
+ * Chromatic adaptation transform
+ */
+export type ChromaticAdaptation = 'bradford' | 'cat02' | 'vonKries';
+
+/**
+ * Surround of a viewing condition (CIECAM02 / CAM16): reflective prints and displays in a lit room
+ * are 'average', TV in a dim room 'dim', projection in a dark room 'dark'
+ */
+export type Surround = 'average' | 'dim' | 'dark';
+
+/**
+ * Viewing conditions of the CIECAM02 / CAM16 appearance models
+ */
+export interface ViewingConditions {
+  whitePoint?: WhitePoint; // Adopted white (default 'D65')
+  adaptingLuminance?: number; // L_A in cd/m² (default 64 / π × 0.2 ≈ 4.07: 20% grey under 64 lux)
+  backgroundLuminance?: number; // Y_b, luminance of the background relative to white (default 20)
+  surround?: Surround; // Default 'average'
+  discounting?: boolean; // Discount the illuminant (full adaptation, D = 1); default false
+}
+
+/**
+ * YCbCr matrix coefficients: ITU-R BT.601 (SD video, JPEG), BT.709 (HD) or BT.2020 (UHD, non-constant luminance)
+ */
+export type YcbcrMatrix = 'bt601' | 'bt709' | 'bt2020';
+
+/**
+ * YCbCr code range: 'limited' (studio swing, Y 16-235 and Cb/Cr 16-240) or 'full' (0-255, as in JPEG/JFIF)
+ */
+export type YcbcrRange = 'limited' | 'full';
+
+/**
+ * How 8-bit YCbCr values encode R′G′B′
+ */
+export interface YcbcrEncoding {
+  matrix?: YcbcrMatrix; // Default 'bt601'
+  range?: YcbcrRange; // Default 'limited'
+}
+
 /**
  * Preset configuration
  */
 export interface PresetConfig {
   name: string;
   colorSpace: ColorSpace;
+  whitePoint?: WhitePoint; // Reference white for Lab/LCh/XYZ values (default 'D65')
+  adaptation?: ChromaticAdaptation; // Transform used to adapt to/from D65 (default 'bradford')
+  viewingConditions?: ViewingConditions; // CAM16 spaces: adapting luminance, background and surround
+  ycbcr?: YcbcrEncoding; // YCbCr: matrix coefficients and code range (default BT.601, limited range)
   shape?: 'cube' | 'sphere' | 'cylinder' | 'custom';
   size?: {
     width: number;
@@ -75,6 +139,106 @@ export interface PresetConfig {
   config?: Partial<VisualizerConfig>;
 }
 
+/**
+ * A color point, or any CSS color string mapped into the preset's color space
+ */
+export type ColorPointInput = ColorPoint | string;
+
+/**
+ * Preset as accepted by ColorVisualizer.render: points may be CSS color strings
+ */
+export type PresetInput = Omit<PresetConfig, 'points'> & { points?: ColorPointInput[] };
+
+/**
+ * Emitted while a marker is dragged (2D)
+ */
+export interface PointChangeEvent {
+  point: ColorPoint; // Point with the new values and color
+  previous: ColorPoint; // Point as it was before the drag started
+  index: number; // Index in the preset's points
+  final: boolean; // true on drag end
+}
+
+/**
+ * Emitted when the harmony overlay's palette changes because its base marker is dragged (2D)
+ */
+export interface HarmonyChangeEvent {
+  points: ColorPoint[]; // Harmony colors, the base first
+  base: number; // Index of the base point in the preset's points
+  final: boolean; // true on drag end
+}
+
+/**
+ * Color under the pointer (hover/click on the 2D view or the 3D shape)
+ * All color fields are null when the pointer is not over a color
+ */
+export interface PointerColorEvent {
+  mode: RenderMode;
+  position: [number, number]; // Pixels relative to the canvas
+  values: number[] | null; // In the current preset's color space
+  xy: [number, number] | null; // CIE xy chromaticity
+  lab: [number, number, number] | null; // CIE Lab (D65)
+  hex: string | null;
+  cct: number | null; // Correlated color temperature (Kelvin)
+  duv: number | null; // Distance from the Planckian locus (CIE 1960 uv, > 0 above)
+}
+
+/**
+ * A color point was hovered or clicked (point and index are null when the pointer leaves)
+ */
+export interface PointEvent {
+  point: ColorPoint | null;
+  index: number | null;
+}
+
+/**
+ * Emitted after a preset is rendered
+ */
+export interface RenderEvent {
+  preset: PresetConfig;
+  mode: RenderMode;
+}
+
+/**
+ * Emitted after the visualization is resized
+ */
+export interface ResizeEvent {
+  width: number;
+  height: number;
+}
+
+/**
+ * Emitted when the render mode switches (3D ↔ 2D)
+ */
+export interface ModeChangeEvent {
+  mode: RenderMode;
+  previousMode: RenderMode;
+}
+
+/**
+ * Events emitted by ColorVisualizer (see on/off/once)
+ */
+export interface ColorVisualizerEventMap {
+  hover: PointerColorEvent; // Pointer moved over the view
+  click: PointerColorEvent; // Click on the view (not on a point)
+  pointhover: PointEvent; // Pointer entered (or left) a color point
+  pointclick: PointEvent; // Color point clicked
+  select: PointEvent; // Selected point changed (clicking a point selects it, clicking elsewhere clears)
+  pointchange: PointChangeEvent; // Marker dragged (2D)
+  harmonychange: HarmonyChangeEvent; // Harmony base marker dragged (2D)
+  render: RenderEvent;
+  resize: ResizeEvent;
+  modechange: ModeChangeEvent;
+}
+
+/**
+ * Callback renderers use to report events to ColorVisualizer
+ */
+export type RendererEventHandler = <K extends keyof ColorVisualizerEventMap>(
+  type: K,
+  event: ColorVisualizerEventMap[K]
+) => void;
+
 /**
  * Renderer interface
  */
@@ -84,4 +248,21 @@ export interface IRenderer {
   update(points: ColorPoint[]): void;
   destroy(): void;
   resize(width: number, height: number): void;
+  setEventHandler?(handler: RendererEventHandler | null): void;
+  exportImage?(options: ExportOptions): string;
+}
+
+/**
+ * Export format: raster data URLs (PNG/JPEG) or SVG markup
+ */
+export type ExportFormat = 'png' | 'jpeg' | 'svg';
+
+/**
+ * Options for ColorVisualizer.export
+ */
+export interface ExportOptions {
+  format?: ExportFormat; // Default 'png'
+  pixelRatio?: number; // Output scale (default: device pixel ratio); for SVG, the resolution of embedded images
+  background?: string | null; // Default: config backgroundColor; null for transparent (JPEG falls back to white)
+  quality?: number; // JPEG quality 0-1 (default 0.92)
 }
@@ -0,0 +1,606 @@
+/**
+ * Batch color conversions on typed arrays
+ * Each conversion reads interleaved channels from one buffer and writes them to another without
+ * allocating per color, so image-sized data (e.g. ImageData pixels) can be converted in one pass.
+ * Results match the scalar functions in colorConversion.ts, rounding included.
+ */
+
+import type { ChromaticAdaptation, ChromaticityDiagram, WhitePoint, YcbcrEncoding } from '../types';
+import {
+  chromaticAdaptationMatrix,
+  diagramToXy,
+  getSpectralLocus,
+  getWhitePointXyz,
+  getYcbcrParameters,
+  isInsideSpectralLocus,
+  xyToRgb,
+} from './colorConversion';
+import { Matrix3 } from './matrix3';
+
+/**
+ * Buffers the batch conversions read from and write to
+ */
+export type ColorBuffer = Float32Array | Float64Array | Uint8ClampedArray | Uint8Array | Uint16Array | number[];
+
+/**
+ * Conversions available in batch form (named after the scalar functions)
+ */
+export type BatchConversion =
+  | 'rgbToXyz'
+  | 'xyzToRgb'
+  | 'xyzToLab'
+  | 'labToXyz'
+  | 'labToLch'
+  | 'lchToLab'
+  | 'xyzToLch'
+  | 'lchToXyz'
+  | 'rgbToLab'
+  | 'labToRgb'
+  | 'rgbToLch'
+  | 'lchToRgb'
+  | 'rgbToHsl'
+  | 'hslToRgb'
+  | 'rgbToHsv'
+  | 'hsvToRgb'
+  | 'rgbToYcbcr'
+  | 'ycbcrToRgb'
+  | 'rgbToCmyk'
+  | 'cmykToRgb'
+  | 'xyzToXy'
+  | 'rgbToXy';
+
+export interface BatchOptions {
+  count?: number; // Number of colors to convert (default: every whole color in the input)
+  inputStride?: number; // Array elements per input color (default: its channel count; 4 reads RGBA pixels)
+  outputStride?: number; // Array elements per output color (default: its channel count)
+  whitePoint?: WhitePoint; // Reference white of Lab/LCh values (default 'D65')
+  adaptation?: ChromaticAdaptation; // Transform used to adapt to/from D65 (default 'bradford')
+  ycbcr?: YcbcrEncoding; // Matrix and range of YCbCr values (default BT.601, limited range)
+}
+
+/**
+ * Converts the color at input[i] and writes it to output[o]
+ */
+type Kernel = (input: ArrayLike<number>, i: number, output: ColorBuffer, o: number) => void;
+
+interface ConversionSpec {
+  input: number; // Channels read per color
+  output: number; // Channels written per color
+  bytes: boolean; // Output is sRGB 0-255 (default buffer Uint8ClampedArray instead of Float32Array)
+  create: (options: BatchOptions) => Kernel;
+}
+
+/** sRGB decoding of a 0-255 channel to linear 0-1 */
+const linearize = (value: number): number => {
+  const normalized = value / 255;
+  return normalized > 0.04045 ? Math.pow((normalized + 0.055) / 1.055, 2.4) : normalized / 12.92;
+};
+
+/** sRGB encoding of a linear channel, rounded and clipped to 0-255 */
+const encode = (value: number): number => {
+  const gamma = value <= 0.0031308 ? 12.92 * value : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(gamma * 255)));
+};
+
+const rgbToXyz: Kernel = (input, i, output, o) => {
+  const r = linearize(input[i]);
+  const g = linearize(input[i + 1]);
+  const b = linearize(input[i + 2]);
+  output[o] = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) * 100;
+  output[o + 1] = (r * 0.2126729 + g * 0.7151522 + b * 0.0721750) * 100;
+  output[o + 2] = (r * 0.0193339 + g * 0.1191920 + b * 0.9503041) * 100;
+};
+
+const xyzToRgb: Kernel = (input, i, output, o) => {
+  const x = input[i] / 100;
+  const y = input[i + 1] / 100;
+  const z = input[i + 2] / 100;
+  output[o] = encode(x * 3.2404542 + y * -1.5371385 + z * -0.4985314);
+  output[o + 1] = encode(x * -0.9692660 + y * 1.8760108 + z * 0.0415560);
+  output[o + 2] = encode(x * 0.0556434 + y * -0.2040259 + z * 1.0572252);
+};
+
+/**
+ * Adaptation matrix from D65 to the Lab reference white, or null when the white is D65
+ */
+function labAdaptation(options: BatchOptions, inverse: boolean): Matrix3 | null {
+  const whitePoint = options.whitePoint ?? 'D65';
+  if (whitePoint === 'D65') return null;
+  const method = options.adaptation ?? 'bradford';
+  return inverse
+    ? chromaticAdaptationMatrix(whitePoint, 'D65', method)
+    : chromaticAdaptationMatrix('D65', whitePoint, method);
+}
+
+const createXyzToLab = (options: BatchOptions): Kernel => {
+  const m = labAdaptation(options, false);
+  const [xn, yn, zn] = getWhitePointXyz(options.whitePoint ?? 'D65');
+  const f = (t: number) => (t > 0.008856 ? Math.pow(t, 1 / 3) : 7.787 * t + 16 / 116);
+  return (input, i, output, o) => {
+    let x = input[i];
+    let y = input[i + 1];
+    let z = input[i + 2];
+    if (m) {
+      const ax = m[0][0] * x + m[0][1] * y + m[0][2] * z;
+      const ay = m[1][0] * x + m[1][1] * y + m[1][2] * z;
+      z = m[2][0] * x + m[2][1] * y + m[2][2] * z;
+      x = ax;
+      y = ay;
+    }
+    const fx = f(x / xn);
+    const fy = f(y / yn);
+    const fz = f(z / zn);
+    output[o] = 116 * fy - 16;
+    output[o + 1] = 500 * (fx - fy);
+    output[o + 2] = 200 * (fy - fz);
+  };
+};
+
+const createLabToXyz = (options: BatchOptions): Kernel => {
+  const m = labAdaptation(options, true);
+  const [xn, yn, zn] = getWhitePointXyz(options.whitePoint ?? 'D65');
+  const f = (t: number) => {
+    const t3 = t * t * t;
+    return t3 > 0.008856 ? t3 : (t - 16 / 116) / 7.787;
+  };
+  return (input, i, output, o) => {
+    const fy = (input[i] + 16) / 116;
+    const x = f(input[i + 1] / 500 + fy) * xn;
+    const y = f(fy) * yn;
+    const z = f(fy - input[i + 2] / 200) * zn;
+    if (m) {
+      output[o] = m[0][0] * x + m[0][1] * y + m[0][2] * z;
+      output[o + 1] = m[1][0] * x + m[1][1] * y + m[1][2] * z;
+      output[o + 2] = m[2][0] * x + m[2][1] * y + m[2][2] * z;
+    } else {
+      output[o] = x;
+      output[o + 1] = y;
+      output[o + 2] = z;
+    }
+  };
+};
+
+const labToLch: Kernel = (input, i, output, o) => {
+  const a = input[i + 1];
+  const b = input[i + 2];
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  output[o] = input[i];
+  output[o + 1] = Math.sqrt(a * a + b * b);
+  output[o + 2] = h < 0 ? h + 360 : h;
+};
+
+const lchToLab: Kernel = (input, i, output, o) => {
+  const c = input[i + 1];
+  const hRad = (input[i + 2] * Math.PI) / 180;
+  output[o] = input[i];
+  output[o + 1] = c * Math.cos(hRad);
+  output[o + 2] = c * Math.sin(hRad);
+};
+
+const rgbToHsl: Kernel = (input, i, output, o) => {
+  const r = input[i] / 255;
+  const g = input[i + 1] / 255;
+  const b = input[i + 2] / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+    else if (max === g) h = ((b - r) / d + 2) / 6;
+    else h = ((r - g) / d + 4) / 6;
+  }
+  output[o] = h * 360;
+  output[o + 1] = s * 100;
+  output[o + 2] = l * 100;
+};
+
+const hue2rgb = (p: number, q: number, t: number) => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+};
+
+const hslToRgb: Kernel = (input, i, output, o) => {
+  const h = input[i] / 360;
+  const s = input[i + 1] / 100;
+  const l = input[i + 2] / 100;
+  if (s === 0) {
+    output[o] = output[o + 1] = output[o + 2] = Math.round(l * 255);
+    return;
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  output[o] = Math.round(hue2rgb(p, q, h + 1 / 3) * 255);
+  output[o + 1] = Math.round(hue2rgb(p, q, h) * 255);
+  output[o + 2] = Math.round(hue2rgb(p, q, h - 1 / 3) * 255);
+};
+
+const rgbToHsv: Kernel = (input, i, output, o) => {
+  const r = input[i] / 255;
+  const g = input[i + 1] / 255;
+  const b = input[i + 2] / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+  let h = 0;
+  if (max !== min) {
+    if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+    else if (max === g) h = ((b - r) / d + 2) / 6;
+    else h = ((r - g) / d + 4) / 6;
+  }
+  output[o] = h * 360;
+  output[o + 1] = (max === 0 ? 0 : d / max) * 100;
+  output[o + 2] = max * 100;
+};
+
+const hsvToRgb: Kernel = (input, i, output, o) => {
+  const h = input[i] / 360;
+  const s = input[i + 1] / 100;
+  const v = input[i + 2] / 100;
+  const sector = Math.floor(h * 6);
+  const f = h * 6 - sector;
+  const p = Math.round(v * (1 - s) * 255);
+  const q = Math.round(v * (1 - f * s) * 255);
+  const t = Math.round(v * (1 - (1 - f) * s) * 255);
+  const w = Math.round(v * 255);
+  // Same sector table as hsvToRgb (a negative sector falls through to black)
+  switch (sector % 6) {
+    case 0: output[o] = w; output[o + 1] = t; output[o + 2] = p; break;
+    case 1: output[o] = q; output[o + 1] = w; output[o + 2] = p; break;
+    case 2: output[o] = p; output[o + 1] = w; output[o + 2] = t; break;
+    case 3: output[o] = p; output[o + 1] = q; output[o + 2] = w; break;
+    case 4: output[o] = t; output[o + 1] = p; output[o + 2] = w; break;
+    case 5: output[o] = w; output[o + 1] = p; output[o + 2] = q; break;
+    default: output[o] = output[o + 1] = output[o + 2] = 0;
+  }
+};
+
+function createRgbToYcbcr(options: BatchOptions): Kernel {
+  const { kr, kb, yOffset, yScale, cScale } = getYcbcrParameters(options.ycbcr);
+  const kg = 1 - kr - kb;
+  const clip = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  return (input, i, output, o) => {
+    const r = input[i] / 255;
+    const b = input[i + 2] / 255;
+    const luma = kr * r + kg * input[i + 1] / 255 + kb * b;
+    output[o] = clip(yOffset + yScale * luma);
+    output[o + 1] = clip(128 + (cScale * (b - luma)) / (2 * (1 - kb)));
+    output[o + 2] = clip(128 + (cScale * (r - luma)) / (2 * (1 - kr)));
+  };
+}
+
+function createYcbcrToRgb(options: BatchOptions): Kernel {
+  const { kr, kb, yOffset, yScale, cScale } = getYcbcrParameters(options.ycbcr);
+  const kg = 1 - kr - kb;
+  const clip = (value: number) => Math.max(0, Math.min(255, Math.round(value * 255)));
+  return (input, i, output, o) => {
+    const luma = (input[i] - yOffset) / yScale;
+    const r = luma + (2 * (1 - kr) * (input[i + 2] - 128)) / cScale;
+    const b = luma + (2 * (1 - kb) * (input[i + 1] - 128)) / cScale;
+    output[o] = clip(r);
+    output[o + 1] = clip((luma - kr * r - kb * b) / kg);
+    output[o + 2] = clip(b);
+  };
+}
+
+const rgbToCmyk: Kernel = (input, i, output, o) => {
+  const r = input[i] / 255;
+  const g = input[i + 1] / 255;
+  const b = input[i + 2] / 255;
+  const k = 1 - Math.max(r, g, b);
+  output[o] = k === 1 ? 0 : ((1 - r - k) / (1 - k)) * 100;
+  output[o + 1] = k === 1 ? 0 : ((1 - g - k) / (1 - k)) * 100;
+  output[o + 2] = k === 1 ? 0 : ((1 - b - k) / (1 - k)) * 100;
+  output[o + 3] = k * 100;
+};
+
+const cmykToRgb: Kernel = (input, i, output, o) => {
+  const k = 1 - input[i + 3] / 100;
+  output[o] = Math.round(255 * (1 - input[i] / 100) * k);
+  output[o + 1] = Math.round(255 * (1 - input[i + 1] / 100) * k);
+  output[o + 2] = Math.round(255 * (1 - input[i + 2] / 100) * k);
+};
+
+const xyzToXy: Kernel = (input, i, output, o) => {
+  const sum = input[i] + input[i + 1] + input[i + 2];
+  output[o] = sum === 0 ? 0 : input[i] / sum;
+  output[o + 1] = sum === 0 ? 0 : input[i + 1] / sum;
+};
+
+/**
+ * Chain kernels through a scratch buffer (allocated once per batch, not per color)
+ */
+function chain(...kernels: Kernel[]): Kernel {
+  const scratch = new Float64Array(4);
+  return (input, i, output, o) => {
+    kernels[0](input, i, scratch, 0);
+    for (let k = 1; k < kernels.length - 1; k++) {
+      kernels[k](scratch, 0, scratch, 0);
+    }
+    kernels[kernels.length - 1](scratch, 0, output, o);
+  };
+}
+
+const fixed = (kernel: Kernel) => () => kernel;
+
+const CONVERSIONS: Record<BatchConversion, ConversionSpec> = {
+  rgbToXyz: { input: 3, output: 3, bytes: false, create: fixed(rgbToXyz) },
+  xyzToRgb: { input: 3, output: 3, bytes: true, create: fixed(xyzToRgb) },
+  xyzToLab: { input: 3, output: 3, bytes: false, create: createXyzToLab },
+  labToXyz: { input: 3, output: 3, bytes: false, create: createLabToXyz },
+  labToLch: { input: 3, output: 3, bytes: false, create: fixed(labToLch) },
+  lchToLab: { input: 3, output: 3, bytes: false, create: fixed(lchToLab) },
+  xyzToLch: { input: 3, output: 3, bytes: false, create: (options) => chain(createXyzToLab(options), labToLch) },
+  lchToXyz: { input: 3, output: 3, bytes: false, create: (options) => chain(lchToLab, createLabToXyz(options)) },
+  rgbToLab: { input: 3, output: 3, bytes: false, create: (options) => chain(rgbToXyz, createXyzToLab(options)) },
+  labToRgb: { input: 3, output: 3, bytes: true, create: (options) => chain(createLabToXyz(options), xyzToRgb) },
+  rgbToLch: {
+    input: 3,
+    output: 3,
+    bytes: false,
+    create: (options) => chain(rgbToXyz, createXyzToLab(options), labToLch),
+  },
+  lchToRgb: {
+    input: 3,
+    output: 3,
+    bytes: true,
+    create: (options) => chain(lchToLab, createLabToXyz(options), xyzToRgb),
+  },
+  rgbToHsl: { input: 3, output: 3, bytes: false, create: fixed(rgbToHsl) },
+  hslToRgb: { input: 3, output: 3, bytes: true, create: fixed(hslToRgb) },
+  rgbToHsv: { input: 3, output: 3, bytes: false, create: fixed(rgbToHsv) },
+  hsvToRgb: { input: 3, output: 3, bytes: true, create: fixed(hsvToRgb) },
+  rgbToYcbcr: { input: 3, output: 3, bytes: true, create: createRgbToYcbcr },
+  ycbcrToRgb: { input: 3, output: 3, bytes: true, create: createYcbcrToRgb },
+  rgbToCmyk: { input: 3, output: 4, bytes: false, create: fixed(rgbToCmyk) },
+  cmykToRgb: { input: 4, output: 3, bytes: true, create: fixed(cmykToRgb) },
+  xyzToXy: { input: 3, output: 2, bytes: false, create: fixed(xyzToXy) },
+  rgbToXy: { input: 3, output: 2, bytes: false, create: () => chain(rgbToXyz, xyzToXy) },
+};
+
+/**
+ * Channels read and written per color by a batch conversion
+ */
+export function getBatchChannels(conversion: BatchConversion): { input: number; output: number } {
+  const spec = CONVERSIONS[conversion];
+  if (!spec) {
+    throw new Error(`Unknown batch conversion: ${conversion}`);
+  }
+  return { input: spec.input, output: spec.output };
+}
+
+/**
+ * Convert a buffer of interleaved colors; returns the output buffer
+ * Without an output a Float32Array is allocated (Uint8ClampedArray for sRGB 0-255 results).
+ * e.g. convertBatch('rgbToLab', imageData.data, undefined, { inputStride: 4 })
+ */
+export function convertBatch<T extends ColorBuffer = Float32Array | Uint8ClampedArray>(
+  conversion: BatchConversion,
+  input: ArrayLike<number>,
+  output?: T,
+  options: BatchOptions = {}
+): T {
+  const spec = CONVERSIONS[conversion];
+  if (!spec) {
+    throw new Error(`Unknown batch conversion: ${conversion}`);
+  }
+  const inputStride = options.inputStride ?? spec.input;
+  const outputStride = options.outputStride ?? spec.output;
+  if (inputStride < spec.input || outputStride < spec.output) {
+    throw new Error(`${conversion} needs strides of at least ${spec.input} (input) and ${spec.output} (output).`);
+  }
+  const count = Math.min(
+    options.count ?? Infinity,
+    Math.floor((input.length - spec.input) / inputStride) + 1
+  );
+  const target = output ?? ((spec.bytes
+    ? new Uint8ClampedArray(Math.max(0, count) * outputStride)
+    : new Float32Array(Math.max(0, count) * outputStride)) as ColorBuffer as T);
+  if (count <= 0) return target;
+  if (target.length < (count - 1) * outputStride + spec.output) {
+    throw new Error(`Output buffer is too small for ${count} colors.`);
+  }
+
+  const kernel = spec.create(options);
+  for (let n = 0, i = 0, o = 0; n < count; n++, i += inputStride, o += outputStride) {
+    kernel(input, i, target, o);
+  }
+  return target;
+}
+
+/**
+ * sRGB (0-255) to XYZ (D65, 0-100)
+ */
+export function rgbToXyzBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToXyz', input, output, options);
+}
+
+/**
+ * XYZ (D65, 0-100) to sRGB (0-255), clipped like xyzToRgb
+ */
+export function xyzToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('xyzToRgb', input, output, options);
+}
+
+/**
+ * XYZ (D65) to Lab relative to options.whitePoint
+ */
+export function xyzToLabBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('xyzToLab', input, output, options);
+}
+
+/**
+ * Lab relative to options.whitePoint to XYZ (D65)
+ */
+export function labToXyzBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('labToXyz', input, output, options);
+}
+
+/**
+ * Lab to LCh (hue in degrees, 0-360)
+ */
+export function labToLchBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('labToLch', input, output, options);
+}
+
+/**
+ * LCh to Lab
+ */
+export function lchToLabBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('lchToLab', input, output, options);
+}
+
+/**
+ * XYZ (D65) to LCh relative to options.whitePoint
+ */
+export function xyzToLchBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('xyzToLch', input, output, options);
+}
+
+/**
+ * LCh relative to options.whitePoint to XYZ (D65)
+ */
+export function lchToXyzBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('lchToXyz', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to Lab
+ */
+export function rgbToLabBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToLab', input, output, options);
+}
+
+/**
+ * Lab to sRGB (0-255), clipped like labToRgb
+ */
+export function labToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('labToRgb', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to LCh
+ */
+export function rgbToLchBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToLch', input, output, options);
+}
+
+/**
+ * LCh to sRGB (0-255), clipped
+ */
+export function lchToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('lchToRgb', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to HSL (hue 0-360, saturation and lightness 0-100)
+ */
+export function rgbToHslBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToHsl', input, output, options);
+}
+
+/**
+ * HSL to sRGB (0-255)
+ */
+export function hslToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('hslToRgb', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to HSV (hue 0-360, saturation and value 0-100)
+ */
+export function rgbToHsvBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToHsv', input, output, options);
+}
+
+/**
+ * HSV to sRGB (0-255)
+ */
+export function hsvToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('hsvToRgb', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to YCbCr (BT.601 limited range unless options.ycbcr is given)
+ */
+export function rgbToYcbcrBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToYcbcr', input, output, options);
+}
+
+/**
+ * YCbCr (BT.601 limited range unless options.ycbcr is given) to sRGB (0-255)
+ */
+export function ycbcrToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('ycbcrToRgb', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to CMYK (0-100, four channels)
+ */
+export function rgbToCmykBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToCmyk', input, output, options);
+}
+
+/**
+ * CMYK (0-100, four channels) to sRGB (0-255)
+ */
+export function cmykToRgbBatch<T extends ColorBuffer = Uint8ClampedArray>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('cmykToRgb', input, output, options);
+}
+
+/**
+ * XYZ to xy chromaticity (two channels)
+ */
+export function xyzToXyBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('xyzToXy', input, output, options);
+}
+
+/**
+ * sRGB (0-255) to xy chromaticity (two channels)
+ */
+export function rgbToXyBatch<T extends ColorBuffer = Float32Array>(input: ArrayLike<number>, output?: T, options?: BatchOptions): T {
+  return convertBatch('rgbToXy', input, output, options);
+}
+
+/**
+ * Options of the chromaticity grid behind CIEBackground
+ */
+export interface ChromaticityGridOptions {
+  gridSize: number; // Cells per side
+  maxX: number; // Diagram extent covered by the grid
+  maxY: number;
+  diagram?: ChromaticityDiagram; // Default 'xy'
+  brightness?: number; // Luminance Y passed to xyToRgb (default 1)
+}
+
+/**
+ * RGBA pixels (gridSize × gridSize) of the visible gamut in a chromaticity diagram
+ * Row 0 is the bottom row (diagram y = 0); cells outside the spectral locus are transparent.
+ */
+export function chromaticityGridPixels(options: ChromaticityGridOptions): Uint8ClampedArray {
+  const { gridSize, maxX, maxY } = options;
+  const diagram = options.diagram ?? 'xy';
+  const brightness = options.brightness ?? 1.0;
+  const spectralLocus = getSpectralLocus();
+  const pixels = new Uint8ClampedArray(gridSize * gridSize * 4);
+  for (let j = 0; j < gridSize; j++) {
+    for (let i = 0; i < gridSize; i++) {
+      const [x, y] = diagramToXy([(i / gridSize) * maxX, (j / gridSize) * maxY], diagram);
+      if (!isInsideSpectralLocus(x, y, spectralLocus)) continue;
+      const [r, g, b] = xyToRgb(x, y, brightness);
+      const p = (j * gridSize + i) * 4;
+      pixels[p] = r;
+      pixels[p + 1] = g;
+      pixels[p + 2] = b;
+      pixels[p + 3] = 255;
+    }
+  }
+  return pixels;
+}
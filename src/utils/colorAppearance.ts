@@ -0,0 +1,333 @@
+/**
+ * CIECAM02 and CAM16 color appearance models, and CAM16-UCS
+ * XYZ (0-100, relative to the adopted white) is turned into lightness J, brightness Q, chroma C,
+ * colorfulness M, saturation s, hue angle h and hue quadrature H under given viewing conditions.
+ * CAM16 (Li et al. 2017) replaces CIECAM02's CAT02 + Hunt-Pointer-Estevez pair with one matrix.
+ */
+
+import type { ViewingConditions } from '../types';
+import { getWhitePointXyz } from './colorConversion';
+import { Matrix3, invertMatrix, multiplyMatrices, multiplyVector } from './matrix3';
+
+type AppearanceModel = 'cam16' | 'ciecam02';
+
+/**
+ * Appearance correlates of a color
+ */
+export interface ColorAppearance {
+  J: number; // Lightness (0-100)
+  C: number; // Chroma
+  h: number; // Hue angle (degrees)
+  Q: number; // Brightness
+  M: number; // Colorfulness
+  s: number; // Saturation
+  H: number; // Hue quadrature (0-400: red 0, yellow 100, green 200, blue 300)
+}
+
+/**
+ * Correlates accepted by the inverse models: one of J/Q, one of C/M/s and one of h/H
+ */
+export type ColorAppearanceInput = Partial<ColorAppearance>;
+
+/** Default adapting luminance: a 20% grey under 64 lux */
+export const DEFAULT_ADAPTING_LUMINANCE = (64 / Math.PI) * 0.2;
+
+const SURROUNDS = {
+  average: { F: 1, c: 0.69, Nc: 1 },
+  dim: { F: 0.9, c: 0.59, Nc: 0.9 },
+  dark: { F: 0.8, c: 0.525, Nc: 0.8 },
+};
+
+const M16: Matrix3 = [
+  [0.401288, 0.650173, -0.051461],
+  [-0.250268, 1.204414, 0.045854],
+  [-0.002079, 0.048952, 0.953127],
+];
+
+const CAT02: Matrix3 = [
+  [0.7328, 0.4296, -0.1624],
+  [-0.7036, 1.6975, 0.0061],
+  [0.0030, 0.0136, 0.9834],
+];
+
+const HPE: Matrix3 = [
+  [0.38971, 0.68898, -0.07868],
+  [-0.22981, 1.1834, 0.04641],
+  [0, 0, 1],
+];
+
+/** CIECAM02 goes from adapted CAT02 responses to HPE cone space before the compression */
+const CAT02_TO_HPE = multiplyMatrices(HPE, invertMatrix(CAT02));
+const HPE_TO_CAT02 = invertMatrix(CAT02_TO_HPE);
+
+/** Unique hues for hue quadrature: red, yellow, green, blue, red */
+const UNIQUE_HUES = [
+  { h: 20.14, e: 0.8, H: 0 },
+  { h: 90, e: 0.7, H: 100 },
+  { h: 164.25, e: 1, H: 200 },
+  { h: 237.53, e: 1.2, H: 300 },
+  { h: 380.14, e: 0.8, H: 400 },
+];
+
+/**
+ * Everything derived from the viewing conditions alone
+ */
+interface Environment {
+  model: AppearanceModel;
+  adaptation: Matrix3; // XYZ to the responses the degree of adaptation applies to
+  adaptationInverse: Matrix3;
+  dRgb: [number, number, number];
+  fl: number;
+  flRoot: number; // F_L^0.25
+  n: number;
+  z: number;
+  nbb: number;
+  c: number;
+  nc: number;
+  aw: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Post-adaptation compression of one response
+ */
+function compress(value: number, fl: number): number {
+  const p = Math.pow((fl * Math.abs(value)) / 100, 0.42);
+  return (Math.sign(value) * 400 * p) / (p + 27.13) + 0.1;
+}
+
+function decompress(value: number, fl: number): number {
+  const x = value - 0.1;
+  const ax = Math.min(Math.abs(x), 399.999);
+  return ((Math.sign(x) * 100) / fl) * Math.pow((27.13 * ax) / (400 - ax), 1 / 0.42);
+}
+
+/**
+ * Adapted, compressed responses of XYZ
+ */
+function responses(env: Environment, xyz: [number, number, number]): [number, number, number] {
+  const rgb = multiplyVector(env.adaptation, xyz);
+  let adapted: [number, number, number] = [rgb[0] * env.dRgb[0], rgb[1] * env.dRgb[1], rgb[2] * env.dRgb[2]];
+  if (env.model === 'ciecam02') {
+    adapted = multiplyVector(CAT02_TO_HPE, adapted);
+  }
+  return [compress(adapted[0], env.fl), compress(adapted[1], env.fl), compress(adapted[2], env.fl)];
+}
+
+function achromatic(env: Pick<Environment, 'nbb'>, [ra, ga, ba]: [number, number, number]): number {
+  return (2 * ra + ga + ba / 20 - 0.305) * env.nbb;
+}
+
+function createEnvironment(model: AppearanceModel, conditions: ViewingConditions): Environment {
+  const white = getWhitePointXyz(conditions.whitePoint ?? 'D65');
+  const la = conditions.adaptingLuminance ?? DEFAULT_ADAPTING_LUMINANCE;
+  const yb = conditions.backgroundLuminance ?? 20;
+  const surround = SURROUNDS[conditions.surround ?? 'average'];
+  if (!surround) {
+    throw new Error(`Unknown surround: ${conditions.surround}`);
+  }
+
+  const adaptation = model === 'cam16' ? M16 : CAT02;
+  const d = conditions.discounting
+    ? 1
+    : Math.min(1, Math.max(0, surround.F * (1 - (1 / 3.6) * Math.exp((-la - 42) / 92))));
+  const rgbW = multiplyVector(adaptation, white);
+  const dRgb = rgbW.map((c) => (d * white[1]) / c + 1 - d) as [number, number, number];
+
+  const k = 1 / (5 * la + 1);
+  const k4 = k * k * k * k;
+  const fl = 0.2 * k4 * 5 * la + 0.1 * (1 - k4) * (1 - k4) * Math.cbrt(5 * la);
+  const n = yb / white[1];
+  const nbb = 0.725 * Math.pow(n, -0.2);
+
+  const env: Environment = {
+    model,
+    adaptation,
+    adaptationInverse: invertMatrix(adaptation),
+    dRgb,
+    fl,
+    flRoot: Math.pow(fl, 0.25),
+    n,
+    z: 1.48 + Math.sqrt(n),
+    nbb,
+    c: surround.c,
+    nc: surround.Nc,
+    aw: 0,
+  };
+  env.aw = achromatic(env, responses(env, white));
+  return env;
+}
+
+/** Environments per model, cached per viewing conditions object */
+const ENVIRONMENTS: Record<AppearanceModel, WeakMap<ViewingConditions, Environment>> = {
+  cam16: new WeakMap(),
+  ciecam02: new WeakMap(),
+};
+
+const DEFAULT_CONDITIONS: ViewingConditions = {};
+
+function getEnvironment(model: AppearanceModel, conditions: ViewingConditions = DEFAULT_CONDITIONS): Environment {
+  let env = ENVIRONMENTS[model].get(conditions);
+  if (!env) {
+    env = createEnvironment(model, conditions);
+    ENVIRONMENTS[model].set(conditions, env);
+  }
+  return env;
+}
+
+/**
+ * Hue quadrature of a hue angle
+ */
+function hueQuadrature(h: number): number {
+  const hp = h < UNIQUE_HUES[0].h ? h + 360 : h;
+  const i = Math.max(0, UNIQUE_HUES.findIndex((hue) => hue.h > hp) - 1);
+  const [lo, hi] = [UNIQUE_HUES[i], UNIQUE_HUES[i + 1]];
+  const t = (hp - lo.h) / lo.e;
+  return lo.H + (100 * t) / (t + (hi.h - hp) / hi.e);
+}
+
+/**
+ * Hue angle of a hue quadrature
+ */
+function hueAngle(quadrature: number): number {
+  const H = ((quadrature % 400) + 400) % 400;
+  const i = Math.min(3, Math.floor(H / 100));
+  const [lo, hi] = [UNIQUE_HUES[i], UNIQUE_HUES[i + 1]];
+  const d = H - lo.H;
+  const h = (d * (hi.e * lo.h - lo.e * hi.h) - 100 * lo.h * hi.e) / (d * (hi.e - lo.e) - 100 * hi.e);
+  return ((h % 360) + 360) % 360;
+}
+
+function forward(model: AppearanceModel, xyz: [number, number, number], conditions?: ViewingConditions): ColorAppearance {
+  const env = getEnvironment(model, conditions);
+  const [ra, ga, ba] = responses(env, xyz);
+
+  const a = ra - (12 * ga) / 11 + ba / 11;
+  const b = (ra + ga - 2 * ba) / 9;
+  const h = ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  const et = 0.25 * (Math.cos(toRadians(h) + 2) + 3.8);
+
+  const A = achromatic(env, [ra, ga, ba]);
+  const ratio = A / env.aw;
+  const J = 100 * Math.sign(ratio) * Math.pow(Math.abs(ratio), env.c * env.z);
+  const Q = (4 / env.c) * Math.sqrt(Math.abs(J) / 100) * (env.aw + 4) * env.flRoot;
+
+  const t = ((50000 / 13) * env.nc * env.nbb * et * Math.hypot(a, b)) / (ra + ga + (21 / 20) * ba);
+  const C = Math.pow(t, 0.9) * Math.sqrt(Math.abs(J) / 100) * Math.pow(1.64 - Math.pow(0.29, env.n), 0.73);
+  const M = C * env.flRoot;
+  const s = Q > 0 ? 100 * Math.sqrt(M / Q) : 0;
+
+  return { J, C, h, Q, M, s, H: hueQuadrature(h) };
+}
+
+function inverse(model: AppearanceModel, input: ColorAppearanceInput, conditions?: ViewingConditions): [number, number, number] {
+  const env = getEnvironment(model, conditions);
+
+  let J = input.J;
+  if (J === undefined) {
+    if (input.Q === undefined) throw new Error('Lightness (J) or brightness (Q) is required');
+    J = 6.25 * Math.pow((env.c * input.Q) / ((env.aw + 4) * env.flRoot), 2);
+  }
+  let C = input.C;
+  if (C === undefined) {
+    if (input.M !== undefined) {
+      C = input.M / env.flRoot;
+    } else if (input.s !== undefined) {
+      const Q = input.Q ?? (4 / env.c) * Math.sqrt(J / 100) * (env.aw + 4) * env.flRoot;
+      C = (Math.pow(input.s / 100, 2) * Q) / env.flRoot;
+    } else {
+      throw new Error('Chroma (C), colorfulness (M) or saturation (s) is required');
+    }
+  }
+  let h = input.h;
+  if (h === undefined) {
+    if (input.H === undefined) throw new Error('Hue angle (h) or hue quadrature (H) is required');
+    h = hueAngle(input.H);
+  }
+  if (J <= 0) return [0, 0, 0];
+
+  const hr = toRadians(h);
+  const t = Math.pow(C / (Math.sqrt(J / 100) * Math.pow(1.64 - Math.pow(0.29, env.n), 0.73)), 1 / 0.9);
+  const et = 0.25 * (Math.cos(hr + 2) + 3.8);
+  const A = env.aw * Math.pow(J / 100, 1 / (env.c * env.z));
+  const p1 = (50000 / 13) * env.nc * env.nbb * et;
+  const p2 = A / env.nbb + 0.305;
+  const gamma = t > 0 ? (23 * p2 * t) / (23 * p1 + 11 * t * Math.cos(hr) + 108 * t * Math.sin(hr)) : 0;
+  const a = gamma * Math.cos(hr);
+  const b = gamma * Math.sin(hr);
+
+  const ra = (460 * p2 + 451 * a + 288 * b) / 1403;
+  const ga = (460 * p2 - 891 * a - 261 * b) / 1403;
+  const ba = (460 * p2 - 220 * a - 6300 * b) / 1403;
+  let adapted: [number, number, number] = [decompress(ra, env.fl), decompress(ga, env.fl), decompress(ba, env.fl)];
+  if (model === 'ciecam02') {
+    adapted = multiplyVector(HPE_TO_CAT02, adapted);
+  }
+  const rgb: [number, number, number] = [adapted[0] / env.dRgb[0], adapted[1] / env.dRgb[1], adapted[2] / env.dRgb[2]];
+  return multiplyVector(env.adaptationInverse, rgb);
+}
+
+/**
+ * CAM16 appearance of XYZ (0-100, relative to the adopted white)
+ */
+export function xyzToCam16(x: number, y: number, z: number, conditions?: ViewingConditions): ColorAppearance {
+  return forward('cam16', [x, y, z], conditions);
+}
+
+/**
+ * XYZ (0-100) of a CAM16 appearance
+ */
+export function cam16ToXyz(appearance: ColorAppearanceInput, conditions?: ViewingConditions): [number, number, number] {
+  return inverse('cam16', appearance, conditions);
+}
+
+/**
+ * CIECAM02 appearance of XYZ (0-100, relative to the adopted white)
+ */
+export function xyzToCiecam02(x: number, y: number, z: number, conditions?: ViewingConditions): ColorAppearance {
+  return forward('ciecam02', [x, y, z], conditions);
+}
+
+/**
+ * XYZ (0-100) of a CIECAM02 appearance
+ */
+export function ciecam02ToXyz(appearance: ColorAppearanceInput, conditions?: ViewingConditions): [number, number, number] {
+  return inverse('ciecam02', appearance, conditions);
+}
+
+/**
+ * CAM16-UCS J′a′b′ of CAM16 lightness, colorfulness and hue
+ */
+export function cam16JmhToUcs(J: number, M: number, h: number): [number, number, number] {
+  const jp = (1.7 * J) / (1 + 0.007 * J);
+  const mp = Math.log(1 + 0.0228 * M) / 0.0228;
+  const hr = toRadians(h);
+  return [jp, mp * Math.cos(hr), mp * Math.sin(hr)];
+}
+
+/**
+ * CAM16 lightness, colorfulness and hue of CAM16-UCS J′a′b′
+ */
+export function cam16UcsToJmh(jp: number, ap: number, bp: number): [number, number, number] {
+  const J = jp / (1.7 - 0.007 * jp);
+  const M = (Math.exp(0.0228 * Math.hypot(ap, bp)) - 1) / 0.0228;
+  const h = ((Math.atan2(bp, ap) * 180) / Math.PI + 360) % 360;
+  return [J, M, h];
+}
+
+/**
+ * CAM16-UCS J′a′b′ of XYZ (0-100, relative to the adopted white)
+ */
+export function xyzToCam16Ucs(x: number, y: number, z: number, conditions?: ViewingConditions): [number, number, number] {
+  const { J, M, h } = xyzToCam16(x, y, z, conditions);
+  return cam16JmhToUcs(J, M, h);
+}
+
+/**
+ * XYZ (0-100) of CAM16-UCS J′a′b′
+ */
+export function cam16UcsToXyz(jp: number, ap: number, bp: number, conditions?: ViewingConditions): [number, number, number] {
+  const [J, M, h] = cam16UcsToJmh(jp, ap, bp);
+  return cam16ToXyz({ J, M, h }, conditions);
+}
@@ -2,6 +2,16 @@
  * Color conversion utilities
  */
 
+import type {
+  ChromaticAdaptation,
+  ChromaticityDiagram,
+  WhitePoint,
+  WhitePointName,
+  YcbcrEncoding,
+  YcbcrMatrix,
+} from '../types';
+import { Matrix3, invertMatrix, multiplyMatrices, multiplyVector } from './matrix3';
+
 /**
  * Convert RGB (0-255) to linear RGB (0-1)
  */
@@ -16,6 +26,48 @@ export function rgbToLinear(r: number, g: number, b: number): [number, number, n
   return [linearize(r), linearize(g), linearize(b)];
 }
 
+/**
+ * WCAG 2.x relative luminance (0-1) of an sRGB color (0-255)
+ */
+export function relativeLuminance(r: number, g: number, b: number): number {
+  const [lr, lg, lb] = rgbToLinear(r, g, b);
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG 2.x contrast ratio (1-21) between two sRGB colors (0-255); the order does not matter.
+ * AA needs 4.5 (3 for large text), AAA 7 (4.5 for large text).
+ */
+export function wcagContrast(rgb1: [number, number, number], rgb2: [number, number, number]): number {
+  const l1 = relativeLuminance(...rgb1);
+  const l2 = relativeLuminance(...rgb2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * APCA lightness contrast Lc (APCA-W3 0.0.98G-4g) of text on a background, both sRGB (0-255)
+ * Positive for dark text on a light background, negative for light text on a dark one; about ±106 at most.
+ */
+export function apcaContrast(text: [number, number, number], background: [number, number, number]): number {
+  // APCA estimates screen luminance with a simple 2.4 power curve
+  const luminance = ([r, g, b]: [number, number, number]) =>
+    0.2126729 * Math.pow(r / 255, 2.4) + 0.7151522 * Math.pow(g / 255, 2.4) + 0.072175 * Math.pow(b / 255, 2.4);
+  // Soft clamp near black
+  const clampBlack = (y: number) => (y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y);
+  const textY = clampBlack(luminance(text));
+  const backgroundY = clampBlack(luminance(background));
+  if (Math.abs(backgroundY - textY) < 0.0005) {
+    return 0;
+  }
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
 /**
  * Convert linear RGB to XYZ (sRGB D65)
  * Returns XYZ values scaled to 0-100
@@ -68,6 +120,53 @@ export function rgbToXy(r: number, g: number, b: number): [number, number] {
   return xyzToXy(x, y, z);
 }
 
+/**
+ * Convert xy chromaticity to CIE 1976 u′v′ (uniform chromaticity scale)
+ */
+export function xyToUv(x: number, y: number): [number, number] {
+  const d = -2 * x + 12 * y + 3;
+  if (d === 0) {
+    return [0, 0];
+  }
+  return [(4 * x) / d, (9 * y) / d];
+}
+
+/**
+ * Convert CIE 1976 u′v′ to xy chromaticity
+ */
+export function uvToXy(u: number, v: number): [number, number] {
+  const d = 6 * u - 16 * v + 12;
+  if (d === 0) {
+    return [0, 0];
+  }
+  return [(9 * u) / d, (4 * v) / d];
+}
+
+/**
+ * Convert XYZ to CIE 1976 u′v′ chromaticity
+ */
+export function xyzToUv(x: number, y: number, z: number): [number, number] {
+  const d = x + 15 * y + 3 * z;
+  if (d === 0) {
+    return [0, 0];
+  }
+  return [(4 * x) / d, (9 * y) / d];
+}
+
+/**
+ * Convert xy to the coordinates of a chromaticity diagram (xy itself or u′v′)
+ */
+export function xyToDiagram([x, y]: [number, number], diagram: ChromaticityDiagram = 'xy'): [number, number] {
+  return diagram === 'uv' ? xyToUv(x, y) : [x, y];
+}
+
+/**
+ * Convert chromaticity diagram coordinates back to xy
+ */
+export function diagramToXy([a, b]: [number, number], diagram: ChromaticityDiagram = 'xy'): [number, number] {
+  return diagram === 'uv' ? uvToXy(a, b) : [a, b];
+}
+
 /**
  * Get RGB gamut triangle vertices in xy space
  * Returns the three primary colors (Red, Green, Blue) as xy coordinates
@@ -163,14 +262,152 @@ export function getD65WhitePoint(): [number, number] {
   return [0.3127, 0.3290];
 }
 
+/**
+ * XYZ (Y = 100) for an xy chromaticity
+ */
+function xyToWhiteXyz(x: number, y: number): [number, number, number] {
+  return [(x / y) * 100, 100, ((1 - x - y) / y) * 100];
+}
+
+/**
+ * White point catalogue: tristimulus values (Y = 100, CIE 1931 2° observer)
+ * D65 keeps the tabulated values the Lab conversions have always used
+ */
+const WHITE_POINTS: Record<WhitePointName, [number, number, number]> = {
+  A: [109.850, 100, 35.585],
+  B: [99.0927, 100, 85.313],
+  C: [98.074, 100, 118.232],
+  D50: [96.422, 100, 82.521],
+  D55: [95.682, 100, 92.149],
+  D65: [95.047, 100, 108.883],
+  D75: [94.972, 100, 122.638],
+  E: [100, 100, 100],
+  F1: xyToWhiteXyz(0.31310, 0.33727),
+  F2: xyToWhiteXyz(0.37208, 0.37529),
+  F3: xyToWhiteXyz(0.40910, 0.39430),
+  F4: xyToWhiteXyz(0.44018, 0.40329),
+  F5: xyToWhiteXyz(0.31379, 0.34531),
+  F6: xyToWhiteXyz(0.37790, 0.38835),
+  F7: xyToWhiteXyz(0.31292, 0.32933),
+  F8: xyToWhiteXyz(0.34588, 0.35875),
+  F9: xyToWhiteXyz(0.37417, 0.37281),
+  F10: xyToWhiteXyz(0.34609, 0.35986),
+  F11: xyToWhiteXyz(0.38052, 0.37713),
+  F12: xyToWhiteXyz(0.43695, 0.40248),
+};
+
+/**
+ * Names of all white points in the catalogue
+ */
+export function getWhitePointNames(): WhitePointName[] {
+  return Object.keys(WHITE_POINTS) as WhitePointName[];
+}
+
+/**
+ * Get a white point's tristimulus values (Y = 100)
+ * Accepts a catalogue name or an xy chromaticity
+ */
+export function getWhitePointXyz(whitePoint: WhitePoint = 'D65'): [number, number, number] {
+  if (Array.isArray(whitePoint)) {
+    return xyToWhiteXyz(whitePoint[0], whitePoint[1]);
+  }
+  const xyz = WHITE_POINTS[whitePoint];
+  if (!xyz) {
+    throw new Error(`Unknown white point: ${whitePoint}`);
+  }
+  return [...xyz];
+}
+
+/**
+ * Get a white point in xy space
+ */
+export function getWhitePoint(whitePoint: WhitePoint = 'D65'): [number, number] {
+  if (Array.isArray(whitePoint)) {
+    return [whitePoint[0], whitePoint[1]];
+  }
+  const [x, y, z] = getWhitePointXyz(whitePoint);
+  return xyzToXy(x, y, z);
+}
+
+/** Cone response matrices of the chromatic adaptation transforms */
+const ADAPTATION_MATRICES: Record<ChromaticAdaptation, Matrix3> = {
+  bradford: [
+    [0.8951, 0.2664, -0.1614],
+    [-0.7502, 1.7135, 0.0367],
+    [0.0389, -0.0685, 1.0296],
+  ],
+  cat02: [
+    [0.7328, 0.4296, -0.1624],
+    [-0.7036, 1.6975, 0.0061],
+    [0.0030, 0.0136, 0.9834],
+  ],
+  // Hunt-Pointer-Estevez, normalized to D65
+  vonKries: [
+    [0.40024, 0.70760, -0.08081],
+    [-0.22630, 1.16532, 0.04570],
+    [0, 0, 0.91822],
+  ],
+};
+
+/**
+ * Get the matrix that adapts XYZ from one white point to another
+ */
+export function chromaticAdaptationMatrix(
+  from: WhitePoint,
+  to: WhitePoint,
+  method: ChromaticAdaptation = 'bradford'
+): Matrix3 {
+  const cone = ADAPTATION_MATRICES[method];
+  if (!cone) {
+    throw new Error(`Unknown chromatic adaptation method: ${method}`);
+  }
+  const src = multiplyVector(cone, getWhitePointXyz(from));
+  const dst = multiplyVector(cone, getWhitePointXyz(to));
+  const scale: Matrix3 = [
+    [dst[0] / src[0], 0, 0],
+    [0, dst[1] / src[1], 0],
+    [0, 0, dst[2] / src[2]],
+  ];
+  return multiplyMatrices(invertMatrix(cone), multiplyMatrices(scale, cone));
+}
+
+/**
+ * Adapt XYZ (0-100) from one white point to another
+ */
+export function adaptXyz(
+  x: number,
+  y: number,
+  z: number,
+  from: WhitePoint,
+  to: WhitePoint,
+  method: ChromaticAdaptation = 'bradford'
+): [number, number, number] {
+  if (isSameWhitePoint(from, to)) {
+    return [x, y, z];
+  }
+  return multiplyVector(chromaticAdaptationMatrix(from, to, method), [x, y, z]);
+}
+
+/**
+ * Whether two white points refer to the same chromaticity
+ */
+function isSameWhitePoint(a: WhitePoint, b: WhitePoint): boolean {
+  if (!Array.isArray(a) && !Array.isArray(b)) {
+    return a === b;
+  }
+  const [ax, ay] = getWhitePoint(a);
+  const [bx, by] = getWhitePoint(b);
+  return Math.abs(ax - bx) < 1e-6 && Math.abs(ay - by) < 1e-6;
+}
+
 /**
  * Get spectral locus points (visible spectrum boundary)
- * Returns array of [x, y] coordinates for wavelengths 380-780nm
+ * Returns array of [x, y] coordinates for wavelengths 380-780nm ([u′, v′] for the 'uv' diagram)
  */
-export function getSpectralLocus(): Array<[number, number]> {
+export function getSpectralLocus(diagram: ChromaticityDiagram = 'xy'): Array<[number, number]> {
   // CIE 1931 2-degree observer spectral locus (simplified)
   // These are key points along the visible spectrum
-  return [
+  const locus: Array<[number, number]> = [
     [0.1741, 0.0050], // 380nm (violet)
     [0.1738, 0.0049],
     [0.1736, 0.0048],
@@ -237,12 +474,60 @@ export function getSpectralLocus(): Array<[number, number]> {
     [0.7347, 0.2653],
     [0.7347, 0.2653], // 780nm (red)
   ];
+  return diagram === 'uv' ? locus.map(([x, y]) => xyToUv(x, y)) : locus;
+}
+
+/**
+ * Wavelengths (nm) of the getSpectralLocus points: 380, then 390-700 in 5 nm steps, then 780
+ * (the locus no longer moves past 700 nm)
+ */
+export function getSpectralLocusWavelengths(): number[] {
+  return [380, ...Array.from({ length: 63 }, (_, i) => 390 + i * 5), 780];
+}
+
+/**
+ * Check if an xy chromaticity is inside the spectral locus (ray casting)
+ */
+export function isInsideSpectralLocus(
+  x: number,
+  y: number,
+  spectralLocus: Array<[number, number]> = getSpectralLocus()
+): boolean {
+  let inside = false;
+  for (let i = 0, j = spectralLocus.length - 1; i < spectralLocus.length; j = i++) {
+    const [xi, yi] = spectralLocus[i];
+    const [xj, yj] = spectralLocus[j];
+    const intersect = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (intersect) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Convert XYZ to linear RGB (sRGB D65)
+ * XYZ values are expected to be in 0-100 range
+ * Returns unclamped linear RGB; components outside 0-1 are outside the sRGB gamut
+ */
+export function xyzToLinearRgb(x: number, y: number, z: number): [number, number, number] {
+  // Normalize XYZ from 0-100 to 0-1
+  const X = x / 100;
+  const Y = y / 100;
+  const Z = z / 100;
+
+  return [
+    X * 3.2404542 + Y * -1.5371385 + Z * -0.4985314,
+    X * -0.9692660 + Y * 1.8760108 + Z * 0.0415560,
+    X * 0.0556434 + Y * -0.2040259 + Z * 1.0572252,
+  ];
 }
 
 /**
  * Convert XYZ to RGB (sRGB D65)
  * XYZ values are expected to be in 0-100 range
- * Returns RGB values in 0-255 range
+ * Returns RGB values in 0-255 range; channels outside sRGB are clipped
+ * (see isInSrgbGamut and gamutMapXyz in gamutMapping.ts)
  */
 export function xyzToRgb(x: number, y: number, z: number): [number, number, number] {
   // Normalize XYZ from 0-100 to 0-1
@@ -553,13 +838,18 @@ export function cmykToRgb(c: number, m: number, y: number, k: number): [number,
 }
 
 /**
- * Convert XYZ to Lab (D65 illuminant)
+ * Convert XYZ (D65) to Lab relative to a reference white (default D65)
+ * For another white point the XYZ values are first adapted from D65 to it
  */
-export function xyzToLab(x: number, y: number, z: number): [number, number, number] {
-  // D65 white point
-  const xn = 95.047;
-  const yn = 100.0;
-  const zn = 108.883;
+export function xyzToLab(
+  x: number,
+  y: number,
+  z: number,
+  whitePoint: WhitePoint = 'D65',
+  method: ChromaticAdaptation = 'bradford'
+): [number, number, number] {
+  [x, y, z] = adaptXyz(x, y, z, 'D65', whitePoint, method);
+  const [xn, yn, zn] = getWhitePointXyz(whitePoint);
 
   x = x / xn;
   y = y / yn;
@@ -585,13 +875,16 @@ export function xyzToLab(x: number, y: number, z: number): [number, number, numb
 }
 
 /**
- * Convert Lab to XYZ (D65 illuminant)
+ * Convert Lab relative to a reference white (default D65) to XYZ (D65)
  */
-export function labToXyz(l: number, a: number, b: number): [number, number, number] {
-  // D65 white point
-  const xn = 95.047;
-  const yn = 100.0;
-  const zn = 108.883;
+export function labToXyz(
+  l: number,
+  a: number,
+  b: number,
+  whitePoint: WhitePoint = 'D65',
+  method: ChromaticAdaptation = 'bradford'
+): [number, number, number] {
+  const [xn, yn, zn] = getWhitePointXyz(whitePoint);
 
   const fy = (l + 16) / 116;
   const fx = a / 500 + fy;
@@ -610,7 +903,7 @@ export function labToXyz(l: number, a: number, b: number): [number, number, numb
   const y = f(fy) * yn;
   const z = f(fz) * zn;
 
-  return [x, y, z];
+  return adaptXyz(x, y, z, whitePoint, 'D65', method);
 }
 
 /**
@@ -622,7 +915,7 @@ export function rgbToLab(r: number, g: number, b: number): [number, number, numb
 }
 
 /**
- * Convert Lab to RGB (via XYZ)
+ * Convert Lab to RGB (via XYZ); clipped like xyzToRgb
  */
 export function labToRgb(l: number, a: number, b: number): [number, number, number] {
   const [x, y, z] = labToXyz(l, a, b);
@@ -650,31 +943,560 @@ export function lchToLab(l: number, c: number, h: number): [number, number, numb
 }
 
 /**
- * Convert RGB to YCbCr (ITU-R BT.601)
+ * Convert XYZ to OKLab (D65)
+ * XYZ values are expected to be in 0-100 range
+ * Returns L in 0-1, a and b roughly in -0.4 to 0.4
  */
-export function rgbToYcbcr(r: number, g: number, b: number): [number, number, number] {
-  const y = 16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255;
-  const cb = 128 + (-37.797 * r - 74.203 * g + 112.0 * b) / 255;
-  const cr = 128 + (112.0 * r - 93.786 * g - 18.214 * b) / 255;
+export function xyzToOklab(x: number, y: number, z: number): [number, number, number] {
+  // Normalize XYZ from 0-100 to 0-1
+  const X = x / 100;
+  const Y = y / 100;
+  const Z = z / 100;
+
+  // XYZ to approximate cone responses (LMS)
+  const l = 0.8189330101 * X + 0.3618667424 * Y - 0.1288597137 * Z;
+  const m = 0.0329845436 * X + 0.9293118715 * Y + 0.0361456387 * Z;
+  const s = 0.0482003018 * X + 0.2643662691 * Y + 0.6338517070 * Z;
+
+  // Cube root non-linearity
+  const l_ = Math.cbrt(l);
+  const m_ = Math.cbrt(m);
+  const s_ = Math.cbrt(s);
 
-  return [Math.round(y), Math.round(cb), Math.round(cr)];
+  return [
+    0.2104542553 * l_ + 0.7936177850 * m_ - 0.0040720468 * s_,
+    1.9779984951 * l_ - 2.4285922050 * m_ + 0.4505937099 * s_,
+    0.0259040371 * l_ + 0.7827717662 * m_ - 0.8086757660 * s_,
+  ];
+}
+
+/**
+ * Convert OKLab to XYZ (D65)
+ * Returns XYZ values scaled to 0-100
+ */
+export function oklabToXyz(l: number, a: number, b: number): [number, number, number] {
+  const l_ = l + 0.3963377774 * a + 0.2158037573 * b;
+  const m_ = l - 0.1055613458 * a - 0.0638541728 * b;
+  const s_ = l - 0.0894841775 * a - 1.2914855480 * b;
+
+  const lms = [l_ * l_ * l_, m_ * m_ * m_, s_ * s_ * s_];
+
+  const X = 1.2270138511 * lms[0] - 0.5577999807 * lms[1] + 0.2812561490 * lms[2];
+  const Y = -0.0405801784 * lms[0] + 1.1122568696 * lms[1] - 0.0716766787 * lms[2];
+  const Z = -0.0763812845 * lms[0] - 0.4214819784 * lms[1] + 1.5861632204 * lms[2];
+
+  return [X * 100, Y * 100, Z * 100];
+}
+
+/**
+ * Convert RGB to OKLab (via XYZ)
+ */
+export function rgbToOklab(r: number, g: number, b: number): [number, number, number] {
+  const [x, y, z] = rgbToXyz(r, g, b);
+  return xyzToOklab(x, y, z);
+}
+
+/**
+ * Convert OKLab to RGB (via XYZ)
+ */
+export function oklabToRgb(l: number, a: number, b: number): [number, number, number] {
+  const [x, y, z] = oklabToXyz(l, a, b);
+  return xyzToRgb(x, y, z);
+}
+
+/**
+ * Convert OKLab to OKLCh
+ */
+export function oklabToOklch(l: number, a: number, b: number): [number, number, number] {
+  return labToLch(l, a, b);
 }
 
 /**
- * Convert YCbCr to RGB (ITU-R BT.601)
+ * Convert OKLCh to OKLab
  */
-export function ycbcrToRgb(y: number, cb: number, cr: number): [number, number, number] {
-  y = y - 16;
-  cb = cb - 128;
-  cr = cr - 128;
+export function oklchToOklab(l: number, c: number, h: number): [number, number, number] {
+  return lchToLab(l, c, h);
+}
 
-  const r = 255 * (y / 255 + 1.402 * cr / 255);
-  const g = 255 * (y / 255 - 0.344136 * cb / 255 - 0.714136 * cr / 255);
-  const b = 255 * (y / 255 + 1.772 * cb / 255);
+/**
+ * Luminance (cd/m²) of diffuse white, i.e. XYZ Y = 100, in the HDR spaces (ITU-R BT.2408)
+ */
+export const HDR_REFERENCE_WHITE = 203;
 
+/** SMPTE ST 2084 (PQ) constants */
+const PQ_M1 = 2610 / 16384;
+const PQ_M2 = (2523 / 4096) * 128;
+const PQ_C1 = 3424 / 4096;
+const PQ_C2 = (2413 / 4096) * 32;
+const PQ_C3 = (2392 / 4096) * 32;
+
+/**
+ * PQ (SMPTE ST 2084) EOTF: signal 0-1 to display luminance in cd/m² (0-10000)
+ */
+export function pqEotf(signal: number): number {
+  const p = Math.pow(Math.max(0, signal), 1 / PQ_M2);
+  return 10000 * Math.pow(Math.max(0, p - PQ_C1) / (PQ_C2 - PQ_C3 * p), 1 / PQ_M1);
+}
+
+/**
+ * Inverse PQ EOTF: display luminance in cd/m² (0-10000) to signal 0-1
+ */
+export function pqInverseEotf(nits: number): number {
+  const y = Math.pow(Math.max(0, nits) / 10000, PQ_M1);
+  return Math.pow((PQ_C1 + PQ_C2 * y) / (1 + PQ_C3 * y), PQ_M2);
+}
+
+/** ARIB STD-B67 (HLG) constants */
+const HLG_A = 0.17883277;
+const HLG_B = 1 - 4 * HLG_A;
+const HLG_C = 0.5 - HLG_A * Math.log(4 * HLG_A);
+
+/**
+ * HLG OETF: scene linear light 0-1 to signal 0-1
+ */
+export function hlgOetf(scene: number): number {
+  const e = Math.max(0, scene);
+  return e <= 1 / 12 ? Math.sqrt(3 * e) : HLG_A * Math.log(12 * e - HLG_B) + HLG_C;
+}
+
+/**
+ * Inverse HLG OETF: signal 0-1 to scene linear light 0-1
+ */
+export function hlgInverseOetf(signal: number): number {
+  const e = Math.max(0, signal);
+  return e <= 0.5 ? (e * e) / 3 : (Math.exp((e - HLG_C) / HLG_A) + HLG_B) / 12;
+}
+
+/**
+ * HLG system gamma of a display with the given peak luminance (1.2 at 1000 cd/m²)
+ */
+function hlgSystemGamma(peak: number): number {
+  return 1.2 + 0.42 * Math.log10(peak / 1000);
+}
+
+/**
+ * HLG EOTF (BT.2100): R′G′B′ signals 0-1 to display light in cd/m², for a display of the given peak
+ */
+export function hlgEotf(
+  r: number,
+  g: number,
+  b: number,
+  peak: number = 1000
+): [number, number, number] {
+  const scene = [hlgInverseOetf(r), hlgInverseOetf(g), hlgInverseOetf(b)];
+  // OOTF: the system gamma applies to the scene luminance (BT.2020 weights)
+  const ys = 0.2627 * scene[0] + 0.678 * scene[1] + 0.0593 * scene[2];
+  const gain = ys > 0 ? peak * Math.pow(ys, hlgSystemGamma(peak) - 1) : 0;
+  return [gain * scene[0], gain * scene[1], gain * scene[2]];
+}
+
+/**
+ * Inverse HLG EOTF: display light in cd/m² to R′G′B′ signals 0-1, for a display of the given peak
+ */
+export function hlgInverseEotf(
+  r: number,
+  g: number,
+  b: number,
+  peak: number = 1000
+): [number, number, number] {
+  const gamma = hlgSystemGamma(peak);
+  const yd = (0.2627 * r + 0.678 * g + 0.0593 * b) / peak;
+  const gain = yd > 0 ? Math.pow(yd, (1 - gamma) / gamma) / peak : 0;
+  return [hlgOetf(gain * r), hlgOetf(gain * g), hlgOetf(gain * b)];
+}
+
+/** XYZ (D65) to linear BT.2020 RGB */
+const XYZ_TO_REC2020: Matrix3 = [
+  [1.716651188, -0.3556707838, -0.2533662814],
+  [-0.6666843518, 1.6164812366, 0.0157685458],
+  [0.0176398574, -0.0427706133, 0.9421031212],
+];
+const REC2020_TO_XYZ = invertMatrix(XYZ_TO_REC2020);
+
+/** BT.2100 ICtCp: BT.2020 RGB to LMS, and PQ-encoded LMS to ICtCp */
+const REC2020_TO_ICTCP_LMS: Matrix3 = [
+  [1688 / 4096, 2146 / 4096, 262 / 4096],
+  [683 / 4096, 2951 / 4096, 462 / 4096],
+  [99 / 4096, 309 / 4096, 3688 / 4096],
+];
+const ICTCP_LMS_TO_REC2020 = invertMatrix(REC2020_TO_ICTCP_LMS);
+const PQ_LMS_TO_ICTCP: Matrix3 = [
+  [2048 / 4096, 2048 / 4096, 0],
+  [6610 / 4096, -13613 / 4096, 7003 / 4096],
+  [17933 / 4096, -17390 / 4096, -543 / 4096],
+];
+const ICTCP_TO_PQ_LMS = invertMatrix(PQ_LMS_TO_ICTCP);
+
+/**
+ * Convert XYZ (D65, 0-100) to ICtCp (ITU-R BT.2100, PQ)
+ * XYZ Y = 100 is diffuse white at referenceWhite cd/m²; returns I in 0-1 (10000 cd/m²), Ct and Cp
+ * roughly in -0.5 to 0.5
+ */
+export function xyzToIctcp(
+  x: number,
+  y: number,
+  z: number,
+  referenceWhite: number = HDR_REFERENCE_WHITE
+): [number, number, number] {
+  const scale = referenceWhite / 100;
+  const lms = multiplyVector(REC2020_TO_ICTCP_LMS, multiplyVector(XYZ_TO_REC2020, [x * scale, y * scale, z * scale]));
+  const encoded = lms.map((c) => pqInverseEotf(c)) as [number, number, number];
+  return multiplyVector(PQ_LMS_TO_ICTCP, encoded);
+}
+
+/**
+ * Convert ICtCp (ITU-R BT.2100, PQ) to XYZ (D65, 0-100 with diffuse white at referenceWhite cd/m²)
+ */
+export function ictcpToXyz(
+  i: number,
+  ct: number,
+  cp: number,
+  referenceWhite: number = HDR_REFERENCE_WHITE
+): [number, number, number] {
+  const encoded = multiplyVector(ICTCP_TO_PQ_LMS, [i, ct, cp]);
+  const lms = encoded.map((c) => pqEotf(c)) as [number, number, number];
+  const [X, Y, Z] = multiplyVector(REC2020_TO_XYZ, multiplyVector(ICTCP_LMS_TO_REC2020, lms));
+  const scale = 100 / referenceWhite;
+  return [X * scale, Y * scale, Z * scale];
+}
+
+/** Jzazbz (Safdar et al. 2017) constants */
+const JZ_B = 1.15;
+const JZ_G = 0.66;
+const JZ_D = -0.56;
+const JZ_D0 = 1.6295499532821566e-11;
+const JZ_P = 1.7 * PQ_M2;
+const XYZ_TO_JZ_LMS: Matrix3 = [
+  [0.41478972, 0.579999, 0.014648],
+  [-0.20151, 1.120649, 0.0531008],
+  [-0.0166008, 0.2648, 0.6684799],
+];
+const JZ_LMS_TO_XYZ = invertMatrix(XYZ_TO_JZ_LMS);
+const JZ_LMS_TO_IAB: Matrix3 = [
+  [0.5, 0.5, 0],
+  [3.524, -4.066708, 0.542708],
+  [0.199076, 1.096799, -1.295875],
+];
+const JZ_IAB_TO_LMS = invertMatrix(JZ_LMS_TO_IAB);
+
+/** The PQ curve with Jzazbz's exponent, on absolute luminance in cd/m² */
+function jzEncode(nits: number): number {
+  const y = Math.pow(Math.max(0, nits) / 10000, PQ_M1);
+  return Math.pow((PQ_C1 + PQ_C2 * y) / (1 + PQ_C3 * y), JZ_P);
+}
+
+function jzDecode(signal: number): number {
+  const p = Math.pow(Math.max(0, signal), 1 / JZ_P);
+  return 10000 * Math.pow(Math.max(0, p - PQ_C1) / (PQ_C2 - PQ_C3 * p), 1 / PQ_M1);
+}
+
+/**
+ * Convert XYZ (D65, 0-100) to Jzazbz
+ * XYZ Y = 100 is diffuse white at referenceWhite cd/m²; returns Jz in 0-1 (10000 cd/m²), az and bz
+ * roughly in -0.5 to 0.5
+ */
+export function xyzToJzazbz(
+  x: number,
+  y: number,
+  z: number,
+  referenceWhite: number = HDR_REFERENCE_WHITE
+): [number, number, number] {
+  const scale = referenceWhite / 100;
+  const [X, Y, Z] = [x * scale, y * scale, z * scale];
+  // Pre-adjustment against blue hue shifts
+  const xp = JZ_B * X - (JZ_B - 1) * Z;
+  const yp = JZ_G * Y - (JZ_G - 1) * X;
+  const lms = multiplyVector(XYZ_TO_JZ_LMS, [xp, yp, Z]);
+  const [iz, az, bz] = multiplyVector(JZ_LMS_TO_IAB, lms.map((c) => jzEncode(c)) as [number, number, number]);
+  const jz = ((1 + JZ_D) * iz) / (1 + JZ_D * iz) - JZ_D0;
+  return [jz, az, bz];
+}
+
+/**
+ * Convert Jzazbz to XYZ (D65, 0-100 with diffuse white at referenceWhite cd/m²)
+ */
+export function jzazbzToXyz(
+  jz: number,
+  az: number,
+  bz: number,
+  referenceWhite: number = HDR_REFERENCE_WHITE
+): [number, number, number] {
+  const j = jz + JZ_D0;
+  const iz = j / (1 + JZ_D - JZ_D * j);
+  const encoded = multiplyVector(JZ_IAB_TO_LMS, [iz, az, bz]);
+  const [xp, yp, Z] = multiplyVector(JZ_LMS_TO_XYZ, encoded.map((c) => jzDecode(c)) as [number, number, number]);
+  const X = (xp + (JZ_B - 1) * Z) / JZ_B;
+  const Y = (yp + (JZ_G - 1) * X) / JZ_G;
+  const scale = 100 / referenceWhite;
+  return [X * scale, Y * scale, Z * scale];
+}
+
+/**
+ * Convert Jzazbz to JzCzhz
+ */
+export function jzazbzToJzczhz(jz: number, az: number, bz: number): [number, number, number] {
+  return labToLch(jz, az, bz);
+}
+
+/**
+ * Convert JzCzhz to Jzazbz
+ */
+export function jzczhzToJzazbz(jz: number, cz: number, hz: number): [number, number, number] {
+  return lchToLab(jz, cz, hz);
+}
+
+/**
+ * Absolute luminance (cd/m²) of a neutral gray with the given Jz; inverse of nitsToJz
+ */
+export function jzToNits(jz: number): number {
+  if (jz <= 0) return 0;
+  // Neutrals have small, luminance-dependent az/bz (not 0), so invert nitsToJz by bisection;
+  // Jz increases with luminance
+  let low = 0;
+  let high = 10000;
+  for (let i = 0; i < 20 && nitsToJz(high) < jz; i++) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < 64; i++) {
+    const mid = (low + high) / 2;
+    if (nitsToJz(mid) < jz) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Jz of a neutral gray with the given absolute luminance (cd/m²)
+ */
+export function nitsToJz(nits: number): number {
+  const y = (nits * 100) / HDR_REFERENCE_WHITE;
+  const [x, , z] = getWhitePointXyz('D65');
+  return xyzToJzazbz((x * y) / 100, y, (z * y) / 100)[0];
+}
+
+/**
+ * Format a luminance in cd/m² for labels and readouts (two decimals below 10, one below 100)
+ */
+export function formatNits(nits: number): string {
+  const rounded = nits < 10 ? Math.round(nits * 100) / 100 : nits < 100 ? Math.round(nits * 10) / 10 : Math.round(nits);
+  return `${rounded} cd/m²`;
+}
+
+/** Luma coefficients (Kr, Kb) of the YCbCr matrices; Kg = 1 - Kr - Kb */
+const YCBCR_LUMA: Record<YcbcrMatrix, [number, number]> = {
+  bt601: [0.299, 0.114],
+  bt709: [0.2126, 0.0722],
+  bt2020: [0.2627, 0.0593],
+};
+
+/**
+ * Parameters of a YCbCr encoding: luma coefficients and the code values of
+ * Y′ = 0 (yOffset) and of the 0-1 luma / ±0.5 chroma spans (yScale, cScale)
+ */
+export function getYcbcrParameters(encoding: YcbcrEncoding = {}): {
+  kr: number;
+  kb: number;
+  yOffset: number;
+  yScale: number;
+  cScale: number;
+} {
+  const [kr, kb] = YCBCR_LUMA[encoding.matrix ?? 'bt601'] ?? YCBCR_LUMA.bt601;
+  return encoding.range === 'full'
+    ? { kr, kb, yOffset: 0, yScale: 255, cScale: 255 }
+    : { kr, kb, yOffset: 16, yScale: 219, cScale: 224 };
+}
+
+/**
+ * Code value ranges of Y and Cb/Cr: 16-235 and 16-240 in limited range, 0-255 in full range
+ */
+export function getYcbcrRanges(encoding: YcbcrEncoding = {}): { y: [number, number]; c: [number, number] } {
+  return encoding.range === 'full' ? { y: [0, 255], c: [0, 255] } : { y: [16, 235], c: [16, 240] };
+}
+
+/**
+ * Unrounded YCbCr code values of R′G′B′ (0-255)
+ */
+function encodeYcbcr(r: number, g: number, b: number, encoding: YcbcrEncoding): [number, number, number] {
+  const { kr, kb, yOffset, yScale, cScale } = getYcbcrParameters(encoding);
+  const luma = (kr * r + (1 - kr - kb) * g + kb * b) / 255;
+  const pb = (b / 255 - luma) / (2 * (1 - kb));
+  const pr = (r / 255 - luma) / (2 * (1 - kr));
+  return [yOffset + yScale * luma, 128 + cScale * pb, 128 + cScale * pr];
+}
+
+/**
+ * Convert RGB (0-255) to 8-bit YCbCr; BT.601 limited range unless an encoding is given
+ */
+export function rgbToYcbcr(
+  r: number,
+  g: number,
+  b: number,
+  encoding: YcbcrEncoding = {}
+): [number, number, number] {
+  const [y, cb, cr] = encodeYcbcr(r, g, b, encoding);
+  // Full-range chroma of saturated blue and red reaches 255.5
+  return [
+    Math.max(0, Math.min(255, Math.round(y))),
+    Math.max(0, Math.min(255, Math.round(cb))),
+    Math.max(0, Math.min(255, Math.round(cr))),
+  ];
+}
+
+/**
+ * Convert 8-bit YCbCr to RGB (0-255); BT.601 limited range unless an encoding is given.
+ * Code values outside the R′G′B′ cube (e.g. footroom, or strong chroma at dark luma) are clipped.
+ */
+export function ycbcrToRgb(
+  y: number,
+  cb: number,
+  cr: number,
+  encoding: YcbcrEncoding = {}
+): [number, number, number] {
+  const { kr, kb, yOffset, yScale, cScale } = getYcbcrParameters(encoding);
+  const luma = (y - yOffset) / yScale;
+  const pb = (cb - 128) / cScale;
+  const pr = (cr - 128) / cScale;
+
+  const r = luma + 2 * (1 - kr) * pr;
+  const b = luma + 2 * (1 - kb) * pb;
+  const g = (luma - kr * r - kb * b) / (1 - kr - kb);
+
+  return [
+    Math.max(0, Math.min(255, Math.round(r * 255))),
+    Math.max(0, Math.min(255, Math.round(g * 255))),
+    Math.max(0, Math.min(255, Math.round(b * 255))),
+  ];
+}
+
+/**
+ * Cross-section of the R′G′B′ cube at a luma value, in the chroma plane of a luma/chroma space.
+ * weights are the luma coefficients (summing to 1), luma is 0-1 and project maps RGB (0-255)
+ * to the two chroma coordinates. Returns the polygon's vertices in order (empty outside 0-1).
+ */
+export function rgbLumaSlice(
+  weights: [number, number, number],
+  luma: number,
+  project: (r: number, g: number, b: number) => [number, number]
+): Array<[number, number]> {
+  const vertices: Array<[number, number, number]> = [];
+  // Where the plane w·rgb = luma crosses each of the cube's 12 edges
+  for (let axis = 0; axis < 3; axis++) {
+    const [p, q] = [0, 1, 2].filter((i) => i !== axis);
+    for (const a of [0, 1]) {
+      for (const c of [0, 1]) {
+        const t = (luma - weights[p] * a - weights[q] * c) / weights[axis];
+        if (t < -1e-9 || t > 1 + 1e-9) continue;
+        const rgb: [number, number, number] = [0, 0, 0];
+        rgb[axis] = Math.max(0, Math.min(1, t));
+        rgb[p] = a;
+        rgb[q] = c;
+        // Corners lie on three edges
+        if (!vertices.some((v) => v.every((x, i) => Math.abs(x - rgb[i]) < 1e-9))) {
+          vertices.push(rgb);
+        }
+      }
+    }
+  }
+
+  const points = vertices.map(([r, g, b]) => project(r * 255, g * 255, b * 255));
+  if (points.length < 3) return points;
+  // The section is convex: order its vertices by angle around the centroid
+  const cx = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const cy = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+  return points.sort((p1, p2) => Math.atan2(p1[1] - cy, p1[0] - cx) - Math.atan2(p2[1] - cy, p2[0] - cx));
+}
+
+/**
+ * Region of the Cb/Cr plane that decodes to valid R′G′B′ at a Y code value
+ */
+export function getYcbcrGamutSlice(y: number, encoding: YcbcrEncoding = {}): Array<[number, number]> {
+  const { kr, kb, yOffset, yScale } = getYcbcrParameters(encoding);
+  return rgbLumaSlice([kr, 1 - kr - kb, kb], (y - yOffset) / yScale, (r, g, b) => {
+    const [, cb, cr] = encodeYcbcr(r, g, b, encoding);
+    return [cb, cr];
+  });
+}
+
+/** BT.601 luma weights of the analog YUV and YIQ encodings */
+const ANALOG_LUMA: [number, number, number] = [0.299, 0.587, 0.114];
+
+/** Scales of U = 0.492(B′ − Y′) and V = 0.877(R′ − Y′) in analog PAL/NTSC YUV */
+const YUV_U_SCALE = 0.492111;
+const YUV_V_SCALE = 0.877283;
+
+/** YIQ is YUV rotated by 33° */
+const YIQ_ANGLE = (33 * Math.PI) / 180;
+
+/**
+ * Luma weights of a related luma/chroma space, for rgbLumaSlice
+ */
+export function getLumaWeights(space: 'yuv' | 'yiq' | 'ycocg'): [number, number, number] {
+  return space === 'ycocg' ? [0.25, 0.5, 0.25] : ANALOG_LUMA;
+}
+
+/**
+ * Convert RGB (0-255) to analog YUV (BT.470): Y 0-1, U ±0.436, V ±0.615
+ */
+export function rgbToYuv(r: number, g: number, b: number): [number, number, number] {
+  const [wr, wg, wb] = ANALOG_LUMA;
+  const y = (wr * r + wg * g + wb * b) / 255;
+  return [y, YUV_U_SCALE * (b / 255 - y), YUV_V_SCALE * (r / 255 - y)];
+}
+
+/**
+ * Convert analog YUV to RGB (0-255)
+ */
+export function yuvToRgb(y: number, u: number, v: number): [number, number, number] {
+  const [wr, wg, wb] = ANALOG_LUMA;
+  const r = y + v / YUV_V_SCALE;
+  const b = y + u / YUV_U_SCALE;
+  const g = (y - wr * r - wb * b) / wg;
+  return [
+    Math.max(0, Math.min(255, Math.round(r * 255))),
+    Math.max(0, Math.min(255, Math.round(g * 255))),
+    Math.max(0, Math.min(255, Math.round(b * 255))),
+  ];
+}
+
+/**
+ * Convert RGB (0-255) to NTSC YIQ (FCC 1953): Y 0-1, I ±0.596, Q ±0.523
+ */
+export function rgbToYiq(r: number, g: number, b: number): [number, number, number] {
+  const [y, u, v] = rgbToYuv(r, g, b);
+  const cos = Math.cos(YIQ_ANGLE);
+  const sin = Math.sin(YIQ_ANGLE);
+  return [y, v * cos - u * sin, v * sin + u * cos];
+}
+
+/**
+ * Convert NTSC YIQ to RGB (0-255)
+ */
+export function yiqToRgb(y: number, i: number, q: number): [number, number, number] {
+  const cos = Math.cos(YIQ_ANGLE);
+  const sin = Math.sin(YIQ_ANGLE);
+  return yuvToRgb(y, q * cos - i * sin, i * cos + q * sin);
+}
+
+/**
+ * Convert RGB (0-255) to YCoCg: Y 0-1, Co and Cg ±0.5
+ */
+export function rgbToYcocg(r: number, g: number, b: number): [number, number, number] {
+  const [R, G, B] = [r / 255, g / 255, b / 255];
+  return [R / 4 + G / 2 + B / 4, R / 2 - B / 2, -R / 4 + G / 2 - B / 4];
+}
+
+/**
+ * Convert YCoCg to RGB (0-255)
+ */
+export function ycocgToRgb(y: number, co: number, cg: number): [number, number, number] {
+  const t = y - cg;
   return [
-    Math.max(0, Math.min(255, Math.round(r))),
-    Math.max(0, Math.min(255, Math.round(g))),
-    Math.max(0, Math.min(255, Math.round(b))),
+    Math.max(0, Math.min(255, Math.round((t + co) * 255))),
+    Math.max(0, Math.min(255, Math.round((y + cg) * 255))),
+    Math.max(0, Math.min(255, Math.round((t - co) * 255))),
   ];
 }
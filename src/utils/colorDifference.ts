@@ -0,0 +1,271 @@
+/**
+ * Color difference (ΔE) formulas and tolerance checks
+ * All formulas take CIE Lab (D65, as returned by rgbToLab / xyzToLab). ΔE94 and CMC are
+ * asymmetric: the first color is the reference (standard).
+ */
+
+import { ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import { labToXyz, rgbToLab, xyzToLab } from './colorConversion';
+
+export type Lab = [number, number, number];
+
+/**
+ * Supported ΔE formulas: CIE76, CIE94, CIEDE2000 and CMC l:c
+ */
+export type DeltaEMethod = '76' | '94' | '2000' | 'cmc';
+
+/**
+ * Formula parameters (only the ones that apply to the chosen method are used)
+ */
+export interface DeltaEOptions {
+  application?: 'graphic' | 'textiles'; // ΔE94 weights (default 'graphic')
+  kL?: number; // ΔE2000 parametric factors (default 1)
+  kC?: number;
+  kH?: number;
+  l?: number; // CMC lightness weight (default 2, i.e. CMC 2:1 acceptability)
+  c?: number; // CMC chroma weight (default 1)
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * CIE76: Euclidean distance in Lab
+ */
+export function deltaE76(reference: Lab, sample: Lab): number {
+  return Math.hypot(reference[0] - sample[0], reference[1] - sample[1], reference[2] - sample[2]);
+}
+
+/**
+ * CIE94 (graphic arts or textiles weights)
+ */
+export function deltaE94(reference: Lab, sample: Lab, options: DeltaEOptions = {}): number {
+  const textiles = options.application === 'textiles';
+  const kL = textiles ? 2 : 1;
+  const k1 = textiles ? 0.048 : 0.045;
+  const k2 = textiles ? 0.014 : 0.015;
+
+  const [l1, a1, b1] = reference;
+  const [l2, a2, b2] = sample;
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const dL = l1 - l2;
+  const dC = c1 - c2;
+  const dH2 = Math.max(0, (a1 - a2) ** 2 + (b1 - b2) ** 2 - dC ** 2);
+
+  const sC = 1 + k1 * c1;
+  const sH = 1 + k2 * c1;
+  return Math.sqrt((dL / kL) ** 2 + (dC / sC) ** 2 + dH2 / sH ** 2);
+}
+
+/**
+ * CIEDE2000
+ */
+export function deltaE2000(reference: Lab, sample: Lab, options: DeltaEOptions = {}): number {
+  const { kL = 1, kC = 1, kH = 1 } = options;
+  const [l1, a1, b1] = reference;
+  const [l2, a2, b2] = sample;
+
+  // Adjust a* so neutral colors have zero chroma in the rotated space
+  const cMean = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(cMean ** 7 / (cMean ** 7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (a: number, b: number) => (a === 0 && b === 0 ? 0 : (toDegrees(Math.atan2(b, a)) + 360) % 360);
+  const h1p = hue(a1p, b1);
+  const h2p = hue(a2p, b2);
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+  const lMean = (l1 + l2) / 2;
+  const cpMean = (c1p + c2p) / 2;
+  let hpMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean /= 2;
+    else hpMean = h1p + h2p < 360 ? (hpMean + 360) / 2 : (hpMean - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hpMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hpMean))
+    + 0.32 * Math.cos(toRadians(3 * hpMean + 6))
+    - 0.2 * Math.cos(toRadians(4 * hpMean - 63));
+  const dTheta = 30 * Math.exp(-(((hpMean - 275) / 25) ** 2));
+  const rC = 2 * Math.sqrt(cpMean ** 7 / (cpMean ** 7 + 25 ** 7));
+  const sL = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sC = 1 + 0.045 * cpMean;
+  const sH = 1 + 0.015 * cpMean * t;
+  const rT = -Math.sin(toRadians(2 * dTheta)) * rC;
+
+  const lTerm = dLp / (kL * sL);
+  const cTerm = dCp / (kC * sC);
+  const hTerm = dHp / (kH * sH);
+  return Math.sqrt(lTerm ** 2 + cTerm ** 2 + hTerm ** 2 + rT * cTerm * hTerm);
+}
+
+/**
+ * CMC l:c (default 2:1)
+ */
+export function deltaECMC(reference: Lab, sample: Lab, options: DeltaEOptions = {}): number {
+  const { l = 2, c = 1 } = options;
+  const [l1, a1, b1] = reference;
+  const [l2, a2, b2] = sample;
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const dL = l1 - l2;
+  const dC = c1 - c2;
+  const dH2 = Math.max(0, (a1 - a2) ** 2 + (b1 - b2) ** 2 - dC ** 2);
+
+  const h1 = (toDegrees(Math.atan2(b1, a1)) + 360) % 360;
+  const sL = l1 < 16 ? 0.511 : (0.040975 * l1) / (1 + 0.01765 * l1);
+  const sC = (0.0638 * c1) / (1 + 0.0131 * c1) + 0.638;
+  const f = Math.sqrt(c1 ** 4 / (c1 ** 4 + 1900));
+  const t = h1 >= 164 && h1 <= 345
+    ? 0.56 + Math.abs(0.2 * Math.cos(toRadians(h1 + 168)))
+    : 0.36 + Math.abs(0.4 * Math.cos(toRadians(h1 + 35)));
+  const sH = sC * (f * t + 1 - f);
+  return Math.sqrt((dL / (l * sL)) ** 2 + (dC / (c * sC)) ** 2 + dH2 / sH ** 2);
+}
+
+/**
+ * ΔE between two Lab colors with the given formula (default CIEDE2000)
+ */
+export function deltaE(reference: Lab, sample: Lab, method: DeltaEMethod = '2000', options: DeltaEOptions = {}): number {
+  switch (method) {
+    case '76':
+      return deltaE76(reference, sample);
+    case '94':
+      return deltaE94(reference, sample, options);
+    case 'cmc':
+      return deltaECMC(reference, sample, options);
+    case '2000':
+    default:
+      return deltaE2000(reference, sample, options);
+  }
+}
+
+/**
+ * ΔE between two sRGB colors (0-255)
+ */
+export function deltaERgb(
+  reference: [number, number, number],
+  sample: [number, number, number],
+  method: DeltaEMethod = '2000',
+  options: DeltaEOptions = {}
+): number {
+  return deltaE(rgbToLab(...reference), rgbToLab(...sample), method, options);
+}
+
+/**
+ * Lab (D65) of color space values, using the preset's color space, white point and adaptation
+ */
+export function valuesToLab(values: number[], preset: PresetConfig): Lab | null {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  if (!definition || values.length < definition.colorSpace.axes.length) return null;
+  const options = conversionOptions(preset);
+  return xyzToLab(...definition.toXyz(values, options));
+}
+
+/**
+ * Color space values of a Lab (D65) color in the preset's color space
+ */
+export function labToValues(lab: Lab, preset: PresetConfig): number[] | null {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  if (!definition) return null;
+  const options = conversionOptions(preset);
+  return definition.fromXyz(labToXyz(...lab), options);
+}
+
+/**
+ * Options for checking points against a reference
+ */
+export interface ToleranceOptions extends DeltaEOptions {
+  reference?: number; // Index of the reference point (default 0)
+  threshold?: number; // Largest accepted ΔE (default 2)
+  method?: DeltaEMethod; // Default '2000'
+}
+
+/**
+ * ΔE of a point against the reference and whether it is within tolerance
+ */
+export interface ToleranceResult {
+  index: number;
+  deltaE: number;
+  pass: boolean;
+}
+
+/**
+ * Compare every point (except the reference) of a preset with the reference point
+ */
+export function evaluateTolerance(
+  points: ColorPoint[],
+  preset: PresetConfig,
+  options: ToleranceOptions = {}
+): ToleranceResult[] {
+  const { reference = 0, threshold = 2, method = '2000' } = options;
+  const referenceLab = points[reference] ? valuesToLab(points[reference].values, preset) : null;
+  if (!referenceLab) return [];
+
+  const results: ToleranceResult[] = [];
+  points.forEach((point, index) => {
+    if (index === reference) return;
+    const lab = valuesToLab(point.values, preset);
+    if (!lab) return;
+    const difference = deltaE(referenceLab, lab, method, options);
+    results.push({ index, deltaE: difference, pass: difference <= threshold });
+  });
+  return results;
+}
+
+/**
+ * Point on the tolerance boundary: the Lab color at ΔE = threshold from the reference in a
+ * Lab direction (found by bisection, since ΔE grows with distance along a ray)
+ */
+export function toleranceBoundary(
+  reference: Lab,
+  direction: Lab,
+  threshold: number,
+  method: DeltaEMethod = '2000',
+  options: DeltaEOptions = {}
+): Lab {
+  const length = Math.hypot(...direction) || 1;
+  const unit = direction.map((d) => d / length);
+  const at = (r: number): Lab => [reference[0] + unit[0] * r, reference[1] + unit[1] * r, reference[2] + unit[2] * r];
+
+  let low = 0;
+  let high = Math.max(threshold, 1);
+  while (deltaE(reference, at(high), method, options) < threshold && high < 400) {
+    high *= 2;
+  }
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    if (deltaE(reference, at(mid), method, options) < threshold) low = mid;
+    else high = mid;
+  }
+  return at((low + high) / 2);
+}
+
+/**
+ * Tolerance boundary in the constant-lightness plane through the reference: the ΔE = threshold
+ * contour around it in a*b* (an ellipse for ΔE94/2000/CMC, a circle for ΔE76)
+ */
+export function toleranceContour(reference: Lab, options: ToleranceOptions = {}, segments: number = 72): Lab[] {
+  const { threshold = 2, method = '2000' } = options;
+  const contour: Lab[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * 2 * Math.PI;
+    contour.push(toleranceBoundary(reference, [0, Math.cos(angle), Math.sin(angle)], threshold, method, options));
+  }
+  return contour;
+}
@@ -0,0 +1,160 @@
+/**
+ * Color harmonies
+ * A harmony rotates the hue of a base color (complementary, triadic, ...) or varies its lightness
+ * (monochromatic). The hue can be taken from HSL, HSV, CIE LCh or OKLCh, whatever the color
+ * space of the base values; results are returned in that color space.
+ */
+
+import { ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import type { ColorSpaceDefinition } from '../registry';
+import { mapColorValues } from './gamutMapping';
+
+export type HarmonyType =
+  | 'complementary'
+  | 'split-complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'tetradic'
+  | 'square'
+  | 'monochromatic';
+
+/**
+ * Color space whose hue is rotated
+ */
+export type HarmonyModel = 'HSL' | 'HSV' | 'LCh' | 'OKLCh';
+
+export interface HarmonyOptions {
+  type?: HarmonyType; // Default 'complementary'
+  model?: HarmonyModel; // Default: the base's color space when it has a hue, otherwise OKLCh
+  angle?: number; // Hue step of analogous and split-complementary sets (default 30°)
+  count?: number; // Colors in analogous and monochromatic sets (default 5)
+}
+
+/**
+ * Channel layout of each model: hue and chroma/saturation indices, lightness index and range
+ */
+const MODELS: Record<HarmonyModel, { hue: number; chroma: number; lightness: number; range: [number, number] }> = {
+  HSL: { hue: 0, chroma: 1, lightness: 2, range: [0, 100] },
+  HSV: { hue: 0, chroma: 1, lightness: 2, range: [0, 100] },
+  LCh: { hue: 2, chroma: 1, lightness: 0, range: [0, 100] },
+  OKLCh: { hue: 2, chroma: 1, lightness: 0, range: [0, 1] },
+};
+
+/**
+ * Hue offsets (degrees) of a harmony, the base (0) first; monochromatic sets keep the hue
+ */
+export function getHarmonyOffsets(type: HarmonyType, angle: number = 30, count: number = 5): number[] {
+  switch (type) {
+    case 'complementary':
+      return [0, 180];
+    case 'split-complementary':
+      return [0, 180 - angle, 180 + angle];
+    case 'analogous':
+      // Alternate around the base: 0, +a, -a, +2a, -2a, ...
+      return Array.from({ length: Math.max(1, count) }, (_, i) => (i % 2 === 1 ? 1 : -1) * Math.ceil(i / 2) * angle);
+    case 'triadic':
+      return [0, 120, 240];
+    case 'tetradic':
+      return [0, 60, 180, 240];
+    case 'square':
+      return [0, 90, 180, 270];
+    case 'monochromatic':
+    default:
+      return Array.from({ length: Math.max(1, count) }, () => 0);
+  }
+}
+
+/**
+ * Model and conversions between it and the preset's color space
+ */
+function resolveModel(
+  preset: PresetConfig,
+  model: HarmonyModel | undefined
+): {
+  definition: ColorSpaceDefinition;
+  layout: (typeof MODELS)[HarmonyModel];
+  toModel: (values: number[]) => number[];
+  fromModel: (values: number[]) => number[];
+} | null {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  if (!definition) return null;
+  const own = (Object.keys(MODELS) as HarmonyModel[]).find(
+    (name) => name.toUpperCase() === definition.colorSpace.name.toUpperCase()
+  );
+  const name = model ?? own ?? 'OKLCh';
+  const modelDefinition = getColorSpaceDefinition(name);
+  if (!modelDefinition) return null;
+
+  const options = conversionOptions(preset);
+  const same = modelDefinition === definition;
+  return {
+    definition,
+    layout: MODELS[name],
+    toModel: (values) => (same ? values : modelDefinition.fromXyz(definition.toXyz(values, options), options)),
+    fromModel: (values) => (same ? values : definition.fromXyz(modelDefinition.toXyz(values, options), options)),
+  };
+}
+
+/**
+ * Generate a harmony from base values in the preset's color space. The base is the first point;
+ * colors outside sRGB are gamut mapped (CSS Color 4).
+ */
+export function generateHarmony(
+  base: number[],
+  preset: PresetConfig,
+  options: HarmonyOptions = {}
+): ColorPoint[] {
+  const resolved = resolveModel(preset, options.model);
+  if (!resolved || base.length < resolved.definition.colorSpace.axes.length) return [];
+  const { definition, layout, toModel, fromModel } = resolved;
+
+  const type = options.type ?? 'complementary';
+  const count = Math.max(1, Math.round(options.count ?? 5));
+  const modelBase = toModel(base);
+  const conversion = conversionOptions(preset);
+  const toPoint = (values: number[], label: string): ColorPoint => ({
+    values,
+    color: mapColorValues(definition, values, conversion).hex,
+    label,
+  });
+
+  if (type === 'monochromatic') {
+    // Evenly spaced lightness between 15% and 85% of the range; the step nearest the base becomes the base
+    const [min, max] = layout.range;
+    const baseT = (modelBase[layout.lightness] - min) / (max - min);
+    const steps = Array.from({ length: count }, (_, i) => (count === 1 ? 0.5 : 0.15 + (0.7 * i) / (count - 1)));
+    const nearest = steps.reduce((best, t, i) => (Math.abs(t - baseT) < Math.abs(steps[best] - baseT) ? i : best), 0);
+    const others = steps.filter((_, i) => i !== nearest).map((t) => {
+      const values = [...modelBase];
+      values[layout.lightness] = min + t * (max - min);
+      const rounded = Math.round(t * 100);
+      return toPoint(fromModel(values), `L ${rounded}%`);
+    });
+    return [toPoint(base, 'Base'), ...others];
+  }
+
+  return getHarmonyOffsets(type, options.angle ?? 30, count).map((offset, i) => {
+    if (i === 0) return toPoint(base, 'Base');
+    const values = [...modelBase];
+    values[layout.hue] = (((values[layout.hue] + offset) % 360) + 360) % 360;
+    const sign = offset < 0 ? '−' : '+';
+    return toPoint(fromModel(values), `${sign}${Math.abs(offset)}°`);
+  });
+}
+
+/**
+ * Values of the gray the harmony turns around (no chroma, the base's lightness), e.g. the center
+ * of a hue wheel; null when the color space is unknown
+ */
+export function getHarmonyCenter(
+  base: number[],
+  preset: PresetConfig,
+  options: HarmonyOptions = {}
+): number[] | null {
+  const resolved = resolveModel(preset, options.model);
+  if (!resolved || base.length < resolved.definition.colorSpace.axes.length) return null;
+  const values = [...resolved.toModel(base)];
+  values[resolved.layout.chroma] = 0;
+  return resolved.fromModel(values);
+}
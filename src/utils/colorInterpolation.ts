@@ -0,0 +1,237 @@
+/**
+ * Color interpolation between stops
+ * Follows CSS Color 4 interpolation: colors are converted to the interpolation space, mixed
+ * per component and converted back. Polar spaces (LCh, OKLCh, HSL) mix the hue along the
+ * chosen arc, and a hue without chroma takes the other color's hue.
+ */
+
+import { ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import { hexToRgb, rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import {
+  hslToRgb,
+  labToLch,
+  labToXyz,
+  lchToLab,
+  linearRgbToXyz,
+  oklabToOklch,
+  oklabToXyz,
+  oklchToOklab,
+  rgbToHsl,
+  rgbToXyz,
+  xyzToLab,
+  xyzToLinearRgb,
+  xyzToOklab,
+} from './colorConversion';
+import { gamutMapXyz } from './gamutMapping';
+
+export type InterpolationSpace = 'srgb' | 'srgb-linear' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'hsl';
+
+/**
+ * Arc the hue takes between two colors (CSS Color 4 hue interpolation methods)
+ */
+export type HueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+export interface InterpolationOptions {
+  space?: InterpolationSpace; // Default 'oklab'
+  hue?: HueInterpolation; // Polar spaces only (default 'shorter')
+  steps?: number; // Samples along the whole ramp, stops included (default 32)
+}
+
+type Xyz = [number, number, number];
+
+/** sRGB transfer function, extended to values outside 0-1 by mirroring */
+const encode = (c: number) => {
+  const a = Math.abs(c);
+  return Math.sign(c) * (a <= 0.0031308 ? 12.92 * a : 1.055 * Math.pow(a, 1 / 2.4) - 0.055);
+};
+const decode = (c: number) => {
+  const a = Math.abs(c);
+  return Math.sign(c) * (a <= 0.04045 ? a / 12.92 : Math.pow((a + 0.055) / 1.055, 2.4));
+};
+
+/**
+ * Conversions of each interpolation space; polar spaces name their hue and chroma channels
+ * (the chroma decides whether the hue is meaningful)
+ */
+const SPACES: Record<
+  InterpolationSpace,
+  { to: (xyz: Xyz) => Xyz; from: (coords: Xyz) => Xyz; hue?: number; chroma?: number; achromatic?: number }
+> = {
+  srgb: {
+    to: (xyz) => xyzToLinearRgb(...xyz).map(encode) as Xyz,
+    from: (rgb) => linearRgbToXyz(...(rgb.map(decode) as Xyz)),
+  },
+  'srgb-linear': {
+    to: (xyz) => xyzToLinearRgb(...xyz),
+    from: (rgb) => linearRgbToXyz(...rgb),
+  },
+  lab: {
+    to: (xyz) => xyzToLab(...xyz),
+    from: (lab) => labToXyz(...lab),
+  },
+  lch: {
+    to: (xyz) => labToLch(...xyzToLab(...xyz)),
+    from: (lch) => labToXyz(...lchToLab(...lch)),
+    hue: 2,
+    chroma: 1,
+    achromatic: 0.02,
+  },
+  oklab: {
+    to: (xyz) => xyzToOklab(...xyz),
+    from: (lab) => oklabToXyz(...lab),
+  },
+  oklch: {
+    to: (xyz) => oklabToOklch(...xyzToOklab(...xyz)),
+    from: (lch) => oklabToXyz(...oklchToOklab(...lch)),
+    hue: 2,
+    chroma: 1,
+    achromatic: 0.0002,
+  },
+  hsl: {
+    to: (xyz) => {
+      const [r, g, b] = xyzToLinearRgb(...xyz).map((c) => encode(c) * 255);
+      return rgbToHsl(r, g, b);
+    },
+    from: (hsl) => rgbToXyz(...hslToRgb(...hsl)),
+    hue: 0,
+    chroma: 1,
+    achromatic: 0.01,
+  },
+};
+
+/**
+ * Adjust two hues (degrees) so that mixing them linearly follows the requested arc
+ */
+function fixupHues(h1: number, h2: number, method: HueInterpolation): [number, number] {
+  h1 = ((h1 % 360) + 360) % 360;
+  h2 = ((h2 % 360) + 360) % 360;
+  const delta = h2 - h1;
+  switch (method) {
+    case 'longer':
+      if (delta > 0 && delta < 180) h1 += 360;
+      else if (delta > -180 && delta <= 0) h2 += 360;
+      break;
+    case 'increasing':
+      if (delta < 0) h2 += 360;
+      break;
+    case 'decreasing':
+      if (delta > 0) h1 += 360;
+      break;
+    case 'shorter':
+    default:
+      if (delta > 180) h1 += 360;
+      else if (delta < -180) h2 += 360;
+  }
+  return [h1, h2];
+}
+
+/**
+ * Mix two colors' coordinates in an interpolation space; amount 0 gives a, 1 gives b
+ */
+function mixCoords(
+  space: (typeof SPACES)[InterpolationSpace],
+  a: Xyz,
+  b: Xyz,
+  amount: number,
+  method: HueInterpolation
+): Xyz {
+  a = [...a];
+  b = [...b];
+  if (space.hue !== undefined && space.chroma !== undefined) {
+    const h = space.hue;
+    const achromatic = space.achromatic ?? 0;
+    // A hue without chroma is powerless: take the other color's
+    const aGray = a[space.chroma] <= achromatic;
+    const bGray = b[space.chroma] <= achromatic;
+    if (aGray && !bGray) a[h] = b[h];
+    else if (bGray && !aGray) b[h] = a[h];
+    [a[h], b[h]] = fixupHues(a[h], b[h], method);
+  }
+
+  const mixed = a.map((value, j) => value + (b[j] - value) * amount) as Xyz;
+  if (space.hue !== undefined) {
+    mixed[space.hue] = ((mixed[space.hue] % 360) + 360) % 360;
+  }
+  return mixed;
+}
+
+/**
+ * Mix two XYZ (D65, 0-100) colors in the interpolation space; amount 0 gives a, 1 gives b
+ */
+export function mixXyz(a: Xyz, b: Xyz, amount: number, options: InterpolationOptions = {}): Xyz {
+  const space = SPACES[options.space ?? 'oklab'];
+  return space.from(mixCoords(space, space.to(a), space.to(b), amount, options.hue ?? 'shorter'));
+}
+
+/**
+ * Interpolate XYZ (D65, 0-100) stops; returns evenly spaced samples from the first stop to the last
+ */
+export function interpolateXyz(stops: Xyz[], options: InterpolationOptions = {}): Xyz[] {
+  if (stops.length === 0) return [];
+  const space = SPACES[options.space ?? 'oklab'];
+  const method = options.hue ?? 'shorter';
+  const coords = stops.map((xyz) => space.to(xyz));
+  if (stops.length === 1) return [space.from(coords[0])];
+
+  const steps = Math.max(stops.length, Math.round(options.steps ?? 32));
+  const segments = stops.length - 1;
+  const samples: Xyz[] = [];
+  for (let i = 0; i < steps; i++) {
+    const t = (i / (steps - 1)) * segments;
+    const k = Math.min(segments - 1, Math.floor(t));
+    samples.push(space.from(mixCoords(space, coords[k], coords[k + 1], t - k, method)));
+  }
+  return samples;
+}
+
+/**
+ * Interpolate between color space values of a preset (e.g. its points); samples are returned as
+ * points in the same color space, colored with the gamut-mapped sRGB color
+ */
+export function interpolatePoints(
+  stops: number[][],
+  preset: PresetConfig,
+  options: InterpolationOptions = {}
+): ColorPoint[] {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  if (!definition) return [];
+  const conversion = conversionOptions(preset);
+  const xyzStops = stops
+    .filter((values) => values.length >= definition.colorSpace.axes.length)
+    .map((values) => definition.toXyz(values, conversion));
+  return interpolateXyz(xyzStops, options).map((xyz) => ({
+    values: definition.fromXyz(xyz, conversion),
+    color: rgbToHex(...gamutMapXyz(xyz)),
+  }));
+}
+
+/**
+ * Interpolate between sRGB colors (0-255); samples are gamut mapped back into sRGB
+ */
+export function interpolateRgb(
+  stops: Array<[number, number, number]>,
+  options: InterpolationOptions = {}
+): Array<[number, number, number]> {
+  return interpolateXyz(stops.map((rgb) => rgbToXyz(...rgb)), options).map((xyz) => gamutMapXyz(xyz));
+}
+
+/**
+ * CSS linear-gradient through hex stops, sampled in the interpolation space so that any browser
+ * shows the same ramp; e.g. gradientCss(['#ff0000', '#0000ff'], { space: 'oklch' })
+ */
+export function gradientCss(
+  stops: string[],
+  options: InterpolationOptions = {},
+  direction: string = 'to right'
+): string {
+  const rgbStops = stops
+    .map((hex) => hexToRgb(hex))
+    .filter((rgb): rgb is [number, number, number] => rgb !== null);
+  const samples = interpolateRgb(rgbStops, options);
+  const parts = samples.map((rgb, i) => {
+    const position = samples.length > 1 ? (i / (samples.length - 1)) * 100 : 0;
+    return `${rgbToHex(...rgb)} ${Math.round(position * 100) / 100}%`;
+  });
+  return `linear-gradient(${direction}, ${parts.join(', ')})`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Correlated color temperature (CCT) and Duv
+ * The Planckian locus uses Krystek's (1985) rational approximation in CIE 1960 uv,
+ * the daylight locus the CIE D-series formula. CCT is found by minimizing the uv
+ * distance to the locus (equivalent to Ohno's method without lookup tables).
+ */
+
+/** Temperature range covered by the helpers (Kelvin) */
+export const CCT_RANGE: [number, number] = [1000, 25000];
+
+/**
+ * CIE 1960 uv of a blackbody radiator (Krystek approximation, 1000-15000 K, usable to 25000 K)
+ */
+export function planckianUv(cct: number): [number, number] {
+  const t = cct;
+  const u = (0.860117757 + 1.54118254e-4 * t + 1.28641212e-7 * t * t) /
+    (1 + 8.42420235e-4 * t + 7.08145163e-7 * t * t);
+  const v = (0.317398726 + 4.22806245e-5 * t + 4.20481691e-8 * t * t) /
+    (1 - 2.89741816e-5 * t + 1.61456053e-7 * t * t);
+  return [u, v];
+}
+
+/**
+ * Convert xy chromaticity to CIE 1960 uv
+ */
+export function xyToUv1960(x: number, y: number): [number, number] {
+  const d = -2 * x + 12 * y + 3;
+  if (d === 0) {
+    return [0, 0];
+  }
+  return [(4 * x) / d, (6 * y) / d];
+}
+
+/**
+ * Convert CIE 1960 uv to xy chromaticity
+ */
+export function uv1960ToXy(u: number, v: number): [number, number] {
+  const d = 2 * u - 8 * v + 4;
+  if (d === 0) {
+    return [0, 0];
+  }
+  return [(3 * u) / d, (2 * v) / d];
+}
+
+/**
+ * Unit normal of the Planckian locus in uv, pointing towards positive Duv (above the locus, greenish)
+ */
+function planckianNormal(cct: number): [number, number] {
+  const [u1, v1] = planckianUv(cct * 0.999);
+  const [u2, v2] = planckianUv(cct * 1.001);
+  const du = u2 - u1;
+  const dv = v2 - v1;
+  const length = Math.hypot(du, dv) || 1;
+  // Perpendicular to the tangent, oriented so v increases
+  const normal: [number, number] = [-dv / length, du / length];
+  return normal[1] >= 0 ? normal : [-normal[0], -normal[1]];
+}
+
+/**
+ * xy chromaticity of a color temperature, optionally offset from the Planckian locus by Duv
+ * (Duv > 0 is above the locus, towards green)
+ */
+export function cctToXy(cct: number, duv: number = 0): [number, number] {
+  const [u, v] = planckianUv(cct);
+  if (duv === 0) {
+    return uv1960ToXy(u, v);
+  }
+  const [nu, nv] = planckianNormal(cct);
+  return uv1960ToXy(u + duv * nu, v + duv * nv);
+}
+
+/**
+ * CCT (Kelvin) and Duv of an xy chromaticity
+ * The CCT is clamped to CCT_RANGE; Duv is the signed uv distance to the Planckian locus.
+ */
+export function xyToCctDuv(x: number, y: number): { cct: number; duv: number } {
+  const [u, v] = xyToUv1960(x, y);
+  const distance = (cct: number) => {
+    const [pu, pv] = planckianUv(cct);
+    return (u - pu) ** 2 + (v - pv) ** 2;
+  };
+
+  // Coarse scan in mireds (the locus is close to uniform in 1/T), then golden-section refinement
+  const minMired = 1e6 / CCT_RANGE[1];
+  const maxMired = 1e6 / CCT_RANGE[0];
+  const steps = 100;
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i <= steps; i++) {
+    const d = distance(1e6 / (minMired + ((maxMired - minMired) * i) / steps));
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  const stepMired = (maxMired - minMired) / steps;
+  let low = Math.max(minMired, minMired + (best - 1) * stepMired);
+  let high = Math.min(maxMired, minMired + (best + 1) * stepMired);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 40; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (distance(1e6 / a) < distance(1e6 / b)) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+
+  const cct = 1e6 / ((low + high) / 2);
+  const [pu, pv] = planckianUv(cct);
+  const [nu, nv] = planckianNormal(cct);
+  const offset = Math.sqrt(distance(cct));
+  const side = (u - pu) * nu + (v - pv) * nv;
+  return { cct, duv: side < 0 ? -offset : offset };
+}
+
+/**
+ * Correlated color temperature (Kelvin) of an xy chromaticity
+ */
+export function xyToCct(x: number, y: number): number {
+  return xyToCctDuv(x, y).cct;
+}
+
+/**
+ * Duv (signed distance from the Planckian locus in CIE 1960 uv) of an xy chromaticity
+ */
+export function xyToDuv(x: number, y: number): number {
+  return xyToCctDuv(x, y).duv;
+}
+
+/**
+ * xy chromaticity of CIE daylight (D-series) at a color temperature, 4000-25000 K
+ */
+export function daylightXy(cct: number): [number, number] {
+  const t = Math.min(25000, Math.max(4000, cct));
+  const x = t <= 7000
+    ? -4.607e9 / t ** 3 + 2.9678e6 / t ** 2 + 0.09911e3 / t + 0.244063
+    : -2.0064e9 / t ** 3 + 1.9018e6 / t ** 2 + 0.24748e3 / t + 0.23704;
+  const y = -3 * x * x + 2.87 * x - 0.275;
+  return [x, y];
+}
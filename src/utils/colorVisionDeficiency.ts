@@ -0,0 +1,238 @@
+/**
+ * Color vision deficiency (CVD) simulation
+ * Brettel, Viénot & Mollon (1997), Viénot, Brettel & Mollon (1999) and Machado, Oliveira &
+ * Fernandes (2009), all applied to linear sRGB. Matrices for Brettel and Viénot are the sRGB
+ * derivations used by DaltonLens; Machado uses the dichromat matrices of the paper.
+ * Severity 1 simulates dichromacy (protanopia, ...); lower values blend towards normal vision
+ * to approximate the anomalous trichromacies (protanomaly, ...).
+ */
+
+import { getSpectralLocus, isInsideSpectralLocus } from './colorConversion';
+import { Matrix3, multiplyVector } from './matrix3';
+import { cssColorToRgb, parseCssColor } from './cssColor';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+
+export type CvdType = 'protan' | 'deutan' | 'tritan';
+export type CvdMethod = 'brettel' | 'vienot' | 'machado';
+
+export interface CvdOptions {
+  type: CvdType;
+  severity?: number; // 0 (normal vision) to 1 (dichromacy), default 1
+  method?: CvdMethod; // Default 'brettel'
+}
+
+/**
+ * Maps an sRGB color (0-255) to the color drawn in its place
+ */
+export type ColorTransform = (rgb: [number, number, number]) => [number, number, number];
+
+/**
+ * Brettel: the projection plane is split in two half-planes; the normal separates them in linear RGB
+ */
+const BRETTEL: Record<CvdType, { first: Matrix3; second: Matrix3; normal: [number, number, number] }> = {
+  protan: {
+    first: [[0.1498, 1.19548, -0.34528], [0.10764, 0.84864, 0.04372], [0.00384, -0.0054, 1.00156]],
+    second: [[0.1457, 1.16172, -0.30742], [0.10816, 0.85291, 0.03892], [0.00386, -0.00524, 1.00139]],
+    normal: [0.00048, 0.00393, -0.00441],
+  },
+  deutan: {
+    first: [[0.36477, 0.86381, -0.22858], [0.26294, 0.64245, 0.09462], [-0.02006, 0.02728, 0.99278]],
+    second: [[0.37298, 0.88166, -0.25464], [0.25954, 0.63506, 0.1054], [-0.0198, 0.02784, 0.99196]],
+    normal: [-0.00281, -0.00611, 0.00892],
+  },
+  tritan: {
+    first: [[1.01277, 0.13548, -0.14826], [-0.01243, 0.86812, 0.14431], [0.07589, 0.805, 0.11911]],
+    second: [[0.93678, 0.18979, -0.12657], [0.06154, 0.81526, 0.1232], [-0.37562, 1.12767, 0.24796]],
+    normal: [0.03901, -0.02788, -0.01113],
+  },
+};
+
+/**
+ * Viénot: a single projection (defined for protan/deutan; the tritan matrix is a less accurate extension)
+ */
+const VIENOT: Record<CvdType, Matrix3> = {
+  protan: [[0.11238, 0.88762, 0], [0.11238, 0.88762, 0], [0.00401, -0.00401, 1]],
+  deutan: [[0.29275, 0.70725, 0], [0.29275, 0.70725, 0], [-0.02234, 0.02234, 1]],
+  tritan: [[1, 0.14461, -0.14461], [0, 0.85924, 0.14076], [0, 0.85924, 0.14076]],
+};
+
+/**
+ * Machado: dichromat (severity 1.0) matrices
+ */
+const MACHADO: Record<CvdType, Matrix3> = {
+  protan: [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  deutan: [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]],
+  tritan: [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]],
+};
+
+/**
+ * Copunctal points (xy) where the confusion lines of each dichromacy meet
+ */
+export const COPUNCTAL_POINTS: Record<CvdType, [number, number]> = {
+  protan: [0.7465, 0.2535],
+  deutan: [1.4, -0.4],
+  tritan: [0.1748, 0],
+};
+
+const IDENTITY: Matrix3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+/**
+ * Linear RGB matrices for the simulation: the second matrix applies where the color lies on the
+ * negative side of the normal (Brettel); the other methods use one matrix. Severity is blended in.
+ */
+export function getCvdMatrices(options: CvdOptions): {
+  first: Matrix3;
+  second: Matrix3;
+  normal: [number, number, number];
+} {
+  const severity = Math.max(0, Math.min(1, options.severity ?? 1));
+  const blend = (matrix: Matrix3) =>
+    matrix.map((row, i) => row.map((m, j) => severity * m + (1 - severity) * IDENTITY[i][j])) as Matrix3;
+  const method = options.method ?? 'brettel';
+
+  if (method === 'brettel') {
+    const { first, second, normal } = BRETTEL[options.type];
+    return { first: blend(first), second: blend(second), normal };
+  }
+  const matrix = blend(method === 'vienot' ? VIENOT[options.type] : MACHADO[options.type]);
+  return { first: matrix, second: matrix, normal: [0, 0, 0] };
+}
+
+// sRGB decoding table (0-255 to linear)
+const TO_LINEAR = Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+function toSrgb(linear: number): number {
+  const c = Math.max(0, Math.min(1, linear));
+  const encoded = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+}
+
+/**
+ * Create a transform that shows sRGB colors (0-255) as seen with the given deficiency
+ */
+export function createCvdTransform(options: CvdOptions): ColorTransform {
+  const { first, second, normal } = getCvdMatrices(options);
+  return ([r, g, b]) => {
+    const lr = TO_LINEAR[Math.max(0, Math.min(255, Math.round(r)))];
+    const lg = TO_LINEAR[Math.max(0, Math.min(255, Math.round(g)))];
+    const lb = TO_LINEAR[Math.max(0, Math.min(255, Math.round(b)))];
+    const m = lr * normal[0] + lg * normal[1] + lb * normal[2] >= 0 ? first : second;
+    const [nr, ng, nb] = multiplyVector(m, [lr, lg, lb]);
+    return [toSrgb(nr), toSrgb(ng), toSrgb(nb)];
+  };
+}
+
+/**
+ * Simulate a deficiency for one sRGB color (0-255)
+ */
+export function simulateCvd(rgb: [number, number, number], options: CvdOptions): [number, number, number] {
+  return createCvdTransform(options)(rgb);
+}
+
+/**
+ * Apply a transform to every color in a CSS value, e.g. a single color or a gradient: hex, named
+ * colors and every color function parseCssColor reads. Opaque colors become hex, others rgba().
+ */
+export function transformCssColors(css: string, transform: ColorTransform): string {
+  // Candidates are hex, words and functions; the ones that are not colors (linear-gradient(, to, ...)
+  // are kept and the scan continues after their name
+  const candidate = /#[0-9a-f]+\b|[a-z][a-z-]*/gi;
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = candidate.exec(css))) {
+    const start = match.index;
+    // Units such as the deg of 90deg
+    if (match[0][0] !== '#' && start > 0 && /[\w.]/.test(css[start - 1])) continue;
+    let end = start + match[0].length;
+    if (css[end] === '(') {
+      // The whole call, nested parentheses included
+      for (let depth = 0; end < css.length; end++) {
+        if (css[end] === '(') depth++;
+        else if (css[end] === ')' && --depth === 0) break;
+      }
+      end++;
+    }
+    const parsed = parseCssColor(css.slice(start, end));
+    const rgb = parsed ? cssColorToRgb(parsed) : null;
+    if (!parsed || !rgb) continue;
+    const [r, g, b] = transform(rgb);
+    const alpha = parsed.alpha ?? 1;
+    result += css.slice(last, start) + (alpha < 1 ? `rgba(${r}, ${g}, ${b}, ${alpha})` : rgbToHex(r, g, b));
+    last = end;
+    candidate.lastIndex = end;
+  }
+  return result + css.slice(last);
+}
+
+/**
+ * Konva filter (ImageData in place) applying a transform to every pixel, for cached images
+ */
+export function createColorTransformFilter(transform: ColorTransform): (imageData: ImageData) => void {
+  return (imageData) => {
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const [r, g, b] = transform([data[i], data[i + 1], data[i + 2]]);
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  };
+}
+
+/**
+ * Confusion lines of a dichromacy in xy: chords of the spectral locus through the copunctal point,
+ * evenly spread in angle. Colors along one line look alike to the dichromat.
+ */
+export function getConfusionLines(type: CvdType, count: number = 15): Array<[[number, number], [number, number]]> {
+  const locus = getSpectralLocus();
+  const [px, py] = COPUNCTAL_POINTS[type];
+
+  // Angular range of the locus seen from the copunctal point, relative to the direction of its centroid
+  const cx = locus.reduce((sum, [x]) => sum + x, 0) / locus.length;
+  const cy = locus.reduce((sum, [, y]) => sum + y, 0) / locus.length;
+  const base = Math.atan2(cy - py, cx - px);
+  const relative = (x: number, y: number) => {
+    let angle = Math.atan2(y - py, x - px) - base;
+    while (angle > Math.PI) angle -= 2 * Math.PI;
+    while (angle <= -Math.PI) angle += 2 * Math.PI;
+    return angle;
+  };
+  const angles = locus.map(([x, y]) => relative(x, y));
+  const minAngle = Math.min(...angles);
+  const maxAngle = Math.max(...angles);
+
+  const lines: Array<[[number, number], [number, number]]> = [];
+  const steps = 600;
+  const reach = 2;
+  for (let i = 0; i < count; i++) {
+    const angle = base + minAngle + ((i + 0.5) / count) * (maxAngle - minAngle);
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    // March along the ray and keep the stretch inside the locus
+    let entry: [number, number] | null = null;
+    let exit: [number, number] | null = null;
+    for (let s = 0; s <= steps; s++) {
+      const t = (s / steps) * reach;
+      const x = px + dx * t;
+      const y = py + dy * t;
+      if (isInsideSpectralLocus(x, y, locus)) {
+        if (!entry) entry = [x, y];
+        exit = [x, y];
+      } else if (entry) {
+        break;
+      }
+    }
+    if (entry && exit && (entry[0] !== exit[0] || entry[1] !== exit[1])) {
+      lines.push([entry, exit]);
+    }
+  }
+  return lines;
+}
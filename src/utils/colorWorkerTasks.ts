@@ -0,0 +1,67 @@
+/**
+ * Tasks a ColorWorkerPool can run off the main thread
+ * The worker and the pool's synchronous fallback both go through runColorWorkerTask,
+ * so results do not depend on where a task ran.
+ */
+
+import { BatchConversion, BatchOptions, ChromaticityGridOptions, chromaticityGridPixels, convertBatch } from './batchConversion';
+import { ImageSamplingOptions, PaletteOptions, PixelBin, binPixelData, extractPalette } from './imagePalette';
+import type { ColorPoint } from '../types';
+
+export type ColorWorkerTask =
+  | { type: 'convert'; conversion: BatchConversion; input: ArrayLike<number>; options?: BatchOptions }
+  | { type: 'bin'; pixels: ArrayLike<number>; options?: ImageSamplingOptions }
+  | { type: 'palette'; pixels: ArrayLike<number>; options?: PaletteOptions }
+  | { type: 'chromaticityGrid'; options: ChromaticityGridOptions };
+
+/**
+ * Result of each task type
+ */
+export interface ColorWorkerResults {
+  convert: Float32Array | Uint8ClampedArray;
+  bin: PixelBin[];
+  palette: ColorPoint[];
+  chromaticityGrid: Uint8ClampedArray;
+}
+
+/**
+ * Message posted to a color worker
+ */
+export interface ColorWorkerRequest {
+  id: number;
+  task: ColorWorkerTask;
+}
+
+/**
+ * Message a color worker posts back
+ */
+export interface ColorWorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Run a task on the current thread
+ */
+export function runColorWorkerTask(task: ColorWorkerTask): ColorWorkerResults[ColorWorkerTask['type']] {
+  switch (task.type) {
+    case 'convert':
+      return convertBatch<Float32Array | Uint8ClampedArray>(task.conversion, task.input, undefined, task.options);
+    case 'bin':
+      return binPixelData(task.pixels, task.options);
+    case 'palette':
+      return extractPalette(binPixelData(task.pixels, { ...task.options, mode: 'bin' }), task.options);
+    case 'chromaticityGrid':
+      return chromaticityGridPixels(task.options);
+    default:
+      throw new Error(`Unknown color worker task: ${(task as { type: string }).type}`);
+  }
+}
+
+/**
+ * Buffers of a result that can be transferred instead of copied
+ */
+export function getTransferables(result: unknown): Transferable[] {
+  return ArrayBuffer.isView(result) ? [result.buffer as ArrayBuffer] : [];
+}
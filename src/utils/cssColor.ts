@@ -0,0 +1,600 @@
+/**
+ * CSS color strings
+ * Parses CSS Color 4/5 syntax — hex, named colors, rgb(), hsl(), hwb(), lab(), lch(), oklab(),
+ * oklch(), color(), color-mix() and relative colors (`oklch(from red l c calc(h + 180))`) —
+ * and serializes XYZ back to any of those forms. XYZ is D65 (0-100) like the rest of the library;
+ * lab() and lch() are relative to D50 as in CSS.
+ */
+
+import { ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import type { ConversionOptions } from '../registry';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import {
+  adaptXyz,
+  labToLch,
+  labToXyz,
+  lchToLab,
+  linearRgbToXyz,
+  oklabToOklch,
+  oklabToXyz,
+  oklchToOklab,
+  rgbToHsl,
+  rgbToXyz,
+  xyzToLab,
+  xyzToLinearRgb,
+  xyzToOklab,
+} from './colorConversion';
+import {
+  ADOBE_RGB_WORKING_SPACE,
+  DISPLAY_P3_WORKING_SPACE,
+  PROPHOTO_WORKING_SPACE,
+  REC2020_WORKING_SPACE,
+  SRGB_TRANSFER,
+  workingSpaceRgbToXyz,
+  xyzToWorkingSpaceLinearRgb,
+} from './rgbWorkingSpaces';
+import type { RgbWorkingSpace } from './rgbWorkingSpaces';
+import { gamutMapXyz, isInSrgbGamut } from './gamutMapping';
+import type { GamutMappingMethod } from './gamutMapping';
+import { mixXyz } from './colorInterpolation';
+import type { HueInterpolation, InterpolationSpace } from './colorInterpolation';
+
+/**
+ * Color spaces of CSS color syntax ('xyz' in color() is read as 'xyz-d65')
+ */
+export type CssColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'a98-rgb'
+  | 'prophoto-rgb'
+  | 'rec2020'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch';
+
+/**
+ * A parsed CSS color. Coordinates are in the units of the space's CSS syntax (sRGB spaces 0-1,
+ * hsl()/hwb() percentages as 0-100, lab() L 0-100, oklab() L 0-1); null stands for `none`.
+ */
+export interface ParsedCssColor {
+  space: CssColorSpace;
+  coords: [number | null, number | null, number | null];
+  alpha: number | null;
+}
+
+/**
+ * Serialization format: a color space (lab(), oklch(), color(display-p3 …), …), hex or rgb()
+ */
+export type CssColorFormat = CssColorSpace | 'hex' | 'rgb';
+
+export interface CssFormatOptions {
+  alpha?: number; // Written when below 1 (default 1)
+  precision?: number; // Significant digits relative to each channel's range (default 5)
+  gamutMapping?: GamutMappingMethod; // For hex, rgb(), hsl() and hwb(), which only hold sRGB (default 'css4')
+}
+
+type Xyz = [number, number, number];
+
+/**
+ * CSS named colors (CSS Color 4) as hex
+ */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1',
+  darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff',
+  gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080',
+  green: '008000', greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+  indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080',
+  lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3',
+  lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899',
+  lightslategrey: '778899', lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32',
+  linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd',
+  mediumorchid: 'ba55d3', mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee',
+  mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc', mediumvioletred: 'c71585', midnightblue: '191970',
+  mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5', navajowhite: 'ffdead', navy: '000080',
+  oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500',
+  orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb', plum: 'dda0dd',
+  powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399', red: 'ff0000', rosybrown: 'bc8f8f',
+  royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57',
+  seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f', steelblue: '4682b4',
+  tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8', tomato: 'ff6347', turquoise: '40e0d0',
+  violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00',
+  yellowgreen: '9acd32',
+};
+
+/**
+ * sRGB (0-1) of an HSL color (hue in degrees, saturation and lightness 0-100), unrounded
+ */
+function hslToSrgb(h: number, s: number, l: number): Xyz {
+  s /= 100;
+  l /= 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  h = ((h % 360) + 360) % 360;
+  return [channel(0), channel(8), channel(4)];
+}
+
+const srgbToXyz = (rgb: number[]): Xyz => linearRgbToXyz(...(rgb.map(SRGB_TRANSFER.toLinear) as Xyz));
+const xyzToSrgb = (xyz: Xyz): Xyz => xyzToLinearRgb(...xyz).map(SRGB_TRANSFER.fromLinear) as Xyz;
+
+const rgbSpace = (space: RgbWorkingSpace) => ({
+  toXyz: ([r, g, b]: number[]) => workingSpaceRgbToXyz(space, r * 255, g * 255, b * 255),
+  fromXyz: (xyz: Xyz) => xyzToWorkingSpaceLinearRgb(space, ...xyz).map(space.transfer.fromLinear) as Xyz,
+});
+
+/**
+ * Conversions between each space's CSS coordinates and XYZ (D65, 0-100)
+ */
+const SPACES: Record<CssColorSpace, { toXyz: (coords: number[]) => Xyz; fromXyz: (xyz: Xyz) => Xyz }> = {
+  srgb: { toXyz: srgbToXyz, fromXyz: xyzToSrgb },
+  'srgb-linear': {
+    toXyz: ([r, g, b]) => linearRgbToXyz(r, g, b),
+    fromXyz: (xyz) => xyzToLinearRgb(...xyz),
+  },
+  'display-p3': rgbSpace(DISPLAY_P3_WORKING_SPACE),
+  'a98-rgb': rgbSpace(ADOBE_RGB_WORKING_SPACE),
+  'prophoto-rgb': rgbSpace(PROPHOTO_WORKING_SPACE),
+  rec2020: rgbSpace(REC2020_WORKING_SPACE),
+  'xyz-d50': {
+    toXyz: ([x, y, z]) => adaptXyz(x * 100, y * 100, z * 100, 'D50', 'D65'),
+    fromXyz: (xyz) => adaptXyz(...xyz, 'D65', 'D50').map((c) => c / 100) as Xyz,
+  },
+  'xyz-d65': {
+    toXyz: ([x, y, z]) => [x * 100, y * 100, z * 100],
+    fromXyz: (xyz) => xyz.map((c) => c / 100) as Xyz,
+  },
+  hsl: {
+    toXyz: ([h, s, l]) => srgbToXyz(hslToSrgb(h, s, l)),
+    fromXyz: (xyz) => {
+      const [r, g, b] = xyzToSrgb(xyz);
+      return rgbToHsl(r * 255, g * 255, b * 255);
+    },
+  },
+  hwb: {
+    toXyz: ([h, w, b]) => {
+      w /= 100;
+      b /= 100;
+      if (w + b >= 1) {
+        const gray = w / (w + b);
+        return srgbToXyz([gray, gray, gray]);
+      }
+      return srgbToXyz(hslToSrgb(h, 100, 50).map((c) => c * (1 - w - b) + w));
+    },
+    fromXyz: (xyz) => {
+      const rgb = xyzToSrgb(xyz);
+      const [h] = rgbToHsl(rgb[0] * 255, rgb[1] * 255, rgb[2] * 255);
+      return [h, Math.min(...rgb) * 100, (1 - Math.max(...rgb)) * 100];
+    },
+  },
+  lab: {
+    toXyz: ([l, a, b]) => labToXyz(l, a, b, 'D50'),
+    fromXyz: (xyz) => xyzToLab(...xyz, 'D50'),
+  },
+  lch: {
+    toXyz: ([l, c, h]) => labToXyz(...lchToLab(l, c, h), 'D50'),
+    fromXyz: (xyz) => labToLch(...xyzToLab(...xyz, 'D50')),
+  },
+  oklab: {
+    toXyz: ([l, a, b]) => oklabToXyz(l, a, b),
+    fromXyz: (xyz) => xyzToOklab(...xyz),
+  },
+  oklch: {
+    toXyz: ([l, c, h]) => oklabToXyz(...oklchToOklab(l, c, h)),
+    fromXyz: (xyz) => oklabToOklch(...xyzToOklab(...xyz)),
+  },
+};
+
+/**
+ * Color functions: space, channel keywords (for relative colors), the value 100% stands for
+ * and a divisor from the function's units to the space's (rgb() takes 0-255)
+ */
+interface ColorFunction {
+  space: CssColorSpace;
+  channels: [string, string, string];
+  percent: [number, number, number];
+  scale?: number;
+  legacy?: boolean; // Accepts the comma-separated syntax
+}
+
+const RGB_FUNCTION: ColorFunction = { space: 'srgb', channels: ['r', 'g', 'b'], percent: [255, 255, 255], scale: 255, legacy: true };
+const HSL_FUNCTION: ColorFunction = { space: 'hsl', channels: ['h', 's', 'l'], percent: [0, 100, 100], legacy: true };
+
+const COLOR_FUNCTIONS: Record<string, ColorFunction> = {
+  rgb: RGB_FUNCTION,
+  rgba: RGB_FUNCTION,
+  hsl: HSL_FUNCTION,
+  hsla: HSL_FUNCTION,
+  hwb: { space: 'hwb', channels: ['h', 'w', 'b'], percent: [0, 100, 100] },
+  lab: { space: 'lab', channels: ['l', 'a', 'b'], percent: [100, 125, 125] },
+  lch: { space: 'lch', channels: ['l', 'c', 'h'], percent: [100, 150, 0] },
+  oklab: { space: 'oklab', channels: ['l', 'a', 'b'], percent: [1, 0.4, 0.4] },
+  oklch: { space: 'oklch', channels: ['l', 'c', 'h'], percent: [1, 0.4, 0] },
+};
+
+/** Spaces allowed in color() */
+const PREDEFINED_SPACES: CssColorSpace[] = [
+  'srgb', 'srgb-linear', 'display-p3', 'a98-rgb', 'prophoto-rgb', 'rec2020', 'xyz-d50', 'xyz-d65',
+];
+
+const INTERPOLATION_SPACES: InterpolationSpace[] = ['srgb', 'srgb-linear', 'lab', 'lch', 'oklab', 'oklch', 'hsl'];
+const HUE_METHODS: HueInterpolation[] = ['shorter', 'longer', 'increasing', 'decreasing'];
+
+const NUMBER = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+const ANGLES: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+
+/**
+ * Split a function body at the top level: whitespace separates tokens, ',' and '/' are tokens
+ * of their own and nested functions stay whole; null when the parentheses do not balance
+ */
+function tokenize(body: string): string[] | null {
+  const tokens: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return null;
+    if (depth === 0 && (/\s/.test(char) || char === ',' || char === '/')) {
+      if (current) tokens.push(current);
+      if (char === ',' || char === '/') tokens.push(char);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (depth !== 0) return null;
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * A number, percentage (relative to `percent`) or, for hues, angle; undefined when invalid
+ */
+function parseNumber(token: string, percent: number, hue: boolean): number | undefined {
+  const match = NUMBER.exec(token);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  const unit = match[2];
+  if (!unit) return value;
+  if (unit === '%') return hue ? undefined : (value / 100) * percent;
+  return hue ? value * ANGLES[unit] : undefined;
+}
+
+/**
+ * Evaluate a calc() body with + - * /, parentheses, numbers and keywords
+ */
+function evaluateCalc(
+  expression: string,
+  percent: number,
+  hue: boolean,
+  keywords: Record<string, number>
+): number | undefined {
+  const tokens = expression.match(/calc\(|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:%|deg|rad|grad|turn)?|[a-z-]*[a-z]|[-+*/()]/g) || [];
+  let index = 0;
+  const constants: Record<string, number> = { pi: Math.PI, e: Math.E, ...keywords };
+
+  const factor = (): number | undefined => {
+    const token = tokens[index++];
+    if (token === undefined) return undefined;
+    if (token === '-') {
+      const value = factor();
+      return value === undefined ? undefined : -value;
+    }
+    if (token === '+') return factor();
+    if (token === '(' || token === 'calc(') {
+      const value = sum();
+      return tokens[index++] === ')' ? value : undefined;
+    }
+    if (constants[token] !== undefined) return constants[token];
+    return parseNumber(token, percent, hue);
+  };
+  const product = (): number | undefined => {
+    let value = factor();
+    while (value !== undefined && (tokens[index] === '*' || tokens[index] === '/')) {
+      const operator = tokens[index++];
+      const right = factor();
+      if (right === undefined) return undefined;
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+  const sum = (): number | undefined => {
+    let value = product();
+    while (value !== undefined && (tokens[index] === '+' || tokens[index] === '-')) {
+      const operator = tokens[index++];
+      const right = product();
+      if (right === undefined) return undefined;
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const value = sum();
+  return index === tokens.length && value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * One component: a number, percentage, angle, `none` (null), channel keyword or calc();
+ * undefined when invalid
+ */
+function parseComponent(
+  token: string,
+  percent: number,
+  hue: boolean,
+  keywords: Record<string, number>
+): number | null | undefined {
+  if (token === 'none') return null;
+  if (keywords[token] !== undefined) return keywords[token];
+  const calc = /^calc\((.*)\)$/s.exec(token);
+  if (calc) return evaluateCalc(calc[1], percent, hue, keywords);
+  return parseNumber(token, percent, hue);
+}
+
+function parseHex(hex: string): ParsedCssColor | null {
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) return null;
+  const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex;
+  const bytes = (full.match(/../g) as string[]).map((byte) => parseInt(byte, 16) / 255);
+  return { space: 'srgb', coords: [bytes[0], bytes[1], bytes[2]], alpha: bytes[3] ?? 1 };
+}
+
+/**
+ * Coordinates of a parsed color in another space (`none` counts as 0)
+ */
+function convertParsed(color: ParsedCssColor, space: CssColorSpace): Xyz {
+  const coords = color.coords.map((c) => c ?? 0) as Xyz;
+  return color.space === space ? coords : SPACES[space].fromXyz(SPACES[color.space].toXyz(coords));
+}
+
+function parseColorFunction(name: string, tokens: string[]): ParsedCssColor | null {
+  // Relative color: `from <color>` first
+  let origin: ParsedCssColor | null = null;
+  if (tokens[0] === 'from') {
+    origin = tokens[1] ? parseCssColor(tokens[1]) : null;
+    if (!origin) return null;
+    tokens = tokens.slice(2);
+  }
+
+  let fn: ColorFunction | undefined = COLOR_FUNCTIONS[name];
+  if (name === 'color') {
+    const space = (tokens[0] === 'xyz' ? 'xyz-d65' : tokens[0]) as CssColorSpace;
+    if (!PREDEFINED_SPACES.includes(space)) return null;
+    fn = { space, channels: space.startsWith('xyz') ? ['x', 'y', 'z'] : ['r', 'g', 'b'], percent: [1, 1, 1] };
+    tokens = tokens.slice(1);
+  }
+  if (!fn) return null;
+
+  let components: string[];
+  let alphaToken: string | undefined;
+  if (tokens.includes(',')) {
+    // Legacy syntax: rgb(255, 0, 0) and rgba(255, 0, 0, 0.5); no `none`
+    if (!fn.legacy || origin || !tokens.every((token, i) => (i % 2 === 1) === (token === ','))) return null;
+    const parts = tokens.filter((_, i) => i % 2 === 0);
+    if ((parts.length !== 3 && parts.length !== 4) || parts.includes('none')) return null;
+    // Legacy rgb() channels are all percentages or all numbers
+    if (fn.space === 'srgb' && new Set(parts.slice(0, 3).map((part) => part.endsWith('%'))).size > 1) return null;
+    components = parts.slice(0, 3);
+    alphaToken = parts[3];
+  } else {
+    const slash = tokens.indexOf('/');
+    components = slash >= 0 ? tokens.slice(0, slash) : tokens;
+    if (slash >= 0) {
+      if (slash !== tokens.length - 2) return null;
+      alphaToken = tokens[slash + 1];
+    }
+    if (components.length !== 3) return null;
+  }
+
+  // Channel keywords hold the origin's values in this function's units
+  const keywords: Record<string, number> = {};
+  if (origin) {
+    const coords = convertParsed(origin, fn.space);
+    fn.channels.forEach((channel, i) => {
+      keywords[channel] = coords[i] * (fn!.scale ?? 1);
+    });
+    keywords.alpha = origin.alpha ?? 0;
+  }
+
+  const coords = components.map((token, i) => {
+    const value = parseComponent(token, fn!.percent[i], fn!.channels[i] === 'h', keywords);
+    return value === null || value === undefined ? value : value / (fn!.scale ?? 1);
+  });
+  if (coords.some((value) => value === undefined)) return null;
+
+  let alpha: number | null = origin ? keywords.alpha : 1;
+  if (alphaToken !== undefined) {
+    const value = parseComponent(alphaToken, 1, false, keywords);
+    if (value === undefined) return null;
+    alpha = value === null ? null : Math.max(0, Math.min(1, value));
+  }
+  return { space: fn.space, coords: coords as ParsedCssColor['coords'], alpha };
+}
+
+/**
+ * color-mix(in <space> [<hue> hue], <color> [<percentage>], <color> [<percentage>]);
+ * the spaces are those of interpolateXyz
+ */
+function parseColorMix(tokens: string[]): ParsedCssColor | null {
+  const groups: string[][] = [[]];
+  tokens.forEach((token) => (token === ',' ? groups.push([]) : groups[groups.length - 1].push(token)));
+  if (groups.length !== 3 || groups[0][0] !== 'in') return null;
+
+  const [, spaceName, hueMethod, hueKeyword] = groups[0];
+  const space = spaceName as InterpolationSpace;
+  if (!INTERPOLATION_SPACES.includes(space)) return null;
+  if (groups[0].length === 4 ? hueKeyword !== 'hue' || !HUE_METHODS.includes(hueMethod as HueInterpolation) : groups[0].length !== 2) {
+    return null;
+  }
+
+  const stops = groups.slice(1).map((group) => {
+    const percentIndex = group.findIndex((token) => token.endsWith('%'));
+    const colorToken = group.find((_, i) => i !== percentIndex);
+    const percentage = percentIndex >= 0 ? parseNumber(group[percentIndex], 100, false) : null;
+    const color = colorToken && group.length <= 2 ? parseCssColor(colorToken) : null;
+    return { color, percentage };
+  });
+  if (stops.some(({ color, percentage }) => !color || percentage === undefined)) return null;
+
+  // Missing percentages complete the other to 100%; a total below 100% makes the mix transparent
+  let [p1, p2] = stops.map(({ percentage }) => percentage as number | null);
+  if (p1 === null && p2 === null) [p1, p2] = [50, 50];
+  else if (p1 === null) p1 = 100 - (p2 as number);
+  else if (p2 === null) p2 = 100 - p1;
+  const total = (p1 as number) + (p2 as number);
+  if (total <= 0) return null;
+  const amount = (p2 as number) / total;
+
+  const [first, second] = stops.map(({ color }) => color as ParsedCssColor);
+  const xyz = mixXyz(cssColorToXyz(first)!, cssColorToXyz(second)!, amount, {
+    space,
+    hue: groups[0].length === 4 ? (hueMethod as HueInterpolation) : 'shorter',
+  });
+  const [a1, a2] = [first.alpha ?? second.alpha ?? 1, second.alpha ?? first.alpha ?? 1];
+  const alpha = (a1 + (a2 - a1) * amount) * Math.min(1, total / 100);
+  return { space, coords: SPACES[space].fromXyz(xyz), alpha };
+}
+
+/**
+ * Parse a CSS color; null when the string is not a color this parser understands
+ * (e.g. currentcolor or system colors)
+ */
+export function parseCssColor(css: string): ParsedCssColor | null {
+  const text = css.trim().toLowerCase();
+  if (text.startsWith('#')) return parseHex(text.slice(1));
+  if (text === 'transparent') return { space: 'srgb', coords: [0, 0, 0], alpha: 0 };
+  if (NAMED_COLORS[text]) return parseHex(NAMED_COLORS[text]);
+
+  const match = /^([a-z-]+)\((.*)\)$/s.exec(text);
+  const tokens = match ? tokenize(match[2]) : null;
+  if (!match || !tokens) return null;
+  return match[1] === 'color-mix' ? parseColorMix(tokens) : parseColorFunction(match[1], tokens);
+}
+
+/**
+ * XYZ (D65, 0-100) of a CSS color, ignoring alpha; null when it cannot be parsed
+ */
+export function cssColorToXyz(color: string | ParsedCssColor): Xyz | null {
+  const parsed = typeof color === 'string' ? parseCssColor(color) : color;
+  if (!parsed) return null;
+  return SPACES[parsed.space].toXyz(parsed.coords.map((c) => c ?? 0));
+}
+
+/**
+ * sRGB (0-255) of a CSS color; colors outside sRGB are gamut mapped
+ */
+export function cssColorToRgb(
+  color: string | ParsedCssColor,
+  gamutMapping: GamutMappingMethod = 'css4'
+): [number, number, number] | null {
+  const xyz = cssColorToXyz(color);
+  return xyz ? gamutMapXyz(xyz, gamutMapping) : null;
+}
+
+/**
+ * Serialize XYZ (D65, 0-100) as a CSS color, e.g. formatCssColor(xyz, 'oklch') → 'oklch(0.628 0.25764 29.23)'
+ */
+export function formatCssColor(xyz: Xyz, format: CssColorFormat = 'hex', options: CssFormatOptions = {}): string {
+  const precision = options.precision ?? 5;
+  const alpha = Math.max(0, Math.min(1, options.alpha ?? 1));
+  // Round to the precision relative to the channel's range, so noise near 0 disappears
+  const number = (value: number, range: number = 1) => {
+    const decimals = Math.max(0, precision - 1 - Math.floor(Math.log10(range)));
+    const rounded = Number(value.toFixed(decimals));
+    return String(rounded === 0 ? 0 : rounded);
+  };
+  const fn = COLOR_FUNCTIONS[format];
+  const ranges = fn ? fn.channels.map((channel, i) => (channel === 'h' ? 360 : fn.percent[i])) : [1, 1, 1];
+  const alphaPart = alpha < 1 ? ` / ${number(alpha)}` : '';
+
+  // hex, rgb(), hsl() and hwb() are limited to sRGB
+  if (format === 'hex' || format === 'rgb' || format === 'hsl' || format === 'hwb') {
+    const rgb = gamutMapXyz(xyz, options.gamutMapping ?? 'css4');
+    if (format === 'hex') {
+      return alpha < 1 ? rgbToHex(...rgb) + Math.round(alpha * 255).toString(16).padStart(2, '0') : rgbToHex(...rgb);
+    }
+    if (format === 'rgb') {
+      return `rgb(${rgb.join(' ')}${alphaPart})`;
+    }
+    const [h, a, b] = SPACES[format].fromXyz(rgbToXyz(...rgb));
+    return `${format}(${number(h, 360)} ${number(a, 100)}% ${number(b, 100)}%${alphaPart})`;
+  }
+
+  const coords = SPACES[format].fromXyz(xyz).map((value, i) => number(value, ranges[i])).join(' ');
+  if (PREDEFINED_SPACES.includes(format)) {
+    return `color(${format} ${coords}${alphaPart})`;
+  }
+  return `${format}(${coords}${alphaPart})`;
+}
+
+/**
+ * Re-serialize a CSS color in another format, keeping its alpha; null when it cannot be parsed
+ */
+export function convertCssColor(css: string, format: CssColorFormat, options: CssFormatOptions = {}): string | null {
+  const parsed = parseCssColor(css);
+  const xyz = parsed ? cssColorToXyz(parsed) : null;
+  if (!parsed || !xyz) return null;
+  return formatCssColor(xyz, format, { alpha: parsed.alpha ?? 1, ...options });
+}
+
+/**
+ * Values of a CSS color in a registered color space. Colors the space cannot hold (e.g. wide-gamut
+ * colors in RGB or HSL) are gamut mapped into sRGB first; null when the color or space is unknown.
+ */
+export function cssColorToValues(
+  css: string,
+  colorSpace: string,
+  options: ConversionOptions = {},
+  gamutMapping: GamutMappingMethod = 'css4'
+): number[] | null {
+  const definition = getColorSpaceDefinition(colorSpace);
+  const xyz = cssColorToXyz(css);
+  if (!definition || !xyz) return null;
+
+  const values = definition.fromXyz(xyz, options);
+  if (isInSrgbGamut(xyz)) return values;
+  const roundTrip = definition.toXyz(values, options);
+  if (roundTrip.every((c, i) => Math.abs(c - xyz[i]) < 0.5)) return values;
+  return definition.fromXyz(rgbToXyz(...gamutMapXyz(xyz, gamutMapping)), options);
+}
+
+/**
+ * A point from a CSS color string, or a point whose color is any CSS color (values missing or
+ * shorter than the color space's axes are taken from the color). The color becomes the gamut-mapped
+ * hex; null when the string cannot be parsed.
+ */
+export function resolveColorPoint(
+  input: ColorPoint | string,
+  preset: PresetConfig,
+  gamutMapping: GamutMappingMethod = 'css4'
+): ColorPoint | null {
+  const point: ColorPoint = typeof input === 'string' ? { values: [], color: input } : input;
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  const isHex = /^#[0-9a-f]{6}$/i.test(point.color);
+  const complete = !!definition && (point.values?.length ?? 0) >= definition.colorSpace.axes.length;
+  if (isHex && complete) return point;
+
+  const xyz = cssColorToXyz(point.color);
+  if (!xyz) return complete ? point : null;
+  const options = conversionOptions(preset);
+  const values = complete ? point.values : cssColorToValues(point.color, preset.colorSpace.name, options, gamutMapping);
+  if (!values) return null;
+  return { ...point, values, color: rgbToHex(...gamutMapXyz(xyz, gamutMapping)) };
+}
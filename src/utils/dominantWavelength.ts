@@ -0,0 +1,88 @@
+/**
+ * Dominant wavelength, complementary wavelength and excitation purity
+ * The line from the white point through a chromaticity is intersected with the spectral locus
+ * (getSpectralLocus) and the purple line joining its ends.
+ */
+
+import type { WhitePoint } from '../types';
+import { getSpectralLocus, getSpectralLocusWavelengths, getWhitePoint } from './colorConversion';
+
+export interface DominantWavelengthResult {
+  dominant: number | null; // Dominant wavelength (nm); null for purples, which only have a complementary one
+  complementary: number | null; // Wavelength on the far side of the white point; null when that side is the purple line
+  purity: number; // Excitation purity: distance from white relative to the boundary (0 at white, 1 on the boundary)
+  purple: boolean; // The line from white through the color meets the purple line
+  boundary: [number, number]; // xy where the line from white through the color meets the boundary
+  complementaryBoundary: [number, number] | null; // xy of the complementary wavelength on the locus
+}
+
+interface BoundaryHit {
+  t: number; // Position along the ray (1 is the color itself)
+  xy: [number, number];
+  wavelength: number | null; // null on the purple line
+}
+
+/**
+ * Intersections of the line white + t·direction with the locus segments and the purple line
+ */
+function intersectBoundary(white: [number, number], direction: [number, number]): BoundaryHit[] {
+  const locus = getSpectralLocus();
+  const wavelengths = getSpectralLocusWavelengths();
+  const hits: BoundaryHit[] = [];
+  // Segment i joins point i to i + 1; the last one is the purple line back to the start
+  for (let i = 0; i < locus.length; i++) {
+    const j = (i + 1) % locus.length;
+    const [ax, ay] = locus[i];
+    const ex = locus[j][0] - ax;
+    const ey = locus[j][1] - ay;
+    const denominator = direction[0] * ey - direction[1] * ex;
+    if (Math.abs(denominator) < 1e-12) continue; // Parallel or zero length
+    const wx = ax - white[0];
+    const wy = ay - white[1];
+    const t = (wx * ey - wy * ex) / denominator;
+    const s = (wx * direction[1] - wy * direction[0]) / denominator;
+    if (s < 0 || s > 1) continue;
+    hits.push({
+      t,
+      xy: [ax + s * ex, ay + s * ey],
+      wavelength: j === 0 ? null : wavelengths[i] + s * (wavelengths[j] - wavelengths[i]),
+    });
+  }
+  return hits;
+}
+
+/**
+ * Dominant (or, for purples, complementary) wavelength and excitation purity of an xy chromaticity
+ * relative to a white point (default D65); null at the white point
+ */
+export function dominantWavelength(
+  xy: [number, number],
+  whitePoint: WhitePoint = 'D65'
+): DominantWavelengthResult | null {
+  const white = getWhitePoint(whitePoint);
+  const direction: [number, number] = [xy[0] - white[0], xy[1] - white[1]];
+  // Too close to white for the direction to mean anything
+  if (Math.hypot(direction[0], direction[1]) < 1e-4) return null;
+
+  const hits = intersectBoundary(white, direction);
+  // Nearest boundary crossing on each side of the white point
+  const forward = hits.filter((hit) => hit.t > 1e-9).sort((a, b) => a.t - b.t)[0];
+  const backward = hits.filter((hit) => hit.t < -1e-9).sort((a, b) => b.t - a.t)[0];
+  if (!forward) return null; // White point outside the locus
+
+  return {
+    dominant: forward.wavelength,
+    complementary: backward?.wavelength ?? null,
+    purity: 1 / forward.t,
+    purple: forward.wavelength === null,
+    boundary: forward.xy,
+    complementaryBoundary: backward && backward.wavelength !== null ? backward.xy : null,
+  };
+}
+
+/**
+ * Excitation purity of an xy chromaticity (0 at the white point, 1 on the spectral locus or purple line)
+ */
+export function excitationPurity(xy: [number, number], whitePoint: WhitePoint = 'D65'): number {
+  return dominantWavelength(xy, whitePoint)?.purity ?? 0;
+}
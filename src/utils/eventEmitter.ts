@@ -0,0 +1,63 @@
+/**
+ * Minimal typed event emitter
+ */
+
+type Listener<T> = (event: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<Listener<any>>> = new Map();
+
+  /**
+   * Add a listener
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+  }
+
+  /**
+   * Remove a listener (or all listeners of a type when none is given)
+   */
+  off<K extends keyof Events>(type: K, listener?: Listener<Events[K]>): void {
+    if (!listener) {
+      this.listeners.delete(type);
+      return;
+    }
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    const wrapper: Listener<Events[K]> = (event) => {
+      this.off(type, wrapper);
+      listener(event);
+    };
+    this.on(type, wrapper);
+  }
+
+  /**
+   * Call all listeners of a type
+   */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    // Copy so listeners may remove themselves while being called
+    Array.from(this.listeners.get(type) || []).forEach((listener) => listener(event));
+  }
+
+  /**
+   * Whether any listener is registered for a type
+   */
+  hasListeners<K extends keyof Events>(type: K): boolean {
+    return (this.listeners.get(type)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
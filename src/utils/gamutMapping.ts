@@ -0,0 +1,173 @@
+/**
+ * sRGB gamut checks and gamut mapping
+ * xyzToRgb (and everything built on it) clips each channel to 0-255, which shifts the hue and
+ * lightness of colors outside sRGB. These helpers report whether a color is displayable and map
+ * it into the gamut with a selectable method instead.
+ */
+
+import { ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import type { ColorSpaceDefinition, ConversionOptions } from '../registry';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import {
+  labToLch,
+  labToXyz,
+  lchToLab,
+  oklabToOklch,
+  oklabToXyz,
+  oklchToOklab,
+  rgbToXyz,
+  xyzToLab,
+  xyzToLinearRgb,
+  xyzToOklab,
+  xyzToRgb,
+} from './colorConversion';
+
+/**
+ * Gamut mapping methods:
+ * - 'clip': clamp each sRGB channel (what xyzToRgb does)
+ * - 'lch-chroma': reduce CIE LCh chroma at constant lightness and hue until the color fits
+ * - 'oklch-chroma': the same in OKLCh
+ * - 'css4': the CSS Color 4 algorithm (OKLCh chroma reduction, accepting clipped colors within ΔEOK 0.02)
+ */
+export type GamutMappingMethod = 'clip' | 'lch-chroma' | 'oklch-chroma' | 'css4';
+
+/** Tolerance for rounding noise when testing whether linear RGB is inside 0-1 */
+const GAMUT_EPSILON = 1e-4;
+
+/** CSS Color 4: a clipped color this close (ΔEOK) to the chroma-reduced one is accepted */
+const CSS4_JND = 0.02;
+const CSS4_EPSILON = 0.0001;
+
+/**
+ * Whether XYZ (D65, 0-100) lies inside the sRGB gamut
+ */
+export function isInSrgbGamut(xyz: [number, number, number]): boolean {
+  return xyzToLinearRgb(...xyz).every((c) => c >= -GAMUT_EPSILON && c <= 1 + GAMUT_EPSILON);
+}
+
+/**
+ * Whether Lab (D65) lies inside the sRGB gamut
+ */
+export function isLabInSrgbGamut(l: number, a: number, b: number): boolean {
+  return isInSrgbGamut(labToXyz(l, a, b));
+}
+
+/**
+ * Largest chroma (bisection) for which a lightness/hue pair stays inside the gamut
+ */
+function reduceChroma(
+  chroma: number,
+  inGamut: (chroma: number) => boolean,
+  precision: number
+): number {
+  let low = 0;
+  let high = chroma;
+  while (high - low > precision) {
+    const mid = (low + high) / 2;
+    if (inGamut(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * CSS Color 4 gamut mapping in OKLCh; returns the mapped XYZ
+ */
+function css4GamutMap(xyz: [number, number, number]): [number, number, number] {
+  const clip = (color: [number, number, number]) => rgbToXyz(...xyzToRgb(...color));
+  const deltaEOK = (a: [number, number, number], b: [number, number, number]) => {
+    const [l1, a1, b1] = xyzToOklab(...a);
+    const [l2, a2, b2] = xyzToOklab(...b);
+    return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+  };
+
+  const [l, c, h] = oklabToOklch(...xyzToOklab(...xyz));
+  const fromChroma = (chroma: number) => oklabToXyz(...oklchToOklab(l, chroma, h));
+
+  let clipped = clip(xyz);
+  if (deltaEOK(clipped, xyz) < CSS4_JND) return clipped;
+
+  let min = 0;
+  let max = c;
+  let minInGamut = true;
+  while (max - min > CSS4_EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = fromChroma(chroma);
+    if (minInGamut && isInSrgbGamut(current)) {
+      min = chroma;
+      continue;
+    }
+    clipped = clip(current);
+    const error = deltaEOK(clipped, current);
+    if (error < CSS4_JND) {
+      if (CSS4_JND - error < CSS4_EPSILON) return clipped;
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Map XYZ (D65, 0-100) into sRGB; returns RGB 0-255. Colors already in gamut are unchanged.
+ */
+export function gamutMapXyz(
+  xyz: [number, number, number],
+  method: GamutMappingMethod = 'css4'
+): [number, number, number] {
+  if (method === 'clip' || isInSrgbGamut(xyz)) {
+    return xyzToRgb(...xyz);
+  }
+
+  if (method === 'lch-chroma') {
+    const [l, c, h] = labToLch(...xyzToLab(...xyz));
+    if (l >= 100) return [255, 255, 255];
+    if (l <= 0) return [0, 0, 0];
+    const chroma = reduceChroma(c, (chroma) => isLabInSrgbGamut(...lchToLab(l, chroma, h)), 0.01);
+    return xyzToRgb(...labToXyz(...lchToLab(l, chroma, h)));
+  }
+
+  const [l, c, h] = oklabToOklch(...xyzToOklab(...xyz));
+  if (l >= 1) return [255, 255, 255];
+  if (l <= 0) return [0, 0, 0];
+  if (method === 'oklch-chroma') {
+    const fromChroma = (chroma: number) => oklabToXyz(...oklchToOklab(l, chroma, h));
+    const chroma = reduceChroma(c, (chroma) => isInSrgbGamut(fromChroma(chroma)), CSS4_EPSILON);
+    return xyzToRgb(...fromChroma(chroma));
+  }
+  return xyzToRgb(...css4GamutMap(xyz));
+}
+
+/**
+ * Displayable color of color space values: gamut-mapped sRGB (0-255), its hex and whether the
+ * values were inside the gamut to begin with
+ */
+export function mapColorValues(
+  definition: ColorSpaceDefinition,
+  values: number[],
+  options: ConversionOptions = {},
+  method: GamutMappingMethod = 'css4'
+): { rgb: [number, number, number]; hex: string; inGamut: boolean } {
+  const xyz = definition.toXyz(values, options);
+  const inGamut = isInSrgbGamut(xyz);
+  const rgb = inGamut && definition.toRgb ? definition.toRgb(values, options) : gamutMapXyz(xyz, method);
+  return { rgb, hex: rgbToHex(...rgb), inGamut };
+}
+
+/**
+ * A point with its gamut-mapped color (mappedColor) and inGamut filled in; color is kept as given
+ */
+export function mapColorPoint(
+  point: ColorPoint,
+  preset: PresetConfig,
+  method: GamutMappingMethod = 'css4'
+): ColorPoint {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  if (!definition || point.values.length < definition.colorSpace.axes.length) return point;
+  const options = conversionOptions(preset);
+  const { hex, inGamut } = mapColorValues(definition, point.values, options, method);
+  return { ...point, mappedColor: hex, inGamut };
+}
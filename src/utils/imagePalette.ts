@@ -0,0 +1,304 @@
+/**
+ * Image pixel sampling, histogram binning and palette extraction
+ * Pixels are reduced to weighted RGB bins first, so both the pixel cloud and the
+ * palette algorithms work on a few thousand entries regardless of image size.
+ */
+
+import { ColorPoint, ColorSpace, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import { labToRgb, rgbToLab, rgbToXyz } from './colorConversion';
+
+/**
+ * Anything pixels can be read from
+ */
+export type ImageSource = ImageData | HTMLImageElement | HTMLCanvasElement;
+
+/**
+ * A group of similar pixels: average color and share of the image
+ */
+export interface PixelBin {
+  rgb: [number, number, number];
+  count: number; // Number of pixels in the bin
+  weight: number; // count relative to the largest bin (0-1)
+}
+
+/**
+ * Options for reading pixels into bins
+ */
+export interface ImageSamplingOptions {
+  mode?: 'bin' | 'sample'; // Histogram bins (weighted) or evenly spaced raw pixels (default 'bin')
+  sampleCount?: number; // Maximum number of bins/pixels kept (default 2000)
+  binBits?: number; // Bits per channel for binning, 1-8 (default 5 → 32 levels)
+  maxDimension?: number; // Images/canvases are downscaled to this size before reading (default 256)
+  alphaThreshold?: number; // Pixels with lower alpha are ignored (default 128)
+}
+
+/**
+ * Options for palette extraction
+ */
+export interface PaletteOptions extends ImageSamplingOptions {
+  size?: number; // Number of palette colors (default 6)
+  method?: 'kmeans' | 'median-cut'; // Default 'kmeans' (clusters in Lab)
+  iterations?: number; // k-means iterations (default 20)
+  colorSpace?: ColorSpace; // Space of the returned values (default RGB)
+}
+
+/**
+ * Read the pixels of an image source, downscaling images and canvases to maxDimension
+ */
+export function readImageData(source: ImageSource, maxDimension: number = 256): ImageData {
+  if (typeof ImageData !== 'undefined' && source instanceof ImageData) {
+    return source;
+  }
+  const element = source as HTMLImageElement | HTMLCanvasElement;
+  const isImage = typeof HTMLImageElement !== 'undefined' && element instanceof HTMLImageElement;
+  const width = isImage ? (element as HTMLImageElement).naturalWidth : element.width;
+  const height = isImage ? (element as HTMLImageElement).naturalHeight : element.height;
+  if (isImage && (!(element as HTMLImageElement).complete || width === 0)) {
+    throw new Error('Image is not loaded yet. Wait for its load event before reading pixels.');
+  }
+  if (width === 0 || height === 0) {
+    throw new Error('Image source has no pixels.');
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Reduce an image to weighted pixel bins (or evenly spaced pixel samples)
+ */
+export function binImagePixels(source: ImageSource, options: ImageSamplingOptions = {}): PixelBin[] {
+  return binPixelData(readImageData(source, options.maxDimension ?? 256).data, options);
+}
+
+/**
+ * Reduce RGBA pixel data (e.g. ImageData.data) to weighted pixel bins or evenly spaced samples
+ * Works without DOM access, so it can also run in a worker (see ColorWorkerPool)
+ */
+export function binPixelData(data: ArrayLike<number>, options: ImageSamplingOptions = {}): PixelBin[] {
+  const sampleCount = Math.max(1, options.sampleCount ?? 2000);
+  const alphaThreshold = options.alphaThreshold ?? 128;
+  const pixelCount = data.length / 4;
+
+  if (options.mode === 'sample') {
+    const step = Math.max(1, pixelCount / sampleCount);
+    const samples: PixelBin[] = [];
+    for (let p = 0; p < pixelCount && samples.length < sampleCount; p += step) {
+      const i = Math.floor(p) * 4;
+      if (data[i + 3] < alphaThreshold) continue;
+      samples.push({ rgb: [data[i], data[i + 1], data[i + 2]], count: 1, weight: 1 });
+    }
+    return samples;
+  }
+
+  const bits = Math.min(8, Math.max(1, Math.round(options.binBits ?? 5)));
+  const shift = 8 - bits;
+  // Sum of R, G, B and pixel count per bin
+  const bins = new Map<number, [number, number, number, number]>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < alphaThreshold) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const key = ((r >> shift) << (2 * bits)) | ((g >> shift) << bits) | (b >> shift);
+    const bin = bins.get(key);
+    if (bin) {
+      bin[0] += r;
+      bin[1] += g;
+      bin[2] += b;
+      bin[3]++;
+    } else {
+      bins.set(key, [r, g, b, 1]);
+    }
+  }
+
+  const sorted = Array.from(bins.values())
+    .sort((a, b) => b[3] - a[3])
+    .slice(0, sampleCount);
+  const maxCount = sorted.length > 0 ? sorted[0][3] : 1;
+  return sorted.map(([r, g, b, count]) => ({
+    rgb: [Math.round(r / count), Math.round(g / count), Math.round(b / count)],
+    count,
+    weight: count / maxCount,
+  }));
+}
+
+/**
+ * Extract a palette with k-means (in Lab) or median cut (in RGB)
+ * Colors are sorted by how much of the image they cover; weight is relative to the largest
+ */
+export function extractPalette(source: ImageSource | PixelBin[], options: PaletteOptions = {}): ColorPoint[] {
+  const bins = Array.isArray(source) ? source : binImagePixels(source, { ...options, mode: 'bin' });
+  const size = Math.max(1, Math.round(options.size ?? 6));
+  if (bins.length === 0) {
+    return [];
+  }
+
+  const clusters = options.method === 'median-cut'
+    ? medianCut(bins, size)
+    : kMeans(bins, size, options.iterations ?? 20);
+
+  const total = clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+  const maxCount = Math.max(...clusters.map((cluster) => cluster.count));
+  return clusters
+    .sort((a, b) => b.count - a.count)
+    .map((cluster) => {
+      const point = pixelBinsToColorPoints([{ ...cluster, weight: cluster.count / maxCount }], options.colorSpace)[0];
+      return { ...point, label: `${point.color} (${Math.round((cluster.count / total) * 100)}%)` };
+    });
+}
+
+/**
+ * Convert bins to color points in a color space (default RGB), keeping their weights
+ */
+export function pixelBinsToColorPoints(
+  bins: PixelBin[],
+  colorSpace?: ColorSpace,
+  preset?: PresetConfig
+): ColorPoint[] {
+  const definition = colorSpace ? getColorSpaceDefinition(colorSpace.name) : null;
+  const options = preset ? conversionOptions(preset) : undefined;
+  return bins.map(({ rgb, weight }) => ({
+    values: definition ? definition.fromXyz(rgbToXyz(...rgb), options) : [...rgb],
+    color: rgbToHex(...rgb),
+    weight,
+  }));
+}
+
+interface Cluster {
+  rgb: [number, number, number];
+  count: number;
+}
+
+/**
+ * Weighted k-means on the bins in Lab, seeded k-means++ style (deterministic: farthest heavy bin)
+ */
+function kMeans(bins: PixelBin[], k: number, iterations: number): Cluster[] {
+  const labs = bins.map((bin) => rgbToLab(...bin.rgb));
+  const distance = (a: number[], b: number[]) =>
+    (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+  // Seed with the most common color, then repeatedly the bin that is heavy and far from all centers
+  const centers: number[][] = [labs[0]];
+  while (centers.length < Math.min(k, bins.length)) {
+    let best = -1;
+    let bestScore = -1;
+    labs.forEach((lab, i) => {
+      const nearest = Math.min(...centers.map((center) => distance(lab, center)));
+      const score = nearest * bins[i].count;
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    if (bestScore <= 0) break;
+    centers.push(labs[best]);
+  }
+
+  let assignment: number[] = [];
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next = labs.map((lab) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centers.forEach((center, c) => {
+        const d = distance(lab, center);
+        if (d < nearestDistance) {
+          nearestDistance = d;
+          nearest = c;
+        }
+      });
+      return nearest;
+    });
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    next.forEach((c, i) => {
+      const weight = bins[i].count;
+      sums[c][0] += labs[i][0] * weight;
+      sums[c][1] += labs[i][1] * weight;
+      sums[c][2] += labs[i][2] * weight;
+      sums[c][3] += weight;
+    });
+    sums.forEach(([l, a, b, weight], c) => {
+      if (weight > 0) centers[c] = [l / weight, a / weight, b / weight];
+    });
+
+    const converged = assignment.length > 0 && next.every((c, i) => c === assignment[i]);
+    assignment = next;
+    if (converged) break;
+  }
+
+  return centers
+    .map((center, c) => ({
+      rgb: labToRgb(center[0], center[1], center[2]),
+      count: bins.reduce((sum, bin, i) => sum + (assignment[i] === c ? bin.count : 0), 0),
+    }))
+    .filter((cluster) => cluster.count > 0);
+}
+
+/**
+ * Median cut: split the box with the widest channel range at its weighted median until there are k boxes
+ */
+function medianCut(bins: PixelBin[], k: number): Cluster[] {
+  const range = (box: PixelBin[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    box.forEach((bin) => {
+      min = Math.min(min, bin.rgb[channel]);
+      max = Math.max(max, bin.rgb[channel]);
+    });
+    return max - min;
+  };
+  const widest = (box: PixelBin[]) => {
+    const ranges = [0, 1, 2].map((channel) => range(box, channel));
+    const channel = ranges.indexOf(Math.max(...ranges));
+    return { channel, range: ranges[channel] };
+  };
+
+  const boxes: PixelBin[][] = [bins];
+  while (boxes.length < k) {
+    // Pick the splittable box with the widest channel range
+    let target = -1;
+    let targetRange = 0;
+    boxes.forEach((box, i) => {
+      const { range: r } = widest(box);
+      if (box.length > 1 && r > targetRange) {
+        targetRange = r;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const { channel } = widest(box);
+    const sorted = [...box].sort((a, b) => a.rgb[channel] - b.rgb[channel]);
+    const half = sorted.reduce((sum, bin) => sum + bin.count, 0) / 2;
+    let running = 0;
+    let split = 1;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      running += sorted[i].count;
+      if (running >= half) {
+        split = i + 1;
+        break;
+      }
+    }
+    boxes.splice(target, 1, sorted.slice(0, split), sorted.slice(split));
+  }
+
+  return boxes.map((box) => {
+    const count = box.reduce((sum, bin) => sum + bin.count, 0);
+    const average = [0, 1, 2].map((channel) =>
+      Math.round(box.reduce((sum, bin) => sum + bin.rgb[channel] * bin.count, 0) / count)
+    );
+    return { rgb: [average[0], average[1], average[2]], count };
+  });
+}
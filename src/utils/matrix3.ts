@@ -0,0 +1,49 @@
+/**
+ * 3×3 matrix helpers for color conversions
+ */
+
+export type Matrix3 = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number],
+];
+
+/**
+ * Multiply a matrix by a column vector
+ */
+export function multiplyVector(m: Matrix3, v: [number, number, number]): [number, number, number] {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+/**
+ * Multiply two matrices (a × b)
+ */
+export function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  const column = (j: number): [number, number, number] => multiplyVector(a, [b[0][j], b[1][j], b[2][j]]);
+  const [c0, c1, c2] = [column(0), column(1), column(2)];
+  return [
+    [c0[0], c1[0], c2[0]],
+    [c0[1], c1[1], c2[1]],
+    [c0[2], c1[2], c2[2]],
+  ];
+}
+
+/**
+ * Invert a matrix (assumed non-singular)
+ */
+export function invertMatrix(m: Matrix3): Matrix3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+    [C / det, -(a * h - b * g) / det, (a * e - b * d) / det],
+  ];
+}
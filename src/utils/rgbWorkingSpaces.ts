@@ -0,0 +1,251 @@
+/**
+ * RGB working spaces
+ * An RGB space is defined by its primaries, white point and transfer curve; the RGB <-> XYZ
+ * matrices are derived from those. XYZ values are relative to D65 (like the rest of the library),
+ * so spaces with another white point (ProPhoto, D50) are chromatically adapted (Bradford).
+ */
+
+import { chromaticAdaptationMatrix, getD65WhitePoint, getWhitePoint } from './colorConversion';
+import { Matrix3, invertMatrix as invert, multiplyMatrices, multiplyVector as multiply } from './matrix3';
+
+/**
+ * Transfer curve between encoded (0-1) and linear-light (0-1) component values
+ */
+export interface TransferCurve {
+  toLinear(encoded: number): number;
+  fromLinear(linear: number): number;
+}
+
+/**
+ * RGB working space definition
+ */
+export interface RgbWorkingSpace {
+  name: string;
+  primaries: {
+    red: [number, number]; // xy chromaticity
+    green: [number, number];
+    blue: [number, number];
+  };
+  whitePoint: [number, number]; // xy chromaticity
+  transfer: TransferCurve;
+}
+
+/**
+ * Apply a transfer curve symmetrically around 0 so negative (out-of-gamut) values survive
+ */
+function signed(fn: (v: number) => number): (v: number) => number {
+  return (v) => (v < 0 ? -fn(-v) : fn(v));
+}
+
+/**
+ * sRGB piecewise curve (also used by Display P3)
+ */
+export const SRGB_TRANSFER: TransferCurve = {
+  toLinear: signed((v) => (v > 0.04045 ? Math.pow((v + 0.055) / 1.055, 2.4) : v / 12.92)),
+  fromLinear: signed((v) => (v > 0.0031308 ? 1.055 * Math.pow(v, 1 / 2.4) - 0.055 : 12.92 * v)),
+};
+
+/**
+ * Pure power-law curve (e.g. Adobe RGB uses 563/256 ≈ 2.2)
+ */
+export function gammaTransfer(gamma: number): TransferCurve {
+  return {
+    toLinear: signed((v) => Math.pow(v, gamma)),
+    fromLinear: signed((v) => Math.pow(v, 1 / gamma)),
+  };
+}
+
+/**
+ * ITU-R BT.2020 curve (same shape as BT.709, higher precision constants)
+ */
+export const REC2020_TRANSFER: TransferCurve = (() => {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  return {
+    toLinear: signed((v) => (v < beta * 4.5 ? v / 4.5 : Math.pow((v + alpha - 1) / alpha, 1 / 0.45))),
+    fromLinear: signed((v) => (v < beta ? 4.5 * v : alpha * Math.pow(v, 0.45) - (alpha - 1))),
+  };
+})();
+
+/**
+ * ProPhoto (ROMM) curve: gamma 1.8 with a linear segment near black
+ */
+export const PROPHOTO_TRANSFER: TransferCurve = (() => {
+  const et = 1 / 512;
+  return {
+    toLinear: signed((v) => (v < et * 16 ? v / 16 : Math.pow(v, 1.8))),
+    fromLinear: signed((v) => (v < et ? 16 * v : Math.pow(v, 1 / 1.8))),
+  };
+})();
+
+export const SRGB_WORKING_SPACE: RgbWorkingSpace = {
+  name: 'sRGB',
+  primaries: { red: [0.64, 0.33], green: [0.30, 0.60], blue: [0.15, 0.06] },
+  whitePoint: getD65WhitePoint(),
+  transfer: SRGB_TRANSFER,
+};
+
+export const DISPLAY_P3_WORKING_SPACE: RgbWorkingSpace = {
+  name: 'Display P3',
+  primaries: { red: [0.680, 0.320], green: [0.265, 0.690], blue: [0.150, 0.060] },
+  whitePoint: getD65WhitePoint(),
+  transfer: SRGB_TRANSFER,
+};
+
+export const ADOBE_RGB_WORKING_SPACE: RgbWorkingSpace = {
+  name: 'Adobe RGB (1998)',
+  primaries: { red: [0.64, 0.33], green: [0.21, 0.71], blue: [0.15, 0.06] },
+  whitePoint: getD65WhitePoint(),
+  transfer: gammaTransfer(563 / 256),
+};
+
+export const REC2020_WORKING_SPACE: RgbWorkingSpace = {
+  name: 'Rec.2020',
+  primaries: { red: [0.708, 0.292], green: [0.170, 0.797], blue: [0.131, 0.046] },
+  whitePoint: getD65WhitePoint(),
+  transfer: REC2020_TRANSFER,
+};
+
+export const PROPHOTO_WORKING_SPACE: RgbWorkingSpace = {
+  name: 'ProPhoto RGB',
+  primaries: { red: [0.7347, 0.2653], green: [0.1596, 0.8404], blue: [0.0366, 0.0001] },
+  whitePoint: getWhitePoint('D50'),
+  transfer: PROPHOTO_TRANSFER,
+};
+
+/**
+ * Built-in working spaces
+ */
+export const RGB_WORKING_SPACES: RgbWorkingSpace[] = [
+  SRGB_WORKING_SPACE,
+  DISPLAY_P3_WORKING_SPACE,
+  ADOBE_RGB_WORKING_SPACE,
+  REC2020_WORKING_SPACE,
+  PROPHOTO_WORKING_SPACE,
+];
+
+/**
+ * Get a built-in working space by name (case-insensitive, ignoring spaces and punctuation,
+ * so 'display-p3', 'Display P3' and 'displayp3' all match)
+ */
+export function getRgbWorkingSpace(name: string): RgbWorkingSpace | null {
+  const normalize = (s: string) => (s || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const key = normalize(name);
+  return (
+    RGB_WORKING_SPACES.find((space) => normalize(space.name) === key) ||
+    // Allow short names such as 'adobergb' or 'prophoto'
+    RGB_WORKING_SPACES.find((space) => key.length > 0 && normalize(space.name).startsWith(key)) ||
+    null
+  );
+}
+
+/**
+ * xy chromaticity to XYZ with Y = 1
+ */
+function xyToXyz([x, y]: [number, number]): [number, number, number] {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+const matrixCache = new WeakMap<RgbWorkingSpace, { toXyz: Matrix3; fromXyz: Matrix3 }>();
+
+/**
+ * Linear RGB -> XYZ (D65) matrix and its inverse for a working space
+ */
+export function getWorkingSpaceMatrices(space: RgbWorkingSpace): { toXyz: Matrix3; fromXyz: Matrix3 } {
+  const cached = matrixCache.get(space);
+  if (cached) {
+    return cached;
+  }
+
+  // Columns are the primaries' XYZ, scaled so RGB (1, 1, 1) maps to the white point
+  const { red, green, blue } = space.primaries;
+  const [xr, xg, xb] = [xyToXyz(red), xyToXyz(green), xyToXyz(blue)];
+  const primaries: Matrix3 = [
+    [xr[0], xg[0], xb[0]],
+    [xr[1], xg[1], xb[1]],
+    [xr[2], xg[2], xb[2]],
+  ];
+  const [sr, sg, sb] = multiply(invert(primaries), xyToXyz(space.whitePoint));
+  let toXyz: Matrix3 = [
+    [primaries[0][0] * sr, primaries[0][1] * sg, primaries[0][2] * sb],
+    [primaries[1][0] * sr, primaries[1][1] * sg, primaries[1][2] * sb],
+    [primaries[2][0] * sr, primaries[2][1] * sg, primaries[2][2] * sb],
+  ];
+
+  const d65 = getD65WhitePoint();
+  if (space.whitePoint[0] !== d65[0] || space.whitePoint[1] !== d65[1]) {
+    toXyz = multiplyMatrices(chromaticAdaptationMatrix(space.whitePoint, d65), toXyz);
+  }
+
+  const matrices = { toXyz, fromXyz: invert(toXyz) };
+  matrixCache.set(space, matrices);
+  return matrices;
+}
+
+/**
+ * Convert RGB (0-255) in a working space to XYZ (0-100, D65)
+ */
+export function workingSpaceRgbToXyz(
+  space: RgbWorkingSpace,
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const linear: [number, number, number] = [
+    space.transfer.toLinear(r / 255),
+    space.transfer.toLinear(g / 255),
+    space.transfer.toLinear(b / 255),
+  ];
+  const [x, y, z] = multiply(getWorkingSpaceMatrices(space).toXyz, linear);
+  return [x * 100, y * 100, z * 100];
+}
+
+/**
+ * Convert XYZ (0-100, D65) to linear RGB (0-1) in a working space
+ * Returns unclamped values; components outside 0-1 are outside the working space gamut
+ */
+export function xyzToWorkingSpaceLinearRgb(
+  space: RgbWorkingSpace,
+  x: number,
+  y: number,
+  z: number
+): [number, number, number] {
+  return multiply(getWorkingSpaceMatrices(space).fromXyz, [x / 100, y / 100, z / 100]);
+}
+
+/**
+ * Convert XYZ (0-100, D65) to RGB (0-255) in a working space
+ * Clamps to 0-255 like xyzToRgb
+ */
+export function xyzToWorkingSpaceRgb(
+  space: RgbWorkingSpace,
+  x: number,
+  y: number,
+  z: number
+): [number, number, number] {
+  const linear = xyzToWorkingSpaceLinearRgb(space, x, y, z);
+  const encode = (v: number) =>
+    Math.max(0, Math.min(255, Math.round(space.transfer.fromLinear(v) * 255)));
+  return [encode(linear[0]), encode(linear[1]), encode(linear[2])];
+}
+
+/**
+ * Convert RGB (0-255) from one working space to another
+ */
+export function convertWorkingSpaceRgb(
+  from: RgbWorkingSpace,
+  to: RgbWorkingSpace,
+  r: number,
+  g: number,
+  b: number
+): [number, number, number] {
+  const [x, y, z] = workingSpaceRgbToXyz(from, r, g, b);
+  return xyzToWorkingSpaceRgb(to, x, y, z);
+}
+
+/**
+ * Get a working space's gamut triangle vertices in xy space (Red, Green, Blue)
+ */
+export function getWorkingSpaceGamutVertices(space: RgbWorkingSpace): Array<[number, number]> {
+  return [space.primaries.red, space.primaries.green, space.primaries.blue];
+}
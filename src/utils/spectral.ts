@@ -0,0 +1,467 @@
+/**
+ * Spectral data: spectral power distributions and reflectance curves to XYZ
+ * Uses the CIE 1931 2° or CIE 1964 10° color-matching functions. The tables are the CIE values
+ * at 10 nm from 380 to 780 nm; spectra are integrated at 5 nm with the functions interpolated
+ * (cubic) and the measured data interpolated linearly.
+ */
+
+import type { ChromaticityDiagram, ColorPoint, PresetConfig } from '../types';
+import { conversionOptions, getColorSpaceDefinition } from '../registry';
+import { rgbToHex } from '../color-channel-visualizer/valuesToHex';
+import { adaptXyz, xyToDiagram, xyToRgb, xyzToXy } from './colorConversion';
+import { daylightXy } from './colorTemperature';
+import { gamutMapXyz } from './gamutMapping';
+
+/**
+ * Standard observer: CIE 1931 2° or CIE 1964 10°
+ */
+export type StandardObserver = 2 | 10;
+
+/**
+ * Illuminants with a built-in spectrum
+ */
+export type SpectralIlluminant = 'A' | 'D50' | 'D55' | 'D65' | 'D75' | 'E';
+
+/**
+ * Spectral samples: wavelengths in nm (ascending) and the value at each
+ */
+export interface Spectrum {
+  wavelengths: number[];
+  values: number[];
+}
+
+/**
+ * A spectrum, or [wavelength, value] pairs as read from a spectrometer export
+ */
+export type SpectrumInput = Spectrum | Array<[number, number]>;
+
+export interface SpectralOptions {
+  observer?: StandardObserver; // Default 2 (CIE 1931)
+  illuminant?: SpectralIlluminant | SpectrumInput; // Light a reflectance is seen under (default 'D65')
+  luminance?: number; // Y given to an emission spectrum (default 100)
+}
+
+/**
+ * Options for turning a spectrum into a point
+ */
+export interface SpectralPointOptions extends SpectralOptions {
+  type?: 'emission' | 'reflectance'; // Default 'reflectance' when all values are within 0-1.5, else 'emission'
+  label?: string;
+}
+
+/** Start, end and step (nm) of the tables */
+const TABLE_START = 380;
+const TABLE_END = 780;
+const TABLE_STEP = 10;
+
+/** Integration step (nm) */
+const STEP = 5;
+
+/** CIE 1931 2° color-matching functions x̄, ȳ, z̄ at 380-780 nm in 10 nm steps */
+const CIE_1931_2: Array<[number, number, number]> = [
+  [0.001368, 0.000039, 0.006450],
+  [0.004243, 0.000120, 0.020050],
+  [0.014310, 0.000396, 0.067850],
+  [0.043510, 0.001210, 0.207400],
+  [0.134380, 0.004000, 0.645600],
+  [0.283900, 0.011600, 1.385600],
+  [0.348280, 0.023000, 1.747060],
+  [0.336200, 0.038000, 1.772110],
+  [0.290800, 0.060000, 1.669200],
+  [0.195360, 0.090980, 1.287640],
+  [0.095640, 0.139020, 0.812950],
+  [0.032010, 0.208020, 0.465180],
+  [0.004900, 0.323000, 0.272000],
+  [0.009300, 0.503000, 0.158200],
+  [0.063270, 0.710000, 0.078250],
+  [0.165500, 0.862000, 0.042160],
+  [0.290400, 0.954000, 0.020300],
+  [0.433450, 0.994950, 0.008750],
+  [0.594500, 0.995000, 0.003900],
+  [0.762100, 0.952000, 0.002100],
+  [0.916300, 0.870000, 0.001650],
+  [1.026300, 0.757000, 0.001100],
+  [1.062200, 0.631000, 0.000800],
+  [1.002600, 0.503000, 0.000340],
+  [0.854450, 0.381000, 0.000190],
+  [0.642400, 0.265000, 0.000050],
+  [0.447900, 0.175000, 0.000020],
+  [0.283500, 0.107000, 0],
+  [0.164900, 0.061000, 0],
+  [0.087400, 0.032000, 0],
+  [0.046770, 0.017000, 0],
+  [0.022700, 0.008210, 0],
+  [0.011359, 0.004102, 0],
+  [0.005790, 0.002091, 0],
+  [0.002899, 0.001047, 0],
+  [0.001440, 0.000520, 0],
+  [0.000690, 0.000249, 0],
+  [0.000332, 0.000120, 0],
+  [0.000166, 0.000060, 0],
+  [0.000083, 0.000030, 0],
+  [0.000042, 0.000015, 0],
+];
+
+/** CIE 1964 10° color-matching functions x̄₁₀, ȳ₁₀, z̄₁₀ at 380-780 nm in 10 nm steps */
+const CIE_1964_10: Array<[number, number, number]> = [
+  [0.000160, 0.000017, 0.000705],
+  [0.002362, 0.000253, 0.010482],
+  [0.019110, 0.002004, 0.086011],
+  [0.084736, 0.008756, 0.389366],
+  [0.204492, 0.021391, 0.972542],
+  [0.314679, 0.038676, 1.553480],
+  [0.383734, 0.062077, 1.967280],
+  [0.370702, 0.089456, 1.994800],
+  [0.302273, 0.128201, 1.745370],
+  [0.195618, 0.185190, 1.317560],
+  [0.080507, 0.253589, 0.772125],
+  [0.016172, 0.339133, 0.415254],
+  [0.003816, 0.460777, 0.218502],
+  [0.037465, 0.606741, 0.112044],
+  [0.117749, 0.761757, 0.060709],
+  [0.236491, 0.875211, 0.030451],
+  [0.376772, 0.961988, 0.013676],
+  [0.529826, 0.991761, 0.003988],
+  [0.705224, 0.997340, 0],
+  [0.878655, 0.955552, 0],
+  [1.014160, 0.868934, 0],
+  [1.118520, 0.777405, 0],
+  [1.123990, 0.658341, 0],
+  [1.030480, 0.527963, 0],
+  [0.856297, 0.398057, 0],
+  [0.647467, 0.283493, 0],
+  [0.431567, 0.179828, 0],
+  [0.268329, 0.107633, 0],
+  [0.152568, 0.060281, 0],
+  [0.081261, 0.031800, 0],
+  [0.040851, 0.015905, 0],
+  [0.019941, 0.007749, 0],
+  [0.009577, 0.003718, 0],
+  [0.004553, 0.001768, 0],
+  [0.002175, 0.000846, 0],
+  [0.001045, 0.000407, 0],
+  [0.000508, 0.000199, 0],
+  [0.000251, 0.000098, 0],
+  [0.000126, 0.000050, 0],
+  [0.000065, 0.000025, 0],
+  [0.000033, 0.000013, 0],
+];
+
+/** CIE daylight basis functions S0, S1, S2 at 380-780 nm in 10 nm steps */
+const DAYLIGHT_BASIS: Array<[number, number, number]> = [
+  [63.4, 38.5, 3.0],
+  [65.8, 35.0, 1.2],
+  [94.8, 43.4, -1.1],
+  [104.8, 46.3, -0.5],
+  [105.9, 43.9, -0.7],
+  [96.8, 37.1, -1.2],
+  [113.9, 36.7, -2.6],
+  [125.6, 35.9, -2.9],
+  [125.5, 32.6, -2.8],
+  [121.3, 27.9, -2.6],
+  [121.3, 24.3, -2.6],
+  [113.5, 20.1, -1.8],
+  [113.1, 16.2, -1.5],
+  [110.8, 13.2, -1.3],
+  [106.5, 8.6, -1.2],
+  [108.8, 6.1, -1.0],
+  [105.3, 4.2, -0.5],
+  [104.4, 1.9, -0.3],
+  [100.0, 0.0, 0.0],
+  [96.0, -1.6, 0.2],
+  [95.1, -3.5, 0.5],
+  [89.1, -3.5, 2.1],
+  [90.5, -5.8, 3.2],
+  [90.3, -7.2, 4.1],
+  [88.4, -8.6, 4.7],
+  [84.0, -9.5, 5.1],
+  [85.1, -10.9, 6.7],
+  [81.9, -10.7, 7.3],
+  [82.6, -12.0, 8.6],
+  [84.9, -14.0, 9.8],
+  [81.3, -13.6, 10.2],
+  [71.9, -12.0, 8.3],
+  [74.3, -13.3, 9.6],
+  [76.4, -12.9, 8.5],
+  [63.3, -10.6, 7.0],
+  [71.7, -11.6, 7.6],
+  [77.0, -12.2, 8.0],
+  [65.2, -10.2, 6.7],
+  [47.7, -7.8, 5.2],
+  [68.6, -11.2, 7.4],
+  [65.0, -10.4, 6.8],
+];
+
+/** Correlated color temperatures of the D illuminants (nominal temperature × 1.4388 / 1.438) */
+const DAYLIGHT_CCT: Record<'D50' | 'D55' | 'D65' | 'D75', number> = {
+  D50: 5003,
+  D55: 5503,
+  D65: 6504,
+  D75: 7504,
+};
+
+const tableWavelengths = (): number[] =>
+  Array.from({ length: (TABLE_END - TABLE_START) / TABLE_STEP + 1 }, (_, i) => TABLE_START + i * TABLE_STEP);
+
+/** Integration wavelengths */
+const WAVELENGTHS = Array.from({ length: (TABLE_END - TABLE_START) / STEP + 1 }, (_, i) => TABLE_START + i * STEP);
+
+/** Color-matching functions at the integration wavelengths, per observer */
+const cmfCache = new Map<StandardObserver, Array<[number, number, number]>>();
+
+/**
+ * Cubic (Catmull-Rom) interpolation of a 10 nm table column; 0 outside the table
+ */
+function interpolateTable(table: Array<[number, number, number]>, column: number, wavelength: number): number {
+  const position = (wavelength - TABLE_START) / TABLE_STEP;
+  if (position < 0 || position > table.length - 1) return 0;
+  const i = Math.min(table.length - 2, Math.floor(position));
+  const t = position - i;
+  const p1 = table[i][column];
+  const p2 = table[i + 1][column];
+  const p0 = i > 0 ? table[i - 1][column] : 2 * p1 - p2;
+  const p3 = i + 2 < table.length ? table[i + 2][column] : 2 * p2 - p1;
+  const value =
+    0.5 * (2 * p1 + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (-p0 + 3 * p1 - 3 * p2 + p3) * t * t * t);
+  return Math.max(0, value);
+}
+
+function getCmfSamples(observer: StandardObserver): Array<[number, number, number]> {
+  let samples = cmfCache.get(observer);
+  if (!samples) {
+    const table = observer === 10 ? CIE_1964_10 : CIE_1931_2;
+    samples = WAVELENGTHS.map((wavelength) => [
+      interpolateTable(table, 0, wavelength),
+      interpolateTable(table, 1, wavelength),
+      interpolateTable(table, 2, wavelength),
+    ]);
+    cmfCache.set(observer, samples);
+  }
+  return samples;
+}
+
+/**
+ * Color-matching functions of an observer at 5 nm steps (380-780 nm)
+ */
+export function getColorMatchingFunctions(observer: StandardObserver = 2): {
+  wavelengths: number[];
+  x: number[];
+  y: number[];
+  z: number[];
+} {
+  const samples = getCmfSamples(observer);
+  return {
+    wavelengths: [...WAVELENGTHS],
+    x: samples.map((s) => s[0]),
+    y: samples.map((s) => s[1]),
+    z: samples.map((s) => s[2]),
+  };
+}
+
+/**
+ * Normalize spectrum input to ascending wavelengths
+ */
+export function toSpectrum(input: SpectrumInput): Spectrum {
+  const pairs: Array<[number, number]> = Array.isArray(input)
+    ? input.map(([wavelength, value]) => [wavelength, value])
+    : input.wavelengths.map((wavelength, i) => [wavelength, input.values[i]]);
+  if (!Array.isArray(input) && input.wavelengths.length !== input.values.length) {
+    throw new Error('Spectrum wavelengths and values must have the same length.');
+  }
+  const valid = pairs.filter(([wavelength, value]) => Number.isFinite(wavelength) && Number.isFinite(value));
+  valid.sort((a, b) => a[0] - b[0]);
+  return { wavelengths: valid.map((pair) => pair[0]), values: valid.map((pair) => pair[1]) };
+}
+
+/**
+ * Value of a spectrum at a wavelength (linear interpolation); outside the measured range the
+ * nearest value is used, or 0 when clampEnds is false
+ */
+export function sampleSpectrum(spectrum: Spectrum, wavelength: number, clampEnds: boolean = true): number {
+  const { wavelengths, values } = spectrum;
+  const n = wavelengths.length;
+  if (n === 0) return 0;
+  if (wavelength <= wavelengths[0]) return wavelength === wavelengths[0] || clampEnds ? values[0] : 0;
+  if (wavelength >= wavelengths[n - 1]) return wavelength === wavelengths[n - 1] || clampEnds ? values[n - 1] : 0;
+  // Binary search for the interval
+  let lo = 0;
+  let hi = n - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (wavelengths[mid] <= wavelength) lo = mid;
+    else hi = mid;
+  }
+  const t = (wavelength - wavelengths[lo]) / (wavelengths[hi] - wavelengths[lo]);
+  return values[lo] + (values[hi] - values[lo]) * t;
+}
+
+/**
+ * CIE daylight spectrum for a correlated color temperature (4000-25000 K), 100 at 560 nm
+ */
+export function daylightSpectrum(cct: number): Spectrum {
+  const [x, y] = daylightXy(cct);
+  const m = 0.0241 + 0.2562 * x - 0.7341 * y;
+  // CIE rounds M1 and M2 to three decimals
+  const m1 = Math.round(((-1.3515 - 1.7703 * x + 5.9114 * y) / m) * 1000) / 1000;
+  const m2 = Math.round(((0.03 - 31.4424 * x + 30.0717 * y) / m) * 1000) / 1000;
+  return {
+    wavelengths: tableWavelengths(),
+    values: DAYLIGHT_BASIS.map(([s0, s1, s2]) => s0 + m1 * s1 + m2 * s2),
+  };
+}
+
+/**
+ * Planck blackbody spectrum at a temperature (K), 100 at 560 nm
+ */
+export function blackbodySpectrum(temperature: number): Spectrum {
+  const c2 = 1.4388e-2; // Second radiation constant (m·K)
+  const planck = (wavelength: number) =>
+    1 / (Math.pow(wavelength * 1e-9, 5) * (Math.exp(c2 / (wavelength * 1e-9 * temperature)) - 1));
+  const reference = planck(560);
+  return { wavelengths: [...WAVELENGTHS], values: WAVELENGTHS.map((w) => (100 * planck(w)) / reference) };
+}
+
+/**
+ * Spectrum of a standard illuminant (A is computed with the CIE radiation constant it was defined with)
+ */
+export function getIlluminantSpectrum(illuminant: SpectralIlluminant): Spectrum {
+  switch (illuminant) {
+    case 'A': {
+      const c2 = 1.435e7; // nm·K
+      const values = WAVELENGTHS.map(
+        (w) => 100 * Math.pow(560 / w, 5) * ((Math.exp(c2 / (2848 * 560)) - 1) / (Math.exp(c2 / (2848 * w)) - 1))
+      );
+      return { wavelengths: [...WAVELENGTHS], values };
+    }
+    case 'E':
+      return { wavelengths: [...WAVELENGTHS], values: WAVELENGTHS.map(() => 100) };
+    case 'D50':
+    case 'D55':
+    case 'D65':
+    case 'D75':
+      return daylightSpectrum(DAYLIGHT_CCT[illuminant]);
+    default:
+      throw new Error(`Unknown illuminant: ${illuminant}`);
+  }
+}
+
+/**
+ * Weighted sums Σ S(λ)·x̄, Σ S(λ)·ȳ, Σ S(λ)·z̄ over the integration wavelengths
+ */
+function integrate(
+  weight: (wavelength: number) => number,
+  observer: StandardObserver
+): [number, number, number] {
+  const cmf = getCmfSamples(observer);
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  WAVELENGTHS.forEach((wavelength, i) => {
+    const w = weight(wavelength);
+    x += w * cmf[i][0];
+    y += w * cmf[i][1];
+    z += w * cmf[i][2];
+  });
+  return [x * STEP, y * STEP, z * STEP];
+}
+
+function resolveIlluminant(illuminant: SpectralIlluminant | SpectrumInput = 'D65'): Spectrum {
+  return typeof illuminant === 'string' ? getIlluminantSpectrum(illuminant) : toSpectrum(illuminant);
+}
+
+/**
+ * XYZ of a light source from its spectral power distribution, scaled to Y = options.luminance
+ * (default 100); only the relative shape of the spectrum matters
+ */
+export function emissionToXyz(spd: SpectrumInput, options: SpectralOptions = {}): [number, number, number] {
+  const spectrum = toSpectrum(spd);
+  const [x, y, z] = integrate((w) => sampleSpectrum(spectrum, w, false), options.observer ?? 2);
+  if (y <= 0) return [0, 0, 0];
+  const k = (options.luminance ?? 100) / y;
+  return [x * k, y * k, z * k];
+}
+
+/**
+ * XYZ of a surface from its reflectance (0-1) under an illuminant (default D65)
+ * The perfect white has Y = 100; values are relative to the illuminant's white (see spectralWhiteXyz)
+ */
+export function reflectanceToXyz(reflectance: SpectrumInput, options: SpectralOptions = {}): [number, number, number] {
+  const spectrum = toSpectrum(reflectance);
+  const illuminant = resolveIlluminant(options.illuminant);
+  const observer = options.observer ?? 2;
+  const [, yn] = integrate((w) => sampleSpectrum(illuminant, w, false), observer);
+  if (yn <= 0) return [0, 0, 0];
+  const [x, y, z] = integrate((w) => sampleSpectrum(illuminant, w, false) * sampleSpectrum(spectrum, w), observer);
+  const k = 100 / yn;
+  return [x * k, y * k, z * k];
+}
+
+/**
+ * XYZ (Y = 100) of an illuminant's white for an observer, e.g. D65 10° ≈ [94.81, 100, 107.32]
+ */
+export function spectralWhiteXyz(
+  illuminant: SpectralIlluminant | SpectrumInput = 'D65',
+  observer: StandardObserver = 2
+): [number, number, number] {
+  return emissionToXyz(resolveIlluminant(illuminant), { observer });
+}
+
+/**
+ * Turn a spectrum into a point in the preset's color space
+ * Emission spectra are plotted as they are; reflectances are adapted from the illuminant's white
+ * to D65 (Bradford), so that a neutral sample lands on the neutral axis.
+ */
+export function spectrumToColorPoint(
+  spectrum: SpectrumInput,
+  preset: PresetConfig,
+  options: SpectralPointOptions = {}
+): ColorPoint | null {
+  const definition = getColorSpaceDefinition(preset.colorSpace.name);
+  const data = toSpectrum(spectrum);
+  if (!definition || data.wavelengths.length === 0) return null;
+
+  const type = options.type ?? (data.values.every((v) => v >= 0 && v <= 1.5) ? 'reflectance' : 'emission');
+  let xyz: [number, number, number];
+  if (type === 'reflectance') {
+    const [x, y, z] = reflectanceToXyz(data, options);
+    const white = spectralWhiteXyz(options.illuminant, options.observer ?? 2);
+    xyz = adaptXyz(x, y, z, xyzToXy(...white), 'D65');
+  } else {
+    xyz = emissionToXyz(data, options);
+  }
+
+  const conversion = conversionOptions(preset);
+  return {
+    values: definition.fromXyz(xyz, conversion),
+    color: rgbToHex(...gamutMapXyz(xyz)),
+    ...(options.label ? { label: options.label } : {}),
+  };
+}
+
+/**
+ * Chromaticity of monochromatic light (the spectral locus) for an observer, 380-780 nm at 5 nm
+ */
+export function getObserverLocus(
+  observer: StandardObserver = 2,
+  diagram: ChromaticityDiagram = 'xy'
+): Array<[number, number]> {
+  return getCmfSamples(observer)
+    .filter(([x, y, z]) => x + y + z > 0)
+    .map(([x, y, z]) => xyToDiagram(xyzToXy(x, y, z), diagram));
+}
+
+/**
+ * Display color of a wavelength for charts: the vivid approximation of its chromaticity
+ * (as in the CIE background), dimmed toward the ends of the visible range
+ */
+export function wavelengthToRgb(wavelength: number): [number, number, number] {
+  const w = Math.min(TABLE_END, Math.max(TABLE_START, wavelength));
+  const table = CIE_1931_2;
+  const x = interpolateTable(table, 0, w);
+  const y = interpolateTable(table, 1, w);
+  const z = interpolateTable(table, 2, w);
+  const sum = x + y + z;
+  const [r, g, b] = sum > 0 ? xyToRgb(x / sum, y / sum) : [0, 0, 0];
+  const fade = w < 420 ? 0.3 + (0.7 * (w - 380)) / 40 : w > 700 ? 0.3 + (0.7 * (780 - w)) / 80 : 1;
+  return [Math.round(r * fade), Math.round(g * fade), Math.round(b * fade)];
+}
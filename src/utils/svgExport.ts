@@ -0,0 +1,242 @@
+/**
+ * Konva stage to SVG serialization
+ * Rects, circles, lines, polygons, wedges, paths and text become SVG elements, so diagrams
+ * (spectral locus, gamut triangles, axes, markers) stay vector. Nodes that have no vector
+ * equivalent (images, custom sceneFunc shapes, groups flagged with exportAsImage) are
+ * embedded as raster images at their position.
+ */
+
+import Konva from 'konva';
+
+export interface SvgExportOptions {
+  background?: string | null; // Fill behind the drawing; null/undefined for transparent
+  pixelRatio?: number; // Resolution of embedded raster images (default 2)
+}
+
+/**
+ * Serialize every visible layer of a stage into an SVG document
+ */
+export function stageToSvg(stage: Konva.Stage, options: SvgExportOptions = {}): string {
+  const width = stage.width();
+  const height = stage.height();
+  const context: SerializeContext = { defs: [], nextId: 0, pixelRatio: options.pixelRatio ?? 2 };
+
+  const body: string[] = [];
+  if (options.background) {
+    body.push(`<rect width="${width}" height="${height}" fill="${escapeXml(options.background)}"/>`);
+  }
+  stage.getLayers().forEach((layer) => {
+    if (layer.isVisible()) {
+      serializeChildren(layer, context, body);
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+      `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    context.defs.length > 0 ? `<defs>${context.defs.join('')}</defs>` : '',
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
+
+interface SerializeContext {
+  defs: string[];
+  nextId: number;
+  pixelRatio: number;
+}
+
+function serializeChildren(container: Konva.Container, context: SerializeContext, out: string[]): void {
+  container.getChildren().forEach((node) => {
+    if (!node.isVisible() || node.getAbsoluteOpacity() === 0) return;
+
+    if (node.getAttr('exportAsImage')) {
+      out.push(rasterize(node, context));
+    } else if (node instanceof Konva.Group) {
+      serializeChildren(node, context, out);
+    } else if (node instanceof Konva.Shape) {
+      out.push(serializeShape(node, context) ?? rasterize(node, context));
+    }
+  });
+}
+
+/**
+ * SVG markup for a shape, or null when it has no vector equivalent
+ */
+function serializeShape(shape: Konva.Shape, context: SerializeContext): string | null {
+  if (shape instanceof Konva.Image || shape.getAttr('sceneFunc')) return null;
+  if (shape.fillPatternImage() || shape.fillRadialGradientColorStops()) return null;
+
+  const style = shapeStyle(shape, context);
+  if (style === null) return '';
+  const attributes = `${style} transform="${transformOf(shape)}"`;
+
+  if (shape instanceof Konva.Rect) {
+    const radius = typeof shape.cornerRadius() === 'number' ? shape.cornerRadius() : 0;
+    return `<rect width="${fmt(shape.width())}" height="${fmt(shape.height())}"` +
+      (radius ? ` rx="${fmt(radius as number)}"` : '') + ` ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Circle) {
+    return `<circle r="${fmt(shape.radius())}" ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Ellipse) {
+    return `<ellipse rx="${fmt(shape.radiusX())}" ry="${fmt(shape.radiusY())}" ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Line) {
+    const points = shape.points();
+    const pairs: string[] = [];
+    for (let i = 0; i + 1 < points.length; i += 2) {
+      pairs.push(`${fmt(points[i])},${fmt(points[i + 1])}`);
+    }
+    const closed = shape.closed();
+    // Open lines are never filled on canvas
+    const lineAttributes = closed ? attributes : attributes.replace(/fill="[^"]*"/, 'fill="none"');
+    return `<${closed ? 'polygon' : 'polyline'} points="${pairs.join(' ')}" ${lineAttributes}/>`;
+  }
+  if (shape instanceof Konva.RegularPolygon) {
+    const sides = shape.sides();
+    const radius = shape.radius();
+    const pairs: string[] = [];
+    for (let i = 0; i < sides; i++) {
+      const angle = (i * 2 * Math.PI) / sides;
+      pairs.push(`${fmt(radius * Math.sin(angle))},${fmt(-radius * Math.cos(angle))}`);
+    }
+    return `<polygon points="${pairs.join(' ')}" ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Wedge) {
+    return `<path d="${wedgePath(shape.radius(), shape.angle(), shape.clockwise())}" ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Path) {
+    return `<path d="${escapeXml(shape.data())}" ${attributes}/>`;
+  }
+  if (shape instanceof Konva.Text) {
+    return serializeText(shape, attributes);
+  }
+  return null;
+}
+
+/**
+ * Fill, stroke and opacity attributes; null when the shape draws nothing
+ */
+function shapeStyle(shape: Konva.Shape, context: SerializeContext): string | null {
+  let fill = 'none';
+  const gradientStops = shape.fillLinearGradientColorStops();
+  if (gradientStops && gradientStops.length >= 2) {
+    fill = `url(#${linearGradient(shape, gradientStops, context)})`;
+  } else if (shape.fill() && shape.fillEnabled()) {
+    fill = escapeXml(String(shape.fill()));
+  }
+
+  const strokeWidth = shape.strokeWidth();
+  const hasStroke = !!shape.stroke() && shape.strokeEnabled() && strokeWidth > 0;
+  if ((fill === 'none' || isTransparent(fill)) && !hasStroke) {
+    return null;
+  }
+
+  const parts = [`fill="${fill}"`];
+  if (hasStroke) {
+    parts.push(`stroke="${escapeXml(String(shape.stroke()))}"`, `stroke-width="${fmt(strokeWidth)}"`);
+    const dash = shape.dash();
+    if (dash && dash.length > 0 && shape.dashEnabled()) {
+      parts.push(`stroke-dasharray="${dash.map(fmt).join(' ')}"`);
+    }
+    if (shape.lineCap()) parts.push(`stroke-linecap="${shape.lineCap()}"`);
+    if (shape.lineJoin()) parts.push(`stroke-linejoin="${shape.lineJoin()}"`);
+    // Konva keeps stroke width in screen pixels by default
+    if (shape.strokeScaleEnabled() === false) parts.push('vector-effect="non-scaling-stroke"');
+  }
+  const opacity = shape.getAbsoluteOpacity();
+  if (opacity < 1) {
+    parts.push(`opacity="${fmt(opacity)}"`);
+  }
+  return parts.join(' ');
+}
+
+function linearGradient(shape: Konva.Shape, stops: Array<number | string>, context: SerializeContext): string {
+  const id = `gradient${context.nextId++}`;
+  const start = shape.fillLinearGradientStartPoint() || { x: 0, y: 0 };
+  const end = shape.fillLinearGradientEndPoint() || { x: 0, y: 0 };
+  const stopMarkup: string[] = [];
+  for (let i = 0; i + 1 < stops.length; i += 2) {
+    stopMarkup.push(`<stop offset="${fmt(Number(stops[i]))}" stop-color="${escapeXml(String(stops[i + 1]))}"/>`);
+  }
+  context.defs.push(
+    `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" ` +
+      `x1="${fmt(start.x)}" y1="${fmt(start.y)}" x2="${fmt(end.x)}" y2="${fmt(end.y)}">` +
+      `${stopMarkup.join('')}</linearGradient>`
+  );
+  return id;
+}
+
+/**
+ * Konva wedges start at angle 0 and sweep `angle` degrees (clockwise on screen unless clockwise is set)
+ */
+function wedgePath(radius: number, angle: number, clockwise: boolean): string {
+  const radians = (angle * Math.PI) / 180;
+  const sweep = clockwise ? 2 * Math.PI - radians : radians;
+  if (sweep >= 2 * Math.PI - 1e-9) {
+    // Full circle: two half arcs
+    return `M${fmt(radius)},0 A${fmt(radius)},${fmt(radius)} 0 1 1 ${fmt(-radius)},0 ` +
+      `A${fmt(radius)},${fmt(radius)} 0 1 1 ${fmt(radius)},0 Z`;
+  }
+  const endX = radius * Math.cos(radians);
+  const endY = radius * Math.sin(radians);
+  return `M0,0 L${fmt(radius)},0 A${fmt(radius)},${fmt(radius)} 0 ${sweep > Math.PI ? 1 : 0} ` +
+    `${clockwise ? 0 : 1} ${fmt(endX)},${fmt(endY)} Z`;
+}
+
+function serializeText(text: Konva.Text, attributes: string): string {
+  const fontSize = text.fontSize();
+  const lineHeight = fontSize * text.lineHeight();
+  const padding = text.padding();
+  const width = text.width();
+  const lines = text.textArr;
+  const align = text.align();
+
+  const spans = lines.map((line, i) => {
+    const x = align === 'center'
+      ? (width - line.width) / 2
+      : align === 'right'
+        ? width - line.width - padding
+        : padding;
+    const y = padding + lineHeight * (i + 0.5);
+    return `<tspan x="${fmt(x)}" y="${fmt(y)}">${escapeXml(line.text)}</tspan>`;
+  });
+
+  const fontStyle = text.fontStyle();
+  const weight = fontStyle.includes('bold') ? ' font-weight="bold"' : '';
+  const italic = fontStyle.includes('italic') ? ' font-style="italic"' : '';
+  return `<text font-family="${escapeXml(text.fontFamily())}" font-size="${fmt(fontSize)}"${weight}${italic} ` +
+    `dominant-baseline="central" ${attributes}>${spans.join('')}</text>`;
+}
+
+/**
+ * Embed a node as a raster image at its on-stage position
+ */
+function rasterize(node: Konva.Node, context: SerializeContext): string {
+  const rect = node.getClientRect();
+  if (rect.width <= 0 || rect.height <= 0) return '';
+  const url = node.toDataURL({ ...rect, pixelRatio: context.pixelRatio });
+  return `<image x="${fmt(rect.x)}" y="${fmt(rect.y)}" width="${fmt(rect.width)}" height="${fmt(rect.height)}" ` +
+    `preserveAspectRatio="none" href="${url}" xlink:href="${url}"/>`;
+}
+
+function transformOf(node: Konva.Node): string {
+  return `matrix(${node.getAbsoluteTransform().getMatrix().map(fmt).join(' ')})`;
+}
+
+function isTransparent(color: string): boolean {
+  return color === 'transparent' || /^rgba\(.*,\s*0(\.0+)?\s*\)$/.test(color);
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
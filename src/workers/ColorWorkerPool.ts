@@ -0,0 +1,166 @@
+/**
+ * Pool of Web Workers for heavy color work (batch conversions, image binning and palettes,
+ * the CIE background grid), so large datasets do not block the main thread.
+ * Without Worker support tasks run synchronously and still resolve as promises.
+ */
+
+import ColorWorker from './colorWorker?worker&inline';
+import type { BatchConversion, BatchOptions, ChromaticityGridOptions } from '../utils/batchConversion';
+import type { ImageSamplingOptions, PaletteOptions, PixelBin } from '../utils/imagePalette';
+import type { ColorPoint } from '../types';
+import {
+  ColorWorkerRequest,
+  ColorWorkerResponse,
+  ColorWorkerResults,
+  ColorWorkerTask,
+  runColorWorkerTask,
+} from '../utils/colorWorkerTasks';
+
+export interface ColorWorkerPoolOptions {
+  size?: number; // Number of workers (default: logical cores - 1, between 1 and 4)
+  createWorker?: () => Worker; // Worker factory (default: the bundled color worker)
+}
+
+interface QueuedTask {
+  request: ColorWorkerRequest;
+  transfer: Transferable[];
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+export class ColorWorkerPool {
+  private size: number;
+  private createWorker: () => Worker;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: QueuedTask[] = [];
+  private running = new Map<Worker, QueuedTask>();
+  private nextId = 1;
+  private destroyed = false;
+
+  constructor(options: ColorWorkerPoolOptions = {}) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    this.size = Math.max(1, Math.round(options.size ?? Math.min(4, Math.max(1, cores - 1))));
+    this.createWorker = options.createWorker ?? (() => new ColorWorker());
+  }
+
+  /**
+   * Whether tasks run in workers (false: synchronously on the main thread)
+   */
+  get supported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Run a task; transfer lists buffers to move into the worker instead of copying
+   * (they become unusable on this thread)
+   */
+  run<K extends ColorWorkerTask['type']>(
+    task: Extract<ColorWorkerTask, { type: K }>,
+    transfer: Transferable[] = []
+  ): Promise<ColorWorkerResults[K]> {
+    if (this.destroyed) {
+      return Promise.reject(new Error('ColorWorkerPool has been destroyed.'));
+    }
+    if (!this.supported) {
+      try {
+        return Promise.resolve(runColorWorkerTask(task) as ColorWorkerResults[K]);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request: { id: this.nextId++, task }, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Batch-convert a buffer (see convertBatch); the input is copied, not transferred
+   */
+  convert(
+    conversion: BatchConversion,
+    input: ArrayLike<number>,
+    options?: BatchOptions
+  ): Promise<Float32Array | Uint8ClampedArray> {
+    return this.run({ type: 'convert', conversion, input, options });
+  }
+
+  /**
+   * Reduce RGBA pixel data (e.g. ImageData.data) to weighted bins (see binImagePixels)
+   */
+  binPixels(pixels: ArrayLike<number>, options?: ImageSamplingOptions): Promise<PixelBin[]> {
+    return this.run({ type: 'bin', pixels, options });
+  }
+
+  /**
+   * Extract a palette from RGBA pixel data (see extractPalette)
+   */
+  extractPalette(pixels: ArrayLike<number>, options?: PaletteOptions): Promise<ColorPoint[]> {
+    return this.run({ type: 'palette', pixels, options });
+  }
+
+  /**
+   * RGBA pixels of the CIEBackground grid (see chromaticityGridPixels)
+   */
+  chromaticityGrid(options: ChromaticityGridOptions): Promise<Uint8ClampedArray> {
+    return this.run({ type: 'chromaticityGrid', options });
+  }
+
+  /**
+   * Terminate the workers; queued and running tasks are rejected
+   */
+  destroy(): void {
+    this.destroyed = true;
+    const error = new Error('ColorWorkerPool has been destroyed.');
+    this.queue.forEach((task) => task.reject(error));
+    this.running.forEach((task) => task.reject(error));
+    this.queue = [];
+    this.running.clear();
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+  }
+
+  /**
+   * Hand queued tasks to idle workers, starting workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      if (this.idle.length === 0 && this.workers.length < this.size) {
+        this.idle.push(this.spawn());
+      }
+      const worker = this.idle.pop();
+      if (!worker) return;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request, task.transfer);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker();
+    worker.onmessage = (event: MessageEvent<ColorWorkerResponse>) => {
+      const task = this.running.get(worker);
+      if (!task || task.request.id !== event.data.id) return;
+      this.running.delete(worker);
+      if (event.data.error !== undefined) task.reject(new Error(event.data.error));
+      else task.resolve(event.data.result);
+      this.idle.push(worker);
+      this.dispatch();
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      // The worker failed outside a task (e.g. it could not load): drop it and fail its task
+      event.preventDefault();
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.workers = this.workers.filter((w) => w !== worker);
+      this.idle = this.idle.filter((w) => w !== worker);
+      worker.terminate();
+      task?.reject(new Error(event.message || 'Color worker failed.'));
+      this.dispatch();
+    };
+    this.workers.push(worker);
+    return worker;
+  }
+}
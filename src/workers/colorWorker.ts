@@ -0,0 +1,22 @@
+/**
+ * Color worker entry point (see ColorWorkerPool)
+ * Runs one task per message and posts the result back under the same id.
+ */
+
+import { ColorWorkerRequest, ColorWorkerResponse, getTransferables, runColorWorkerTask } from '../utils/colorWorkerTasks';
+
+// Typed by hand: the DOM lib types self as a Window
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ColorWorkerRequest>) => void) | null;
+  postMessage: (message: ColorWorkerResponse, transfer: Transferable[]) => void;
+};
+
+scope.onmessage = (event) => {
+  const { id, task } = event.data;
+  try {
+    const result = runColorWorkerTask(task);
+    scope.postMessage({ id, result }, getTransferables(result));
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) }, []);
+  }
+};